@@ -6,9 +6,10 @@
  * - SettingsProfile for the Apple Account-style profile card
  * - SettingsGroup/SettingsRow for all settings sections
  * - Exact same bg-background/bg-surface pattern
+ * - Organization and admin groups only for roles that allow them
  */
 
-import { View, ScrollView } from "react-native";
+import { Linking, View, ScrollView } from "react-native";
 import { Link, useRouter } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
@@ -24,6 +25,9 @@ import {
 import { useTheme } from "@/hooks/useTheme";
 import { useHaptics } from "@/hooks/useHaptics";
 import { useAppColorScheme } from "@/hooks/useAppColorScheme";
+import { usePermissions } from "@/hooks/usePermissions";
+import { groupManagementLinks } from "@/lib/permissions";
+import { webUrl } from "@/lib/web-api";
 
 export default function ProfileTab() {
     const { colors } = useTheme();
@@ -31,6 +35,8 @@ export default function ProfileTab() {
     const haptics = useHaptics();
     const router = useRouter();
     const { isDark, toggleColorScheme } = useAppColorScheme();
+    const { can } = usePermissions();
+    const management = groupManagementLinks(can);
 
     return (
         <View className="flex-1 bg-background">
@@ -106,6 +112,15 @@ export default function ProfileTab() {
 
                 {/* Account */}
                 <SettingsGroup header="Account">
+                    <SettingsRow
+                        label="Sign In"
+                        icon="log-in"
+                        iconColor="#5856D6"
+                        onPress={() => {
+                            haptics.light();
+                            router.push("/sign-in");
+                        }}
+                    />
                     <SettingsRow
                         label="Edit Profile"
                         icon="person"
@@ -116,7 +131,10 @@ export default function ProfileTab() {
                         label="Security"
                         icon="shield-checkmark"
                         iconColor="#34C759"
-                        onPress={() => haptics.light()}
+                        onPress={() => {
+                            haptics.light();
+                            router.push("/mfa/setup");
+                        }}
                     />
                     <SettingsRow
                         label="Privacy"
@@ -127,6 +145,25 @@ export default function ProfileTab() {
                     />
                 </SettingsGroup>
 
+                {/* Organization and admin pages, for roles that may use them */}
+                {management.map(({ group, links }) => (
+                    <SettingsGroup key={group} header={group}>
+                        {links.map((link, index) => (
+                            <SettingsRow
+                                key={link.path}
+                                label={link.label}
+                                icon={link.icon}
+                                iconColor="#007AFF"
+                                onPress={() => {
+                                    haptics.light();
+                                    Linking.openURL(webUrl(link.path));
+                                }}
+                                isLast={index === links.length - 1}
+                            />
+                        ))}
+                    </SettingsGroup>
+                ))}
+
                 {/* Support */}
                 <SettingsGroup header="Support">
                     <SettingsRow
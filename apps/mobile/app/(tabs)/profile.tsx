@@ -1,11 +1,12 @@
 /**
  * Profile Tab
  *
- * User profile and settings screen.
+ * User profile and settings screen. Organization and admin pages of the
+ * web app are listed for users whose roles allow them (`usePermissions`).
  */
 
-import { View } from "react-native";
-import { Link } from "expo-router";
+import { Linking, View } from "react-native";
+import { Link, router } from "expo-router";
 import {
   Text,
   Card,
@@ -18,9 +19,14 @@ import {
 } from "@/components/ui";
 import { HeaderLayout } from "@/components/layouts";
 import { useTheme } from "@/hooks/useTheme";
+import { usePermissions } from "@/hooks/usePermissions";
+import { groupManagementLinks } from "@/lib/permissions";
+import { webUrl } from "@/lib/web-api";
 
 export default function ProfileTab() {
   const { isDark, toggleColorScheme } = useTheme();
+  const { can } = usePermissions();
+  const management = groupManagementLinks(can);
 
   return (
     <HeaderLayout
@@ -111,6 +117,11 @@ export default function ProfileTab() {
         </ListSection>
 
         <ListSection title="Account" className="mb-6">
+          <ListItem
+            title="Sign In"
+            leftIcon="log-in"
+            onPress={() => router.push("/sign-in")}
+          />
           <ListItem
             title="Edit Profile"
             leftIcon="person"
@@ -119,7 +130,7 @@ export default function ProfileTab() {
           <ListItem
             title="Security"
             leftIcon="shield-checkmark"
-            onPress={() => {}}
+            onPress={() => router.push("/mfa/setup")}
           />
           <ListItem
             title="Privacy"
@@ -129,6 +140,21 @@ export default function ProfileTab() {
           />
         </ListSection>
 
+        {/* Organization and admin pages, for roles that may use them */}
+        {management.map(({ group, links }) => (
+          <ListSection key={group} title={group} className="mb-6">
+            {links.map((link, index) => (
+              <ListItem
+                key={link.path}
+                title={link.label}
+                leftIcon={link.icon}
+                onPress={() => Linking.openURL(webUrl(link.path))}
+                showSeparator={index < links.length - 1}
+              />
+            ))}
+          </ListSection>
+        ))}
+
         <ListSection title="Support" className="mb-6">
           <ListItem
             title="Help Center"
@@ -0,0 +1,70 @@
+/**
+ * Auth Callback Screen
+ *
+ * Opened by the `matrx://auth/callback` deep link that OAuth providers
+ * and emailed sign-in links return to. Exchanges the code for a session,
+ * then continues to the tabs, or first to two-factor verification or
+ * setup when the account needs it.
+ */
+
+import { useEffect, useState } from "react";
+import { ActivityIndicator, View } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { Text, Button } from "@/components/ui";
+import { ScreenLayout } from "@/components/layouts";
+import { useTheme } from "@/hooks/useTheme";
+import { completeSignIn, type AuthCallbackParams } from "@/lib/auth";
+import { nextMfaStep } from "@/lib/mfa";
+
+export default function AuthCallbackScreen() {
+  const { code, error, error_description } = useLocalSearchParams<
+    Required<AuthCallbackParams>
+  >();
+  const { colors } = useTheme();
+  const [failure, setFailure] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    completeSignIn({ code, error, error_description })
+      .then(nextMfaStep)
+      .then((step) => {
+        if (cancelled) return;
+        if (step === "verify") router.replace("/mfa/verify");
+        else if (step === "enroll") router.replace("/mfa/setup");
+        else router.replace("/(tabs)");
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setFailure(err instanceof Error ? err.message : "Sign-in failed");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, error, error_description]);
+
+  return (
+    <ScreenLayout>
+      <View className="flex-1 items-center justify-center gap-4 px-6">
+        {failure ? (
+          <>
+            <Text variant="h4">Sign-in failed</Text>
+            <Text variant="body" color="secondary" className="text-center">
+              {failure}
+            </Text>
+            <Button onPress={() => router.replace("/sign-in")}>Try again</Button>
+          </>
+        ) : (
+          <>
+            <ActivityIndicator color={colors.primary.DEFAULT} />
+            <Text variant="body" color="secondary">
+              Signing you in…
+            </Text>
+          </>
+        )}
+      </View>
+    </ScreenLayout>
+  );
+}
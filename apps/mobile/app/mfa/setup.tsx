@@ -0,0 +1,193 @@
+/**
+ * Two-factor Setup Screen
+ *
+ * Opened from Profile → Security, or after signing in when an
+ * organization requires MFA. Sets up an authenticator app and shows the
+ * recovery codes once; when MFA is already on, shows its status and
+ * replaces the recovery codes.
+ */
+
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Linking, View } from "react-native";
+import { router } from "expo-router";
+import type { MfaStatus } from "@matrx/shared";
+import { Text, Card, Input, Button } from "@/components/ui";
+import { HeaderLayout } from "@/components/layouts";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  completeEnrollment,
+  getMfaStatus,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  type TotpEnrollment,
+} from "@/lib/mfa";
+
+export default function MfaSetupScreen() {
+  const { colors } = useTheme();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getMfaStatus()
+      .then(async (current) => {
+        if (cancelled) return;
+        if (current.enrolled && !current.verified) {
+          router.replace("/mfa/verify");
+          return;
+        }
+        setStatus(current);
+        if (!current.enrolled) {
+          const started = await startEnrollment();
+          if (!cancelled) setEnrollment(started);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Failed to load two-factor settings"
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<string[]>) => {
+    setPending(true);
+    setError(null);
+    try {
+      setCodes(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const required = (status?.requiredBy.length ?? 0) > 0;
+
+  return (
+    <HeaderLayout
+      header={{
+        title: "Two-Factor Authentication",
+        showBackButton: !required || status?.enrolled === true,
+      }}
+    >
+      <View className="px-4 py-4 gap-4">
+        {error && (
+          <Card variant="outlined">
+            <Text variant="bodySmall" color="error">
+              {error}
+            </Text>
+          </Card>
+        )}
+
+        {codes ? (
+          <>
+            <Card variant="outlined">
+              <View className="gap-3">
+                <Text variant="bodySmall" color="warning">
+                  Save these recovery codes somewhere safe. Each one works once,
+                  and they are not shown again.
+                </Text>
+                <View className="flex-row flex-wrap gap-2">
+                  {codes.map((recoveryCode) => (
+                    <Text
+                      key={recoveryCode}
+                      variant="body"
+                      className="w-[48%] font-mono"
+                    >
+                      {recoveryCode}
+                    </Text>
+                  ))}
+                </View>
+              </View>
+            </Card>
+            <Button fullWidth onPress={() => router.replace("/(tabs)")}>
+              I saved my recovery codes
+            </Button>
+          </>
+        ) : status?.enrolled ? (
+          <Card variant="outlined">
+            <View className="gap-4">
+              <Text variant="body">
+                Two-factor authentication is on.{" "}
+                {`${status.recoveryCodesRemaining ?? 0} recovery codes left.`}
+              </Text>
+              {required && (
+                <Text variant="bodySmall" color="secondary">
+                  {`Required by ${status.requiredBy.join(", ")}.`}
+                </Text>
+              )}
+              <Button
+                variant="outline"
+                fullWidth
+                loading={pending}
+                onPress={() => run(regenerateRecoveryCodes)}
+              >
+                New recovery codes
+              </Button>
+            </View>
+          </Card>
+        ) : enrollment ? (
+          <Card variant="outlined">
+            <View className="gap-4">
+              <Text variant="body" color="secondary">
+                {required
+                  ? `${status?.requiredBy.join(", ")} requires two-factor authentication. `
+                  : ""}
+                Add this account to an authenticator app, such as 1Password,
+                Google Authenticator or Authy, then enter the code it shows.
+              </Text>
+              <Button
+                variant="outline"
+                fullWidth
+                onPress={() => Linking.openURL(enrollment.uri)}
+              >
+                Open authenticator app
+              </Button>
+              <View className="gap-1">
+                <Text variant="caption" color="muted">
+                  Or enter this key:
+                </Text>
+                <Text variant="body" selectable className="font-mono">
+                  {enrollment.secret}
+                </Text>
+              </View>
+              <Input
+                label="Authentication code"
+                placeholder="123456"
+                keyboardType="number-pad"
+                textContentType="oneTimeCode"
+                maxLength={6}
+                value={code}
+                onChangeText={setCode}
+              />
+              <Button
+                fullWidth
+                loading={pending}
+                onPress={() =>
+                  run(() => completeEnrollment(enrollment.factorId, code))
+                }
+              >
+                Verify
+              </Button>
+            </View>
+          </Card>
+        ) : (
+          !error && <ActivityIndicator color={colors.primary.DEFAULT} />
+        )}
+      </View>
+    </HeaderLayout>
+  );
+}
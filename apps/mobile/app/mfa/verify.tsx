@@ -0,0 +1,122 @@
+/**
+ * Two-factor Verification Screen
+ *
+ * Shown after signing in when the account has an authenticator app.
+ * A recovery code is the fallback for a lost device: it turns MFA off
+ * and signs out, so the user signs in again and sets up a new one.
+ */
+
+import { useState } from "react";
+import { View } from "react-native";
+import { router } from "expo-router";
+import { Text, Card, Input, Button } from "@/components/ui";
+import { HeaderLayout } from "@/components/layouts";
+import { redeemRecoveryCode, verifyCode } from "@/lib/mfa";
+
+export default function MfaVerifyScreen() {
+  const [code, setCode] = useState("");
+  const [recoveryMode, setRecoveryMode] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reset, setReset] = useState(false);
+
+  const submit = async () => {
+    setPending(true);
+    setError(null);
+    try {
+      if (recoveryMode) {
+        await redeemRecoveryCode(code);
+        setReset(true);
+      } else {
+        await verifyCode(code);
+        router.replace("/(tabs)");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <HeaderLayout
+      header={{
+        title: "Two-Factor Authentication",
+        showBackButton: false,
+      }}
+    >
+      <View className="px-4 py-4 gap-4">
+        {error && (
+          <Card variant="outlined">
+            <Text variant="bodySmall" color="error">
+              {error}
+            </Text>
+          </Card>
+        )}
+
+        {reset ? (
+          <>
+            <Card variant="outlined">
+              <Text variant="bodySmall" color="success">
+                Two-factor authentication is off and you were signed out
+                everywhere. Sign in again to set it up on your new device.
+              </Text>
+            </Card>
+            <Button fullWidth onPress={() => router.replace("/sign-in")}>
+              Sign in
+            </Button>
+          </>
+        ) : (
+          <Card variant="outlined">
+            <View className="gap-4">
+              <Text variant="body" color="secondary">
+                {recoveryMode
+                  ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+                  : "Enter the code from your authenticator app to continue."}
+              </Text>
+              {recoveryMode ? (
+                <Input
+                  key="recovery"
+                  label="Recovery code"
+                  placeholder="XXXXX-XXXXX"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  value={code}
+                  onChangeText={setCode}
+                />
+              ) : (
+                <Input
+                  key="totp"
+                  label="Authentication code"
+                  placeholder="123456"
+                  keyboardType="number-pad"
+                  textContentType="oneTimeCode"
+                  maxLength={6}
+                  value={code}
+                  onChangeText={setCode}
+                />
+              )}
+              <Button fullWidth loading={pending} onPress={submit}>
+                {recoveryMode ? "Use recovery code" : "Verify"}
+              </Button>
+              <Button
+                variant="ghost"
+                fullWidth
+                disabled={pending}
+                onPress={() => {
+                  setRecoveryMode(!recoveryMode);
+                  setCode("");
+                  setError(null);
+                }}
+              >
+                {recoveryMode
+                  ? "Use authenticator app"
+                  : "Lost your authenticator app?"}
+              </Button>
+            </View>
+          </Card>
+        )}
+      </View>
+    </HeaderLayout>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Sign-in Screen
+ *
+ * Emailed sign-in links and OAuth providers, as configured in
+ * lib/auth.ts. Both finish in app/auth/callback.tsx.
+ */
+
+import { useState } from "react";
+import { View } from "react-native";
+import { OAUTH_PROVIDERS, type OAuthProvider } from "@matrx/shared";
+import { Text, Card, Input, Button, Divider } from "@/components/ui";
+import { HeaderLayout } from "@/components/layouts";
+import { authMethods, sendMagicLink, signInWithProvider } from "@/lib/auth";
+
+export default function SignInScreen() {
+  const [email, setEmail] = useState("");
+  const [pending, setPending] = useState<"email" | OAuthProvider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  const run = async (key: "email" | OAuthProvider, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+      if (key === "email") setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const hasMethods = authMethods.magicLink || authMethods.oauth.length > 0;
+
+  return (
+    <HeaderLayout
+      header={{
+        title: "Sign In",
+        showBackButton: true,
+      }}
+    >
+      <View className="px-4 py-4 gap-4">
+        {error && (
+          <Card variant="outlined">
+            <Text variant="bodySmall" color="error">
+              {error}
+            </Text>
+          </Card>
+        )}
+
+        {sent && (
+          <Card variant="outlined">
+            <Text variant="bodySmall" color="success">
+              Check your email for a sign-in link. Open it on this device.
+            </Text>
+          </Card>
+        )}
+
+        {authMethods.magicLink && (
+          <Card variant="outlined">
+            <View className="gap-4">
+              <Input
+                label="Email"
+                placeholder="you@company.com"
+                type="email"
+                leftIcon="mail"
+                value={email}
+                onChangeText={setEmail}
+              />
+              <Button
+                fullWidth
+                loading={pending === "email"}
+                disabled={pending !== null}
+                onPress={() => run("email", () => sendMagicLink(email))}
+              >
+                Email me a sign-in link
+              </Button>
+            </View>
+          </Card>
+        )}
+
+        {authMethods.magicLink && authMethods.oauth.length > 0 && <Divider />}
+
+        {authMethods.oauth.map((provider) => (
+          <Button
+            key={provider}
+            variant="outline"
+            fullWidth
+            loading={pending === provider}
+            disabled={pending !== null}
+            onPress={() => run(provider, () => signInWithProvider(provider))}
+          >
+            {`Continue with ${OAUTH_PROVIDERS[provider].label}`}
+          </Button>
+        ))}
+
+        {!hasMethods && (
+          <Text variant="body" color="secondary">
+            No sign-in methods are configured. Set EXPO_PUBLIC_AUTH_MAGIC_LINK
+            or EXPO_PUBLIC_AUTH_OAUTH_PROVIDERS.
+          </Text>
+        )}
+      </View>
+    </HeaderLayout>
+  );
+}
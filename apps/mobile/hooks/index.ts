@@ -9,3 +9,6 @@ export { useTheme } from "./useTheme";
 // Animation & interaction
 export { useAnimatedPress, type UseAnimatedPressConfig } from "./useAnimatedPress";
 export { useHaptics } from "./useHaptics";
+
+// Access
+export { usePermissions } from "./usePermissions";
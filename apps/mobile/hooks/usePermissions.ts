@@ -0,0 +1,69 @@
+/**
+ * Permissions of the signed-in user
+ *
+ * Loads GET /api/permissions for the active organization and reloads it
+ * when the user signs in or out. `can` answers false while signed out or
+ * loading, so gated UI only appears once the roles are known.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { Permission, UserPermissions } from "@matrx/shared";
+import { supabase } from "@/lib/api/supabase";
+import { getPermissions, hasPermission } from "@/lib/permissions";
+
+interface UsePermissionsReturn {
+  /** Roles and permissions, or null while signed out or loading */
+  permissions: UserPermissions | null;
+  /** Whether the user holds `permission`, via the shared `can()` */
+  can: (permission: Permission) => boolean;
+}
+
+/**
+ * @example
+ * ```tsx
+ * const { can } = usePermissions();
+ *
+ * {can("billing.manage") && <ListItem title="Billing" ... />}
+ * ```
+ */
+export function usePermissions(): UsePermissionsReturn {
+  const [permissions, setPermissions] = useState<UserPermissions | null>(null);
+
+  useEffect(() => {
+    if (!supabase) return;
+    let cancelled = false;
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "TOKEN_REFRESHED") return;
+      if (!session) {
+        setPermissions(null);
+        return;
+      }
+
+      // Supabase calls made inside this callback wait for it to return
+      setTimeout(() => {
+        getPermissions()
+          .then((granted) => {
+            if (!cancelled) setPermissions(granted);
+          })
+          .catch(() => {
+            if (!cancelled) setPermissions(null);
+          });
+      }, 0);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const canDo = useCallback(
+    (permission: Permission) => hasPermission(permissions, permission),
+    [permissions]
+  );
+
+  return { permissions, can: canDo };
+}
@@ -4,9 +4,7 @@
  * Supabase integration with performance-optimized patterns.
  *
  * SETUP REQUIRED:
- * 1. pnpm add @supabase/supabase-js
- * 2. Create .env with Supabase credentials
- * 3. Generate database types
+ * 1. Create .env with Supabase credentials
  *
  * See docs/BACKEND_INTEGRATION.md for complete setup guide.
  */
@@ -0,0 +1,80 @@
+import * as Linking from "expo-linking";
+import {
+  describeAuthError,
+  emailSchema,
+  resolveAuthMethods,
+  type OAuthProvider,
+} from "@matrx/shared";
+import { supabase } from "./api/supabase";
+
+/**
+ * Mobile Sign-in
+ *
+ * The same methods as the web app: emailed sign-in links and the OAuth
+ * providers configured with EXPO_PUBLIC_AUTH_* env vars. Both return
+ * to the app through the `matrx://auth/callback` deep link
+ * (app/auth/callback.tsx), where `completeSignIn` exchanges the code for
+ * a session. The PKCE verifier stays on this device, so a link must be
+ * opened on the device that requested it.
+ *
+ * Add AUTH_CALLBACK_URL to the Supabase project's allowed redirect URLs.
+ */
+
+export const AUTH_CALLBACK_URL = Linking.createURL("auth/callback");
+
+// Expo inlines only direct `process.env.EXPO_PUBLIC_*` references
+export const authMethods = resolveAuthMethods({
+  EXPO_PUBLIC_AUTH_MAGIC_LINK: process.env.EXPO_PUBLIC_AUTH_MAGIC_LINK,
+  EXPO_PUBLIC_AUTH_OAUTH_PROVIDERS: process.env.EXPO_PUBLIC_AUTH_OAUTH_PROVIDERS,
+});
+
+/** Parameters the callback deep link may carry */
+export interface AuthCallbackParams {
+  code?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/** The Supabase client, or a setup error when it is not configured */
+export function requireClient() {
+  if (!supabase) {
+    throw new Error(
+      "Supabase is not configured. Set EXPO_PUBLIC_SUPABASE_URL and EXPO_PUBLIC_SUPABASE_ANON_KEY."
+    );
+  }
+  return supabase;
+}
+
+/** Open the provider's sign-in page in the browser */
+export async function signInWithProvider(provider: OAuthProvider): Promise<void> {
+  const { data, error } = await requireClient().auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: AUTH_CALLBACK_URL, skipBrowserRedirect: true },
+  });
+  if (error) throw error;
+  await Linking.openURL(data.url);
+}
+
+/** Email a sign-in link that opens the app */
+export async function sendMagicLink(email: string): Promise<void> {
+  const parsed = emailSchema.safeParse(email);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "Enter a valid email address");
+  }
+
+  const { error } = await requireClient().auth.signInWithOtp({
+    email: parsed.data,
+    options: { emailRedirectTo: AUTH_CALLBACK_URL },
+  });
+  if (error) throw error;
+}
+
+/** Finish a sign-in from the callback deep link's parameters */
+export async function completeSignIn(params: AuthCallbackParams): Promise<void> {
+  const providerError = params.error_description ?? params.error;
+  if (providerError) throw new Error(describeAuthError(providerError));
+  if (!params.code) throw new Error("This sign-in link is invalid or has expired.");
+
+  const { error } = await requireClient().auth.exchangeCodeForSession(params.code);
+  if (error) throw new Error(describeAuthError(error.message));
+}
@@ -0,0 +1,129 @@
+import {
+  API_ROUTES,
+  APP_NAME,
+  recoveryCodeSchema,
+  totpCodeSchema,
+  type MfaStatus,
+} from "@matrx/shared";
+import { requireClient } from "./auth";
+import { webApi } from "./web-api";
+
+/**
+ * Mobile Two-factor Authentication
+ *
+ * TOTP factors are enrolled and verified with Supabase directly; the
+ * status, recovery codes and recovery go through the web API at
+ * EXPO_PUBLIC_API_URL, which keeps the codes hashed server-side. After
+ * signing in, `nextMfaStep` tells app/auth/callback.tsx whether to show
+ * app/mfa/verify.tsx or app/mfa/setup.tsx before the tabs.
+ */
+
+export type MfaStep = "verify" | "enroll";
+
+export interface TotpEnrollment {
+  factorId: string;
+  secret: string;
+  /** otpauth:// URI that authenticator apps open */
+  uri: string;
+}
+
+/** Whether a factor is set up, verified and required, and codes left */
+export function getMfaStatus(): Promise<MfaStatus> {
+  return webApi<MfaStatus>(API_ROUTES.MFA_STATUS);
+}
+
+/** The screen the signed-in user must pass before the app, if any */
+export async function nextMfaStep(): Promise<MfaStep | null> {
+  const { data, error } =
+    await requireClient().auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  if (data.currentLevel === "aal2") return null;
+  if (data.nextLevel === "aal2") return "verify";
+
+  const status = await getMfaStatus();
+  return status.requiredBy.length > 0 ? "enroll" : null;
+}
+
+/** Start a TOTP enrollment, discarding any unfinished one */
+export async function startEnrollment(): Promise<TotpEnrollment> {
+  const client = requireClient();
+
+  const { data: factors, error: listError } =
+    await client.auth.mfa.listFactors();
+  if (listError) throw listError;
+  for (const factor of factors.all) {
+    if (factor.factor_type === "totp" && factor.status === "unverified") {
+      await client.auth.mfa.unenroll({ factorId: factor.id });
+    }
+  }
+
+  const { data, error } = await client.auth.mfa.enroll({
+    factorType: "totp",
+    issuer: APP_NAME,
+    friendlyName: "Authenticator app",
+  });
+  if (error) throw error;
+  return { factorId: data.id, secret: data.totp.secret, uri: data.totp.uri };
+}
+
+/** Verify the first code from the app and return new recovery codes */
+export async function completeEnrollment(
+  factorId: string,
+  code: string
+): Promise<string[]> {
+  await verifyFactor(factorId, code);
+  return regenerateRecoveryCodes();
+}
+
+/** Verify the signed-in session with the authenticator app's code */
+export async function verifyCode(code: string): Promise<void> {
+  const { data, error } = await requireClient().auth.mfa.listFactors();
+  if (error) throw error;
+  const factor = data.totp[0];
+  if (!factor) throw new Error("Set up two-factor authentication first.");
+  await verifyFactor(factor.id, code);
+}
+
+/** Replace the recovery codes; shown once, stored only as hashes */
+export async function regenerateRecoveryCodes(): Promise<string[]> {
+  const { codes } = await webApi<{ codes: string[] }>(
+    API_ROUTES.MFA_RECOVERY_CODES,
+    { method: "POST" }
+  );
+  return codes;
+}
+
+/**
+ * Use a recovery code for a lost device. Turns two-factor
+ * authentication off and signs out everywhere; sign in again to set up
+ * a new factor.
+ */
+export async function redeemRecoveryCode(code: string): Promise<void> {
+  const parsed = recoveryCodeSchema.safeParse(code);
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues[0]?.message ?? "Enter a valid recovery code"
+    );
+  }
+
+  await webApi<{ reset: true }>(API_ROUTES.MFA_RECOVER, {
+    method: "POST",
+    body: JSON.stringify({ code: parsed.data }),
+  });
+  await requireClient().auth.signOut({ scope: "local" });
+}
+
+async function verifyFactor(factorId: string, code: string): Promise<void> {
+  const parsed = totpCodeSchema.safeParse(code);
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues[0]?.message ?? "Enter the 6-digit code"
+    );
+  }
+
+  const { error } = await requireClient().auth.mfa.challengeAndVerify({
+    factorId,
+    code: parsed.data,
+  });
+  if (error) throw new Error("That code is incorrect or has expired.");
+}
@@ -0,0 +1,104 @@
+import type { Ionicons } from "@expo/vector-icons";
+import {
+  API_ROUTES,
+  can,
+  type Permission,
+  type UserPermissions,
+} from "@matrx/shared";
+import { webApi } from "./web-api";
+
+/**
+ * Mobile Permissions
+ *
+ * The signed-in user's platform role and their role in an organization
+ * (the active one unless given) come from GET /api/permissions and are
+ * checked with the shared `can()`, the same model as the web app's
+ * server components and API routes. Hiding UI here is a convenience; the
+ * server checks every request again.
+ */
+
+export function getPermissions(
+  organizationId?: string
+): Promise<UserPermissions> {
+  const query = organizationId
+    ? `?organizationId=${encodeURIComponent(organizationId)}`
+    : "";
+  return webApi<UserPermissions>(`${API_ROUTES.PERMISSIONS}${query}`);
+}
+
+/** Whether the loaded roles grant `permission`; false until loaded */
+export function hasPermission(
+  granted: UserPermissions | null,
+  permission: Permission
+): boolean {
+  if (!granted) return false;
+  return can({ role: granted.role }, permission, {
+    role: granted.organizationRole,
+  });
+}
+
+/** A web app page the profile screens link to for those allowed to use it */
+export interface ManagementLink {
+  group: "Organization" | "Administration";
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  path: string;
+  permission: Permission;
+}
+
+export const MANAGEMENT_LINKS: readonly ManagementLink[] = [
+  {
+    group: "Organization",
+    label: "Team",
+    icon: "people",
+    path: "/team",
+    permission: "members.manage",
+  },
+  {
+    group: "Organization",
+    label: "Billing",
+    icon: "card",
+    path: "/billing",
+    permission: "billing.manage",
+  },
+  {
+    group: "Administration",
+    label: "Admin Dashboard",
+    icon: "speedometer",
+    path: "/admin",
+    permission: "admin.access",
+  },
+  {
+    group: "Administration",
+    label: "Error Reports",
+    icon: "bug",
+    path: "/admin/errors",
+    permission: "errors.view",
+  },
+  {
+    group: "Administration",
+    label: "Workflow Reviews",
+    icon: "checkmark-done",
+    path: "/admin/reviews",
+    permission: "workflows.review",
+  },
+];
+
+export interface ManagementGroup {
+  group: ManagementLink["group"];
+  links: ManagementLink[];
+}
+
+/** The links `allowed` lets through, by group; empty groups are left out */
+export function groupManagementLinks(
+  allowed: (permission: Permission) => boolean
+): ManagementGroup[] {
+  const groups: ManagementGroup[] = [];
+  for (const link of MANAGEMENT_LINKS) {
+    if (!allowed(link.permission)) continue;
+    const existing = groups.find((entry) => entry.group === link.group);
+    if (existing) existing.links.push(link);
+    else groups.push({ group: link.group, links: [link] });
+  }
+  return groups;
+}
@@ -0,0 +1,44 @@
+import type { ApiResponse } from "@matrx/shared";
+import { requireClient } from "./auth";
+
+/**
+ * Web App API
+ *
+ * Requests to the web app at EXPO_PUBLIC_API_URL, signed with the
+ * current session's access token. Errors in the `ApiResponse` envelope
+ * are thrown with their message.
+ */
+
+function webAppUrl(): string {
+  const apiUrl = process.env.EXPO_PUBLIC_API_URL;
+  if (!apiUrl) throw new Error("EXPO_PUBLIC_API_URL is not configured.");
+  return apiUrl;
+}
+
+/** A page of the web app, for management the app links out to */
+export function webUrl(path: string): string {
+  return `${webAppUrl()}${path}`;
+}
+
+export async function webApi<T>(
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const apiUrl = webAppUrl();
+
+  const { data: sessionData } = await requireClient().auth.getSession();
+  const token = sessionData.session?.access_token;
+  if (!token) throw new Error("Sign in to continue.");
+
+  const response = await fetch(`${apiUrl}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+      ...init.headers,
+    },
+  });
+  const body = (await response.json()) as ApiResponse<T>;
+  if (body.error) throw new Error(body.error.message);
+  return body.data as T;
+}
@@ -0,0 +1,214 @@
+import type { Metadata } from "next";
+import { loadReview } from "@/lib/ai/workflows";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { reviewWorkflowExecution } from "../actions";
+
+export const metadata: Metadata = {
+  title: "Review",
+};
+
+/**
+ * Load a workflow execution and its pending reviews, or null if it
+ * does not exist or cannot be loaded.
+ */
+async function getReview(id: string) {
+  try {
+    return await loadReview(createAdminClient(), id);
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value ?? null, null, 2);
+}
+
+function BackLink() {
+  return (
+    <a
+      href="/admin/reviews"
+      className="inline-flex items-center gap-1 text-sm text-foreground-secondary hover:text-foreground"
+    >
+      <svg
+        className="h-4 w-4"
+        fill="none"
+        viewBox="0 0 24 24"
+        strokeWidth={1.5}
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M10.5 19.5 3 12m0 0 7.5-7.5M3 12h18"
+        />
+      </svg>
+      Back to Reviews
+    </a>
+  );
+}
+
+/**
+ * Workflow Review Detail Page
+ *
+ * Server Component showing the input of each paused `human_review` node,
+ * with a form to approve (optionally editing the output) or reject it.
+ */
+export default async function ReviewDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { id } = await params;
+  const query = await searchParams;
+  const errorMessage = typeof query.error === "string" ? query.error : null;
+  const review = await getReview(id);
+
+  if (!review) {
+    return (
+      <div className="flex flex-col gap-6">
+        <BackLink />
+        <div className="flex flex-col items-center justify-center py-12">
+          <p className="text-sm text-foreground-muted">
+            Workflow execution not found.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { execution, workflow, pending } = review;
+  const isWaiting = execution.status === "waiting_for_review";
+
+  return (
+    <div className="flex flex-col gap-6">
+      <BackLink />
+
+      {/* Header */}
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold text-foreground">{workflow.name}</h1>
+        <p className="text-sm text-foreground-secondary">
+          Execution <span className="font-mono">{execution.id}</span> ·
+          started {formatDateTime(execution.started_at)} · {execution.trigger_type}
+        </p>
+      </div>
+
+      {errorMessage && (
+        <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+          <p className="text-sm font-medium text-error">{errorMessage}</p>
+        </div>
+      )}
+
+      {!isWaiting && (
+        <div className="rounded-lg border border-border bg-background-secondary px-4 py-3">
+          <p className="text-sm text-foreground-secondary">
+            This execution is no longer waiting for review (status:{" "}
+            {execution.status}).
+          </p>
+        </div>
+      )}
+
+      {/* Execution inputs */}
+      <div className="rounded-xl border border-border bg-surface p-6">
+        <h2 className="text-lg font-semibold text-foreground">Run Inputs</h2>
+        <pre className="mt-4 overflow-x-auto rounded-lg bg-background-secondary p-4 font-mono text-xs text-foreground-secondary">
+          {formatJson(execution.inputs)}
+        </pre>
+      </div>
+
+      {/* Pending review steps */}
+      {isWaiting &&
+        pending.map((item) => {
+          const input = formatJson(item.row.input);
+
+          return (
+            <form
+              key={item.node.id}
+              action={reviewWorkflowExecution}
+              className="flex flex-col gap-4 rounded-xl border border-border bg-surface p-6"
+            >
+              <input type="hidden" name="executionId" value={execution.id} />
+              <input type="hidden" name="nodeId" value={item.node.id} />
+              <input type="hidden" name="original" value={input} />
+
+              <div>
+                <h2 className="text-lg font-semibold text-foreground">
+                  {item.node.label || item.node.id}
+                </h2>
+                {item.instructions && (
+                  <p className="mt-1 text-sm text-foreground-secondary">
+                    {item.instructions}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+                  Node Input
+                </p>
+                <pre className="mt-2 overflow-x-auto rounded-lg bg-background-secondary p-4 font-mono text-xs text-foreground-secondary">
+                  {input}
+                </pre>
+              </div>
+
+              {item.allowEdit && (
+                <label className="flex flex-col gap-2">
+                  <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+                    Output (JSON)
+                  </span>
+                  <textarea
+                    name="output"
+                    defaultValue={input}
+                    rows={10}
+                    className="rounded-lg border border-border bg-background px-3 py-2 font-mono text-xs text-foreground"
+                  />
+                </label>
+              )}
+
+              <label className="flex flex-col gap-2">
+                <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+                  Comment
+                </span>
+                <input
+                  type="text"
+                  name="comment"
+                  placeholder="Optional note for the audit log"
+                  className="rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground"
+                />
+              </label>
+
+              <div className="flex items-center gap-2">
+                <button
+                  type="submit"
+                  name="decision"
+                  value="approve"
+                  className="rounded-lg bg-success-light px-4 py-2 text-sm font-medium text-success transition-colors hover:bg-success hover:text-on-success"
+                >
+                  Approve
+                </button>
+                <button
+                  type="submit"
+                  name="decision"
+                  value="reject"
+                  className="rounded-lg bg-error-light px-4 py-2 text-sm font-medium text-error transition-colors hover:bg-error hover:text-on-error"
+                >
+                  Reject
+                </button>
+              </div>
+            </form>
+          );
+        })}
+    </div>
+  );
+}
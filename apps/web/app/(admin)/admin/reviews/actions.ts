@@ -0,0 +1,64 @@
+"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { submitReview } from "@/lib/ai/workflows";
+import { requirePermission } from "@/lib/auth/session";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * Approve or reject a paused workflow review from the admin queue.
+ *
+ * The output textarea is only treated as an edit when its contents differ
+ * from the node input it was pre-filled with.
+ */
+export async function reviewWorkflowExecution(formData: FormData) {
+  const user = await requirePermission("workflows.review");
+
+  const executionId = String(formData.get("executionId") ?? "");
+  const nodeId = String(formData.get("nodeId") ?? "");
+  const decision = formData.get("decision");
+  const comment = String(formData.get("comment") ?? "");
+  const rawOutput = formData.get("output");
+  const original = String(formData.get("original") ?? "");
+
+  const detailUrl = `/admin/reviews/${executionId}`;
+
+  if (decision !== "approve" && decision !== "reject") {
+    redirect(`${detailUrl}?error=${encodeURIComponent("Choose approve or reject")}`);
+  }
+
+  let output: unknown;
+  if (decision === "approve" && typeof rawOutput === "string" && rawOutput.trim() !== original.trim()) {
+    try {
+      output = JSON.parse(rawOutput);
+    } catch {
+      redirect(`${detailUrl}?error=${encodeURIComponent("Output must be valid JSON")}`);
+    }
+  }
+
+  const requestHeaders = await headers();
+  let failure: string | null = null;
+
+  try {
+    await submitReview(
+      createAdminClient(),
+      executionId,
+      { nodeId: nodeId || undefined, decision, output, comment },
+      {
+        id: user.id,
+        email: user.email ?? null,
+        userAgent: requestHeaders.get("user-agent"),
+        ipAddress: requestHeaders.get("x-forwarded-for")?.split(",")[0]?.trim() ?? null,
+      }
+    );
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Failed to submit review";
+  }
+
+  if (failure) {
+    redirect(`${detailUrl}?error=${encodeURIComponent(failure)}`);
+  }
+
+  redirect(`/admin/reviews?reviewed=${encodeURIComponent(executionId)}`);
+}
@@ -0,0 +1,191 @@
+import type { Metadata } from "next";
+import { getWorkflowExecutions } from "@matrx/supabase";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+export const metadata: Metadata = {
+  title: "Reviews",
+};
+
+interface ReviewQueueRow {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  triggerType: string;
+  startedAt: string;
+}
+
+/**
+ * Fetch workflow executions paused on a human review step.
+ *
+ * Uses the service-role client so reviewers see runs from every workspace.
+ * Returns null when the queue cannot be loaded (e.g. Supabase not configured).
+ */
+async function getReviewQueue(): Promise<ReviewQueueRow[] | null> {
+  try {
+    const admin = createAdminClient();
+
+    const { data, error } = await getWorkflowExecutions(admin, {
+      status: "waiting_for_review",
+      perPage: 50,
+    });
+
+    if (error || !data) {
+      return null;
+    }
+
+    const workflowIds = [...new Set(data.map((row) => row.workflow_id))];
+    const names = new Map<string, string>();
+
+    if (workflowIds.length > 0) {
+      const { data: workflows } = await admin
+        .from("ai_integrations")
+        .select("id, name")
+        .in("id", workflowIds);
+
+      for (const workflow of workflows ?? []) {
+        names.set(workflow.id, workflow.name);
+      }
+    }
+
+    return data.map((row) => ({
+      id: row.id,
+      workflowId: row.workflow_id,
+      workflowName: names.get(row.workflow_id) ?? "Unknown workflow",
+      triggerType: row.trigger_type,
+      startedAt: row.started_at,
+    }));
+  } catch {
+    return null;
+  }
+}
+
+function formatRelativeTime(dateString: string): string {
+  const now = new Date();
+  const date = new Date(dateString);
+  const diffMs = now.getTime() - date.getTime();
+  const diffMinutes = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMinutes < 1) return "just now";
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 30) return `${diffDays}d ago`;
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Workflow Review Queue Page
+ *
+ * Server Component listing workflow runs waiting for a reviewer.
+ */
+export default async function ReviewsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const reviewed = typeof params.reviewed === "string" ? params.reviewed : null;
+  const queue = await getReviewQueue();
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Page heading */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Reviews</h1>
+          <p className="mt-1 text-foreground-secondary">
+            Workflow runs paused for human review.
+          </p>
+        </div>
+        {queue && (
+          <span className="text-sm text-foreground-muted">
+            {queue.length} pending review{queue.length !== 1 ? "s" : ""}
+          </span>
+        )}
+      </div>
+
+      {reviewed && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            Review submitted. The workflow run has resumed.
+          </p>
+        </div>
+      )}
+
+      {!queue && (
+        <div className="rounded-lg border border-border bg-warning-light px-4 py-3">
+          <p className="text-sm font-medium text-warning">
+            The review queue could not be loaded.
+          </p>
+          <p className="mt-1 text-xs text-foreground-secondary">
+            Configure Supabase (including the service role key) to review
+            workflow runs.
+          </p>
+        </div>
+      )}
+
+      {queue && (
+        <div className="overflow-hidden rounded-xl border border-border bg-surface">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border bg-background-secondary">
+                  <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                    Workflow
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                    Execution
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                    Trigger
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                    Started
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {queue.map((row) => (
+                  <tr
+                    key={row.id}
+                    className="transition-colors hover:bg-background-secondary"
+                  >
+                    <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-foreground">
+                      <a
+                        href={`/admin/reviews/${row.id}`}
+                        className="hover:text-primary hover:underline"
+                      >
+                        {row.workflowName}
+                      </a>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-foreground-secondary">
+                      {row.id.slice(0, 8)}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground-secondary">
+                      {row.triggerType}
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground-secondary">
+                      {formatRelativeTime(row.startedAt)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {queue.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12">
+              <p className="text-sm text-foreground-muted">
+                No workflow runs are waiting for review.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { updateFeatureFlagSchema } from "@matrx/shared";
+import { requirePermission } from "@/lib/auth/session";
+import { resetFeatureFlag, saveFeatureFlag, type FlagActor } from "@/lib/flags";
+
+async function flagActor(): Promise<FlagActor> {
+  const user = await requirePermission("settings.manage");
+  const requestHeaders = await headers();
+  return {
+    id: user.id,
+    email: user.email ?? null,
+    userAgent: requestHeaders.get("user-agent"),
+    ipAddress: requestHeaders.get("x-forwarded-for")?.split(",")[0]?.trim() ?? null,
+  };
+}
+
+/**
+ * Create or update a runtime feature flag from the settings page.
+ *
+ * Organization ids are entered as a comma- or whitespace-separated list.
+ */
+export async function saveFeatureFlagAction(formData: FormData) {
+  const actor = await flagActor();
+
+  const parsed = updateFeatureFlagSchema.safeParse({
+    key: String(formData.get("key") ?? "").trim(),
+    description: String(formData.get("description") ?? "").trim() || undefined,
+    enabled: formData.get("enabled") === "on",
+    rolloutPercentage: formData.get("rolloutPercentage") || 100,
+    targetRoles: formData.getAll("targetRoles").map(String),
+    targetOrganizationIds: String(formData.get("targetOrganizationIds") ?? "")
+      .split(/[\s,]+/)
+      .filter(Boolean),
+  });
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid feature flag";
+    redirect(`/admin/settings?error=${encodeURIComponent(message)}`);
+  }
+
+  let failure: string | null = null;
+  try {
+    await saveFeatureFlag(parsed.data, actor);
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Failed to save feature flag";
+  }
+
+  if (failure) {
+    redirect(`/admin/settings?error=${encodeURIComponent(failure)}`);
+  }
+
+  redirect(`/admin/settings?saved=${encodeURIComponent(parsed.data.key)}`);
+}
+
+/** Remove a flag's database rule so it follows its env var again */
+export async function resetFeatureFlagAction(formData: FormData) {
+  const actor = await flagActor();
+  const key = String(formData.get("key") ?? "");
+
+  let failure: string | null = null;
+  try {
+    await resetFeatureFlag(key, actor);
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Failed to reset feature flag";
+  }
+
+  if (failure) {
+    redirect(`/admin/settings?error=${encodeURIComponent(failure)}`);
+  }
+
+  redirect(`/admin/settings?saved=${encodeURIComponent(key)}`);
+}
@@ -1,11 +1,15 @@
 import type { Metadata } from "next";
+import { requirePermission } from "@/lib/auth/session";
 import { features } from "@/lib/features";
+import { createAdminClient } from "@/lib/supabase/admin";
 import {
   DEFAULT_FEATURES,
   FEATURE_ENV_KEYS,
   checkFeatureDependencies,
 } from "@matrx/shared";
 import type { FeatureFlags } from "@matrx/shared";
+import { getFeatureFlags, type Tables } from "@matrx/supabase";
+import { resetFeatureFlagAction, saveFeatureFlagAction } from "./actions";
 
 export const metadata: Metadata = {
   title: "Settings",
@@ -43,6 +47,31 @@ const ENV_CHECKS = [
     label: "AI API Key",
     category: "AI",
   },
+  {
+    name: "OPENAI_API_KEY",
+    label: "OpenAI API Key",
+    category: "AI",
+  },
+  {
+    name: "ANTHROPIC_API_KEY",
+    label: "Anthropic API Key",
+    category: "AI",
+  },
+  {
+    name: "GOOGLE_AI_API_KEY",
+    label: "Google AI API Key",
+    category: "AI",
+  },
+  {
+    name: "MISTRAL_API_KEY",
+    label: "Mistral API Key",
+    category: "AI",
+  },
+  {
+    name: "COHERE_API_KEY",
+    label: "Cohere API Key",
+    category: "AI",
+  },
   {
     name: "GITHUB_WEBHOOK_SECRET",
     label: "GitHub Webhook Secret",
@@ -96,6 +125,143 @@ function FeatureStatusIcon({ enabled }: { enabled: boolean }) {
   );
 }
 
+type FlagRow = Tables<"feature_flags">;
+
+const TARGET_ROLES = ["super_admin", "admin", "member", "viewer"] as const;
+
+/**
+ * Runtime flag rules by key, read directly (not from the evaluation
+ * cache) so edits show immediately. Returns null when the table cannot
+ * be read (e.g. Supabase not configured); env values apply then.
+ */
+async function getFlagRows(): Promise<Map<string, FlagRow> | null> {
+  try {
+    const { data, error } = await getFeatureFlags(createAdminClient());
+    if (error || !data) return null;
+    return new Map(data.map((row) => [row.key, row]));
+  } catch {
+    return null;
+  }
+}
+
+/** One-line summary of a runtime rule, e.g. "On · 25% · admin" */
+function describeRule(row: FlagRow): string {
+  if (!row.enabled) return "Off";
+  const parts = ["On"];
+  if (row.rollout_percentage < 100) parts.push(`${row.rollout_percentage}%`);
+  if (row.target_roles.length > 0) parts.push(row.target_roles.join(", "));
+  if (row.target_organization_ids.length > 0) {
+    const count = row.target_organization_ids.length;
+    parts.push(`${count} org${count !== 1 ? "s" : ""}`);
+  }
+  return parts.join(" · ");
+}
+
+/** Collapsible form that creates or edits a runtime rule */
+function FlagRuleEditor({
+  flagKey,
+  row,
+  fallback,
+}: {
+  flagKey?: string;
+  row?: FlagRow;
+  fallback?: boolean;
+}) {
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs font-medium text-primary">
+        {row ? "Edit rule" : flagKey ? "Add runtime rule" : "Add custom flag"}
+      </summary>
+      <div className="mt-3 flex flex-col gap-3 rounded-lg border border-border bg-background-secondary p-4">
+        <form action={saveFeatureFlagAction} className="flex flex-col gap-3">
+          {flagKey ? (
+            <input type="hidden" name="key" value={flagKey} />
+          ) : (
+            <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+              Key
+              <input
+                name="key"
+                required
+                placeholder="newCheckout"
+                className="rounded-lg border border-border bg-surface px-3 py-2 font-mono text-sm text-foreground"
+              />
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+            Description
+            <input
+              name="description"
+              defaultValue={row?.description ?? ""}
+              className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+            />
+          </label>
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                name="enabled"
+                defaultChecked={row?.enabled ?? fallback ?? true}
+              />
+              Enabled
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+              Rollout %
+              <input
+                type="number"
+                name="rolloutPercentage"
+                min={0}
+                max={100}
+                defaultValue={row?.rollout_percentage ?? 100}
+                className="w-24 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+              />
+            </label>
+          </div>
+          <fieldset className="flex flex-wrap gap-4">
+            <legend className="mb-1 text-xs font-medium text-foreground-secondary">
+              Only for roles (none = everyone)
+            </legend>
+            {TARGET_ROLES.map((role) => (
+              <label key={role} className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  name="targetRoles"
+                  value={role}
+                  defaultChecked={row?.target_roles.includes(role)}
+                />
+                {role}
+              </label>
+            ))}
+          </fieldset>
+          <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+            Only for organization IDs (comma-separated)
+            <textarea
+              name="targetOrganizationIds"
+              rows={2}
+              defaultValue={row?.target_organization_ids.join(", ") ?? ""}
+              className="rounded-lg border border-border bg-surface px-3 py-2 font-mono text-xs text-foreground"
+            />
+          </label>
+          <div>
+            <button className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark">
+              Save rule
+            </button>
+          </div>
+        </form>
+        {row && (
+          <form action={resetFeatureFlagAction}>
+            <input type="hidden" name="key" value={row.key} />
+            <button className="text-xs font-medium text-error hover:underline">
+              {row.key in DEFAULT_FEATURES
+                ? "Remove rule (use the environment variable)"
+                : "Delete flag"}
+            </button>
+          </form>
+        )}
+      </div>
+    </details>
+  );
+}
+
 function EnvStatusDot({ configured }: { configured: boolean }) {
   if (configured) {
     return (
@@ -112,10 +278,25 @@ function EnvStatusDot({ configured }: { configured: boolean }) {
  * Settings Page
  *
  * Displays feature flag status, environment variable configuration,
- * and application version information.
+ * and application version information. Feature flags can be overridden
+ * at runtime with rules stored in the database (lib/flags).
  */
-export default function SettingsPage() {
+export default async function SettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requirePermission("settings.manage");
+
+  const params = await searchParams;
+  const error = typeof params.error === "string" ? params.error : null;
+  const saved = typeof params.saved === "string" ? params.saved : null;
+
   const featureKeys = Object.keys(features) as Array<keyof FeatureFlags>;
+  const flagRows = await getFlagRows();
+  const customFlags = [...(flagRows?.values() ?? [])].filter(
+    (row) => !(row.key in DEFAULT_FEATURES)
+  );
 
   // Build env check results
   const envResults = ENV_CHECKS.map((check) => ({
@@ -153,6 +334,20 @@ export default function SettingsPage() {
         </p>
       </div>
 
+      {error && (
+        <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+          <p className="text-sm font-medium text-error">{error}</p>
+        </div>
+      )}
+
+      {saved && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            Feature flag {saved} updated.
+          </p>
+        </div>
+      )}
+
       {/* App version info */}
       <div className="rounded-xl border border-border bg-surface p-6">
         <h2 className="text-lg font-semibold text-foreground">
@@ -197,12 +392,19 @@ export default function SettingsPage() {
           </span>
         </div>
         <p className="mt-1 text-sm text-foreground-secondary">
-          Features are controlled via environment variables. Set{" "}
+          Features default to their environment variables. Set{" "}
           <code className="rounded bg-background-tertiary px-1 py-0.5 font-mono text-xs">
             NEXT_PUBLIC_FEATURE_*=true
           </code>{" "}
-          to enable.
+          to enable. A runtime rule overrides the variable without a
+          redeploy and can roll out to a share of users or target roles and
+          organizations.
         </p>
+        {!flagRows && (
+          <p className="mt-2 text-xs text-warning">
+            Runtime rules could not be loaded; environment values apply.
+          </p>
+        )}
 
         <div className="mt-4 divide-y divide-border">
           {featureKeys.map((key) => {
@@ -210,50 +412,111 @@ export default function SettingsPage() {
             const isDefault = DEFAULT_FEATURES[key] === isEnabled;
             const envKey = FEATURE_ENV_KEYS[key];
             const missingDeps = checkFeatureDependencies(key, process.env as Record<string, string | undefined>);
+            const row = flagRows?.get(key);
 
             return (
-              <div
-                key={key}
-                className="flex items-center justify-between py-3"
-              >
-                <div className="flex items-center gap-3">
-                  <FeatureStatusIcon enabled={isEnabled} />
-                  <div>
-                    <p className="text-sm font-medium text-foreground">
-                      {key}
-                    </p>
-                    <p className="text-xs text-foreground-muted">
-                      {envKey}
-                      {isDefault && (
-                        <span className="ml-2 text-foreground-muted">
-                          (default)
-                        </span>
-                      )}
-                    </p>
+              <div key={key} className="py-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <FeatureStatusIcon enabled={isEnabled} />
+                    <div>
+                      <p className="text-sm font-medium text-foreground">
+                        {key}
+                      </p>
+                      <p className="text-xs text-foreground-muted">
+                        {envKey}
+                        {isDefault && (
+                          <span className="ml-2 text-foreground-muted">
+                            (default)
+                          </span>
+                        )}
+                      </p>
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center gap-2">
-                  {missingDeps.length > 0 && isEnabled && (
-                    <span className="rounded-full bg-warning-light px-2 py-0.5 text-xs font-medium text-warning">
-                      {missingDeps.length} missing dep{missingDeps.length !== 1 ? "s" : ""}
+                  <div className="flex items-center gap-2">
+                    {missingDeps.length > 0 && isEnabled && (
+                      <span className="rounded-full bg-warning-light px-2 py-0.5 text-xs font-medium text-warning">
+                        {missingDeps.length} missing dep{missingDeps.length !== 1 ? "s" : ""}
+                      </span>
+                    )}
+                    {row && (
+                      <span className="rounded-full bg-info-light px-2 py-0.5 text-xs font-medium text-info">
+                        Rule: {describeRule(row)}
+                      </span>
+                    )}
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        isEnabled
+                          ? "bg-success-light text-success"
+                          : "bg-background-secondary text-foreground-muted"
+                      }`}
+                    >
+                      {isEnabled ? "Enabled" : "Disabled"}
                     </span>
-                  )}
-                  <span
-                    className={`rounded-full px-2 py-0.5 text-xs font-medium ${
-                      isEnabled
-                        ? "bg-success-light text-success"
-                        : "bg-background-secondary text-foreground-muted"
-                    }`}
-                  >
-                    {isEnabled ? "Enabled" : "Disabled"}
-                  </span>
+                  </div>
                 </div>
+                {flagRows && (
+                  <div className="pl-8">
+                    <FlagRuleEditor flagKey={key} row={row} fallback={isEnabled} />
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
       </div>
 
+      {/* Custom runtime flags */}
+      {flagRows && (
+        <div className="rounded-xl border border-border bg-surface p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-foreground">
+              Custom Flags
+            </h2>
+            <span className="text-sm text-foreground-muted">
+              {customFlags.length} flag{customFlags.length !== 1 ? "s" : ""}
+            </span>
+          </div>
+          <p className="mt-1 text-sm text-foreground-secondary">
+            Flags without an environment variable, checked in code with{" "}
+            <code className="rounded bg-background-tertiary px-1 py-0.5 font-mono text-xs">
+              isFlagEnabled(key, context)
+            </code>
+            . Unknown keys are off.
+          </p>
+
+          <div className="mt-4 divide-y divide-border">
+            {customFlags.map((row) => (
+              <div key={row.key} className="py-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <FeatureStatusIcon enabled={row.enabled} />
+                    <div>
+                      <p className="font-mono text-sm font-medium text-foreground">
+                        {row.key}
+                      </p>
+                      {row.description && (
+                        <p className="text-xs text-foreground-muted">
+                          {row.description}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <span className="rounded-full bg-info-light px-2 py-0.5 text-xs font-medium text-info">
+                    {describeRule(row)}
+                  </span>
+                </div>
+                <div className="pl-8">
+                  <FlagRuleEditor flagKey={row.key} row={row} />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <FlagRuleEditor />
+        </div>
+      )}
+
       {/* Environment variables */}
       <div className="rounded-xl border border-border bg-surface p-6">
         <div className="flex items-center justify-between">
@@ -4,7 +4,8 @@ import { requireAdmin } from "@/lib/auth/session";
  * Admin Layout
  *
  * Protected layout for the admin portal.
- * Requires admin role — redirects non-admins to /login.
+ * Requires the admin.access permission — redirects others to /dashboard —
+ * and an aal2 session: admins verify their second factor at /mfa first.
  * Features a left sidebar with navigation and a top header bar.
  */
 export default async function AdminLayout({
@@ -173,6 +174,26 @@ export default async function AdminLayout({
             Errors
           </a>
 
+          <a
+            href="/admin/reviews"
+            className="flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
+          >
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              strokeWidth={1.5}
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M9 12.75 11.25 15 15 9.75M21 12c0 1.268-.63 2.39-1.593 3.068a3.745 3.745 0 0 1-1.043 3.296 3.745 3.745 0 0 1-3.296 1.043A3.745 3.745 0 0 1 12 21c-1.268 0-2.39-.63-3.068-1.593a3.746 3.746 0 0 1-3.296-1.043 3.745 3.745 0 0 1-1.043-3.296A3.745 3.745 0 0 1 3 12c0-1.268.63-2.39 1.593-3.068a3.745 3.745 0 0 1 1.043-3.296 3.746 3.746 0 0 1 3.296-1.043A3.746 3.746 0 0 1 12 3c1.268 0 2.39.63 3.068 1.593a3.746 3.746 0 0 1 3.296 1.043 3.746 3.746 0 0 1 1.043 3.296A3.745 3.745 0 0 1 21 12Z"
+              />
+            </svg>
+            Reviews
+          </a>
+
           <a
             href="/admin/audit"
             className="flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
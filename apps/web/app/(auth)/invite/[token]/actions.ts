@@ -0,0 +1,58 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { acceptInvitationSchema } from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import { acceptInvitation } from "@/lib/invitations";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+} from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/** Join the invitation's organization and open its team page */
+export async function acceptInvitationAction(formData: FormData) {
+  const user = await requireAuth();
+  const parsed = acceptInvitationSchema.safeParse({
+    token: formData.get("token"),
+  });
+  if (!parsed.success) {
+    redirect(`/login?error=${encodeURIComponent("Invalid invitation link")}`);
+  }
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    const organizationId = await acceptInvitation(
+      supabase,
+      user,
+      parsed.data.token
+    );
+    (await cookies()).set(
+      ACTIVE_ORGANIZATION_COOKIE,
+      organizationId,
+      ACTIVE_ORGANIZATION_COOKIE_OPTIONS
+    );
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to accept invitation";
+  }
+
+  if (failure) {
+    redirect(
+      `/invite/${parsed.data.token}?error=${encodeURIComponent(failure)}`
+    );
+  }
+  redirect("/team");
+}
+
+/** Sign out and come back, to accept with the invited account */
+export async function switchAccountAction(formData: FormData) {
+  const parsed = acceptInvitationSchema.safeParse({
+    token: formData.get("token"),
+  });
+  const supabase = await createServerSupabaseClient();
+  await supabase.auth.signOut();
+  redirect(parsed.success ? `/invite/${parsed.data.token}` : "/login");
+}
@@ -0,0 +1,150 @@
+import type { Metadata } from "next";
+import { APP_NAME, formatDate } from "@matrx/shared";
+import { AuthForm } from "@/components/auth/AuthForm";
+import { authMethods } from "@/lib/features";
+import { signUpWithEmail } from "@/lib/auth/actions";
+import { getUser } from "@/lib/auth/session";
+import {
+  getInvitationPreview,
+  type InvitationPreview,
+} from "@/lib/invitations";
+import { acceptInvitationAction, switchAccountAction } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Invitation",
+};
+
+/** Why an invitation can no longer be accepted, or null if it can */
+function unavailableReason(preview: InvitationPreview | null): string | null {
+  if (!preview || preview.invitation.status === "revoked") {
+    return "This invitation link is invalid or has been withdrawn.";
+  }
+  if (preview.invitation.status === "accepted") {
+    return "This invitation has already been accepted.";
+  }
+  if (preview.invitation.expired) {
+    return "This invitation has expired. Ask the person who invited you to send a new one.";
+  }
+  return null;
+}
+
+function describeInvitation({
+  invitation,
+  inviterName,
+}: InvitationPreview): string {
+  const role = `${invitation.role === "admin" ? "an" : "a"} ${invitation.role}`;
+  return inviterName
+    ? `${inviterName} invited ${invitation.email} to join as ${role} on ${APP_NAME}.`
+    : `${invitation.email} has been invited to join as ${role} on ${APP_NAME}.`;
+}
+
+/**
+ * Invitation Page
+ *
+ * Landing page for invitation links. Signed-in users with the invited
+ * address accept with one click; new users create an account here and
+ * come back through the confirmation email to accept.
+ */
+export default async function InvitationPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { token } = await params;
+  const query = await searchParams;
+  const error = typeof query.error === "string" ? query.error : null;
+
+  const [preview, user] = await Promise.all([
+    getInvitationPreview(token),
+    getUser(),
+  ]);
+  const unavailable = unavailableReason(preview);
+  const invitePath = `/invite/${token}`;
+
+  return (
+    <div className="flex flex-col gap-6 rounded-xl border border-border bg-surface p-8 shadow-sm">
+      {unavailable || !preview ? (
+        <div className="flex flex-col gap-2 text-center">
+          <h1 className="text-2xl font-bold text-foreground">
+            Invitation unavailable
+          </h1>
+          <p className="text-sm text-foreground-secondary">{unavailable}</p>
+          <a
+            href={user ? "/dashboard" : "/login"}
+            className="mt-2 text-sm font-medium text-primary hover:underline"
+          >
+            {user ? "Go to your dashboard" : "Sign in"}
+          </a>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col gap-2 text-center">
+            <h1 className="text-2xl font-bold text-foreground">
+              Join {preview.organizationName}
+            </h1>
+            <p className="text-sm text-foreground-secondary">
+              {describeInvitation(preview)} The invitation expires on{" "}
+              {formatDate(preview.invitation.expires_at)}.
+            </p>
+          </div>
+
+          {user ? (
+            <>
+              {error && (
+                <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+                  <p className="text-sm font-medium text-error">{error}</p>
+                </div>
+              )}
+
+              {user.email?.toLowerCase() === preview.invitation.email ? (
+                <form action={acceptInvitationAction}>
+                  <input type="hidden" name="token" value={token} />
+                  <button className="w-full rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark">
+                    Accept invitation
+                  </button>
+                </form>
+              ) : (
+                <div className="flex flex-col gap-3">
+                  <div className="rounded-lg border border-border bg-warning-light px-4 py-3">
+                    <p className="text-sm font-medium text-warning">
+                      You are signed in as {user.email}. This invitation was
+                      sent to {preview.invitation.email}.
+                    </p>
+                  </div>
+                  <form action={switchAccountAction}>
+                    <input type="hidden" name="token" value={token} />
+                    <button className="w-full rounded-lg border border-border px-4 py-2.5 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary">
+                      Sign out and use another account
+                    </button>
+                  </form>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <AuthForm
+                mode="register"
+                action={signUpWithEmail}
+                methods={authMethods}
+                redirectTo={invitePath}
+                defaultEmail={preview.invitation.email}
+              />
+
+              <p className="text-center text-sm text-foreground-secondary">
+                Already have an account?{" "}
+                <a
+                  href={`/login?redirect=${encodeURIComponent(invitePath)}`}
+                  className="font-medium text-primary hover:underline"
+                >
+                  Sign in
+                </a>
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
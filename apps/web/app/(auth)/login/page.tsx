@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { APP_NAME } from "@matrx/shared";
 import { signInWithEmail } from "@/lib/auth/actions";
 import { AuthForm } from "@/components/auth/AuthForm";
+import { authMethods } from "@/lib/features";
 
 export const metadata: Metadata = {
   title: "Sign In",
@@ -19,11 +20,14 @@ export default function LoginPage() {
         </p>
       </div>
 
-      <AuthForm mode="login" action={signInWithEmail} />
+      <AuthForm mode="login" action={signInWithEmail} methods={authMethods} />
 
       <p className="text-center text-sm text-foreground-secondary">
         Don&apos;t have an account?{" "}
-        <a href="/register" className="font-medium text-primary hover:underline">
+        <a
+          href="/register"
+          className="font-medium text-primary hover:underline"
+        >
           Create one
         </a>
       </p>
@@ -0,0 +1,142 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import {
+  recoveryCodeSchema,
+  totpCodeSchema,
+  verifyMfaSchema,
+} from "@matrx/shared";
+import { safeRedirectPath, withRedirect } from "@/lib/auth/redirect";
+import { requireAuth } from "@/lib/auth/session";
+import {
+  issueRecoveryCodes,
+  redeemRecoveryCode,
+  verifiedTotpFactor,
+  verifyTotpCode,
+  type RecoveryCodesState,
+} from "@/lib/mfa";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/** The optional `redirect` field, if it is a same-origin path */
+function redirectField(formData: FormData): string | null {
+  return safeRedirectPath(formData.get("redirect"), "") || null;
+}
+
+/**
+ * Verify the code from the authenticator app and continue to the
+ * form's `redirect` path.
+ */
+export async function verifyMfaAction(formData: FormData) {
+  const user = await requireAuth();
+  const redirectTo = redirectField(formData);
+  const factor = verifiedTotpFactor(user);
+
+  if (!factor) redirect(withRedirect("/mfa/setup", redirectTo));
+
+  const parsed = totpCodeSchema.safeParse(formData.get("code"));
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid code";
+    redirect(
+      withRedirect(`/mfa?error=${encodeURIComponent(message)}`, redirectTo)
+    );
+  }
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await verifyTotpCode(supabase, factor.id, parsed.data);
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Verification failed";
+  }
+
+  if (failure) {
+    redirect(
+      withRedirect(`/mfa?error=${encodeURIComponent(failure)}`, redirectTo)
+    );
+  }
+  redirect(safeRedirectPath(redirectTo));
+}
+
+/**
+ * Use a recovery code when the authenticator is lost. Turns two-factor
+ * authentication off and signs the user out everywhere; they sign in
+ * again and set up their new device.
+ */
+export async function redeemRecoveryCodeAction(formData: FormData) {
+  const user = await requireAuth();
+  const redirectTo = redirectField(formData);
+
+  const parsed = recoveryCodeSchema.safeParse(formData.get("code"));
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid recovery code";
+    redirect(
+      withRedirect(`/mfa?error=${encodeURIComponent(message)}`, redirectTo)
+    );
+  }
+
+  let failure: string | null = null;
+  try {
+    await redeemRecoveryCode(user, parsed.data);
+    // Removing the factor ended the session on the server; clear the cookies
+    const supabase = await createServerSupabaseClient();
+    await supabase.auth.signOut({ scope: "local" });
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Recovery failed";
+  }
+
+  if (failure) {
+    redirect(
+      withRedirect(`/mfa?error=${encodeURIComponent(failure)}`, redirectTo)
+    );
+  }
+  redirect(
+    withRedirect(
+      `/login?success=${encodeURIComponent(
+        "Two-factor authentication is off. Sign in again to set it up on your new device."
+      )}`,
+      redirectTo
+    )
+  );
+}
+
+/**
+ * Finish setting up an authenticator app with its first code. Returns
+ * the new recovery codes for the form to show once.
+ */
+export async function completeMfaSetupAction(
+  _state: RecoveryCodesState,
+  formData: FormData
+): Promise<RecoveryCodesState> {
+  const user = await requireAuth();
+
+  const parsed = verifyMfaSchema.safeParse({
+    factorId: formData.get("factorId"),
+    code: formData.get("code"),
+  });
+  if (!parsed.success) {
+    return {
+      error: parsed.error.issues[0]?.message ?? "Invalid code",
+      recoveryCodes: null,
+    };
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await verifyTotpCode(supabase, parsed.data.factorId, parsed.data.code);
+
+    // The session is now aal2, but `user` predates the verified factor
+    const {
+      data: { user: verified },
+    } = await supabase.auth.getUser();
+    const recoveryCodes = await issueRecoveryCodes(supabase, verified ?? user);
+    return { error: null, recoveryCodes };
+  } catch (error) {
+    return {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to set up two-factor authentication",
+      recoveryCodes: null,
+    };
+  }
+}
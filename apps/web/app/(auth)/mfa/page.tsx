@@ -0,0 +1,114 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { signOut } from "@/lib/auth/actions";
+import { safeRedirectPath, withRedirect } from "@/lib/auth/redirect";
+import { requireAuth } from "@/lib/auth/session";
+import { isMfaVerified, verifiedTotpFactor } from "@/lib/mfa";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { redeemRecoveryCodeAction, verifyMfaAction } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Two-Factor Authentication",
+};
+
+/**
+ * MFA Verification Page
+ *
+ * Server Component asking for the authenticator app's code after
+ * signing in, with a recovery code as the fallback for a lost device.
+ * Continues to `redirect` once the session is verified.
+ */
+export default async function MfaPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const error = typeof params.error === "string" ? params.error : null;
+  const redirectTo = safeRedirectPath(params.redirect);
+
+  const user = await requireAuth();
+  if (!verifiedTotpFactor(user)) {
+    redirect(withRedirect("/mfa/setup", redirectTo));
+  }
+
+  const supabase = await createServerSupabaseClient();
+  if (await isMfaVerified(supabase)) redirect(redirectTo);
+
+  return (
+    <div className="flex flex-col gap-6 rounded-xl border border-border bg-surface p-8 shadow-sm">
+      <div className="flex flex-col gap-2 text-center">
+        <h1 className="text-2xl font-bold text-foreground">
+          Two-factor authentication
+        </h1>
+        <p className="text-sm text-foreground-secondary">
+          Signed in as {user.email}. Enter the code from your authenticator app
+          to continue.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <form action={verifyMfaAction} className="flex flex-col gap-4">
+        <input type="hidden" name="redirect" value={redirectTo} />
+        <div className="flex flex-col gap-2">
+          <label htmlFor="code" className="text-sm font-medium text-foreground">
+            Authentication code
+          </label>
+          <input
+            id="code"
+            name="code"
+            required
+            autoFocus
+            inputMode="numeric"
+            pattern="[0-9]{6}"
+            maxLength={6}
+            autoComplete="one-time-code"
+            placeholder="123456"
+            className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+        </div>
+        <button className="rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark">
+          Verify
+        </button>
+      </form>
+
+      <details className="rounded-lg border border-border px-4 py-3">
+        <summary className="cursor-pointer text-sm font-medium text-foreground">
+          Lost your authenticator app?
+        </summary>
+        <form
+          action={redeemRecoveryCodeAction}
+          className="mt-4 flex flex-col gap-4"
+        >
+          <input type="hidden" name="redirect" value={redirectTo} />
+          <p className="text-xs text-foreground-muted">
+            A recovery code turns two-factor authentication off and signs you
+            out everywhere. Sign in again to set it up on your new device.
+          </p>
+          <input
+            name="code"
+            required
+            autoComplete="off"
+            placeholder="XXXXX-XXXXX"
+            aria-label="Recovery code"
+            className="rounded-lg border border-border bg-background px-4 py-2.5 font-mono text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <button className="rounded-lg border border-border px-4 py-2.5 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary">
+            Use recovery code
+          </button>
+        </form>
+      </details>
+
+      <form action={signOut} className="text-center text-sm">
+        <button className="font-medium text-foreground-secondary hover:underline">
+          Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { RecoveryCodes } from "@/components/auth/RecoveryCodes";
+import type { RecoveryCodesState } from "@/lib/mfa";
+
+interface MfaSetupFormProps {
+  factorId: string;
+  redirectTo: string;
+  action: (
+    state: RecoveryCodesState,
+    formData: FormData
+  ) => Promise<RecoveryCodesState>;
+}
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      {pending ? "Verifying..." : "Verify and turn on"}
+    </button>
+  );
+}
+
+/**
+ * Confirms the new authenticator with its first code, then shows the
+ * recovery codes once before continuing.
+ */
+export function MfaSetupForm({
+  factorId,
+  redirectTo,
+  action,
+}: MfaSetupFormProps) {
+  const [state, formAction] = useActionState(action, {
+    error: null,
+    recoveryCodes: null,
+  });
+
+  if (state.recoveryCodes) {
+    return (
+      <div className="flex flex-col gap-4">
+        <RecoveryCodes codes={state.recoveryCodes} />
+        <a
+          href={redirectTo}
+          className="rounded-lg bg-primary px-4 py-2.5 text-center text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark"
+        >
+          I saved my recovery codes
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <form action={formAction} className="flex flex-col gap-4">
+      {state.error && (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+          {state.error}
+        </div>
+      )}
+
+      <input type="hidden" name="factorId" value={factorId} />
+
+      <div className="flex flex-col gap-2">
+        <label htmlFor="code" className="text-sm font-medium text-foreground">
+          Code from the app
+        </label>
+        <input
+          id="code"
+          name="code"
+          required
+          inputMode="numeric"
+          pattern="[0-9]{6}"
+          maxLength={6}
+          autoComplete="one-time-code"
+          placeholder="123456"
+          className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+      </div>
+
+      <SubmitButton />
+    </form>
+  );
+}
@@ -0,0 +1,105 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import { redirect } from "next/navigation";
+import { signOut } from "@/lib/auth/actions";
+import { safeRedirectPath, withRedirect } from "@/lib/auth/redirect";
+import { requireAuth } from "@/lib/auth/session";
+import {
+  organizationsRequiringMfa,
+  startTotpEnrollment,
+  verifiedTotpFactor,
+} from "@/lib/mfa";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { completeMfaSetupAction } from "../actions";
+import { MfaSetupForm } from "./form";
+
+export const metadata: Metadata = {
+  title: "Set Up Two-Factor Authentication",
+};
+
+/**
+ * MFA Setup Page
+ *
+ * Server Component that starts a TOTP enrollment: each visit shows a new
+ * QR code and secret for the authenticator app. Reached from /account,
+ * or sent here by the proxy when the admin portal or an organization
+ * requires MFA.
+ */
+export default async function MfaSetupPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const redirectTo = safeRedirectPath(params.redirect, "/account");
+
+  const user = await requireAuth();
+  if (verifiedTotpFactor(user)) redirect(withRedirect("/mfa", redirectTo));
+
+  const supabase = await createServerSupabaseClient();
+  const [enrollment, requiredBy] = await Promise.all([
+    startTotpEnrollment(supabase, user),
+    organizationsRequiringMfa(supabase, user.id),
+  ]);
+
+  const reason = redirectTo.startsWith("/admin")
+    ? "The admin portal requires two-factor authentication."
+    : requiredBy.length > 0
+      ? `${requiredBy.join(", ")} ${requiredBy.length === 1 ? "requires" : "require"} two-factor authentication.`
+      : null;
+
+  return (
+    <div className="flex flex-col gap-6 rounded-xl border border-border bg-surface p-8 shadow-sm">
+      <div className="flex flex-col gap-2 text-center">
+        <h1 className="text-2xl font-bold text-foreground">
+          Set up two-factor authentication
+        </h1>
+        <p className="text-sm text-foreground-secondary">
+          {reason && <>{reason} </>}
+          Scan the QR code with an authenticator app, such as 1Password, Google
+          Authenticator or Authy, then enter the code it shows.
+        </p>
+      </div>
+
+      <div className="flex flex-col items-center gap-3">
+        <Image
+          src={enrollment.qrCode}
+          alt="QR code for your authenticator app"
+          width={192}
+          height={192}
+          unoptimized
+          className="rounded-lg border border-border bg-white p-2"
+        />
+        <p className="text-center text-xs text-foreground-muted">
+          Can&apos;t scan it? Enter this key instead:
+          <br />
+          <code className="font-mono text-sm text-foreground">
+            {enrollment.secret}
+          </code>
+        </p>
+      </div>
+
+      <MfaSetupForm
+        factorId={enrollment.factorId}
+        redirectTo={redirectTo}
+        action={completeMfaSetupAction}
+      />
+
+      <div className="flex justify-center gap-4 text-sm">
+        {!reason && (
+          <a
+            href="/account"
+            className="font-medium text-primary hover:underline"
+          >
+            Cancel
+          </a>
+        )}
+        <form action={signOut}>
+          <button className="font-medium text-foreground-secondary hover:underline">
+            Sign out
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
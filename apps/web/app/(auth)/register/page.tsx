@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { APP_NAME } from "@matrx/shared";
 import { signUpWithEmail } from "@/lib/auth/actions";
 import { AuthForm } from "@/components/auth/AuthForm";
+import { authMethods } from "@/lib/features";
 
 export const metadata: Metadata = {
   title: "Create Account",
@@ -19,7 +20,11 @@ export default function RegisterPage() {
         </p>
       </div>
 
-      <AuthForm mode="register" action={signUpWithEmail} />
+      <AuthForm
+        mode="register"
+        action={signUpWithEmail}
+        methods={authMethods}
+      />
 
       <p className="text-center text-sm text-foreground-secondary">
         Already have an account?{" "}
@@ -0,0 +1,148 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { isOAuthProvider, OAUTH_PROVIDERS } from "@matrx/shared";
+import { withRedirect } from "@/lib/auth/redirect";
+import { requireAuth } from "@/lib/auth/session";
+import { authMethods } from "@/lib/features";
+import {
+  disableMfa,
+  issueRecoveryCodes,
+  type RecoveryCodesState,
+} from "@/lib/mfa";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/** A provider from the form, if it is one of the configured ones */
+function providerField(formData: FormData) {
+  const provider = formData.get("provider");
+  return isOAuthProvider(provider) && authMethods.oauth.includes(provider)
+    ? provider
+    : null;
+}
+
+/**
+ * Connect an OAuth provider to the signed-in account.
+ *
+ * Redirects to the provider; the callback returns to /account. Requires
+ * manual identity linking to be enabled in the Supabase project.
+ */
+export async function connectProviderAction(formData: FormData) {
+  await requireAuth();
+  const provider = providerField(formData);
+
+  if (!provider) {
+    redirect(
+      `/account?error=${encodeURIComponent("Unsupported sign-in provider")}`
+    );
+  }
+
+  let url: string | null = null;
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data, error } = await supabase.auth.linkIdentity({
+      provider,
+      options: {
+        redirectTo: withRedirect(
+          `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/callback?flow=link`,
+          `/account?connected=${provider}`
+        ),
+      },
+    });
+    if (error) throw error;
+    url = data.url;
+  } catch (error) {
+    failure =
+      error instanceof Error
+        ? error.message
+        : `Could not connect ${OAUTH_PROVIDERS[provider].label}`;
+  }
+
+  if (failure || !url) {
+    redirect(
+      `/account?error=${encodeURIComponent(failure ?? "Could not connect provider")}`
+    );
+  }
+  redirect(url);
+}
+
+/** Disconnect an OAuth provider; the account keeps at least one sign-in method */
+export async function disconnectProviderAction(formData: FormData) {
+  await requireAuth();
+  const provider = providerField(formData);
+
+  if (!provider) {
+    redirect(
+      `/account?error=${encodeURIComponent("Unsupported sign-in provider")}`
+    );
+  }
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data, error } = await supabase.auth.getUserIdentities();
+    if (error) throw error;
+
+    const identity = data.identities.find(
+      (entry) => entry.provider === provider
+    );
+    if (!identity) {
+      throw new Error(`${OAUTH_PROVIDERS[provider].label} is not connected`);
+    }
+    if (data.identities.length < 2) {
+      throw new Error(
+        "Connect another sign-in method before removing your only one"
+      );
+    }
+
+    const { error: unlinkError } = await supabase.auth.unlinkIdentity(identity);
+    if (unlinkError) throw unlinkError;
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to disconnect provider";
+  }
+
+  if (failure) redirect(`/account?error=${encodeURIComponent(failure)}`);
+  redirect(`/account?disconnected=${provider}`);
+}
+
+/** Replace the recovery codes; returns the new ones for the form to show once */
+export async function regenerateRecoveryCodesAction(
+  _state: RecoveryCodesState,
+  _formData: FormData
+): Promise<RecoveryCodesState> {
+  const user = await requireAuth();
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    const recoveryCodes = await issueRecoveryCodes(supabase, user);
+    return { error: null, recoveryCodes };
+  } catch (error) {
+    return {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to create recovery codes",
+      recoveryCodes: null,
+    };
+  }
+}
+
+/** Turn two-factor authentication off, unless an organization requires it */
+export async function disableMfaAction() {
+  const user = await requireAuth();
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await disableMfa(supabase, user);
+  } catch (error) {
+    failure =
+      error instanceof Error
+        ? error.message
+        : "Failed to turn off two-factor authentication";
+  }
+
+  if (failure) redirect(`/account?error=${encodeURIComponent(failure)}`);
+  redirect("/account?mfa=disabled");
+}
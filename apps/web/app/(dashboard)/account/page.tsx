@@ -0,0 +1,205 @@
+import type { Metadata } from "next";
+import { isOAuthProvider, OAUTH_PROVIDERS } from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import { authMethods } from "@/lib/features";
+import { getMfaStatus } from "@/lib/mfa";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  connectProviderAction,
+  disableMfaAction,
+  disconnectProviderAction,
+  regenerateRecoveryCodesAction,
+} from "./actions";
+import { RecoveryCodesForm } from "./recovery-codes-form";
+
+export const metadata: Metadata = {
+  title: "Account",
+};
+
+/**
+ * Account Page
+ *
+ * Server Component listing how the user signs in: their email address
+ * and the OAuth providers connected to the account, with buttons to
+ * connect or disconnect the configured providers, and their two-factor
+ * authentication with its recovery codes.
+ */
+export default async function AccountPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const error = typeof params.error === "string" ? params.error : null;
+  const connected = isOAuthProvider(params.connected) ? params.connected : null;
+  const disconnected = isOAuthProvider(params.disconnected)
+    ? params.disconnected
+    : null;
+  const mfaDisabled = params.mfa === "disabled";
+
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const [{ data }, mfa] = await Promise.all([
+    supabase.auth.getUserIdentities(),
+    getMfaStatus(supabase, user),
+  ]);
+  const identities = data?.identities ?? [];
+
+  const hasPassword = identities.some(
+    (identity) => identity.provider === "email"
+  );
+  const canDisconnect = identities.length > 1;
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Account</h1>
+        <p className="mt-1 text-foreground-secondary">
+          Manage how you sign in to {user.email}.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+          <p className="text-sm font-medium text-error">{error}</p>
+        </div>
+      )}
+
+      {connected && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            {OAUTH_PROVIDERS[connected].label} is now connected to your account.
+          </p>
+        </div>
+      )}
+
+      {disconnected && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            {OAUTH_PROVIDERS[disconnected].label} was disconnected.
+          </p>
+        </div>
+      )}
+
+      {mfaDisabled && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            Two-factor authentication is off.
+          </p>
+        </div>
+      )}
+
+      {/* Sign-in methods */}
+      <div className="overflow-hidden rounded-xl border border-border bg-surface">
+        <div className="border-b border-border px-6 py-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            Sign-in methods
+          </h2>
+        </div>
+        <ul className="divide-y divide-border">
+          <li className="flex flex-wrap items-center justify-between gap-4 px-6 py-4">
+            <div>
+              <p className="text-sm font-medium text-foreground">Email</p>
+              <p className="mt-1 text-xs text-foreground-muted">
+                {hasPassword
+                  ? "Password and emailed sign-in links"
+                  : authMethods.magicLink
+                    ? "Emailed sign-in links"
+                    : "Not set up"}
+              </p>
+            </div>
+          </li>
+
+          {authMethods.oauth.map((provider) => {
+            const identity = identities.find(
+              (entry) => entry.provider === provider
+            );
+            const email = identity?.identity_data?.email;
+
+            return (
+              <li
+                key={provider}
+                className="flex flex-wrap items-center justify-between gap-4 px-6 py-4"
+              >
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {OAUTH_PROVIDERS[provider].label}
+                  </p>
+                  <p className="mt-1 text-xs text-foreground-muted">
+                    {!identity
+                      ? "Not connected"
+                      : typeof email === "string"
+                        ? `Connected as ${email}`
+                        : "Connected"}
+                  </p>
+                </div>
+                {identity ? (
+                  canDisconnect && (
+                    <form action={disconnectProviderAction}>
+                      <input type="hidden" name="provider" value={provider} />
+                      <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-error transition-colors hover:bg-error-light">
+                        Disconnect
+                      </button>
+                    </form>
+                  )
+                ) : (
+                  <form action={connectProviderAction}>
+                    <input type="hidden" name="provider" value={provider} />
+                    <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary">
+                      Connect
+                    </button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* Two-factor authentication */}
+      <div className="overflow-hidden rounded-xl border border-border bg-surface">
+        <div className="border-b border-border px-6 py-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            Two-factor authentication
+          </h2>
+        </div>
+        <div className="flex flex-col gap-4 px-6 py-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-foreground">
+                Authenticator app
+              </p>
+              <p className="mt-1 text-xs text-foreground-muted">
+                {mfa.enrolled
+                  ? `On · ${mfa.recoveryCodesRemaining ?? 0} recovery codes left`
+                  : "Off"}
+                {mfa.requiredBy.length > 0 &&
+                  ` · Required by ${mfa.requiredBy.join(", ")}`}
+              </p>
+            </div>
+            {!mfa.enrolled ? (
+              <a
+                href="/mfa/setup?redirect=%2Faccount"
+                className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark"
+              >
+                Set up
+              </a>
+            ) : (
+              mfa.requiredBy.length === 0 && (
+                <form action={disableMfaAction}>
+                  <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-error transition-colors hover:bg-error-light">
+                    Turn off
+                  </button>
+                </form>
+              )
+            )}
+          </div>
+
+          {mfa.enrolled && (
+            <RecoveryCodesForm action={regenerateRecoveryCodesAction} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
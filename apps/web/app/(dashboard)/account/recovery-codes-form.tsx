@@ -0,0 +1,53 @@
+"use client";
+
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { RecoveryCodes } from "@/components/auth/RecoveryCodes";
+import type { RecoveryCodesState } from "@/lib/mfa";
+
+interface RecoveryCodesFormProps {
+  action: (
+    state: RecoveryCodesState,
+    formData: FormData
+  ) => Promise<RecoveryCodesState>;
+}
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      {pending ? "Creating..." : "New recovery codes"}
+    </button>
+  );
+}
+
+/**
+ * Replaces the recovery codes, invalidating the old ones, and shows the
+ * new set once.
+ */
+export function RecoveryCodesForm({ action }: RecoveryCodesFormProps) {
+  const [state, formAction] = useActionState(action, {
+    error: null,
+    recoveryCodes: null,
+  });
+
+  if (state.recoveryCodes) {
+    return <RecoveryCodes codes={state.recoveryCodes} />;
+  }
+
+  return (
+    <form action={formAction} className="flex flex-col gap-2">
+      {state.error && (
+        <p className="text-sm font-medium text-error">{state.error}</p>
+      )}
+      <div>
+        <SubmitButton />
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,82 @@
+"use server";
+
+import { cookies, headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { paidPlanSchema } from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import {
+  billingReturnUrl,
+  createCheckoutSession,
+  createPortalSession,
+  resolveBillingOrganization,
+} from "@/lib/billing/sessions";
+import { ACTIVE_ORGANIZATION_COOKIE } from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+async function returnUrl(): Promise<string> {
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  const protocol = requestHeaders.get("x-forwarded-proto") ?? "https";
+  return billingReturnUrl(`${protocol}://${host}`);
+}
+
+/** Send an owner or admin to Stripe Checkout for the chosen plan */
+export async function startCheckout(formData: FormData) {
+  const user = await requireAuth();
+  const plan = paidPlanSchema.safeParse(formData.get("plan"));
+  const organizationId = String(formData.get("organizationId") ?? "") || undefined;
+
+  if (!plan.success) {
+    redirect(`/billing?error=${encodeURIComponent("Choose a plan")}`);
+  }
+
+  let url: string | null = null;
+  let failure: string | null = null;
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    const orgId = await resolveBillingOrganization(
+      supabase,
+      user.id,
+      organizationId,
+      (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    );
+    ({ url } = await createCheckoutSession(supabase, {
+      organizationId: orgId,
+      plan: plan.data,
+      user,
+      returnUrl: await returnUrl(),
+    }));
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Failed to start checkout";
+  }
+
+  redirect(url ?? `/billing?error=${encodeURIComponent(failure ?? "Failed to start checkout")}`);
+}
+
+/** Send an owner or admin to the Stripe Billing Portal */
+export async function openBillingPortal(formData: FormData) {
+  const user = await requireAuth();
+  const organizationId = String(formData.get("organizationId") ?? "") || undefined;
+
+  let url: string | null = null;
+  let failure: string | null = null;
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    const orgId = await resolveBillingOrganization(
+      supabase,
+      user.id,
+      organizationId,
+      (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    );
+    ({ url } = await createPortalSession(supabase, {
+      organizationId: orgId,
+      returnUrl: await returnUrl(),
+    }));
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Failed to open billing portal";
+  }
+
+  redirect(url ?? `/billing?error=${encodeURIComponent(failure ?? "Failed to open billing portal")}`);
+}
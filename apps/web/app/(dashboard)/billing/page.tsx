@@ -0,0 +1,256 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { formatCurrency, formatDate, type SubscriptionPlan } from "@matrx/shared";
+import {
+  getBillingCustomer,
+  getBillingInvoices,
+  getBillingSubscriptions,
+  getOrganization,
+  type Tables,
+} from "@matrx/supabase";
+import { requireAuth } from "@/lib/auth/session";
+import { PAID_PLANS } from "@/lib/billing/config";
+import { BillingError, resolveBillingOrganization } from "@/lib/billing/sessions";
+import { isFlagEnabled } from "@/lib/flags";
+import { ACTIVE_ORGANIZATION_COOKIE } from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { openBillingPortal, startCheckout } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Billing",
+};
+
+interface BillingOverview {
+  organizationId: string;
+  organizationName: string;
+  plan: SubscriptionPlan;
+  subscription: Tables<"billing_subscriptions"> | null;
+  invoices: Tables<"billing_invoices">[];
+  hasCustomer: boolean;
+}
+
+/**
+ * Load the plan, latest subscription and recent invoices of the
+ * active organization. Returns an error message instead when the user is
+ * not its owner or admin.
+ */
+async function getBillingOverview(
+  userId: string
+): Promise<{ overview: BillingOverview } | { message: string }> {
+  const supabase = await createServerSupabaseClient();
+  const cookieStore = await cookies();
+
+  let organizationId: string;
+  try {
+    organizationId = await resolveBillingOrganization(
+      supabase,
+      userId,
+      undefined,
+      cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    );
+  } catch (error) {
+    if (error instanceof BillingError) return { message: error.message };
+    throw error;
+  }
+
+  const [organization, subscriptions, invoices, customer] = await Promise.all([
+    getOrganization(supabase, organizationId),
+    getBillingSubscriptions(supabase, organizationId),
+    getBillingInvoices(supabase, organizationId),
+    getBillingCustomer(supabase, organizationId),
+  ]);
+  if (organization.error) throw organization.error;
+
+  return {
+    overview: {
+      organizationId,
+      organizationName: organization.data.name,
+      plan: organization.data.plan,
+      subscription: subscriptions.data?.[0] ?? null,
+      invoices: invoices.data ?? [],
+      hasCustomer: Boolean(customer.data),
+    },
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, " ");
+}
+
+/** "Renews on …", "Cancels on …" or nothing, for the latest subscription */
+function renewalText(subscription: Tables<"billing_subscriptions"> | null): string | null {
+  if (!subscription?.current_period_end || subscription.status === "canceled") return null;
+  const date = formatDate(subscription.current_period_end);
+  return subscription.cancel_at_period_end ? `Cancels on ${date}` : `Renews on ${date}`;
+}
+
+/**
+ * Billing Page
+ *
+ * Server Component showing the organization's plan and invoices, with
+ * buttons that open Stripe Checkout or the Billing Portal.
+ */
+export default async function BillingPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const error = typeof params.error === "string" ? params.error : null;
+  const checkout = typeof params.checkout === "string" ? params.checkout : null;
+
+  const user = await requireAuth();
+  const stripeEnabled = await isFlagEnabled("stripe");
+  const result = stripeEnabled ? await getBillingOverview(user.id) : null;
+  const overview = result && "overview" in result ? result.overview : null;
+  const renewal = renewalText(overview?.subscription ?? null);
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Billing</h1>
+        <p className="mt-1 text-foreground-secondary">
+          Manage your organization&apos;s plan, payment details and invoices.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+          <p className="text-sm font-medium text-error">{error}</p>
+        </div>
+      )}
+
+      {checkout === "success" && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            Thanks! Your subscription is being activated and will appear here shortly.
+          </p>
+        </div>
+      )}
+
+      {!stripeEnabled && (
+        <div className="rounded-lg border border-border bg-warning-light px-4 py-3">
+          <p className="text-sm font-medium text-warning">Billing is not enabled.</p>
+          <p className="mt-1 text-xs text-foreground-secondary">
+            Set NEXT_PUBLIC_FEATURE_STRIPE (or the stripe flag on /admin/settings) and the
+            Stripe keys to sell plans.
+          </p>
+        </div>
+      )}
+
+      {result && "message" in result && (
+        <div className="rounded-lg border border-border bg-warning-light px-4 py-3">
+          <p className="text-sm font-medium text-warning">{result.message}</p>
+        </div>
+      )}
+
+      {overview && (
+        <>
+          {/* Current plan */}
+          <div className="rounded-xl border border-border bg-surface p-6">
+            <p className="text-sm text-foreground-secondary">
+              {overview.organizationName}
+            </p>
+            <div className="mt-2 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <p className="text-3xl font-bold text-foreground">
+                  {capitalize(overview.plan)} plan
+                </p>
+                {overview.subscription && (
+                  <p className="mt-1 text-sm text-foreground-secondary">
+                    {capitalize(overview.subscription.status)}
+                    {renewal && ` · ${renewal}`}
+                  </p>
+                )}
+              </div>
+              {overview.hasCustomer && (
+                <form action={openBillingPortal}>
+                  <input type="hidden" name="organizationId" value={overview.organizationId} />
+                  <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary">
+                    Manage billing
+                  </button>
+                </form>
+              )}
+            </div>
+
+            {overview.plan === "free" && (
+              <div className="mt-6 flex flex-wrap gap-3">
+                {PAID_PLANS.map((plan) => (
+                  <form key={plan} action={startCheckout}>
+                    <input type="hidden" name="organizationId" value={overview.organizationId} />
+                    <input type="hidden" name="plan" value={plan} />
+                    <button className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark">
+                      Upgrade to {capitalize(plan)}
+                    </button>
+                  </form>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Invoices */}
+          <div className="overflow-hidden rounded-xl border border-border bg-surface">
+            <div className="border-b border-border px-6 py-4">
+              <h2 className="text-lg font-semibold text-foreground">Invoices</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border bg-background-secondary">
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Date
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Amount
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Invoice
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {overview.invoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground">
+                        {formatDate(invoice.period_end ?? invoice.created_at)}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground">
+                        {formatCurrency(invoice.amount_due, invoice.currency)}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground-secondary">
+                        {invoice.payment_failed_at && invoice.status !== "paid"
+                          ? "Payment failed"
+                          : capitalize(invoice.status)}
+                      </td>
+                      <td className="whitespace-nowrap px-6 py-4 text-right text-sm">
+                        {invoice.hosted_invoice_url && (
+                          <a
+                            href={invoice.hosted_invoice_url}
+                            className="text-primary hover:underline"
+                            target="_blank"
+                            rel="noreferrer"
+                          >
+                            View
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {overview.invoices.length === 0 && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <p className="text-sm text-foreground-muted">No invoices yet.</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -35,6 +35,30 @@ export default function DashboardLayout({
           >
             Integrations
           </a>
+          <a
+            href="/organizations"
+            className="rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
+          >
+            Organizations
+          </a>
+          <a
+            href="/team"
+            className="rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
+          >
+            Team
+          </a>
+          <a
+            href="/billing"
+            className="rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
+          >
+            Billing
+          </a>
+          <a
+            href="/account"
+            className="rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
+          >
+            Account
+          </a>
           <a
             href="/dashboard"
             className="rounded-lg px-3 py-2 text-sm font-medium text-foreground-secondary transition-colors hover:bg-background-secondary hover:text-foreground"
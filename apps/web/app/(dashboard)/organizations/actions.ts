@@ -0,0 +1,85 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import {
+  createOrganizationSchema,
+  switchOrganizationSchema,
+} from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  createOrganization,
+  setActiveOrganization,
+} from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+/** Create an organization and switch to it */
+export async function createOrganizationAction(formData: FormData) {
+  const user = await requireAuth();
+  const parsed = createOrganizationSchema.safeParse({
+    name: formData.get("name"),
+    slug: String(formData.get("slug") ?? "").trim() || undefined,
+    description: String(formData.get("description") ?? "").trim() || undefined,
+  });
+
+  if (!parsed.success) {
+    const [message] = Object.values(parsed.error.flatten().fieldErrors).flat();
+    redirect(
+      `/organizations?error=${encodeURIComponent(message ?? "Invalid organization")}`
+    );
+  }
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    const organization = await createOrganization(
+      supabase,
+      user.id,
+      parsed.data
+    );
+    (await cookies()).set(
+      ACTIVE_ORGANIZATION_COOKIE,
+      organization.id,
+      ACTIVE_ORGANIZATION_COOKIE_OPTIONS
+    );
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to create organization";
+  }
+
+  if (failure) redirect(`/organizations?error=${encodeURIComponent(failure)}`);
+  redirect("/organizations?created=1");
+}
+
+/** Make another of the user's organizations the active one */
+export async function switchOrganizationAction(formData: FormData) {
+  const user = await requireAuth();
+  const parsed = switchOrganizationSchema.safeParse({
+    organizationId: formData.get("organizationId"),
+  });
+
+  if (!parsed.success) {
+    redirect(
+      `/organizations?error=${encodeURIComponent("Invalid organization")}`
+    );
+  }
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await setActiveOrganization(supabase, user.id, parsed.data.organizationId);
+    (await cookies()).set(
+      ACTIVE_ORGANIZATION_COOKIE,
+      parsed.data.organizationId,
+      ACTIVE_ORGANIZATION_COOKIE_OPTIONS
+    );
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to switch organization";
+  }
+
+  if (failure) redirect(`/organizations?error=${encodeURIComponent(failure)}`);
+  redirect("/organizations");
+}
@@ -0,0 +1,174 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { formatDate } from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  getActiveOrganizationId,
+  listOrganizations,
+} from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { createOrganizationAction, switchOrganizationAction } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Organizations",
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Organizations Page
+ *
+ * Server Component listing the user's organizations, with a switcher for
+ * the active one and a form to create another.
+ */
+export default async function OrganizationsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const error = typeof params.error === "string" ? params.error : null;
+  const created = params.created === "1";
+
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const cookieStore = await cookies();
+
+  const [organizations, activeId] = await Promise.all([
+    listOrganizations(supabase, user.id),
+    getActiveOrganizationId(
+      supabase,
+      user.id,
+      cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    ),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Organizations</h1>
+        <p className="mt-1 text-foreground-secondary">
+          Switch between the organizations you belong to or start a new one.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+          <p className="text-sm font-medium text-error">{error}</p>
+        </div>
+      )}
+
+      {created && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">
+            Organization created and set as active.
+          </p>
+        </div>
+      )}
+
+      {/* Organization list */}
+      <div className="overflow-hidden rounded-xl border border-border bg-surface">
+        <div className="border-b border-border px-6 py-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            Your organizations
+          </h2>
+        </div>
+        <ul className="divide-y divide-border">
+          {organizations.map(({ organization, role }) => (
+            <li
+              key={organization.id}
+              className="flex flex-wrap items-center justify-between gap-4 px-6 py-4"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-foreground">
+                    {organization.name}
+                  </p>
+                  {organization.id === activeId && (
+                    <span className="rounded-full bg-info-light px-2 py-0.5 text-xs font-medium text-info">
+                      Active
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-foreground-muted">
+                  {capitalize(role)} · {capitalize(organization.plan)} plan ·
+                  Created {formatDate(organization.created_at)}
+                </p>
+              </div>
+              {organization.id !== activeId && (
+                <form action={switchOrganizationAction}>
+                  <input
+                    type="hidden"
+                    name="organizationId"
+                    value={organization.id}
+                  />
+                  <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary">
+                    Switch
+                  </button>
+                </form>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {organizations.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-12">
+            <p className="text-sm text-foreground-muted">
+              You are not a member of any organization yet.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Create organization */}
+      <div className="rounded-xl border border-border bg-surface p-6">
+        <h2 className="text-lg font-semibold text-foreground">
+          New organization
+        </h2>
+        <form
+          action={createOrganizationAction}
+          className="mt-4 flex flex-col gap-4"
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+              Name
+              <input
+                name="name"
+                required
+                minLength={2}
+                maxLength={100}
+                className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+              Slug (optional, derived from the name)
+              <input
+                name="slug"
+                pattern="[a-z0-9]+(-[a-z0-9]+)*"
+                maxLength={60}
+                className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+            Description
+            <textarea
+              name="description"
+              rows={2}
+              maxLength={500}
+              className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+            />
+          </label>
+          <div>
+            <button className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark">
+              Create organization
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
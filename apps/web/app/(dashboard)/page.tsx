@@ -1,10 +1,33 @@
 import type { Metadata } from "next";
+import { formatNumber } from "@matrx/shared";
+import { getUserOrganizations } from "@matrx/supabase";
+import { getUsageTotals } from "@/lib/ai/usage";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 export const metadata: Metadata = {
   title: "Dashboard",
 };
 
-export default function DashboardPage() {
+/** AI executions across the user's organizations over the last 30 days */
+async function getApiCallCount(): Promise<number> {
+  const supabase = await createServerSupabaseClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return 0;
+
+  const { data: memberships, error } = await getUserOrganizations(supabase, user.id);
+  if (error) throw error;
+
+  const totals = await Promise.all(
+    (memberships ?? []).map((m) => getUsageTotals(supabase, m.organization_id, 30))
+  );
+  return totals.reduce((sum, t) => sum + t.requests, 0);
+}
+
+export default async function DashboardPage() {
+  const apiCalls = await getApiCallCount();
+
   return (
     <div className="flex flex-col gap-8">
       <div>
@@ -21,7 +44,7 @@ export default function DashboardPage() {
         {[
           { label: "Active Integrations", value: "0" },
           { label: "Workspaces", value: "0" },
-          { label: "API Calls (30d)", value: "0" },
+          { label: "API Calls (30d)", value: formatNumber(apiCalls) },
           { label: "Team Members", value: "1" },
         ].map((stat) => (
           <div
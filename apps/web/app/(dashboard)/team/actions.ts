@@ -0,0 +1,240 @@
+"use server";
+
+import { cookies, headers } from "next/headers";
+import { redirect } from "next/navigation";
+import {
+  inviteMemberSchema,
+  updateMemberRoleSchema,
+  uuidSchema,
+} from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import {
+  inviteMember,
+  resendInvitation,
+  revokeInvitation,
+} from "@/lib/invitations";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  changeMemberRole,
+  leaveOrganization,
+  removeMember,
+  setMfaRequirement,
+  transferOwnership,
+} from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+function fail(message: string): never {
+  redirect(`/team?error=${encodeURIComponent(message)}`);
+}
+
+async function requestOrigin(): Promise<string> {
+  const requestHeaders = await headers();
+  const host =
+    requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  const protocol = requestHeaders.get("x-forwarded-proto") ?? "https";
+  return `${protocol}://${host}`;
+}
+
+/** The organization and member a team form refers to */
+function parseTarget(formData: FormData): {
+  organizationId: string;
+  userId: string;
+} {
+  const organizationId = uuidSchema.safeParse(formData.get("organizationId"));
+  const userId = uuidSchema.safeParse(formData.get("userId"));
+  if (!organizationId.success || !userId.success) fail("Invalid member");
+  return { organizationId: organizationId.data, userId: userId.data };
+}
+
+/** Promote or demote a member of the active organization */
+export async function changeMemberRoleAction(formData: FormData) {
+  const user = await requireAuth();
+  const { organizationId, userId } = parseTarget(formData);
+  const parsed = updateMemberRoleSchema.safeParse({
+    role: formData.get("role"),
+  });
+  if (!parsed.success) fail("Choose a role");
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await changeMemberRole(
+      supabase,
+      organizationId,
+      user.id,
+      userId,
+      parsed.data.role
+    );
+  } catch (error) {
+    failure = error instanceof Error ? error.message : "Failed to change role";
+  }
+
+  if (failure) fail(failure);
+  redirect("/team?updated=role");
+}
+
+/** Remove a member from the active organization */
+export async function removeMemberAction(formData: FormData) {
+  const user = await requireAuth();
+  const { organizationId, userId } = parseTarget(formData);
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await removeMember(supabase, organizationId, user.id, userId);
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to remove member";
+  }
+
+  if (failure) fail(failure);
+  redirect("/team?updated=removed");
+}
+
+/** Hand the active organization to another member */
+export async function transferOwnershipAction(formData: FormData) {
+  const user = await requireAuth();
+  const { organizationId, userId } = parseTarget(formData);
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await transferOwnership(supabase, organizationId, user.id, userId);
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to transfer ownership";
+  }
+
+  if (failure) fail(failure);
+  redirect("/team?updated=transferred");
+}
+
+/** Leave the active organization and fall back to another one */
+export async function leaveOrganizationAction(formData: FormData) {
+  const user = await requireAuth();
+  const parsed = uuidSchema.safeParse(formData.get("organizationId"));
+  if (!parsed.success) fail("Invalid organization");
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await leaveOrganization(supabase, parsed.data, user.id);
+    const cookieStore = await cookies();
+    if (cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value === parsed.data) {
+      cookieStore.delete(ACTIVE_ORGANIZATION_COOKIE);
+    }
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to leave organization";
+  }
+
+  if (failure) fail(failure);
+  redirect("/organizations");
+}
+
+/** The organization and invitation an invitation form refers to */
+function parseInvitation(formData: FormData): {
+  organizationId: string;
+  invitationId: string;
+} {
+  const organizationId = uuidSchema.safeParse(formData.get("organizationId"));
+  const invitationId = uuidSchema.safeParse(formData.get("invitationId"));
+  if (!organizationId.success || !invitationId.success)
+    fail("Invalid invitation");
+  return {
+    organizationId: organizationId.data,
+    invitationId: invitationId.data,
+  };
+}
+
+/** Invite an email address to the active organization */
+export async function inviteMemberAction(formData: FormData) {
+  const user = await requireAuth();
+  const organizationId = uuidSchema.safeParse(formData.get("organizationId"));
+  const parsed = inviteMemberSchema.safeParse({
+    email: formData.get("email"),
+    role: formData.get("role") || undefined,
+  });
+  if (!organizationId.success) fail("Invalid organization");
+  if (!parsed.success) fail("Enter a valid email address");
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await inviteMember(
+      supabase,
+      organizationId.data,
+      user.id,
+      parsed.data,
+      await requestOrigin()
+    );
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to send invitation";
+  }
+
+  if (failure) fail(failure);
+  redirect("/team?updated=invited");
+}
+
+/** Send a pending invitation again with a new link */
+export async function resendInvitationAction(formData: FormData) {
+  const user = await requireAuth();
+  const { organizationId, invitationId } = parseInvitation(formData);
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await resendInvitation(
+      supabase,
+      organizationId,
+      user.id,
+      invitationId,
+      await requestOrigin()
+    );
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to resend invitation";
+  }
+
+  if (failure) fail(failure);
+  redirect("/team?updated=resent");
+}
+
+/** Withdraw a pending invitation */
+export async function revokeInvitationAction(formData: FormData) {
+  const user = await requireAuth();
+  const { organizationId, invitationId } = parseInvitation(formData);
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await revokeInvitation(supabase, organizationId, user.id, invitationId);
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to revoke invitation";
+  }
+
+  if (failure) fail(failure);
+  redirect("/team?updated=revoked");
+}
+
+/** Require (or stop requiring) two-factor authentication of all members */
+export async function setMfaRequirementAction(formData: FormData) {
+  const user = await requireAuth();
+  const organizationId = uuidSchema.safeParse(formData.get("organizationId"));
+  if (!organizationId.success) fail("Invalid organization");
+  const required = formData.get("required") === "true";
+
+  let failure: string | null = null;
+  try {
+    const supabase = await createServerSupabaseClient();
+    await setMfaRequirement(supabase, organizationId.data, user.id, required);
+  } catch (error) {
+    failure =
+      error instanceof Error ? error.message : "Failed to update security";
+  }
+
+  if (failure) fail(failure);
+  redirect(`/team?updated=${required ? "mfa-required" : "mfa-optional"}`);
+}
@@ -0,0 +1,445 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import {
+  can,
+  formatDate,
+  organizationRequiresMfa,
+  type OrgMemberRole,
+} from "@matrx/shared";
+import { requireAuth } from "@/lib/auth/session";
+import { listInvitations, type Invitation } from "@/lib/invitations";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  canAssignRole,
+  canManageMember,
+  getActiveOrganizationId,
+  listMembers,
+  listOrganizations,
+} from "@/lib/organizations";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  changeMemberRoleAction,
+  inviteMemberAction,
+  leaveOrganizationAction,
+  removeMemberAction,
+  resendInvitationAction,
+  revokeInvitationAction,
+  setMfaRequirementAction,
+  transferOwnershipAction,
+} from "./actions";
+
+export const metadata: Metadata = {
+  title: "Team",
+};
+
+const ASSIGNABLE_ROLES = ["admin", "member", "viewer"] as const;
+
+const YOUR_ROLE: Record<OrgMemberRole, string> = {
+  owner: "the owner",
+  admin: "an admin",
+  member: "a member",
+  viewer: "a viewer",
+};
+
+const UPDATED_MESSAGES: Record<string, string> = {
+  role: "Role updated.",
+  removed: "Member removed.",
+  transferred: "Ownership transferred. You are now an admin.",
+  invited: "Invitation sent.",
+  resent: "Invitation sent again with a new link.",
+  revoked: "Invitation revoked.",
+  "mfa-required": "Members now need two-factor authentication.",
+  "mfa-optional": "Two-factor authentication is now optional.",
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Team Page
+ *
+ * Server Component listing the active organization's members, whether
+ * they must use two-factor authentication and, for owners and admins,
+ * its pending invitations. Controls appear only where the user's role
+ * allows them; the server actions and database enforce the same rules.
+ */
+export default async function TeamPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const error = typeof params.error === "string" ? params.error : null;
+  const updated =
+    typeof params.updated === "string"
+      ? UPDATED_MESSAGES[params.updated]
+      : null;
+
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const cookieStore = await cookies();
+
+  const [organizations, activeId] = await Promise.all([
+    listOrganizations(supabase, user.id),
+    getActiveOrganizationId(
+      supabase,
+      user.id,
+      cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    ),
+  ]);
+  const active =
+    organizations.find((entry) => entry.organization.id === activeId) ?? null;
+  const members = active
+    ? await listMembers(supabase, active.organization.id, user.id)
+    : [];
+  const canInvite = can(null, "members.invite", active);
+  const requiresMfa = organizationRequiresMfa(active?.organization.settings);
+  const invitations: Invitation[] =
+    active && canInvite
+      ? await listInvitations(supabase, active.organization.id, user.id)
+      : [];
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Team</h1>
+        <p className="mt-1 text-foreground-secondary">
+          {active ? (
+            <>
+              Members of {active.organization.name}. You are{" "}
+              {YOUR_ROLE[active.role]}.{" "}
+              <a href="/organizations" className="text-primary hover:underline">
+                Switch organization
+              </a>
+            </>
+          ) : (
+            "You are not a member of any organization yet."
+          )}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-border bg-error-light px-4 py-3">
+          <p className="text-sm font-medium text-error">{error}</p>
+        </div>
+      )}
+
+      {updated && (
+        <div className="rounded-lg border border-border bg-success-light px-4 py-3">
+          <p className="text-sm font-medium text-success">{updated}</p>
+        </div>
+      )}
+
+      {active && (
+        <>
+          {/* Members */}
+          <div className="overflow-hidden rounded-xl border border-border bg-surface">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border bg-background-secondary">
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Member
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Role
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Joined
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold uppercase tracking-wider text-foreground-secondary">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {members.map((member) => {
+                    const isSelf = member.userId === user.id;
+                    const manageable =
+                      !isSelf && canManageMember(active.role, member.role);
+                    const roles = ASSIGNABLE_ROLES.filter((role) =>
+                      canAssignRole(active.role, role)
+                    );
+
+                    return (
+                      <tr key={member.userId}>
+                        <td className="px-6 py-4">
+                          <p className="text-sm font-medium text-foreground">
+                            {member.displayName ??
+                              member.email ??
+                              "Unknown user"}
+                            {isSelf && (
+                              <span className="text-foreground-muted">
+                                {" "}
+                                (you)
+                              </span>
+                            )}
+                          </p>
+                          {member.displayName && member.email && (
+                            <p className="text-xs text-foreground-muted">
+                              {member.email}
+                            </p>
+                          )}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground">
+                          {manageable ? (
+                            <form
+                              action={changeMemberRoleAction}
+                              className="flex items-center gap-2"
+                            >
+                              <input
+                                type="hidden"
+                                name="organizationId"
+                                value={active.organization.id}
+                              />
+                              <input
+                                type="hidden"
+                                name="userId"
+                                value={member.userId}
+                              />
+                              <select
+                                name="role"
+                                defaultValue={member.role}
+                                className="rounded-lg border border-border bg-surface px-2 py-1 text-sm text-foreground"
+                              >
+                                {roles.map((role) => (
+                                  <option key={role} value={role}>
+                                    {capitalize(role)}
+                                  </option>
+                                ))}
+                              </select>
+                              <button className="text-xs font-medium text-primary hover:underline">
+                                Save
+                              </button>
+                            </form>
+                          ) : (
+                            capitalize(member.role)
+                          )}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm text-foreground-secondary">
+                          {formatDate(member.joinedAt)}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4">
+                          <div className="flex justify-end gap-3">
+                            {!isSelf && active.role === "owner" && (
+                              <form action={transferOwnershipAction}>
+                                <input
+                                  type="hidden"
+                                  name="organizationId"
+                                  value={active.organization.id}
+                                />
+                                <input
+                                  type="hidden"
+                                  name="userId"
+                                  value={member.userId}
+                                />
+                                <button className="text-xs font-medium text-foreground-secondary hover:text-foreground">
+                                  Make owner
+                                </button>
+                              </form>
+                            )}
+                            {manageable && (
+                              <form action={removeMemberAction}>
+                                <input
+                                  type="hidden"
+                                  name="organizationId"
+                                  value={active.organization.id}
+                                />
+                                <input
+                                  type="hidden"
+                                  name="userId"
+                                  value={member.userId}
+                                />
+                                <button className="text-xs font-medium text-error hover:underline">
+                                  Remove
+                                </button>
+                              </form>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {canInvite && (
+            <div className="overflow-hidden rounded-xl border border-border bg-surface">
+              <div className="border-b border-border px-6 py-4">
+                <h2 className="text-lg font-semibold text-foreground">
+                  Invitations
+                </h2>
+                <form
+                  action={inviteMemberAction}
+                  className="mt-4 flex flex-wrap items-end gap-3"
+                >
+                  <input
+                    type="hidden"
+                    name="organizationId"
+                    value={active.organization.id}
+                  />
+                  <label className="flex flex-1 flex-col gap-1 text-xs font-medium text-foreground-secondary">
+                    Email
+                    <input
+                      type="email"
+                      name="email"
+                      required
+                      placeholder="teammate@company.com"
+                      className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs font-medium text-foreground-secondary">
+                    Role
+                    <select
+                      name="role"
+                      defaultValue="member"
+                      className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground"
+                    >
+                      {ASSIGNABLE_ROLES.filter((role) =>
+                        canAssignRole(active.role, role)
+                      ).map((role) => (
+                        <option key={role} value={role}>
+                          {capitalize(role)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary transition-colors hover:bg-primary-dark">
+                    Send invitation
+                  </button>
+                </form>
+              </div>
+
+              <ul className="divide-y divide-border">
+                {invitations.map((invitation) => (
+                  <li
+                    key={invitation.id}
+                    className="flex flex-wrap items-center justify-between gap-4 px-6 py-4"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-foreground">
+                        {invitation.email}
+                      </p>
+                      <p className="mt-1 text-xs text-foreground-muted">
+                        {capitalize(invitation.role)} ·{" "}
+                        {invitation.expired
+                          ? "Expired"
+                          : `Expires ${formatDate(invitation.expires_at)}`}{" "}
+                        · Sent {invitation.send_count}{" "}
+                        {invitation.send_count === 1 ? "time" : "times"}
+                      </p>
+                    </div>
+                    {canAssignRole(active.role, invitation.role) && (
+                      <div className="flex gap-3">
+                        <form action={resendInvitationAction}>
+                          <input
+                            type="hidden"
+                            name="organizationId"
+                            value={active.organization.id}
+                          />
+                          <input
+                            type="hidden"
+                            name="invitationId"
+                            value={invitation.id}
+                          />
+                          <button className="text-xs font-medium text-primary hover:underline">
+                            Resend
+                          </button>
+                        </form>
+                        <form action={revokeInvitationAction}>
+                          <input
+                            type="hidden"
+                            name="organizationId"
+                            value={active.organization.id}
+                          />
+                          <input
+                            type="hidden"
+                            name="invitationId"
+                            value={invitation.id}
+                          />
+                          <button className="text-xs font-medium text-error hover:underline">
+                            Revoke
+                          </button>
+                        </form>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {invitations.length === 0 && (
+                <div className="flex flex-col items-center justify-center py-8">
+                  <p className="text-sm text-foreground-muted">
+                    No pending invitations.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Security */}
+          <div className="rounded-xl border border-border bg-surface p-6">
+            <h2 className="text-lg font-semibold text-foreground">Security</h2>
+            <p className="mt-1 text-sm text-foreground-secondary">
+              {requiresMfa
+                ? `Members of ${active.organization.name} must use two-factor authentication.`
+                : "Two-factor authentication is optional for members."}
+            </p>
+            {can(null, "organization.security", active) && (
+              <form action={setMfaRequirementAction} className="mt-4">
+                <input
+                  type="hidden"
+                  name="organizationId"
+                  value={active.organization.id}
+                />
+                <input
+                  type="hidden"
+                  name="required"
+                  value={requiresMfa ? "false" : "true"}
+                />
+                <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary">
+                  {requiresMfa
+                    ? "Make two-factor authentication optional"
+                    : "Require two-factor authentication"}
+                </button>
+              </form>
+            )}
+          </div>
+
+          {/* Leave */}
+          <div className="rounded-xl border border-border bg-surface p-6">
+            <h2 className="text-lg font-semibold text-foreground">
+              Leave organization
+            </h2>
+            {active.role === "owner" ? (
+              <p className="mt-1 text-sm text-foreground-secondary">
+                As the owner you cannot leave {active.organization.name}. Make
+                another member the owner first.
+              </p>
+            ) : (
+              <>
+                <p className="mt-1 text-sm text-foreground-secondary">
+                  You will lose access to {active.organization.name} until you
+                  are invited again.
+                </p>
+                <form action={leaveOrganizationAction} className="mt-4">
+                  <input
+                    type="hidden"
+                    name="organizationId"
+                    value={active.organization.id}
+                  />
+                  <button className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-error transition-colors hover:bg-error-light">
+                    Leave {active.organization.name}
+                  </button>
+                </form>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,26 +1,266 @@
-import { NextRequest, NextResponse } from "next/server";
-import type { ApiResponse } from "@matrx/shared";
+import { after, NextRequest, NextResponse } from "next/server";
+import { agentChatRequestSchema, type ApiResponse } from "@matrx/shared";
+import type { AgentChatResponse, AgentConversation } from "@matrx/ai-client";
+import {
+  createAgentConversation,
+  getAgentConversationById,
+  getAgentMessages,
+} from "@matrx/supabase";
+import { authorizeIntegration } from "@/lib/ai/access";
+import { loadAgent, runAgentTurn, toAgentMessage } from "@/lib/ai/agents";
+import { AttachmentError } from "@/lib/ai/attachments";
+import { ProviderConfigError, ProviderRequestError } from "@/lib/ai/providers";
+import {
+  assertWithinQuota,
+  QuotaExceededError,
+  recordUsage,
+  resolveUsageScope,
+} from "@/lib/ai/usage";
+import { EntitlementError } from "@/lib/entitlements";
+import { authenticateRequest } from "@/lib/auth/api";
 
 /**
  * Agent Chat API Route
  *
- * Manages agent conversations with tool calling support.
+ * GET  — Load a conversation with its full message history
+ *        (`?conversationId=`), so chats survive reloads.
+ * POST — Send a message. Omit `conversationId` to start a new
+ *        conversation; pass it to continue an existing one.
+ *
+ * Context is bounded by the agent's memory config (`maxMessages`,
+ * `maxTokens`); "summary" agents fold older messages into a rolling summary.
+ * Tool calls run server-side (lib/ai/tools) and are reported in `toolsUsed`.
+ * `attachments` reference the caller's own uploads from /api/files by
+ * `fileId`; text files are inlined and images go to vision models.
+ * Each turn is metered as one usage event; over quota → 429 QUOTA_EXCEEDED.
+ *
+ * Callers authenticate with the session cookie or a Bearer token; chatting
+ * requires membership in the agent's organization (lib/ai/access).
  */
-export async function POST(request: NextRequest) {
+
+export async function GET(request: NextRequest) {
   try {
-    const body = await request.json();
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
 
-    // TODO: Validate request body
-    // TODO: Authenticate and authorize
-    // TODO: Forward to Matrx AI agent runtime
+    const conversationId = request.nextUrl.searchParams.get("conversationId");
+    if (!conversationId) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: "conversationId is required" },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
 
-    const response: ApiResponse<{ message: string }> = {
-      data: { message: "Agent endpoint ready. Connect your Matrx AI backend." },
+    const { supabase, user } = auth;
+    const { data: conversation, error } = await getAgentConversationById(
+      supabase,
+      conversationId
+    );
+    if (error) throw error;
+
+    if (!conversation || conversation.user_id !== user.id) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Conversation not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const { data: messages, error: messagesError } = await getAgentMessages(
+      supabase,
+      conversation.id
+    );
+    if (messagesError) throw messagesError;
+
+    const response: ApiResponse<AgentConversation> = {
+      data: {
+        id: conversation.id,
+        agentId: conversation.agent_id,
+        messages: (messages ?? []).map(toAgentMessage),
+        metadata: {
+          ...conversation.metadata,
+          title: conversation.title,
+          summary: conversation.summary,
+          messageCount: conversation.message_count,
+          totalTokens: conversation.total_tokens,
+        },
+        createdAt: conversation.created_at,
+        updatedAt: conversation.updated_at,
+      },
       error: null,
     };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
 
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const parsed = agentChatRequestSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid agent chat request.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const body = parsed.data;
+    const { supabase, user } = auth;
+
+    const access = await authorizeIntegration(user.id, body.agentId, "agent");
+    if (access && !access.canUse) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "FORBIDDEN",
+          message: "You do not have permission to use AI in this organization",
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const agent = access && (await loadAgent(supabase, body.agentId, access.workspaceId));
+    if (!agent) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Agent not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const scope = await resolveUsageScope(agent.workspaceId);
+    if (scope) await assertWithinQuota(scope);
+
+    let conversation;
+    if (body.conversationId) {
+      const { data, error } = await getAgentConversationById(supabase, body.conversationId);
+      if (error) throw error;
+      conversation = data;
+
+      if (!conversation || conversation.user_id !== user.id || conversation.agent_id !== agent.id) {
+        const response: ApiResponse<null> = {
+          data: null,
+          error: { code: "NOT_FOUND", message: "Conversation not found" },
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+    } else {
+      const { data, error } = await createAgentConversation(supabase, {
+        agent_id: agent.id,
+        user_id: user.id,
+      });
+      if (error) throw error;
+      conversation = data;
+    }
+
+    const result = await runAgentTurn(supabase, {
+      agent,
+      conversation,
+      userId: user.id,
+      message: body.message,
+      attachmentIds: body.attachments?.map((attachment) => attachment.fileId),
+      usageScope: scope,
+      signal: request.signal,
+    });
+
+    if (scope) {
+      after(() =>
+        recordUsage(scope, {
+          source: "agent",
+          integrationId: agent.id,
+          userId: user.id,
+          provider: agent.provider,
+          model: agent.model,
+          usage: result.usage,
+          latencyMs: result.latencyMs,
+        })
+      );
+    }
+
+    const response: ApiResponse<AgentChatResponse> = {
+      data: result,
+      error: null,
+    };
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, feature: error.feature },
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, limit: error.limit, used: error.used, max: error.max },
+        },
+      };
+      return NextResponse.json(response, { status: 429 });
+    }
+
+    if (error instanceof AttachmentError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: error.status });
+    }
+
+    if (error instanceof ProviderConfigError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "CONFIG_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+
+    if (error instanceof ProviderRequestError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "PROVIDER_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 502 });
+    }
+
     const message = error instanceof Error ? error.message : "Internal server error";
     const response: ApiResponse<null> = {
       data: null,
@@ -1,28 +1,220 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { ApiResponse } from "@matrx/shared";
+import { promptExecutionRequestSchema, type ApiResponse } from "@matrx/shared";
+import type { PromptExecutionResponse } from "@matrx/ai-client";
+import { authorizeIntegration } from "@/lib/ai/access";
+import { loadPromptTemplate, PromptVariableError } from "@/lib/ai/prompts";
+import { ProviderConfigError, ProviderRequestError } from "@/lib/ai/providers";
+import { executePromptCached } from "@/lib/ai/response-cache";
+import { OutputSchemaError, StructuredOutputError } from "@/lib/ai/structured-output";
+import {
+  assertWithinQuota,
+  meterPromptStream,
+  QuotaExceededError,
+  resolveUsageScope,
+} from "@/lib/ai/usage";
+import { EntitlementError } from "@/lib/entitlements";
+import { authenticateRequest } from "@/lib/auth/api";
+import {
+  collectStream,
+  createSseResponse,
+  StreamFailedError,
+} from "@/lib/ai/stream";
 
 /**
  * AI Chat API Route
  *
- * Proxies prompt execution requests to the Matrx AI backend.
- * All business logic lives here — clients never call AI providers directly.
+ * Executes a prompt template through its configured provider adapter
+ * (see lib/ai/providers). All business logic lives here — clients never
+ * call AI providers directly.
+ *
+ * Callers authenticate with the session cookie or a Bearer token and must
+ * be a member of the prompt's organization (lib/ai/access).
+ *
+ * Pass `version` to pin an earlier saved version of the template.
+ * Variables are coerced to their declared types and defaults applied;
+ * missing required or uncoercible values are a VALIDATION_ERROR.
+ *
+ * Pass `output` (an inline `jsonSchema` or a registered `schemaName`) to
+ * require a JSON reply: it is validated, repaired by re-prompting up to
+ * twice, and returned as `parsed`. Output that never validates is a 422
+ * OUTPUT_PARSE_ERROR carrying the issues and the last reply.
+ *
+ * Temperature-0 executions are cached and deduplicated (lib/ai/response-cache)
+ * unless the template sets `cacheResponses: false`; such responses have
+ * `cached: true`.
+ *
+ * Executions are metered per organization (lib/ai/usage); once the plan's
+ * quota is used up the route answers 429 QUOTA_EXCEEDED.
+ *
+ * Send `stream: true` to receive `text/event-stream` frames:
+ *   - `delta` — partial content as it is generated
+ *   - `done`  — final frame with token usage and latencyMs
+ *   - `error` — terminal failure after the stream has started
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const parsed = promptExecutionRequestSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid prompt execution request.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const body = parsed.data;
+    const access = await authorizeIntegration(auth.user.id, body.promptId, "prompt");
+    if (access && !access.canUse) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "FORBIDDEN",
+          message: "You do not have permission to use AI in this organization",
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const template =
+      access &&
+      (await loadPromptTemplate(auth.supabase, body.promptId, access.workspaceId, body.version));
+
+    if (!template) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Prompt not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
 
-    // TODO: Validate request body with Zod schema
-    // TODO: Authenticate request
-    // TODO: Forward to Matrx AI backend
-    // TODO: Stream response back to client
+    const scope = await resolveUsageScope(template.workspaceId);
+    if (scope) await assertWithinQuota(scope);
 
-    const response: ApiResponse<{ message: string }> = {
-      data: { message: "AI chat endpoint ready. Connect your Matrx AI backend." },
+    const prompt = executePromptCached({
+      template,
+      variables: body.variables,
+      overrides: body.overrides,
+      output: body.output,
+      signal: request.signal,
+    });
+    const events = scope
+      ? meterPromptStream(prompt, scope, { source: "chat", userId: auth.user.id })
+      : prompt;
+
+    if (body.stream) {
+      // Pull the first frame before committing to a stream so config
+      // errors still surface as a regular JSON error response.
+      const first = await events.next();
+      return createSseResponse(
+        (async function* () {
+          if (!first.done) yield first.value;
+          yield* events;
+        })()
+      );
+    }
+
+    const result: PromptExecutionResponse = await collectStream(events);
+    const response: ApiResponse<PromptExecutionResponse> = {
+      data: result,
       error: null,
     };
-
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, feature: error.feature },
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, limit: error.limit, used: error.used, max: error.max },
+        },
+      };
+      return NextResponse.json(response, { status: 429 });
+    }
+
+    if (error instanceof PromptVariableError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: error.message,
+          details: { issues: error.issues },
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (error instanceof OutputSchemaError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (error instanceof StructuredOutputError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { issues: error.issues, content: error.content },
+        },
+      };
+      return NextResponse.json(response, { status: 422 });
+    }
+
+    if (error instanceof ProviderConfigError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "CONFIG_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+
+    if (error instanceof ProviderRequestError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "PROVIDER_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 502 });
+    }
+
+    if (error instanceof StreamFailedError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: 502 });
+    }
+
     const message = error instanceof Error ? error.message : "Internal server error";
     const response: ApiResponse<null> = {
       data: null,
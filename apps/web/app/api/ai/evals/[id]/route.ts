@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateEvalDatasetSchema, type ApiResponse } from "@matrx/shared";
+import type { EvalDataset } from "@matrx/ai-client";
+import {
+  deleteEvalDatasetById,
+  loadEvalDataset,
+  updateEvalDatasetWithCases,
+} from "@/lib/ai/evals";
+import { PromptPermissionError } from "@/lib/ai/prompt-versions";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Evaluation Dataset API Route
+ *
+ * GET    — The dataset with its test cases
+ * PATCH  — Rename it or replace its cases (`cases` replaces the full list)
+ * DELETE — Delete it along with its runs
+ *
+ * Writes are limited to workspace owners and admins (RLS).
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function unauthorized() {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "UNAUTHORIZED", message: "Authentication required" },
+  };
+  return NextResponse.json(response, { status: 401 });
+}
+
+function notFound() {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "NOT_FOUND", message: "Evaluation dataset not found" },
+  };
+  return NextResponse.json(response, { status: 404 });
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof PromptPermissionError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "FORBIDDEN", message: error.message },
+    };
+    return NextResponse.json(response, { status: 403 });
+  }
+
+  const message = error instanceof Error ? error.message : "Internal server error";
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "INTERNAL_ERROR", message },
+  };
+  return NextResponse.json(response, { status: 500 });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const dataset = await loadEvalDataset(supabase, id);
+    if (!dataset) return notFound();
+
+    const response: ApiResponse<EvalDataset> = { data: dataset, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const parsed = updateEvalDatasetSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid evaluation dataset.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const dataset = await updateEvalDatasetWithCases(supabase, id, parsed.data);
+    if (!dataset) return notFound();
+
+    const response: ApiResponse<EvalDataset> = { data: dataset, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const deleted = await deleteEvalDatasetById(supabase, id);
+    if (!deleted) return notFound();
+
+    const response: ApiResponse<{ deleted: boolean }> = {
+      data: { deleted: true },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
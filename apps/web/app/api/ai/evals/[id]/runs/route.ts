@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runEvalSchema, type ApiResponse } from "@matrx/shared";
+import type { EvalRun } from "@matrx/ai-client";
+import { listEvalRuns, loadEvalDataset, runEvalDataset } from "@/lib/ai/evals";
+import { loadPromptTemplate } from "@/lib/ai/prompts";
+import { assertWithinQuota, QuotaExceededError, resolveUsageScope } from "@/lib/ai/usage";
+import { EntitlementError } from "@/lib/entitlements";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Evaluation Runs API Route
+ *
+ * GET  — Recent runs of a dataset with their scored results
+ * POST — Run the dataset against a template version (default: current)
+ *        and save the results. `provider`/`model` override the template's,
+ *        e.g. `{ "provider": "mock" }` for a free dry run. Provider calls
+ *        are metered and count toward the organization's quota.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase } = auth;
+
+    const response: ApiResponse<EvalRun[]> = {
+      data: await listEvalRuns(supabase, id),
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const parsed = runEvalSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid evaluation run request.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    // Loading through the user's client enforces workspace membership (RLS)
+    const dataset = await loadEvalDataset(supabase, id);
+    const template = dataset
+      ? await loadPromptTemplate(supabase, dataset.promptId, undefined, parsed.data.version)
+      : null;
+
+    if (!dataset || !template) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "NOT_FOUND",
+          message: dataset ? "Prompt version not found" : "Evaluation dataset not found",
+        },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const scope = await resolveUsageScope(template.workspaceId);
+    if (scope) await assertWithinQuota(scope);
+
+    const run = await runEvalDataset({
+      admin: createAdminClient(),
+      dataset,
+      template: {
+        ...template,
+        provider: parsed.data.provider ?? template.provider,
+        model: parsed.data.model ?? template.model,
+      },
+      triggeredBy: user.id,
+      usageScope: scope,
+      signal: request.signal,
+    });
+
+    const response: ApiResponse<EvalRun> = { data: run, error: null };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, feature: error.feature },
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, limit: error.limit, used: error.used, max: error.max },
+        },
+      };
+      return NextResponse.json(response, { status: 429 });
+    }
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
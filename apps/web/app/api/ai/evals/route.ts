@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createEvalDatasetSchema, type ApiResponse } from "@matrx/shared";
+import type { EvalDataset } from "@matrx/ai-client";
+import { createEvalDatasetWithCases, listEvalDatasets } from "@/lib/ai/evals";
+import { PromptPermissionError } from "@/lib/ai/prompt-versions";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Evaluation Datasets API Route
+ *
+ * GET  ?promptId= — List a prompt template's datasets (without cases)
+ * POST            — Create a dataset with its test cases. Workspace
+ *                   owners and admins only; enforced by RLS.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const promptId = request.nextUrl.searchParams.get("promptId");
+
+    if (!promptId) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: "promptId is required" },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase } = auth;
+
+    const response: ApiResponse<EvalDataset[]> = {
+      data: await listEvalDatasets(supabase, promptId),
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const parsed = createEvalDatasetSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid evaluation dataset.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const dataset = await createEvalDatasetWithCases(supabase, parsed.data, user.id);
+
+    const response: ApiResponse<EvalDataset> = { data: dataset, error: null };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromptPermissionError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "FORBIDDEN", message: error.message },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { indexKnowledgeSourceSchema, type ApiResponse } from "@matrx/shared";
+import type { KnowledgeIndexResult, KnowledgeSource } from "@matrx/ai-client";
+import {
+  indexKnowledgeSource,
+  KnowledgePermissionError,
+  KnowledgeSourceError,
+  listKnowledgeSources,
+  removeKnowledgeSource,
+} from "@/lib/ai/knowledge";
+import { ProviderConfigError, ProviderRequestError } from "@/lib/ai/providers";
+import { QuotaExceededError } from "@/lib/ai/usage";
+import { EntitlementError } from "@/lib/entitlements";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Knowledge Base API Route
+ *
+ * GET    ?workspaceId= — The workspace's indexed sources
+ * POST   — Index (or re-index) a blog post, dynamic page or text upload
+ *          into the workspace: { workspaceId, source: { type, id } }.
+ *          Unchanged sources are not re-embedded (`reindexed: false`).
+ * DELETE — Remove a source's chunks: { workspaceId, source }
+ *
+ * Any workspace member can list; indexing and removal are limited to
+ * workspace owners and admins (RLS). Files must be the caller's uploads.
+ */
+
+function unauthorized() {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "UNAUTHORIZED", message: "Authentication required" },
+  };
+  return NextResponse.json(response, { status: 401 });
+}
+
+function notFound(message: string) {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "NOT_FOUND", message },
+  };
+  return NextResponse.json(response, { status: 404 });
+}
+
+function invalid(fieldErrors: Record<string, unknown>) {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Invalid knowledge source.",
+      details: fieldErrors,
+    },
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof KnowledgePermissionError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "FORBIDDEN", message: error.message },
+    };
+    return NextResponse.json(response, { status: 403 });
+  }
+
+  if (error instanceof KnowledgeSourceError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: error.code, message: error.message },
+    };
+    return NextResponse.json(response, { status: 422 });
+  }
+
+  if (error instanceof EntitlementError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: { plan: error.plan, feature: error.feature },
+      },
+    };
+    return NextResponse.json(response, { status: 403 });
+  }
+
+  if (error instanceof QuotaExceededError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: { plan: error.plan, limit: error.limit, used: error.used, max: error.max },
+      },
+    };
+    return NextResponse.json(response, { status: 429 });
+  }
+
+  if (error instanceof ProviderConfigError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "CONFIG_ERROR", message: error.message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+
+  if (error instanceof ProviderRequestError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "PROVIDER_ERROR", message: error.message },
+    };
+    return NextResponse.json(response, { status: 502 });
+  }
+
+  const message = error instanceof Error ? error.message : "Internal server error";
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "INTERNAL_ERROR", message },
+  };
+  return NextResponse.json(response, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get("workspaceId");
+
+    if (!workspaceId) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: "workspaceId is required" },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const sources = await listKnowledgeSources(supabase, workspaceId);
+
+    const response: ApiResponse<KnowledgeSource[]> = { data: sources, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase, user } = auth;
+
+    const parsed = indexKnowledgeSourceSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return invalid(parsed.error.flatten().fieldErrors as Record<string, unknown>);
+    }
+
+    const result = await indexKnowledgeSource(supabase, {
+      ...parsed.data,
+      userId: user.id,
+      signal: request.signal,
+    });
+    if (!result) return notFound("Source not found");
+
+    const response: ApiResponse<KnowledgeIndexResult> = { data: result, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const parsed = indexKnowledgeSourceSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return invalid(parsed.error.flatten().fieldErrors as Record<string, unknown>);
+    }
+
+    const deleted = await removeKnowledgeSource(
+      supabase,
+      parsed.data.workspaceId,
+      parsed.data.source
+    );
+    if (!deleted) return notFound("Source is not indexed");
+
+    const response: ApiResponse<{ deleted: boolean }> = {
+      data: { deleted: true },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchKnowledgeSchema, type ApiResponse } from "@matrx/shared";
+import type { KnowledgeCitation } from "@matrx/ai-client";
+import { searchKnowledge } from "@/lib/ai/knowledge";
+import { ProviderConfigError, ProviderRequestError } from "@/lib/ai/providers";
+import { QuotaExceededError } from "@/lib/ai/usage";
+import { EntitlementError } from "@/lib/entitlements";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Knowledge Base Search API Route
+ *
+ * POST — The chunks closest to `query` in a workspace's knowledge base,
+ *        numbered [1]…[k] as agents cite them. Any workspace member.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const parsed = searchKnowledgeSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid knowledge search.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const citations = await searchKnowledge(supabase, {
+      ...parsed.data,
+      userId: user.id,
+      signal: request.signal,
+    });
+
+    const response: ApiResponse<KnowledgeCitation[]> = { data: citations, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, feature: error.feature },
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, limit: error.limit, used: error.used, max: error.max },
+        },
+      };
+      return NextResponse.json(response, { status: 429 });
+    }
+
+    if (error instanceof ProviderConfigError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "CONFIG_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+
+    if (error instanceof ProviderRequestError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "PROVIDER_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 502 });
+    }
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rollbackPromptTemplateSchema, type ApiResponse } from "@matrx/shared";
+import type { PromptTemplate } from "@matrx/ai-client";
+import {
+  PromptPermissionError,
+  PromptVersionConflictError,
+  rollbackPromptTemplate,
+} from "@/lib/ai/prompt-versions";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Template Rollback API Route
+ *
+ * POST { version } — Make an earlier version current again. The restore
+ * is saved as a new version (with `restoredFrom`), so history is never
+ * rewritten.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const parsed = rollbackPromptTemplateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid rollback request.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const template = await rollbackPromptTemplate(
+      supabase,
+      id,
+      parsed.data.version,
+      user.id
+    );
+
+    if (!template) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Prompt version not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<PromptTemplate> = { data: template, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof PromptPermissionError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "FORBIDDEN", message: error.message },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    if (error instanceof PromptVersionConflictError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "CONFLICT", message: error.message },
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
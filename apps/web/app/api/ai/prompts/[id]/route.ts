@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updatePromptTemplateSchema, type ApiResponse } from "@matrx/shared";
+import type { PromptTemplate } from "@matrx/ai-client";
+import { loadPromptTemplate } from "@/lib/ai/prompts";
+import {
+  archivePromptTemplate,
+  PromptPermissionError,
+  PromptVersionConflictError,
+  updatePromptTemplate,
+} from "@/lib/ai/prompt-versions";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Template API Route
+ *
+ * GET    ?version= — The current template, or a pinned earlier version
+ * PATCH            — Save changes as the next version
+ * DELETE           — Archive the template; its history is kept
+ *
+ * Writes are limited to workspace owners and admins (RLS).
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function unauthorized() {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "UNAUTHORIZED", message: "Authentication required" },
+  };
+  return NextResponse.json(response, { status: 401 });
+}
+
+function notFound() {
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "NOT_FOUND", message: "Prompt not found" },
+  };
+  return NextResponse.json(response, { status: 404 });
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof PromptPermissionError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "FORBIDDEN", message: error.message },
+    };
+    return NextResponse.json(response, { status: 403 });
+  }
+
+  if (error instanceof PromptVersionConflictError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "CONFLICT", message: error.message },
+    };
+    return NextResponse.json(response, { status: 409 });
+  }
+
+  const message = error instanceof Error ? error.message : "Internal server error";
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "INTERNAL_ERROR", message },
+  };
+  return NextResponse.json(response, { status: 500 });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const versionParam = request.nextUrl.searchParams.get("version");
+    const version = versionParam === null ? undefined : Number(versionParam);
+
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: "version must be a positive integer" },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const template = await loadPromptTemplate(supabase, id, undefined, version);
+    if (!template) return notFound();
+
+    const response: ApiResponse<PromptTemplate> = { data: template, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase, user } = auth;
+
+    const parsed = updatePromptTemplateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid prompt template.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const template = await updatePromptTemplate(supabase, id, parsed.data, user.id);
+    if (!template) return notFound();
+
+    const response: ApiResponse<PromptTemplate> = { data: template, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+    const { supabase } = auth;
+
+    const archived = await archivePromptTemplate(supabase, id);
+    if (!archived) return notFound();
+
+    const response: ApiResponse<{ deleted: boolean }> = {
+      data: { deleted: true },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import type { PromptTemplateVersion } from "@matrx/ai-client";
+import { listPromptVersions } from "@/lib/ai/prompt-versions";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Template Versions API Route
+ *
+ * GET — Every saved version of a prompt template, newest first
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase } = auth;
+
+    const versions = await listPromptVersions(supabase, id);
+
+    if (!versions) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Prompt not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<PromptTemplateVersion[]> = {
+      data: versions,
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPromptTemplateSchema, type ApiResponse } from "@matrx/shared";
+import type { PromptTemplate } from "@matrx/ai-client";
+import { getAiIntegrations } from "@matrx/supabase";
+import { toPromptTemplate } from "@/lib/ai/prompts";
+import { createPromptTemplate, PromptPermissionError } from "@/lib/ai/prompt-versions";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Prompt Templates API Route
+ *
+ * GET  ?workspaceId= — List the workspace's active prompt templates
+ * POST               — Create a template (version 1). Workspace owners
+ *                      and admins only; enforced by RLS.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get("workspaceId");
+
+    if (!workspaceId) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: "workspaceId is required" },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase } = auth;
+
+    const { data, error } = await getAiIntegrations(supabase, workspaceId, "prompt");
+    if (error) throw error;
+
+    const response: ApiResponse<PromptTemplate[]> = {
+      data: (data ?? []).map(toPromptTemplate),
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const parsed = createPromptTemplateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid prompt template.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const template = await createPromptTemplate(supabase, parsed.data, user.id);
+
+    const response: ApiResponse<PromptTemplate> = { data: template, error: null };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromptPermissionError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "FORBIDDEN", message: error.message },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { workflowReviewRequestSchema, type ApiResponse } from "@matrx/shared";
+import type { WorkflowExecution } from "@matrx/ai-client";
+import { submitReview, WorkflowReviewError } from "@/lib/ai/workflows";
+import { guardPermission } from "@/lib/auth/api";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * Workflow Review API
+ *
+ * POST /api/ai/workflows/:id/review — Approve (optionally with an edited
+ * output) or reject a `human_review` node the execution is paused on, then
+ * resume the run from that node. Requires workflows.review; the decision
+ * is recorded on the node execution.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS: Record<WorkflowReviewError["code"], number> = {
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  VALIDATION_ERROR: 400,
+};
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const auth = await guardPermission(request, "workflows.review");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    const { id } = await context.params;
+    const parsed = workflowReviewRequestSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: parsed.error.issues[0]?.message ?? "Invalid review",
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+    const body = parsed.data;
+
+    const result = await submitReview(
+      createAdminClient(),
+      id,
+      body,
+      {
+        id: user.id,
+        email: user.email ?? null,
+        userAgent: request.headers.get("user-agent"),
+        ipAddress: request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? null,
+      },
+      request.signal
+    );
+
+    const response: ApiResponse<WorkflowExecution> = { data: result, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof WorkflowReviewError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to submit review";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import type { WorkflowExecution } from "@matrx/ai-client";
+import { getNodeExecutions, getWorkflowExecutionById } from "@matrx/supabase";
+import { toWorkflowExecution } from "@/lib/ai/workflows";
+import { authenticateRequest } from "@/lib/auth/api";
+
+/**
+ * Workflow Execution Detail API
+ *
+ * GET /api/ai/workflows/:id — Execution status, outputs and per-node records
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    // RLS limits executions to members of the workflow's workspace
+    const { supabase } = auth;
+    const { data: execution, error } = await getWorkflowExecutionById(supabase, id);
+    if (error) throw error;
+
+    if (!execution) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Workflow execution not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const { data: nodes, error: nodesError } = await getNodeExecutions(supabase, id);
+    if (nodesError) throw nodesError;
+
+    const response: ApiResponse<WorkflowExecution> = {
+      data: toWorkflowExecution(execution, nodes ?? []),
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fetch workflow execution";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,26 +1,146 @@
-import { NextRequest, NextResponse } from "next/server";
-import type { ApiResponse } from "@matrx/shared";
+import { after, NextRequest, NextResponse } from "next/server";
+import { workflowExecutionRequestSchema, type ApiResponse } from "@matrx/shared";
+import type { WorkflowExecution } from "@matrx/ai-client";
+import { authorizeIntegration } from "@/lib/ai/access";
+import {
+  createExecution,
+  loadWorkflow,
+  runWorkflowExecution,
+  toWorkflowExecution,
+} from "@/lib/ai/workflows";
+import { assertWithinQuota, QuotaExceededError, resolveUsageScope } from "@/lib/ai/usage";
+import { EntitlementError } from "@/lib/entitlements";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateRequest } from "@/lib/auth/api";
 
 /**
  * Workflow Execution API Route
  *
- * Manages workflow execution lifecycle.
+ * POST — Start a workflow run. By default the run completes before the
+ *        response is sent; with `async: true` it continues in the
+ *        background and the pending execution is returned (202). Poll
+ *        GET /api/ai/workflows/:executionId for progress.
+ *
+ * Callers authenticate with the session cookie or a Bearer token and must
+ * be a member of the workflow's organization (lib/ai/access).
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const auth = await authenticateRequest(request);
+
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const parsed = workflowExecutionRequestSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid workflow execution request.",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const body = parsed.data;
+    const { supabase, user } = auth;
+
+    // Membership is checked explicitly; loading through the caller's client
+    // applies the same rule again through RLS
+    const access = await authorizeIntegration(user.id, body.workflowId, "workflow");
+    if (access && !access.canUse) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "FORBIDDEN",
+          message: "You do not have permission to use AI in this organization",
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const loaded = access && (await loadWorkflow(supabase, body.workflowId));
+    if (!loaded) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Workflow not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
 
-    // TODO: Validate request body
-    // TODO: Authenticate and authorize
-    // TODO: Trigger workflow execution via Matrx backend
+    // Prompt and agent nodes meter their own calls; refuse to start over quota
+    const scope = await resolveUsageScope(loaded.workspaceId);
+    if (scope) await assertWithinQuota(scope);
 
-    const response: ApiResponse<{ message: string }> = {
-      data: { message: "Workflow endpoint ready. Connect your Matrx AI backend." },
+    const admin = createAdminClient();
+    const execution = await createExecution(admin, loaded, {
+      inputs: body.inputs,
+      triggeredBy: user.id,
+    });
+
+    if (body.async) {
+      after(() =>
+        runWorkflowExecution({
+          client: admin,
+          runAs: supabase,
+          workflow: loaded.workflow,
+          execution,
+        })
+      );
+
+      const response: ApiResponse<WorkflowExecution> = {
+        data: toWorkflowExecution(execution, []),
+        error: null,
+      };
+      return NextResponse.json(response, { status: 202 });
+    }
+
+    const result = await runWorkflowExecution({
+      client: admin,
+      runAs: supabase,
+      workflow: loaded.workflow,
+      execution,
+      signal: request.signal,
+    });
+
+    const response: ApiResponse<WorkflowExecution> = {
+      data: result,
       error: null,
     };
-
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, feature: error.feature },
+        },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    if (error instanceof QuotaExceededError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: { plan: error.plan, limit: error.limit, used: error.used, max: error.max },
+        },
+      };
+      return NextResponse.json(response, { status: 429 });
+    }
+
     const message = error instanceof Error ? error.message : "Internal server error";
     const response: ApiResponse<null> = {
       data: null,
@@ -0,0 +1,76 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import { guardFeature } from "@/lib/entitlements";
+import { runTriggeredWorkflows, startDueSchedules } from "@/lib/ai/workflows";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { safeEqual } from "@/lib/webhooks/signature";
+
+/**
+ * Workflow Schedule Tick
+ *
+ * POST /api/ai/workflows/tick — Start every workflow whose `schedule`
+ * trigger is due. Meant to be called once a minute by a cron job, e.g.
+ *
+ *   * * * * * curl -s -X POST -H "Authorization: Bearer $WORKFLOW_CRON_SECRET" \
+ *     http://localhost:3000/api/ai/workflows/tick
+ *
+ * Responds with the started execution ids; the runs continue in the
+ * background.
+ */
+
+interface TickResult {
+  started: Array<{ workflowId: string; executionId: string }>;
+}
+
+export async function POST(request: NextRequest) {
+  const disabled = await guardFeature("aiIntegration");
+  if (disabled) return disabled;
+
+  try {
+    const secret = process.env.WORKFLOW_CRON_SECRET;
+    if (!secret) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "CONFIG_ERROR",
+          message: "Workflow cron secret is not configured",
+        },
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+
+    const authorization = request.headers.get("authorization") ?? "";
+    if (!safeEqual(`Bearer ${secret}`, authorization)) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Invalid cron secret" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const admin = createAdminClient();
+    const runs = await startDueSchedules(admin);
+
+    if (runs.length > 0) {
+      after(() => runTriggeredWorkflows(admin, runs));
+    }
+
+    const response: ApiResponse<TickResult> = {
+      data: {
+        started: runs.map(({ loaded, execution }) => ({
+          workflowId: loaded.workflow.id,
+          executionId: execution.id,
+        })),
+      },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Workflow tick failed";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { guardPermission } from "@/lib/auth/api";
+import { guardFeature } from "@/lib/entitlements";
 import type { ApiResponse } from "@matrx/shared";
 
 /**
  * Audit Log API
  *
- * GET /api/audit — Paginated audit log entries (admin only).
+ * GET /api/audit — Paginated audit log entries (audit.view permission).
  */
 
 export async function GET(request: NextRequest) {
-  if (!features.auditLog) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("auditLog");
+  if (disabled) return disabled;
 
   try {
     const { searchParams } = request.nextUrl;
@@ -21,7 +20,9 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get("page") ?? "1", 10);
     const perPage = parseInt(searchParams.get("perPage") ?? "50", 10);
 
-    const supabase = await createServerSupabaseClient();
+    const auth = await guardPermission(request, "audit.view");
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
     const from = (page - 1) * perPage;
     const to = from + perPage - 1;
 
@@ -1,28 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { describeAuthError } from "@matrx/shared";
+import { DEFAULT_AUTH_REDIRECT, safeRedirectPath, withRedirect } from "@/lib/auth/redirect";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 /**
  * Supabase Auth Callback
  *
- * Handles the OAuth callback from Supabase Auth.
- * Exchanges the auth code for a session and sets cookies.
+ * Where OAuth providers, emailed sign-in and confirmation links, and
+ * identity linking (`flow=link`, from /account) return to. Exchanges the
+ * auth code for a session — or verifies the `token_hash` sent by email
+ * templates that link here directly — then continues to `redirect`.
  */
+
+const EMAIL_OTP_TYPES = new Set<EmailOtpType>([
+  "signup",
+  "invite",
+  "magiclink",
+  "recovery",
+  "email_change",
+  "email",
+]);
+
 export async function GET(request: NextRequest) {
-  const { searchParams, origin } = new URL(request.url);
+  const { searchParams, origin } = request.nextUrl;
+  const redirectTo = safeRedirectPath(searchParams.get("redirect"));
+  const linking = searchParams.get("flow") === "link";
+
+  const fail = (message: string) => {
+    const path = linking
+      ? `/account?error=${encodeURIComponent(describeAuthError(message))}`
+      : withRedirect(
+          `/login?error=${encodeURIComponent(describeAuthError(message))}`,
+          redirectTo === DEFAULT_AUTH_REDIRECT ? null : redirectTo
+        );
+    return NextResponse.redirect(new URL(path, origin));
+  };
+
+  // The provider or Supabase declined before issuing a code
+  const providerError = searchParams.get("error_description") ?? searchParams.get("error");
+  if (providerError) return fail(providerError);
+
   const code = searchParams.get("code");
-  const redirect = searchParams.get("redirect") ?? "/dashboard";
+  const tokenHash = searchParams.get("token_hash");
+  const type = searchParams.get("type") as EmailOtpType | null;
+
+  const supabase = await createServerSupabaseClient();
 
   if (code) {
-    const supabase = await createServerSupabaseClient();
     const { error } = await supabase.auth.exchangeCodeForSession(code);
-
-    if (!error) {
-      return NextResponse.redirect(new URL(redirect, origin));
-    }
+    if (error) return fail(error.message);
+  } else if (tokenHash && type && EMAIL_OTP_TYPES.has(type)) {
+    const { error } = await supabase.auth.verifyOtp({ type, token_hash: tokenHash });
+    if (error) return fail(error.message);
+  } else {
+    return fail("This sign-in link is invalid or has expired.");
   }
 
-  // Auth code exchange failed — redirect to login with error
-  return NextResponse.redirect(
-    new URL("/login?error=auth_callback_failed", origin)
-  );
+  return NextResponse.redirect(new URL(redirectTo, origin));
 }
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redeemRecoveryCodeSchema, type ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { MfaError, redeemRecoveryCode } from "@/lib/mfa";
+
+/**
+ * POST /api/auth/mfa/recover
+ *
+ * Use a recovery code when the authenticator app is lost. Turns two-factor
+ * authentication off and ends all of the user's sessions, this one
+ * included; the client signs in again and sets up a new factor.
+ *
+ * Body: { code: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = redeemRecoveryCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: parsed.error.issues[0]?.message ?? "Invalid recovery code",
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    await redeemRecoveryCode(auth.user, parsed.data.code);
+
+    const response: ApiResponse<{ reset: true }> = { data: { reset: true }, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof MfaError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to use recovery code";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import { authenticateRequest, bearerToken } from "@/lib/auth/api";
+import { issueRecoveryCodes, MfaError } from "@/lib/mfa";
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ *
+ * Issue a new set of recovery codes, replacing the previous ones. The
+ * session must have verified its second factor. The codes are returned
+ * once and stored only as hashes.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const codes = await issueRecoveryCodes(supabase, user, bearerToken(request));
+
+    const response: ApiResponse<{ codes: string[] }> = { data: { codes }, error: null };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to create recovery codes";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse, MfaStatus } from "@matrx/shared";
+import { authenticateRequest, bearerToken } from "@/lib/auth/api";
+import { getMfaStatus } from "@/lib/mfa";
+
+/**
+ * GET /api/auth/mfa
+ *
+ * The caller's two-factor authentication: whether a factor is set up and
+ * verified in this session, which organizations require one, and how
+ * many recovery codes are left. Reachable before MFA is completed, so
+ * clients can decide which screen to show.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const status = await getMfaStatus(supabase, user, bearerToken(request));
+
+    const response: ApiResponse<MfaStatus> = { data: status, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load MFA status";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
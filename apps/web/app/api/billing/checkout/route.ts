@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { createCheckoutSessionSchema, type ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import {
+  BillingError,
+  billingReturnUrl,
+  createCheckoutSession,
+  resolveBillingOrganization,
+} from "@/lib/billing/sessions";
+import { guardFeature } from "@/lib/entitlements";
+import { ACTIVE_ORGANIZATION_COOKIE } from "@/lib/organizations";
+
+const ERROR_STATUS: Record<BillingError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  CONFIG_ERROR: 500,
+};
+
+/**
+ * POST /api/billing/checkout
+ *
+ * Create a Stripe Checkout session for a paid plan and return its URL.
+ * Body: { plan, organizationId? }. Owners and admins only.
+ */
+export async function POST(request: NextRequest) {
+  const disabled = await guardFeature("stripe");
+  if (disabled) return disabled;
+
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json().catch(() => null);
+    const parsed = createCheckoutSessionSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid checkout request",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const organizationId = await resolveBillingOrganization(
+      supabase,
+      user.id,
+      parsed.data.organizationId,
+      request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    );
+    const session = await createCheckoutSession(supabase, {
+      organizationId,
+      plan: parsed.data.plan,
+      user,
+      returnUrl: billingReturnUrl(request.nextUrl.origin),
+    });
+
+    const response: ApiResponse<{ url: string }> = { data: session, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof BillingError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+    if (error instanceof Stripe.errors.StripeError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "PROVIDER_ERROR", message: error.message },
+      };
+      return NextResponse.json(response, { status: 502 });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to create checkout session";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 import type { ApiResponse } from "@matrx/shared";
-import { features } from "@/lib/features";
+import { emitWorkflowEvent } from "@/lib/ai/workflows";
+import { hasPermission } from "@/lib/auth/permissions";
+import { guardFeature } from "@/lib/entitlements";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 interface BlogPost {
@@ -31,13 +33,8 @@ interface RouteContext {
  * Fetch a single published blog post by its slug.
  */
 export async function GET(_request: NextRequest, context: RouteContext) {
-  if (!features.blog) {
-    const response: ApiResponse<null> = {
-      data: null,
-      error: { code: "FEATURE_DISABLED", message: "Blog feature is not enabled." },
-    };
-    return NextResponse.json(response, { status: 404 });
-  }
+  const disabled = await guardFeature("blog");
+  if (disabled) return disabled;
 
   try {
     const { slug } = await context.params;
@@ -84,13 +81,8 @@ export async function GET(_request: NextRequest, context: RouteContext) {
  * Requires authenticated session with admin role.
  */
 export async function PATCH(request: NextRequest, context: RouteContext) {
-  if (!features.blog) {
-    const response: ApiResponse<null> = {
-      data: null,
-      error: { code: "FEATURE_DISABLED", message: "Blog feature is not enabled." },
-    };
-    return NextResponse.json(response, { status: 404 });
-  }
+  const disabled = await guardFeature("blog");
+  if (disabled) return disabled;
 
   try {
     const { slug } = await context.params;
@@ -110,19 +102,12 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return NextResponse.json(response, { status: 401 });
     }
 
-    // Verify admin role via user metadata or profiles table
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("role")
-      .eq("user_id", user.id)
-      .single();
-
-    if (!profile || profile.role !== "admin") {
+    if (!(await hasPermission(supabase, user.id, "blog.publish"))) {
       const response: ApiResponse<null> = {
         data: null,
         error: {
           code: "FORBIDDEN",
-          message: "Admin access required to update blog posts.",
+          message: "You do not have permission to update blog posts.",
         },
       };
       return NextResponse.json(response, { status: 403 });
@@ -142,6 +127,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       "author_bio",
       "published",
       "published_at",
+      "status",
       "reading_time_minutes",
       "tags",
     ] as const;
@@ -167,6 +153,13 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     // Add updated_at timestamp
     updates.updated_at = new Date().toISOString();
 
+    // Note the current status so publishing a draft can emit a workflow event
+    const { data: current } = await supabase
+      .from("blog_posts")
+      .select("status")
+      .eq("slug", slug)
+      .maybeSingle();
+
     const { data, error } = await supabase
       .from("blog_posts")
       .update(updates)
@@ -191,6 +184,19 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return NextResponse.json(response, { status: 404 });
     }
 
+    if (current && current.status !== "published" && data.status === "published") {
+      after(() =>
+        emitWorkflowEvent("blog.published", {
+          id: data.id,
+          slug: data.slug,
+          title: data.title,
+          excerpt: data.excerpt,
+          tags: data.tags,
+          publishedAt: data.published_at,
+        })
+      );
+    }
+
     const response: ApiResponse<BlogPost> = {
       data: data as BlogPost,
       error: null,
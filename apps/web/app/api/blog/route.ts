@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { ApiResponse, ApiMeta } from "@matrx/shared";
 import { paginationSchema } from "@matrx/shared";
-import { features } from "@/lib/features";
+import { guardFeature } from "@/lib/entitlements";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 interface BlogPostListItem {
@@ -29,13 +29,8 @@ interface BlogPostListItem {
  *   - sortOrder (default "desc")
  */
 export async function GET(request: NextRequest) {
-  if (!features.blog) {
-    const response: ApiResponse<null> = {
-      data: null,
-      error: { code: "FEATURE_DISABLED", message: "Blog feature is not enabled." },
-    };
-    return NextResponse.json(response, { status: 404 });
-  }
+  const disabled = await guardFeature("blog");
+  if (disabled) return disabled;
 
   try {
     const { searchParams } = request.nextUrl;
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { uuidSchema, type ApiResponse, type Entitlements } from "@matrx/shared";
+import { getOrganizationMembership, getUserOrganizations } from "@matrx/supabase";
+import { authenticateRequest } from "@/lib/auth/api";
+import { getEntitlements } from "@/lib/entitlements";
+
+interface EntitlementsResponse {
+  organizationId: string;
+  entitlements: Entitlements;
+}
+
+/**
+ * GET /api/entitlements?organizationId=
+ *
+ * The plan, features and limits of an organization the caller belongs
+ * to, so clients (the mobile app in particular) can hide what the plan
+ * does not include. Without `organizationId`, the caller's first
+ * organization, preferring one they own. Guards on the server remain
+ * authoritative.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    let organizationId = request.nextUrl.searchParams.get("organizationId");
+
+    if (organizationId) {
+      const parsed = uuidSchema.safeParse(organizationId);
+      if (!parsed.success) {
+        const response: ApiResponse<null> = {
+          data: null,
+          error: { code: "VALIDATION_ERROR", message: "organizationId must be a UUID" },
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const { data: membership, error } = await getOrganizationMembership(
+        supabase,
+        organizationId,
+        user.id
+      );
+      if (error) throw error;
+      if (!membership) organizationId = null;
+    } else {
+      const { data: memberships, error } = await getUserOrganizations(supabase, user.id);
+      if (error) throw error;
+      const [first] = (memberships ?? []).sort(
+        (a, b) => Number(b.role === "owner") - Number(a.role === "owner")
+      );
+      organizationId = first?.organization_id ?? null;
+    }
+
+    if (!organizationId) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Organization not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<EntitlementsResponse> = {
+      data: { organizationId, entitlements: await getEntitlements(organizationId) },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to resolve entitlements";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
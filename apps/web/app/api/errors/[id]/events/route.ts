@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { guardPermission } from "@/lib/auth/api";
+import { guardFeature } from "@/lib/entitlements";
 import type { ApiResponse } from "@matrx/shared";
 
 /**
@@ -14,9 +14,8 @@ interface RouteContext {
 }
 
 export async function GET(request: NextRequest, context: RouteContext) {
-  if (!features.errorTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("errorTracking");
+  if (disabled) return disabled;
 
   try {
     const { id } = await context.params;
@@ -24,7 +23,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
     const page = parseInt(searchParams.get("page") ?? "1", 10);
     const perPage = parseInt(searchParams.get("perPage") ?? "20", 10);
 
-    const supabase = await createServerSupabaseClient();
+    const auth = await guardPermission(request, "errors.view");
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
     const from = (page - 1) * perPage;
     const to = from + perPage - 1;
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { guardPermission } from "@/lib/auth/api";
+import { guardFeature } from "@/lib/entitlements";
+import { isFlagEnabled } from "@/lib/flags";
 import type { ApiResponse } from "@matrx/shared";
 
 /**
@@ -16,13 +17,14 @@ interface RouteContext {
 }
 
 export async function GET(request: NextRequest, context: RouteContext) {
-  if (!features.errorTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("errorTracking");
+  if (disabled) return disabled;
 
   try {
     const { id } = await context.params;
-    const supabase = await createServerSupabaseClient();
+    const auth = await guardPermission(request, "errors.view");
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
 
     const { data, error } = await supabase
       .from("error_groups")
@@ -51,14 +53,15 @@ export async function GET(request: NextRequest, context: RouteContext) {
 }
 
 export async function PATCH(request: NextRequest, context: RouteContext) {
-  if (!features.errorTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("errorTracking");
+  if (disabled) return disabled;
 
   try {
     const { id } = await context.params;
     const body = (await request.json()) as Record<string, unknown>;
-    const supabase = await createServerSupabaseClient();
+    const auth = await guardPermission(request, "errors.resolve");
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
 
     const update: Record<string, unknown> = {};
 
@@ -92,7 +95,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     }
 
     // Audit the action
-    if (features.auditLog) {
+    if (await isFlagEnabled("auditLog")) {
       await supabase.from("audit_logs").insert({
         action: `error.${body.status ?? "update"}`,
         resource: "error_groups",
@@ -116,13 +119,14 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 }
 
 export async function DELETE(request: NextRequest, context: RouteContext) {
-  if (!features.errorTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("errorTracking");
+  if (disabled) return disabled;
 
   try {
     const { id } = await context.params;
-    const supabase = await createServerSupabaseClient();
+    const auth = await guardPermission(request, "errors.resolve");
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
 
     const { error } = await supabase
       .from("error_groups")
@@ -138,7 +142,7 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     }
 
     // Audit the deletion
-    if (features.auditLog) {
+    if (await isFlagEnabled("auditLog")) {
       await supabase.from("audit_logs").insert({
         action: "error.delete",
         resource: "error_groups",
@@ -1,6 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { guardPermission } from "@/lib/auth/api";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { emitWorkflowEvent } from "@/lib/ai/workflows";
+import { guardFeature } from "@/lib/entitlements";
+import { isFlagEnabled } from "@/lib/flags";
 import { errorReportSchema } from "@matrx/shared";
 import type { ApiResponse } from "@matrx/shared";
 import { ERROR_TRACKING } from "@matrx/shared";
@@ -14,7 +18,10 @@ import { ERROR_TRACKING } from "@matrx/shared";
  *   - Uses DB functions for atomic upsert + rate limiting
  *   - Always returns 202 (fire-and-forget semantics)
  *
- * GET /api/errors — List error groups (admin, paginated).
+ * GET /api/errors — List error groups (errors.view permission, paginated).
+ *
+ * Groups first seen during an ingestion request emit the
+ * "error_group.created" workflow event.
  */
 
 function extractTitle(message: string): string {
@@ -23,13 +30,37 @@ function extractTitle(message: string): string {
   return firstLine.length > 200 ? firstLine.slice(0, 197) + "..." : firstLine;
 }
 
+/** Emit "error_group.created" for the groups first seen since `since` */
+async function emitNewErrorGroupEvents(groupIds: string[], since: string) {
+  const admin = createAdminClient();
+
+  const { data: groups } = await admin
+    .from("error_groups")
+    .select("id, fingerprint, title, culprit, platform, level, first_seen_at")
+    .in("id", groupIds)
+    .gte("first_seen_at", since);
+
+  for (const group of groups ?? []) {
+    await emitWorkflowEvent("error_group.created", {
+      id: group.id,
+      fingerprint: group.fingerprint,
+      title: group.title,
+      culprit: group.culprit,
+      platform: group.platform,
+      level: group.level,
+      firstSeenAt: group.first_seen_at,
+    });
+  }
+}
+
 export async function POST(request: NextRequest) {
   // Feature flag gate — return 202 even when disabled (don't break clients)
-  if (!features.errorTracking) {
+  if (!(await isFlagEnabled("errorTracking"))) {
     return NextResponse.json({ data: { accepted: 0 }, error: null }, { status: 202 });
   }
 
   try {
+    const receivedAt = new Date().toISOString();
     const body = await request.json();
     const events = Array.isArray(body) ? body : [body];
 
@@ -46,6 +77,7 @@ export async function POST(request: NextRequest) {
     const supabase = await createServerSupabaseClient();
 
     let accepted = 0;
+    const groupIds = new Set<string>();
 
     for (const event of validEvents) {
       try {
@@ -72,6 +104,7 @@ export async function POST(request: NextRequest) {
         });
 
         if (!groupId) continue;
+        groupIds.add(groupId);
 
         // Insert individual event
         await supabase.from("error_events").insert({
@@ -99,6 +132,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (groupIds.size > 0 && (await isFlagEnabled("aiIntegration"))) {
+      after(() =>
+        emitNewErrorGroupEvents([...groupIds], receivedAt).catch((error) => {
+          console.error("Failed to emit error group events:", error);
+        })
+      );
+    }
+
     const response: ApiResponse<{ accepted: number }> = {
       data: { accepted },
       error: null,
@@ -111,9 +152,8 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
-  if (!features.errorTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("errorTracking");
+  if (disabled) return disabled;
 
   try {
     const { searchParams } = request.nextUrl;
@@ -124,7 +164,9 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get("page") ?? "1", 10);
     const perPage = parseInt(searchParams.get("perPage") ?? "20", 10);
 
-    const supabase = await createServerSupabaseClient();
+    const auth = await guardPermission(request, "errors.view");
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
 
     const from = (page - 1) * perPage;
     const to = from + perPage - 1;
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { guardFeature } from "@/lib/entitlements";
 import { uploadFile, deleteFile } from "@/lib/storage";
 import { UPLOAD_LIMITS, STORAGE_BUCKETS, PAGINATION } from "@matrx/shared";
 import type { ApiResponse, ApiMeta } from "@matrx/shared";
+import type { Tables } from "@matrx/supabase";
 
 /**
  * File Management API
@@ -14,23 +15,11 @@ import type { ApiResponse, ApiMeta } from "@matrx/shared";
  * DELETE — Delete a file from both storage and the file_metadata table.
  */
 
-interface FileMetadata {
-  id: string;
-  user_id: string;
-  bucket: string;
-  path: string;
-  filename: string;
-  content_type: string;
-  size: number;
-  public_url: string | null;
-  created_at: string;
-  updated_at: string;
-}
+type FileMetadata = Tables<"file_metadata">;
 
 export async function GET(request: NextRequest) {
-  if (!features.fileStorage) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("fileStorage");
+  if (disabled) return disabled;
 
   try {
     const supabase = await createServerSupabaseClient();
@@ -58,7 +47,7 @@ export async function GET(request: NextRequest) {
     const { data, count, error } = await supabase
       .from("file_metadata")
       .select("*", { count: "exact" })
-      .eq("user_id", user.id)
+      .eq("uploaded_by", user.id)
       .order("created_at", { ascending: false })
       .range((page - 1) * perPage, page * perPage - 1);
 
@@ -99,9 +88,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  if (!features.fileStorage) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("fileStorage");
+  if (disabled) return disabled;
 
   try {
     const supabase = await createServerSupabaseClient();
@@ -180,13 +168,14 @@ export async function POST(request: NextRequest) {
     const { data: metadata, error: dbError } = await supabase
       .from("file_metadata")
       .insert({
-        user_id: user.id,
+        uploaded_by: user.id,
         bucket,
-        path: uploadedPath,
+        storage_path: uploadedPath!,
         filename: file.name,
-        content_type: file.type,
-        size: file.size,
+        mime_type: file.type || "application/octet-stream",
+        size_bytes: file.size,
         public_url: publicUrl,
+        is_public: isPublicBucket,
       })
       .select()
       .single();
@@ -222,9 +211,8 @@ export async function POST(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
-  if (!features.fileStorage) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("fileStorage");
+  if (disabled) return disabled;
 
   try {
     const supabase = await createServerSupabaseClient();
@@ -261,7 +249,7 @@ export async function DELETE(request: NextRequest) {
       .from("file_metadata")
       .select("*")
       .eq("id", fileId)
-      .eq("user_id", user.id)
+      .eq("uploaded_by", user.id)
       .single();
 
     if (fetchError || !fileMeta) {
@@ -278,7 +266,7 @@ export async function DELETE(request: NextRequest) {
     const meta = fileMeta as FileMetadata;
 
     // Delete from storage
-    const { error: storageError } = await deleteFile(meta.bucket, meta.path);
+    const { error: storageError } = await deleteFile(meta.bucket, meta.storage_path);
     if (storageError) {
       const response: ApiResponse<null> = {
         data: null,
@@ -295,7 +283,7 @@ export async function DELETE(request: NextRequest) {
       .from("file_metadata")
       .delete()
       .eq("id", fileId)
-      .eq("user_id", user.id);
+      .eq("uploaded_by", user.id);
 
     if (dbError) {
       const response: ApiResponse<null> = {
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { acceptInvitationSchema, type ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { InvitationError, acceptInvitation } from "@/lib/invitations";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  OrganizationError,
+} from "@/lib/organizations";
+
+const ERROR_STATUS: Record<InvitationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  MEMBER_LIMIT_REACHED: 403,
+};
+
+/**
+ * POST /api/invitations/accept
+ *
+ * Accept an invitation as the signed-in user. Body: { token }. The user
+ * must be signed in with the invited address; the organization becomes
+ * their active one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json().catch(() => null);
+    const parsed = acceptInvitationSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid invitation",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const organizationId = await acceptInvitation(supabase, user, parsed.data.token);
+
+    const response: ApiResponse<{ organizationId: string }> = {
+      data: { organizationId },
+      error: null,
+    };
+    const res = NextResponse.json(response);
+    res.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organizationId, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    return res;
+  } catch (error) {
+    if (error instanceof InvitationError || error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to accept invitation";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
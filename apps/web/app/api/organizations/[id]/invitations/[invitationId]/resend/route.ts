@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { InvitationError, resendInvitation, type Invitation } from "@/lib/invitations";
+import { OrganizationError } from "@/lib/organizations";
+
+interface RouteContext {
+  params: Promise<{ id: string; invitationId: string }>;
+}
+
+const ERROR_STATUS: Record<InvitationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  MEMBER_LIMIT_REACHED: 403,
+};
+
+/**
+ * POST /api/organizations/:id/invitations/:invitationId/resend
+ *
+ * Email a pending invitation again with a new link and expiry; the
+ * previous link stops working.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, invitationId } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const invitation = await resendInvitation(
+      supabase,
+      id,
+      user.id,
+      invitationId,
+      request.nextUrl.origin
+    );
+
+    const response: ApiResponse<Invitation> = { data: invitation, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof InvitationError || error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to resend invitation";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
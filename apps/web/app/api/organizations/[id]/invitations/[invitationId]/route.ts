@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { InvitationError, revokeInvitation } from "@/lib/invitations";
+import { OrganizationError } from "@/lib/organizations";
+
+interface RouteContext {
+  params: Promise<{ id: string; invitationId: string }>;
+}
+
+const ERROR_STATUS: Record<InvitationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  MEMBER_LIMIT_REACHED: 403,
+};
+
+/**
+ * DELETE /api/organizations/:id/invitations/:invitationId
+ *
+ * Revoke a pending invitation; its link stops working.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, invitationId } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    await revokeInvitation(supabase, id, user.id, invitationId);
+
+    const response: ApiResponse<{ revoked: true }> = { data: { revoked: true }, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof InvitationError || error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to revoke invitation";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inviteMemberSchema, type ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import {
+  InvitationError,
+  inviteMember,
+  listInvitations,
+  type Invitation,
+} from "@/lib/invitations";
+import { OrganizationError } from "@/lib/organizations";
+
+/**
+ * Organization Invitations API
+ *
+ * GET  /api/organizations/:id/invitations — Pending invitations (owners
+ *                                            and admins)
+ * POST /api/organizations/:id/invitations — Invite an email address.
+ *      Body: { email, role? }. Admins invite members and viewers, only
+ *      owners invite admins; the plan's member limit counts pending
+ *      invitations.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS: Record<InvitationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  MEMBER_LIMIT_REACHED: 403,
+};
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof InvitationError || error instanceof OrganizationError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: error.code, message: error.message },
+    };
+    return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "INTERNAL_ERROR", message },
+  };
+  return NextResponse.json(response, { status: 500 });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const invitations = await listInvitations(supabase, id, user.id);
+
+    const response: ApiResponse<Invitation[]> = { data: invitations, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch invitations");
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json().catch(() => null);
+    const parsed = inviteMemberSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid invitation",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const invitation = await inviteMember(
+      supabase,
+      id,
+      user.id,
+      parsed.data,
+      request.nextUrl.origin
+    );
+
+    const response: ApiResponse<Invitation> = { data: invitation, error: null };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "Failed to send invitation");
+  }
+}
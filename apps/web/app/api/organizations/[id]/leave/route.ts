@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  OrganizationError,
+  leaveOrganization,
+} from "@/lib/organizations";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS: Record<OrganizationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+};
+
+/**
+ * POST /api/organizations/:id/leave
+ *
+ * Leave an organization. The owner must transfer ownership first.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    await leaveOrganization(supabase, id, user.id);
+
+    const response: ApiResponse<{ left: true }> = { data: { left: true }, error: null };
+    const res = NextResponse.json(response);
+    if (request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value === id) {
+      res.cookies.delete(ACTIVE_ORGANIZATION_COOKIE);
+    }
+    return res;
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to leave organization";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
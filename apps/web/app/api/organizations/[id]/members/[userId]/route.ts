@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateMemberRoleSchema, type ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { OrganizationError, changeMemberRole, removeMember } from "@/lib/organizations";
+
+/**
+ * Organization Member API
+ *
+ * PATCH  /api/organizations/:id/members/:userId — Change a member's role.
+ *        Body: { role }. Owners assign any role, admins switch members
+ *        and viewers between those two roles.
+ * DELETE /api/organizations/:id/members/:userId — Remove a member; owners
+ *        remove anyone but themselves, admins remove members and viewers
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+const ERROR_STATUS: Record<OrganizationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+};
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof OrganizationError) {
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: error.code, message: error.message },
+    };
+    return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "INTERNAL_ERROR", message },
+  };
+  return NextResponse.json(response, { status: 500 });
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, userId } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json().catch(() => null);
+    const parsed = updateMemberRoleSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid role",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    await changeMemberRole(supabase, id, user.id, userId, parsed.data.role);
+
+    const response: ApiResponse<{ userId: string; role: string }> = {
+      data: { userId, role: parsed.data.role },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, "Failed to update member");
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, userId } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    await removeMember(supabase, id, user.id, userId);
+
+    const response: ApiResponse<{ removed: true }> = { data: { removed: true }, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    return errorResponse(error, "Failed to remove member");
+  }
+}
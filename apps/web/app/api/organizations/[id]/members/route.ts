@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { OrganizationError, listMembers, type OrganizationMember } from "@/lib/organizations";
+
+/**
+ * Organization Members API
+ *
+ * GET /api/organizations/:id/members — Members with their roles and
+ *                                      profiles; any member may list
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS: Record<OrganizationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const members = await listMembers(supabase, id, user.id);
+
+    const response: ApiResponse<OrganizationMember[]> = { data: members, error: null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to fetch members";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
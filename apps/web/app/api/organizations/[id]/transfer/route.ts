@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { transferOwnershipSchema, type ApiResponse } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { OrganizationError, transferOwnership } from "@/lib/organizations";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ERROR_STATUS: Record<OrganizationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+};
+
+/**
+ * POST /api/organizations/:id/transfer
+ *
+ * Make another member the owner. Body: { userId }. Owner only; the
+ * previous owner stays on as an admin.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json().catch(() => null);
+    const parsed = transferOwnershipSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid transfer request",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    await transferOwnership(supabase, id, user.id, parsed.data.userId);
+
+    const response: ApiResponse<{ ownerId: string }> = {
+      data: { ownerId: parsed.data.userId },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to transfer ownership";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createOrganizationSchema, type ApiResponse } from "@matrx/shared";
+import type { Tables } from "@matrx/supabase";
+import { authenticateRequest } from "@/lib/auth/api";
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  OrganizationError,
+  createOrganization,
+  getActiveOrganizationId,
+  listOrganizations,
+  type OrganizationSummary,
+} from "@/lib/organizations";
+
+/**
+ * Organizations API
+ *
+ * GET  /api/organizations — The caller's organizations with their role,
+ *                           and which one is active
+ * POST /api/organizations — Create an organization owned by the caller
+ *                           and make it active
+ */
+
+const ERROR_STATUS: Record<OrganizationError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+};
+
+interface OrganizationsResponse {
+  organizations: OrganizationSummary[];
+  activeOrganizationId: string | null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const [organizations, activeOrganizationId] = await Promise.all([
+      listOrganizations(supabase, user.id),
+      getActiveOrganizationId(
+        supabase,
+        user.id,
+        request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+      ),
+    ]);
+
+    const response: ApiResponse<OrganizationsResponse> = {
+      data: { organizations, activeOrganizationId },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fetch organizations";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json().catch(() => null);
+    const parsed = createOrganizationSchema.safeParse(body);
+    if (!parsed.success) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid organization",
+          details: parsed.error.flatten().fieldErrors as Record<string, unknown>,
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const organization = await createOrganization(supabase, user.id, parsed.data);
+
+    const response: ApiResponse<Tables<"organizations">> = { data: organization, error: null };
+    const res = NextResponse.json(response, { status: 201 });
+    res.cookies.set(
+      ACTIVE_ORGANIZATION_COOKIE,
+      organization.id,
+      ACTIVE_ORGANIZATION_COOKIE_OPTIONS
+    );
+    return res;
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: error.code, message: error.message },
+      };
+      return NextResponse.json(response, { status: ERROR_STATUS[error.code] });
+    }
+
+    const message = error instanceof Error ? error.message : "Failed to create organization";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { uuidSchema, type ApiResponse, type UserPermissions } from "@matrx/shared";
+import { authenticateRequest } from "@/lib/auth/api";
+import { listPermissions } from "@/lib/auth/permissions";
+import { ACTIVE_ORGANIZATION_COOKIE, getActiveOrganizationId } from "@/lib/organizations";
+
+/**
+ * GET /api/permissions?organizationId=
+ *
+ * The caller's platform role, their role in an organization and every
+ * permission the two grant, so clients (the mobile app in particular)
+ * can hide what the user may not do. Without `organizationId`, the
+ * caller's active organization. Checks on the server remain
+ * authoritative.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNAUTHORIZED", message: "Authentication required" },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    const { supabase, user } = auth;
+
+    let organizationId = request.nextUrl.searchParams.get("organizationId");
+
+    if (organizationId) {
+      const parsed = uuidSchema.safeParse(organizationId);
+      if (!parsed.success) {
+        const response: ApiResponse<null> = {
+          data: null,
+          error: { code: "VALIDATION_ERROR", message: "organizationId must be a UUID" },
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+    } else {
+      organizationId = await getActiveOrganizationId(
+        supabase,
+        user.id,
+        request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+      );
+    }
+
+    const { role, organizationRole, permissions } = await listPermissions(
+      supabase,
+      user.id,
+      organizationId
+    );
+
+    const response: ApiResponse<UserPermissions> = {
+      data: {
+        role,
+        organizationId: organizationRole ? organizationId : null,
+        organizationRole,
+        permissions,
+      },
+      error: null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to resolve permissions";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
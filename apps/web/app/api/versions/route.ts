@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { hasPermission } from "@/lib/auth/permissions";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { guardFeature } from "@/lib/entitlements";
 import { PAGINATION } from "@matrx/shared";
 import type { ApiResponse, ApiMeta } from "@matrx/shared";
 
@@ -8,7 +9,7 @@ import type { ApiResponse, ApiMeta } from "@matrx/shared";
  * App Versions API
  *
  * GET  — List app versions, filterable by app_name and environment.
- * POST — Create a new version record (admin only).
+ * POST — Create a new version record (versions.manage permission).
  */
 
 interface AppVersion {
@@ -27,9 +28,8 @@ interface AppVersion {
 }
 
 export async function GET(request: NextRequest) {
-  if (!features.versionTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("versionTracking");
+  if (disabled) return disabled;
 
   try {
     const { searchParams } = request.nextUrl;
@@ -96,14 +96,13 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  if (!features.versionTracking) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("versionTracking");
+  if (disabled) return disabled;
 
   try {
     const supabase = await createServerSupabaseClient();
 
-    // Verify the user is authenticated and has admin role
+    // Verify the user is authenticated and may manage versions
     const {
       data: { user },
       error: authError,
@@ -120,19 +119,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: 401 });
     }
 
-    // Check admin role
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (profile?.role !== "admin") {
+    if (!(await hasPermission(supabase, user.id, "versions.manage"))) {
       const response: ApiResponse<null> = {
         data: null,
         error: {
           code: "FORBIDDEN",
-          message: "Admin access required to create version records",
+          message: "You do not have permission to create version records",
         },
       };
       return NextResponse.json(response, { status: 403 });
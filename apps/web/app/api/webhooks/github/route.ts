@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { features } from "@/lib/features";
+import { guardFeature } from "@/lib/entitlements";
 import type { ApiResponse } from "@matrx/shared";
+import { verifyHmacSignature } from "@/lib/webhooks/signature";
 
 /**
  * GitHub Webhook Handler
@@ -14,40 +15,9 @@ import type { ApiResponse } from "@matrx/shared";
  * - Tag pushes to create app_versions records
  */
 
-async function verifyGitHubSignature(
-  payload: string,
-  signature: string | null,
-  secret: string
-): Promise<boolean> {
-  if (!signature) return false;
-
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    encoder.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-
-  const signed = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
-  const expectedSignature = `sha256=${Array.from(new Uint8Array(signed))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("")}`;
-
-  // Use timing-safe comparison
-  const a = new TextEncoder().encode(expectedSignature);
-  const b = new TextEncoder().encode(signature);
-
-  if (a.byteLength !== b.byteLength) return false;
-
-  return crypto.subtle.timingSafeEqual(a, b);
-}
-
 export async function POST(request: NextRequest) {
-  if (!features.githubWebhook) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("githubWebhook");
+  if (disabled) return disabled;
 
   try {
     const secret = process.env.GITHUB_WEBHOOK_SECRET;
@@ -65,7 +35,7 @@ export async function POST(request: NextRequest) {
     const body = await request.text();
     const signature = request.headers.get("x-hub-signature-256");
 
-    const isValid = await verifyGitHubSignature(body, signature, secret);
+    const isValid = await verifyHmacSignature(body, signature, secret);
     if (!isValid) {
       const response: ApiResponse<null> = {
         data: null,
@@ -1,13 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
 import type { ApiResponse } from "@matrx/shared";
+import { guardFeature } from "@/lib/entitlements";
+import {
+  BillingLinkError,
+  constructStripeEvent,
+  processStripeEvent,
+  type StripeEventResult,
+} from "@/lib/billing/webhook";
+import { createAdminClient } from "@/lib/supabase/admin";
 
 /**
  * Stripe Webhook Handler
  *
- * Processes Stripe webhook events for subscriptions and payments.
- * Verifies the webhook signature before processing.
+ * Processes Stripe webhook events for subscriptions and payments
+ * (see lib/billing/webhook). Verifies the webhook signature before
+ * processing.
+ *
+ * Answers 200 for handled, duplicate and ignored events. Any failure is a
+ * 5xx so Stripe redelivers the event; handling is idempotent.
  */
 export async function POST(request: NextRequest) {
+  const disabled = await guardFeature("stripe");
+  if (disabled) return disabled;
+
   try {
     const body = await request.text();
     const signature = request.headers.get("stripe-signature");
@@ -20,20 +36,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: 400 });
     }
 
-    // TODO: Verify webhook signature with Stripe
-    // const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-    // const event = stripe.webhooks.constructEvent(body, signature, process.env.STRIPE_WEBHOOK_SECRET!);
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "CONFIG_ERROR", message: "STRIPE_WEBHOOK_SECRET is not configured" },
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = constructStripeEvent(body, signature, secret);
+    } catch (error) {
+      if (!(error instanceof Stripe.errors.StripeSignatureVerificationError)) throw error;
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "INVALID_SIGNATURE",
+          message: "Stripe webhook signature verification failed",
+        },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
 
-    // TODO: Handle events:
-    // - checkout.session.completed
-    // - customer.subscription.created
-    // - customer.subscription.updated
-    // - customer.subscription.deleted
-    // - invoice.payment_succeeded
-    // - invoice.payment_failed
+    const result = await processStripeEvent(createAdminClient(), event);
 
-    return NextResponse.json({ received: true });
+    const response: ApiResponse<{ eventId: string; result: StripeEventResult }> = {
+      data: { eventId: event.id, result },
+      error: null,
+    };
+    return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof BillingLinkError) {
+      // Usually a subscription event that arrived before its checkout;
+      // Stripe retries, by which time the customer is linked
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "UNLINKED_CUSTOMER", message: error.message },
+      };
+      return NextResponse.json(response, { status: 503 });
+    }
+
     const message = error instanceof Error ? error.message : "Webhook handler failed";
     const response: ApiResponse<null> = {
       data: null,
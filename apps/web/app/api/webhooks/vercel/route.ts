@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { features } from "@/lib/features";
+import { guardFeature } from "@/lib/entitlements";
 import type { ApiResponse } from "@matrx/shared";
 
 export const dynamic = "force-dynamic";
@@ -60,9 +60,8 @@ async function verifyVercelSignature(
 }
 
 export async function POST(request: NextRequest) {
-  if (!features.vercelWebhook) {
-    return new NextResponse(null, { status: 404 });
-  }
+  const disabled = await guardFeature("vercelWebhook");
+  if (disabled) return disabled;
 
   try {
     const body = await request.text();
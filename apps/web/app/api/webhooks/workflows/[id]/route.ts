@@ -0,0 +1,117 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@matrx/shared";
+import type { WorkflowExecution } from "@matrx/ai-client";
+import { guardFeature } from "@/lib/entitlements";
+import {
+  createExecution,
+  getTriggers,
+  getWorkflowWebhookSecret,
+  loadWorkflow,
+  mapTriggerInputs,
+  runWorkflowExecution,
+  toWorkflowExecution,
+} from "@/lib/ai/workflows";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createAnonClient } from "@/lib/supabase/anon";
+import { verifyHmacSignature } from "@/lib/webhooks/signature";
+
+/**
+ * Workflow Webhook Handler
+ *
+ * POST /api/webhooks/workflows/:id — Start a workflow that declares a
+ * `webhook` trigger. The body must be JSON and signed like GitHub
+ * webhooks: `X-Matrx-Signature-256: sha256=<HMAC-SHA256 of the body>`
+ * using the workflow's own secret (`pnpm workflow:webhook <id>`).
+ *
+ * The run continues in the background; the pending execution is returned.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const disabled = await guardFeature("aiIntegration");
+  if (disabled) return disabled;
+
+  try {
+    const { id } = await context.params;
+
+    const secret = await getWorkflowWebhookSecret(id);
+    if (!secret) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "CONFIG_ERROR",
+          message: "Workflow webhook secret is not configured",
+        },
+      };
+      return NextResponse.json(response, { status: 500 });
+    }
+
+    const body = await request.text();
+    const signature = request.headers.get("x-matrx-signature-256");
+
+    const isValid = await verifyHmacSignature(body, signature, secret);
+    if (!isValid) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: {
+          code: "INVALID_SIGNATURE",
+          message: "Workflow webhook signature verification failed",
+        },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = body ? JSON.parse(body) : {};
+    } catch {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "VALIDATION_ERROR", message: "Body must be valid JSON" },
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const admin = createAdminClient();
+    const loaded = await loadWorkflow(admin, id);
+    const trigger = loaded ? getTriggers(loaded.workflow, "webhook")[0] : undefined;
+
+    if (!loaded || !trigger) {
+      const response: ApiResponse<null> = {
+        data: null,
+        error: { code: "NOT_FOUND", message: "Workflow webhook not found" },
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const execution = await createExecution(admin, loaded, {
+      inputs: mapTriggerInputs(trigger, { payload }, payload),
+      triggerType: "webhook",
+    });
+
+    after(() =>
+      runWorkflowExecution({
+        client: admin,
+        runAs: createAnonClient(),
+        workflow: loaded.workflow,
+        execution,
+      })
+    );
+
+    const response: ApiResponse<WorkflowExecution> = {
+      data: toWorkflowExecution(execution, []),
+      error: null,
+    };
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    const response: ApiResponse<null> = {
+      data: null,
+      error: { code: "INTERNAL_ERROR", message },
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -2,10 +2,18 @@
 
 import { useFormStatus } from "react-dom";
 import { useSearchParams } from "next/navigation";
+import { OAUTH_PROVIDERS, type AuthMethods } from "@matrx/shared";
+import { signInWithMagicLink, signInWithOAuth } from "@/lib/auth/actions";
 
 interface AuthFormProps {
   mode: "login" | "register";
   action: (formData: FormData) => Promise<void>;
+  /** Sign-in methods besides the password (`authMethods` from lib/features) */
+  methods?: AuthMethods;
+  /** Path to return to after signing in; defaults to the `redirect` search param */
+  redirectTo?: string;
+  /** Prefilled email address, e.g. the address an invitation was sent to */
+  defaultEmail?: string;
 }
 
 /**
@@ -56,95 +64,151 @@ function SubmitButton({ label }: { label: string }) {
  *
  * Renders email and password fields, and optionally a full name field
  * when in "register" mode. Displays error and success messages
- * from URL search params set by server actions.
+ * from URL search params set by server actions. With `methods`, the
+ * login form can also email a sign-in link, and both modes offer the
+ * configured OAuth providers.
  */
-export function AuthForm({ mode, action }: AuthFormProps) {
+export function AuthForm({
+  mode,
+  action,
+  methods,
+  redirectTo,
+  defaultEmail,
+}: AuthFormProps) {
   const searchParams = useSearchParams();
   const error = searchParams.get("error");
   const success = searchParams.get("success");
+  const redirect = redirectTo ?? searchParams.get("redirect");
+  const providers = methods?.oauth ?? [];
 
   return (
-    <form action={action} className="flex flex-col gap-4">
-      {error && (
-        <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
-          {error}
-        </div>
-      )}
+    <div className="flex flex-col gap-4">
+      <form action={action} className="flex flex-col gap-4">
+        <input type="hidden" name="mode" value={mode} />
+        {redirect && <input type="hidden" name="redirect" value={redirect} />}
 
-      {success && (
-        <div className="rounded-lg border border-success/30 bg-success/10 px-4 py-3 text-sm text-success">
-          {success}
-        </div>
-      )}
+        {error && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-success/30 bg-success/10 px-4 py-3 text-sm text-success">
+            {success}
+          </div>
+        )}
+
+        {mode === "register" && (
+          <div className="flex flex-col gap-2">
+            <label
+              htmlFor="fullName"
+              className="text-sm font-medium text-foreground"
+            >
+              Full Name
+            </label>
+            <input
+              id="fullName"
+              name="fullName"
+              type="text"
+              required
+              placeholder="Jane Smith"
+              autoComplete="name"
+              className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+        )}
 
-      {mode === "register" && (
         <div className="flex flex-col gap-2">
           <label
-            htmlFor="fullName"
+            htmlFor="email"
             className="text-sm font-medium text-foreground"
           >
-            Full Name
+            Email
           </label>
           <input
-            id="fullName"
-            name="fullName"
-            type="text"
+            id="email"
+            name="email"
+            type="email"
             required
-            placeholder="Jane Smith"
-            autoComplete="name"
+            placeholder="you@company.com"
+            autoComplete="email"
+            defaultValue={defaultEmail}
             className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
           />
         </div>
-      )}
 
-      <div className="flex flex-col gap-2">
-        <label htmlFor="email" className="text-sm font-medium text-foreground">
-          Email
-        </label>
-        <input
-          id="email"
-          name="email"
-          type="email"
-          required
-          placeholder="you@company.com"
-          autoComplete="email"
-          className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-        />
-      </div>
-
-      <div className="flex flex-col gap-2">
-        <div className="flex items-center justify-between">
-          <label
-            htmlFor="password"
-            className="text-sm font-medium text-foreground"
-          >
-            Password
-          </label>
-          {mode === "login" && (
-            <a
-              href="/forgot-password"
-              className="text-xs text-primary hover:underline"
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <label
+              htmlFor="password"
+              className="text-sm font-medium text-foreground"
             >
-              Forgot password?
-            </a>
-          )}
+              Password
+            </label>
+            {mode === "login" && (
+              <a
+                href="/forgot-password"
+                className="text-xs text-primary hover:underline"
+              >
+                Forgot password?
+              </a>
+            )}
+          </div>
+          <input
+            id="password"
+            name="password"
+            type="password"
+            required
+            placeholder={
+              mode === "register" ? "Min. 8 characters" : "Enter your password"
+            }
+            autoComplete={
+              mode === "register" ? "new-password" : "current-password"
+            }
+            className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          />
         </div>
-        <input
-          id="password"
-          name="password"
-          type="password"
-          required
-          placeholder={
-            mode === "register" ? "Min. 8 characters" : "Enter your password"
-          }
-          autoComplete={mode === "register" ? "new-password" : "current-password"}
-          className="rounded-lg border border-border bg-background px-4 py-2.5 text-sm text-foreground placeholder:text-foreground-muted focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-        />
-      </div>
 
-      <SubmitButton
-        label={mode === "login" ? "Sign In" : "Create Account"}
-      />
-    </form>
+        <SubmitButton label={mode === "login" ? "Sign In" : "Create Account"} />
+
+        {mode === "login" && methods?.magicLink && (
+          <button
+            type="submit"
+            formAction={signInWithMagicLink}
+            formNoValidate
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            Email me a sign-in link instead
+          </button>
+        )}
+      </form>
+
+      {providers.length > 0 && (
+        <>
+          <div className="flex items-center gap-3 text-xs text-foreground-muted">
+            <span className="h-px flex-1 bg-border" />
+            or continue with
+            <span className="h-px flex-1 bg-border" />
+          </div>
+
+          {providers.map((provider) => (
+            <form key={provider} action={signInWithOAuth}>
+              <input type="hidden" name="provider" value={provider} />
+              <input type="hidden" name="mode" value={mode} />
+              {redirect && (
+                <input type="hidden" name="redirect" value={redirect} />
+              )}
+              <button
+                type="submit"
+                className="w-full rounded-lg border border-border bg-background px-4 py-2.5 text-sm font-medium text-foreground transition-colors hover:bg-background-secondary"
+              >
+                {OAUTH_PROVIDERS[provider].label}
+              </button>
+            </form>
+          ))}
+        </>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,25 @@
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+/**
+ * Newly issued MFA recovery codes. They are stored hashed, so this is the
+ * only time the user sees them.
+ */
+export function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="rounded-lg border border-border bg-warning-light px-4 py-3">
+        <p className="text-sm font-medium text-warning">
+          Save these recovery codes somewhere safe. Each one works once, if you
+          lose your authenticator app. They will not be shown again.
+        </p>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-background-secondary p-4 font-mono text-sm text-foreground">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { can } from "@matrx/shared";
+import {
+  getAiIntegrationById,
+  getOrganizationMembership,
+  getWorkspaceById,
+  type Tables,
+} from "@matrx/supabase";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * AI Integration Access
+ *
+ * Resolves the organization and workspace behind an `ai_integrations` row
+ * and the caller's role there, mirroring the RLS policies in
+ * 003_platform_schema.sql:
+ *
+ * - Any member of the workspace's organization can view it
+ * - Members holding ai.use (everyone but viewers) can run it
+ * - Owners and admins can manage it
+ *
+ * Checked explicitly so routes can tell "not yours" from a database error
+ * and know the caller's organization for metering, independent of the
+ * client they query with.
+ */
+
+type IntegrationType = Tables<"ai_integrations">["type"];
+
+export interface AiIntegrationAccess {
+  integration: Tables<"ai_integrations">;
+  workspaceId: string;
+  organizationId: string;
+  role: Tables<"organization_members">["role"];
+  /** Holds ai.use in the organization; routes answer 403 without it */
+  canUse: boolean;
+  /** Holds ai.manage in the organization (owner or admin) */
+  canManage: boolean;
+}
+
+/**
+ * The caller's access to an active integration of the given type, or null
+ * if it does not exist or the caller is not a member of its organization.
+ * Callers answer 404 either way so other workspaces' ids are not revealed.
+ */
+export async function authorizeIntegration(
+  userId: string,
+  integrationId: string,
+  type: IntegrationType
+): Promise<AiIntegrationAccess | null> {
+  const admin = createAdminClient();
+
+  const { data: integration, error } = await getAiIntegrationById(admin, integrationId, type);
+  if (error) throw error;
+  if (!integration || !integration.is_active) return null;
+
+  const { data: workspace, error: workspaceError } = await getWorkspaceById(
+    admin,
+    integration.workspace_id
+  );
+  if (workspaceError) throw workspaceError;
+  if (!workspace) return null;
+
+  const { data: membership, error: membershipError } = await getOrganizationMembership(
+    admin,
+    workspace.organization_id,
+    userId
+  );
+  if (membershipError) throw membershipError;
+  if (!membership) return null;
+
+  return {
+    integration,
+    workspaceId: workspace.id,
+    organizationId: workspace.organization_id,
+    role: membership.role,
+    canUse: can(null, "ai.use", membership),
+    canManage: can(null, "ai.manage", membership),
+  };
+}
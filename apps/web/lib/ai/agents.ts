@@ -0,0 +1,323 @@
+import type {
+  Agent,
+  AgentChatResponse,
+  AgentMessage,
+  AiProvider,
+  Attachment,
+  KnowledgeCitation,
+  ToolCall,
+  ToolResult,
+} from "@matrx/ai-client";
+import {
+  createAgentMessages,
+  getAgentMessages,
+  getAiIntegrationById,
+  markAgentMessagesSummarized,
+  updateAgentConversation,
+  type InsertTables,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import {
+  AttachmentError,
+  estimateAttachmentTokens,
+  MAX_ATTACHMENTS,
+  resolveAttachments,
+} from "./attachments";
+import { citedInReply, searchKnowledge } from "./knowledge";
+import { buildAgentContext, selectContextWindow, summarizeMessages } from "./memory";
+import {
+  complete,
+  getProviderAdapter,
+  type ChatMessage,
+  type ProviderAdapter,
+} from "./providers";
+import { addTokenUsage, EMPTY_USAGE, estimateTokens } from "./tokens";
+import { executeToolCall, toToolDefinitions, type ToolContext } from "./tools";
+import type { UsageScope } from "./usage";
+
+/**
+ * Agents
+ *
+ * Agents are stored as `ai_integrations` rows of type "agent"; the agent
+ * definition lives in the row's `config` JSON. Conversations and their
+ * messages are persisted so chats survive reloads across web and mobile.
+ */
+
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+/** Map an `ai_integrations` row to an `Agent` */
+export function toAgent(row: Tables<"ai_integrations">): Agent {
+  const config = row.config as Partial<Agent>;
+
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    description: row.description,
+    systemPrompt: config.systemPrompt ?? "",
+    provider: (config.provider ?? "custom") as AiProvider,
+    model: config.model ?? "",
+    settings: { temperature: 0.7, maxTokens: 1024, ...config.settings },
+    tools: config.tools ?? [],
+    maxToolSteps: config.maxToolSteps,
+    memory: { enabled: true, type: "conversation", ...config.memory },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Load an active agent, optionally restricted to one workspace */
+export async function loadAgent(
+  client: SupabaseClient,
+  agentId: string,
+  workspaceId?: string
+): Promise<Agent | null> {
+  const { data, error } = await getAiIntegrationById(client, agentId, "agent");
+  if (error) throw error;
+  if (!data || !data.is_active) return null;
+  if (workspaceId && data.workspace_id !== workspaceId) return null;
+  return toAgent(data);
+}
+
+/** Map a persisted message row to the client-facing `AgentMessage` */
+export function toAgentMessage(row: Tables<"agent_messages">): AgentMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    ...(row.tool_calls ? { toolCalls: row.tool_calls as ToolCall[] } : {}),
+    ...(row.tool_results ? { toolResults: row.tool_results as ToolResult[] } : {}),
+    ...(row.attachments ? { attachments: row.attachments as Attachment[] } : {}),
+    ...(row.citations ? { citations: row.citations as KnowledgeCitation[] } : {}),
+    timestamp: row.created_at,
+  };
+}
+
+export interface AgentTurnOptions {
+  agent: Agent;
+  conversation: Tables<"agent_conversations">;
+  /** The authenticated caller; scopes "file" tools */
+  userId: string;
+  message: string;
+  /** `file_metadata` ids of the caller's uploads to attach */
+  attachmentIds?: string[];
+  /** Usage scope already checked against its quota; meters retrieval */
+  usageScope?: UsageScope | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run one user turn: persist the user message, apply the agent's memory
+ * strategy, then loop model → tool calls → results → model until the model
+ * answers or the step limit is reached. Intermediate tool exchanges are
+ * persisted alongside the final reply; "vector" agents also store the
+ * knowledge base chunks the reply cites.
+ */
+export async function runAgentTurn(
+  client: SupabaseClient,
+  options: AgentTurnOptions
+): Promise<AgentChatResponse> {
+  const { agent, conversation } = options;
+  const adapter = getProviderAdapter(agent.provider);
+  const startedAt = Date.now();
+
+  // Resolve before persisting so an invalid attachment rejects the turn
+  const attachmentIds = options.attachmentIds ?? [];
+  if (attachmentIds.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(
+      "UNSUPPORTED_ATTACHMENT",
+      `At most ${MAX_ATTACHMENTS} files can be attached to a message`
+    );
+  }
+  const attached = await resolveAttachments(client, options.userId, attachmentIds);
+
+  const { error: insertError } = await createAgentMessages(client, [
+    {
+      conversation_id: conversation.id,
+      role: "user",
+      content: options.message,
+      attachments: attached.length > 0 ? attached.map((entry) => entry.attachment) : null,
+      token_count: estimateTokens(options.message) + estimateAttachmentTokens(attached),
+    },
+  ]);
+  if (insertError) throw insertError;
+
+  const { data: history, error: historyError } = await getAgentMessages(
+    client,
+    conversation.id,
+    { activeOnly: true }
+  );
+  if (historyError) throw historyError;
+
+  const { kept, overflow } = selectContextWindow(history ?? [], agent.memory);
+
+  let summary = conversation.summary;
+  let usage = EMPTY_USAGE;
+
+  if (agent.memory.enabled && agent.memory.type === "summary" && overflow.length > 0) {
+    const folded = await summarizeMessages(adapter, agent, summary, overflow);
+    summary = folded.summary;
+    usage = addTokenUsage(usage, folded.usage);
+
+    const { error } = await markAgentMessagesSummarized(
+      client,
+      overflow.map((row) => row.id)
+    );
+    if (error) throw error;
+  }
+
+  // Files attached earlier in the window are re-sent (from cache); files
+  // deleted since then become a note in the message
+  const keptIds = kept.flatMap((row) =>
+    ((row.attachments ?? []) as Attachment[]).map((attachment) => attachment.fileId)
+  );
+  const resolved = await resolveAttachments(client, options.userId, keptIds, {
+    skipMissing: true,
+  });
+
+  const knowledge =
+    agent.memory.enabled && agent.memory.type === "vector"
+      ? await searchKnowledge(client, {
+          workspaceId: agent.workspaceId,
+          query: options.message,
+          topK: agent.memory.topK,
+          minScore: agent.memory.minScore,
+          userId: options.userId,
+          usageScope: options.usageScope,
+          signal: options.signal,
+        })
+      : [];
+
+  const context = buildAgentContext(
+    agent,
+    summary,
+    kept,
+    { resolved, vision: adapter.vision },
+    knowledge
+  );
+
+  const loop = await runToolLoop(adapter, agent, context, {
+    client,
+    userId: options.userId,
+    signal: options.signal,
+  });
+  usage = addTokenUsage(usage, loop.usage);
+
+  const { result } = loop;
+  const pending: InsertTables<"agent_messages">[] = loop.exchange.map((entry) => ({
+    conversation_id: conversation.id,
+    role: entry.message.role,
+    content: entry.message.content,
+    tool_calls: entry.message.toolCalls ?? null,
+    tool_results: entry.toolResult ? [entry.toolResult] : null,
+    token_count: entry.tokenCount,
+  }));
+
+  const citations = knowledge.length > 0 ? citedInReply(result.content, knowledge) : [];
+  pending.push({
+    conversation_id: conversation.id,
+    role: "assistant",
+    content: result.content,
+    citations: citations.length > 0 ? citations : null,
+    token_count: result.usage.completionTokens || estimateTokens(result.content),
+  });
+
+  // Insert one at a time so created_at preserves the exchange order
+  let reply: Tables<"agent_messages"> | undefined;
+  for (const message of pending) {
+    const { data: saved, error: saveError } = await createAgentMessages(client, [message]);
+    if (saveError) throw saveError;
+    reply = saved?.[0];
+  }
+  if (!reply) throw new Error("Failed to save agent reply");
+
+  const { error: updateError } = await updateAgentConversation(client, conversation.id, {
+    summary,
+    message_count: conversation.message_count + 1 + pending.length,
+    total_tokens: conversation.total_tokens + usage.totalTokens,
+    ...(conversation.title ? {} : { title: options.message.slice(0, 80) }),
+  });
+  if (updateError) throw updateError;
+
+  return {
+    conversationId: conversation.id,
+    message: toAgentMessage(reply),
+    toolsUsed: loop.toolsUsed,
+    usage,
+    latencyMs: Date.now() - startedAt,
+  };
+}
+
+export interface ToolLoopEntry {
+  message: ChatMessage;
+  toolResult?: ToolResult;
+  tokenCount: number;
+}
+
+/**
+ * Loop model → tool calls → results → model until the model answers
+ * without calling tools or the agent's step limit is reached. `context`
+ * is extended in place; `exchange` holds the intermediate messages.
+ */
+export async function runToolLoop(
+  adapter: ProviderAdapter,
+  agent: Agent,
+  context: ChatMessage[],
+  toolContext: ToolContext
+) {
+  // "file" tools act on the caller's uploads; runs without a caller lack them
+  const available = toolContext.userId
+    ? agent.tools
+    : agent.tools.filter((tool) => tool.type !== "file");
+  const tools = toToolDefinitions(available);
+  const maxSteps = agent.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS;
+  const toolsUsed = new Set<string>();
+  const exchange: ToolLoopEntry[] = [];
+  let usage = EMPTY_USAGE;
+  let step = 0;
+
+  while (true) {
+    // Once the step budget is spent, withhold tools so the model must answer
+    const offerTools = tools.length > 0 && step < maxSteps;
+
+    const result = await complete(adapter, {
+      model: agent.model,
+      messages: context,
+      settings: agent.settings,
+      ...(offerTools ? { tools } : {}),
+      signal: toolContext.signal,
+    });
+    usage = addTokenUsage(usage, result.usage);
+
+    if (!offerTools || result.toolCalls.length === 0) {
+      return { result, exchange, toolsUsed: [...toolsUsed], usage };
+    }
+    step++;
+
+    const assistant: ChatMessage = {
+      role: "assistant",
+      content: result.content,
+      toolCalls: result.toolCalls,
+    };
+    context.push(assistant);
+    exchange.push({ message: assistant, tokenCount: result.usage.completionTokens });
+
+    for (const call of result.toolCalls) {
+      const toolResult = await executeToolCall(available, call, toolContext);
+      toolsUsed.add(call.toolName);
+
+      const content = JSON.stringify(
+        toolResult.error ? { error: toolResult.error } : toolResult.result
+      );
+      const message: ChatMessage = {
+        role: "tool",
+        content,
+        toolCallId: call.id,
+        toolName: call.toolName,
+      };
+      context.push(message);
+      exchange.push({ message, toolResult, tokenCount: estimateTokens(content) });
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import type { Attachment } from "@matrx/ai-client";
+import { UPLOAD_LIMITS } from "@matrx/shared";
+import type { SupabaseClient } from "@matrx/supabase";
+import type { ChatMessage, ImagePart } from "./providers";
+import { estimateTokens } from "./tokens";
+
+/**
+ * Chat Attachments
+ *
+ * Files uploaded through `/api/files` can be attached to agent messages by
+ * their `file_metadata` id. Every lookup filters by `uploaded_by`, so a
+ * caller can only attach their own uploads.
+ *
+ * - Text files (txt, md, csv, json) are extracted and appended to the
+ *   message content
+ * - Images are sent as content parts to vision-capable adapters; other
+ *   adapters get a note that an image was attached
+ *
+ * Extracted content is cached by file id (invalidated when the file's
+ * `updated_at` changes), so files that stay in the context window are not
+ * downloaded again on every turn.
+ */
+
+export const MAX_ATTACHMENTS = 10;
+
+const MAX_TEXT_CHARS = 20_000;
+/** Rough context cost of one image; providers bill roughly this for ~1MP */
+const IMAGE_TOKENS = 1_000;
+const CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = [".txt", ".md", ".markdown", ".csv", ".json"];
+const TEXT_MIME_TYPES = ["text/plain", "text/markdown", "text/csv", "application/json"];
+
+export type AttachmentErrorCode =
+  | "ATTACHMENT_NOT_FOUND"
+  | "UNSUPPORTED_ATTACHMENT"
+  | "ATTACHMENT_TOO_LARGE";
+
+export class AttachmentError extends Error {
+  constructor(
+    readonly code: AttachmentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case "ATTACHMENT_NOT_FOUND":
+        return 404;
+      case "UNSUPPORTED_ATTACHMENT":
+        return 415;
+      case "ATTACHMENT_TOO_LARGE":
+        return 413;
+    }
+  }
+}
+
+/** An attachment with its content, ready to be sent to a model */
+export interface ResolvedAttachment {
+  attachment: Attachment;
+  /** Extracted text for text files */
+  text?: string;
+  truncated?: boolean;
+  image?: ImagePart;
+}
+
+interface CacheEntry {
+  updatedAt: string;
+  bytes: number;
+  resolved: ResolvedAttachment;
+}
+
+// Map iteration order doubles as recency: hits are re-inserted at the end
+const cache = new Map<string, CacheEntry>();
+let cachedBytes = 0;
+
+function cacheGet(fileId: string, updatedAt: string): ResolvedAttachment | undefined {
+  const entry = cache.get(fileId);
+  if (!entry) return undefined;
+
+  cache.delete(fileId);
+  if (entry.updatedAt !== updatedAt) {
+    cachedBytes -= entry.bytes;
+    return undefined;
+  }
+  cache.set(fileId, entry);
+  return entry.resolved;
+}
+
+function cacheSet(fileId: string, entry: CacheEntry) {
+  const previous = cache.get(fileId);
+  if (previous) {
+    cache.delete(fileId);
+    cachedBytes -= previous.bytes;
+  }
+  if (entry.bytes > CACHE_MAX_BYTES) return;
+
+  while (cachedBytes + entry.bytes > CACHE_MAX_BYTES) {
+    const [oldestId, oldest] = cache.entries().next().value as [string, CacheEntry];
+    cache.delete(oldestId);
+    cachedBytes -= oldest.bytes;
+  }
+  cache.set(fileId, entry);
+  cachedBytes += entry.bytes;
+}
+
+export function isTextFile(filename: string, mimeType: string): boolean {
+  const name = filename.toLowerCase();
+  return (
+    TEXT_MIME_TYPES.some((type) => mimeType.startsWith(type)) ||
+    TEXT_EXTENSIONS.some((extension) => name.endsWith(extension))
+  );
+}
+
+function isImage(mimeType: string): boolean {
+  return (UPLOAD_LIMITS.ALLOWED_IMAGE_TYPES as readonly string[]).includes(mimeType);
+}
+
+/** Pretty-print JSON so the model sees its structure; other text is kept as-is */
+export function normalizeText(filename: string, mimeType: string, text: string): string {
+  if (mimeType.startsWith("application/json") || filename.toLowerCase().endsWith(".json")) {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Invalid JSON is still useful as text
+    }
+  }
+  return text;
+}
+
+type FileRow = {
+  id: string;
+  bucket: string;
+  storage_path: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  updated_at: string;
+};
+
+async function extract(client: SupabaseClient, file: FileRow): Promise<ResolvedAttachment> {
+  const text = isTextFile(file.filename, file.mime_type);
+  const image = !text && isImage(file.mime_type);
+
+  if (!text && !image) {
+    throw new AttachmentError(
+      "UNSUPPORTED_ATTACHMENT",
+      `${file.filename}: ${file.mime_type} files cannot be attached`
+    );
+  }
+  if (image && file.size_bytes > UPLOAD_LIMITS.MAX_IMAGE_SIZE) {
+    const maxMb = UPLOAD_LIMITS.MAX_IMAGE_SIZE / (1024 * 1024);
+    throw new AttachmentError(
+      "ATTACHMENT_TOO_LARGE",
+      `${file.filename}: images must be under ${maxMb}MB`
+    );
+  }
+
+  const { data: blob, error } = await client.storage.from(file.bucket).download(file.storage_path);
+  if (error || !blob) {
+    throw new AttachmentError("ATTACHMENT_NOT_FOUND", `${file.filename}: file is not in storage`);
+  }
+
+  const attachment: Attachment = {
+    fileId: file.id,
+    type: image ? "image" : "file",
+    mimeType: file.mime_type,
+    name: file.filename,
+  };
+
+  if (image) {
+    const data = Buffer.from(await blob.arrayBuffer()).toString("base64");
+    return { attachment, image: { mimeType: file.mime_type, data } };
+  }
+
+  const content = normalizeText(file.filename, file.mime_type, await blob.text());
+  return {
+    attachment,
+    text: content.slice(0, MAX_TEXT_CHARS),
+    truncated: content.length > MAX_TEXT_CHARS,
+  };
+}
+
+function entrySize(resolved: ResolvedAttachment): number {
+  return (resolved.text?.length ?? 0) + (resolved.image?.data.length ?? 0);
+}
+
+/**
+ * Load the caller's files and their content, in the order requested.
+ * Throws ATTACHMENT_NOT_FOUND if any file is missing or not owned by
+ * `userId`; with `skipMissing`, those files are left out instead.
+ */
+export async function resolveAttachments(
+  client: SupabaseClient,
+  userId: string,
+  fileIds: string[],
+  options: { skipMissing?: boolean } = {}
+): Promise<ResolvedAttachment[]> {
+  const ids = [...new Set(fileIds)];
+  if (ids.length === 0) return [];
+
+  const { data, error } = await client
+    .from("file_metadata")
+    .select("id, bucket, storage_path, filename, mime_type, size_bytes, updated_at")
+    .in("id", ids)
+    .eq("uploaded_by", userId);
+  if (error) throw error;
+
+  const files = new Map((data ?? []).map((row) => [row.id, row as FileRow]));
+  const resolved: ResolvedAttachment[] = [];
+
+  for (const id of ids) {
+    const file = files.get(id);
+    if (!file) {
+      if (options.skipMissing) continue;
+      throw new AttachmentError("ATTACHMENT_NOT_FOUND", `File ${id} not found`);
+    }
+
+    const cached = cacheGet(id, file.updated_at);
+    if (cached) {
+      resolved.push(cached);
+      continue;
+    }
+
+    try {
+      const extracted = await extract(client, file);
+      cacheSet(id, { updatedAt: file.updated_at, bytes: entrySize(extracted), resolved: extracted });
+      resolved.push(extracted);
+    } catch (error) {
+      if (options.skipMissing && error instanceof AttachmentError) continue;
+      throw error;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Attach resolved files to a user message. `references` are the message's
+ * stored attachments; any without resolved content become a note so the
+ * model knows a file was there.
+ */
+export function withAttachments(
+  message: ChatMessage,
+  references: Attachment[],
+  resolved: ResolvedAttachment[],
+  vision: boolean
+): ChatMessage {
+  if (references.length === 0) return message;
+
+  const byId = new Map(resolved.map((entry) => [entry.attachment.fileId, entry]));
+  const sections: string[] = [];
+  const images: ImagePart[] = [];
+
+  for (const reference of references) {
+    const entry = byId.get(reference.fileId);
+
+    if (!entry) {
+      sections.push(`[Attachment unavailable: ${reference.name}]`);
+    } else if (entry.image) {
+      if (vision) images.push(entry.image);
+      else sections.push(`[Image attached: ${reference.name} — this model cannot view images]`);
+    } else {
+      const suffix = entry.truncated ? "\n[truncated]" : "";
+      sections.push(`[Attachment: ${reference.name}]\n${entry.text ?? ""}${suffix}`);
+    }
+  }
+
+  return {
+    ...message,
+    content: [message.content, ...sections].filter(Boolean).join("\n\n"),
+    ...(images.length > 0 ? { images } : {}),
+  };
+}
+
+/** Estimated context tokens the attachments add to a message */
+export function estimateAttachmentTokens(resolved: ResolvedAttachment[]): number {
+  return resolved.reduce(
+    (sum, entry) => sum + (entry.image ? IMAGE_TOKENS : estimateTokens(entry.text ?? "")),
+    0
+  );
+}
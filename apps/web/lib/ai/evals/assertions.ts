@@ -0,0 +1,90 @@
+import type { EvalAssertion, EvalAssertionResult, TokenUsage } from "@matrx/ai-client";
+import { validateJsonSchema } from "../json-schema";
+
+/**
+ * Eval Assertions
+ *
+ * Each assertion checks one property of a case's output and explains the
+ * outcome in `message`, so a failed run reads as a report.
+ */
+
+export interface EvalOutput {
+  content: string;
+  usage: TokenUsage;
+}
+
+const MAX_JSON_CANDIDATES = 20;
+
+/**
+ * Parse the output as JSON, or failing that the first `{…}` / `[…]` block
+ * inside it that parses — models often wrap JSON in prose or code fences.
+ */
+export function extractJson(text: string): { found: true; value: unknown } | { found: false } {
+  const candidates = [text.trim()];
+  const lastBrace = text.lastIndexOf("}");
+  const lastBracket = text.lastIndexOf("]");
+
+  for (let i = 0; i < text.length && candidates.length <= MAX_JSON_CANDIDATES; i++) {
+    const end = text[i] === "{" ? lastBrace : text[i] === "[" ? lastBracket : -1;
+    if (end > i) candidates.push(text.slice(i, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return { found: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return { found: false };
+}
+
+export function checkAssertion(
+  assertion: EvalAssertion,
+  output: EvalOutput
+): EvalAssertionResult {
+  const result = (passed: boolean, message: string): EvalAssertionResult => ({
+    type: assertion.type,
+    passed,
+    message,
+  });
+
+  switch (assertion.type) {
+    case "contains": {
+      const haystack = assertion.caseSensitive ? output.content : output.content.toLowerCase();
+      const needle = assertion.caseSensitive ? assertion.value : assertion.value.toLowerCase();
+      return haystack.includes(needle)
+        ? result(true, `Contains "${assertion.value}"`)
+        : result(false, `Expected output to contain "${assertion.value}"`);
+    }
+
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(assertion.pattern, assertion.flags);
+      } catch {
+        return result(false, `Invalid regex /${assertion.pattern}/`);
+      }
+      return pattern.test(output.content)
+        ? result(true, `Matches /${assertion.pattern}/${assertion.flags ?? ""}`)
+        : result(false, `Expected output to match /${assertion.pattern}/${assertion.flags ?? ""}`);
+    }
+
+    case "json_schema": {
+      const json = extractJson(output.content);
+      if (!json.found) return result(false, "Output does not contain JSON");
+
+      const validation = validateJsonSchema(assertion.schema, json.value);
+      return validation.success
+        ? result(true, "JSON matches the schema")
+        : result(false, `JSON does not match the schema: ${validation.issues.join("; ")}`);
+    }
+
+    case "max_tokens": {
+      const used = output.usage.completionTokens;
+      return used <= assertion.value
+        ? result(true, `${used} completion tokens (max ${assertion.value})`)
+        : result(false, `${used} completion tokens exceeds the maximum of ${assertion.value}`);
+    }
+  }
+}
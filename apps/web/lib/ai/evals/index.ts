@@ -0,0 +1,292 @@
+import type {
+  AiProvider,
+  EvalAssertion,
+  EvalAssertionResult,
+  EvalCase,
+  EvalCaseResult,
+  EvalDataset,
+  EvalRun,
+  PromptTemplate,
+  TokenUsage,
+} from "@matrx/ai-client";
+import type { CreateEvalDatasetInput, EvalCaseInput, UpdateEvalDatasetInput } from "@matrx/shared";
+import {
+  createEvalCases,
+  createEvalDataset,
+  createEvalResults,
+  createEvalRun,
+  deleteEvalCases,
+  deleteEvalDataset,
+  getEvalCases,
+  getEvalDatasetById,
+  getEvalDatasets,
+  getEvalResults,
+  getEvalRuns,
+  updateEvalDataset,
+  updateEvalRun,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { PromptPermissionError, rethrowWriteError } from "../prompt-versions";
+import type { UsageScope } from "../usage";
+import { runEvalSuite } from "./runner";
+
+/**
+ * Prompt Evaluations
+ *
+ * Datasets of test cases belong to a prompt template. A run evaluates a
+ * dataset against one template version and stores a scored result per
+ * case, so versions can be compared before and after an edit.
+ *
+ * Datasets are managed through the caller's client (owners/admins, RLS);
+ * runs and results are written with the service role.
+ */
+
+export function toEvalCase(row: Tables<"prompt_eval_cases">): EvalCase {
+  return {
+    id: row.id,
+    name: row.name,
+    variables: row.variables,
+    assertions: row.assertions as unknown as EvalAssertion[],
+  };
+}
+
+export function toEvalDataset(
+  row: Tables<"prompt_eval_datasets">,
+  cases: Tables<"prompt_eval_cases">[]
+): EvalDataset {
+  return {
+    id: row.id,
+    promptId: row.integration_id,
+    name: row.name,
+    description: row.description,
+    cases: cases.map(toEvalCase),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toEvalCaseResult(row: Tables<"prompt_eval_results">): EvalCaseResult {
+  return {
+    caseId: row.case_id,
+    name: row.case_name,
+    output: row.output,
+    passed: row.passed,
+    score: Number(row.score),
+    assertions: row.assertions as unknown as EvalAssertionResult[],
+    usage: row.usage as unknown as TokenUsage | null,
+    latencyMs: row.latency_ms,
+    error: row.error,
+  };
+}
+
+export function toEvalRun(
+  row: Tables<"prompt_eval_runs">,
+  results: Tables<"prompt_eval_results">[]
+): EvalRun {
+  return {
+    id: row.id,
+    datasetId: row.dataset_id,
+    promptId: row.integration_id,
+    promptVersion: row.prompt_version,
+    provider: row.provider as AiProvider,
+    model: row.model,
+    status: row.status,
+    passed: row.passed,
+    failed: row.failed,
+    score: Number(row.score),
+    results: results.map(toEvalCaseResult),
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+async function saveCases(client: SupabaseClient, datasetId: string, cases: EvalCaseInput[]) {
+  const { data, error } = await createEvalCases(
+    client,
+    cases.map((testCase, position) => ({
+      dataset_id: datasetId,
+      position,
+      name: testCase.name,
+      variables: testCase.variables,
+      assertions: testCase.assertions as unknown as Record<string, unknown>[],
+    }))
+  );
+  if (error) rethrowWriteError(error);
+  return data ?? [];
+}
+
+/** Load a dataset with its cases; null if missing or not visible */
+export async function loadEvalDataset(
+  client: SupabaseClient,
+  datasetId: string
+): Promise<EvalDataset | null> {
+  const { data, error } = await getEvalDatasetById(client, datasetId);
+  if (error) throw error;
+  if (!data) return null;
+
+  const { data: cases, error: casesError } = await getEvalCases(client, data.id);
+  if (casesError) throw casesError;
+
+  return toEvalDataset(data, cases ?? []);
+}
+
+/** A prompt's datasets; cases are omitted to keep the list small */
+export async function listEvalDatasets(
+  client: SupabaseClient,
+  promptId: string
+): Promise<EvalDataset[]> {
+  const { data, error } = await getEvalDatasets(client, promptId);
+  if (error) throw error;
+  return (data ?? []).map((row) => toEvalDataset(row, []));
+}
+
+export async function createEvalDatasetWithCases(
+  client: SupabaseClient,
+  input: CreateEvalDatasetInput,
+  userId: string
+): Promise<EvalDataset> {
+  const { data, error } = await createEvalDataset(client, {
+    integration_id: input.promptId,
+    name: input.name,
+    description: input.description ?? null,
+    created_by: userId,
+  });
+  if (error) rethrowWriteError(error);
+
+  const cases = await saveCases(client, data.id, input.cases);
+  return toEvalDataset(data, cases);
+}
+
+/** Rename a dataset and/or replace its cases; null if it does not exist */
+export async function updateEvalDatasetWithCases(
+  client: SupabaseClient,
+  datasetId: string,
+  changes: UpdateEvalDatasetInput
+): Promise<EvalDataset | null> {
+  const existing = await loadEvalDataset(client, datasetId);
+  if (!existing) return null;
+
+  if (changes.name !== undefined || changes.description !== undefined) {
+    const { error } = await updateEvalDataset(client, datasetId, {
+      ...(changes.name !== undefined ? { name: changes.name } : {}),
+      ...(changes.description !== undefined ? { description: changes.description } : {}),
+    });
+    if (error) rethrowWriteError(error);
+  }
+
+  if (changes.cases) {
+    const { error } = await deleteEvalCases(client, datasetId);
+    if (error) rethrowWriteError(error);
+    await saveCases(client, datasetId, changes.cases);
+  }
+
+  return loadEvalDataset(client, datasetId);
+}
+
+/** Delete a dataset with its runs; false if it does not exist */
+export async function deleteEvalDatasetById(
+  client: SupabaseClient,
+  datasetId: string
+): Promise<boolean> {
+  const existing = await loadEvalDataset(client, datasetId);
+  if (!existing) return false;
+
+  const { data, error } = await deleteEvalDataset(client, datasetId);
+  if (error) rethrowWriteError(error);
+  // Visible but not deletable: the caller is not a workspace admin
+  if (!data || data.length === 0) throw new PromptPermissionError();
+  return true;
+}
+
+export interface StartEvalRunOptions {
+  /** Service-role client for writing the run and its results */
+  admin: SupabaseClient;
+  dataset: EvalDataset;
+  template: PromptTemplate;
+  triggeredBy: string | null;
+  usageScope?: UsageScope | null;
+  signal?: AbortSignal;
+}
+
+/** Evaluate a dataset against a template and save the scored run */
+export async function runEvalDataset(options: StartEvalRunOptions): Promise<EvalRun> {
+  const { admin, dataset, template } = options;
+
+  const { data: run, error } = await createEvalRun(admin, {
+    dataset_id: dataset.id,
+    integration_id: template.id,
+    prompt_version: template.version,
+    provider: template.provider,
+    model: template.model,
+    triggered_by: options.triggeredBy,
+  });
+  if (error) throw error;
+
+  try {
+    const suite = await runEvalSuite(template, dataset.cases, {
+      usageScope: options.usageScope,
+      signal: options.signal,
+    });
+
+    const { data: results, error: resultsError } = await createEvalResults(
+      admin,
+      suite.results.map((result) => ({
+        run_id: run.id,
+        case_id: result.caseId,
+        case_name: result.name,
+        output: result.output,
+        passed: result.passed,
+        score: result.score,
+        assertions: result.assertions as unknown as Record<string, unknown>[],
+        usage: result.usage as unknown as Record<string, unknown> | null,
+        latency_ms: result.latencyMs,
+        error: result.error,
+      }))
+    );
+    if (resultsError) throw resultsError;
+
+    const { data: completed, error: updateError } = await updateEvalRun(admin, run.id, {
+      status: "completed",
+      passed: suite.passed,
+      failed: suite.failed,
+      score: suite.score,
+      completed_at: new Date().toISOString(),
+    });
+    if (updateError) throw updateError;
+
+    return toEvalRun(completed, results ?? []);
+  } catch (error) {
+    await updateEvalRun(admin, run.id, {
+      status: "failed",
+      completed_at: new Date().toISOString(),
+    });
+    throw error;
+  }
+}
+
+/** Recent runs of a dataset with their results, newest first */
+export async function listEvalRuns(
+  client: SupabaseClient,
+  datasetId: string
+): Promise<EvalRun[]> {
+  const { data: runs, error } = await getEvalRuns(client, datasetId);
+  if (error) throw error;
+  if (!runs || runs.length === 0) return [];
+
+  const { data: results, error: resultsError } = await getEvalResults(
+    client,
+    runs.map((run) => run.id)
+  );
+  if (resultsError) throw resultsError;
+
+  return runs.map((run) =>
+    toEvalRun(
+      run,
+      (results ?? []).filter((result) => result.run_id === run.id)
+    )
+  );
+}
+
+export { checkAssertion, extractJson } from "./assertions";
+export { runEvalCase, runEvalSuite, type EvalCaseDefinition } from "./runner";
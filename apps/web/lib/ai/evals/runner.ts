@@ -0,0 +1,110 @@
+import type {
+  EvalAssertion,
+  EvalCaseResult,
+  PromptTemplate,
+} from "@matrx/ai-client";
+import { executePrompt } from "../execute";
+import { collectStream } from "../stream";
+import { meterPromptStream, type UsageScope } from "../usage";
+import { checkAssertion } from "./assertions";
+
+/**
+ * Eval Runner
+ *
+ * Runs test cases against a prompt template through its provider adapter
+ * and scores each output. Cases run one at a time so a large dataset
+ * doesn't burst the provider's rate limits. Independent of the database,
+ * so the offline CLI (scripts/eval.ts) and the API share it.
+ */
+
+export interface EvalCaseDefinition {
+  id?: string | null;
+  name: string;
+  variables: Record<string, unknown>;
+  assertions: EvalAssertion[];
+}
+
+export interface EvalSuiteResult {
+  results: EvalCaseResult[];
+  passed: number;
+  failed: number;
+  /** Mean case score, 0–1 */
+  score: number;
+}
+
+export interface RunEvalOptions {
+  /** Meter provider calls against this organization */
+  usageScope?: UsageScope | null;
+  signal?: AbortSignal;
+}
+
+export async function runEvalCase(
+  template: PromptTemplate,
+  testCase: EvalCaseDefinition,
+  options: RunEvalOptions = {}
+): Promise<EvalCaseResult> {
+  const startedAt = Date.now();
+  const base = { caseId: testCase.id ?? null, name: testCase.name };
+
+  try {
+    const events = executePrompt({
+      template,
+      variables: testCase.variables,
+      signal: options.signal,
+    });
+    const response = await collectStream(
+      options.usageScope
+        ? meterPromptStream(events, options.usageScope, { source: "eval" })
+        : events
+    );
+
+    const assertions = testCase.assertions.map((assertion) =>
+      checkAssertion(assertion, response)
+    );
+    const passedCount = assertions.filter((a) => a.passed).length;
+
+    return {
+      ...base,
+      output: response.content,
+      passed: passedCount === assertions.length,
+      score: assertions.length > 0 ? passedCount / assertions.length : 1,
+      assertions,
+      usage: response.usage,
+      latencyMs: response.latencyMs,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      output: "",
+      passed: false,
+      score: 0,
+      assertions: [],
+      usage: null,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export async function runEvalSuite(
+  template: PromptTemplate,
+  cases: EvalCaseDefinition[],
+  options: RunEvalOptions = {}
+): Promise<EvalSuiteResult> {
+  const results: EvalCaseResult[] = [];
+  for (const testCase of cases) {
+    if (options.signal?.aborted) break;
+    results.push(await runEvalCase(template, testCase, options));
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  const totalScore = results.reduce((sum, r) => sum + r.score, 0);
+
+  return {
+    results,
+    passed,
+    failed: results.length - passed,
+    score: results.length > 0 ? totalScore / results.length : 0,
+  };
+}
@@ -0,0 +1,158 @@
+import type {
+  ModelSettings,
+  PromptStreamEvent,
+  PromptTemplate,
+  StructuredOutput,
+  TokenUsage,
+} from "@matrx/ai-client";
+import { buildPromptMessages, resolvePromptVariables } from "./prompts";
+import {
+  complete,
+  getProviderAdapter,
+  type ChatMessage,
+  type ProviderAdapter,
+} from "./providers";
+import {
+  MAX_REPAIR_ATTEMPTS,
+  outputInstructions,
+  parseStructuredOutput,
+  repairMessage,
+  resolveOutputFormat,
+  StructuredOutputError,
+} from "./structured-output";
+import { addTokenUsage, EMPTY_USAGE, estimateTokens } from "./tokens";
+
+/**
+ * Prompt Execution
+ *
+ * Runs a prompt template through its provider adapter and translates the
+ * normalized provider stream into `PromptStreamEvent` frames.
+ *
+ * With `output`, the reply must be JSON matching a schema (see
+ * ./structured-output). Attempts are collected rather than streamed, since
+ * a reply may be discarded for a repaired one; the valid reply is emitted
+ * as a single delta and `parsed` is set on the `done` frame.
+ */
+
+export interface ExecutePromptOptions {
+  template: PromptTemplate;
+  variables: Record<string, unknown>;
+  overrides?: Partial<ModelSettings>;
+  output?: StructuredOutput;
+  signal?: AbortSignal;
+}
+
+function withEstimatedUsage(
+  usage: TokenUsage | null,
+  messages: ChatMessage[],
+  content: string
+): TokenUsage {
+  // Some vendors omit usage on streamed responses; fall back to an estimate
+  if (usage && usage.totalTokens > 0) return usage;
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export async function* executePrompt(
+  options: ExecutePromptOptions
+): AsyncGenerator<PromptStreamEvent, void, undefined> {
+  const { template } = options;
+  const adapter: ProviderAdapter = getProviderAdapter(template.provider);
+  const variables = resolvePromptVariables(template, options.variables);
+  const messages = buildPromptMessages(template, variables);
+
+  if (options.output) {
+    yield* executeStructured(adapter, messages, options, options.output);
+    return;
+  }
+
+  const startedAt = Date.now();
+
+  let content = "";
+  let usage: TokenUsage | null = null;
+
+  for await (const event of adapter.stream({
+    model: template.model,
+    messages,
+    settings: { ...template.settings, ...options.overrides },
+    signal: options.signal,
+  })) {
+    if (event.type === "delta") {
+      content += event.content;
+      yield event;
+    } else if (event.type === "done") {
+      usage = event.usage;
+    }
+  }
+
+  yield {
+    type: "done",
+    response: {
+      id: crypto.randomUUID(),
+      promptId: template.id,
+      promptVersion: template.version,
+      usage: withEstimatedUsage(usage, messages, content),
+      latencyMs: Date.now() - startedAt,
+      provider: adapter.provider,
+      model: template.model,
+    },
+  };
+}
+
+async function* executeStructured(
+  adapter: ProviderAdapter,
+  messages: ChatMessage[],
+  options: ExecutePromptOptions,
+  output: StructuredOutput
+): AsyncGenerator<PromptStreamEvent, void, undefined> {
+  const { template } = options;
+  const format = resolveOutputFormat(output);
+  const context = [...messages, outputInstructions(format)];
+  const startedAt = Date.now();
+
+  let usage = EMPTY_USAGE;
+  let content = "";
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    if (attempt > 0) {
+      context.push({ role: "assistant", content }, repairMessage(issues));
+    }
+
+    const result = await complete(adapter, {
+      model: template.model,
+      messages: context,
+      settings: { ...template.settings, ...options.overrides },
+      responseFormat: format.responseFormat,
+      signal: options.signal,
+    });
+    content = result.content;
+    usage = addTokenUsage(usage, withEstimatedUsage(result.usage, context, content));
+
+    const parsed = parseStructuredOutput(format, content);
+    const response = {
+      id: crypto.randomUUID(),
+      promptId: template.id,
+      promptVersion: template.version,
+      usage,
+      latencyMs: Date.now() - startedAt,
+      provider: adapter.provider,
+      model: template.model,
+    };
+
+    if (parsed.success) {
+      yield { type: "delta", content };
+      yield {
+        type: "done",
+        response: { ...response, parsed: parsed.data, repairAttempts: attempt },
+      };
+      return;
+    }
+
+    issues = parsed.issues;
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      throw new StructuredOutputError(issues, content, response);
+    }
+  }
+}
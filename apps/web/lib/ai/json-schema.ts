@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+/**
+ * JSON Schema Validation
+ *
+ * Validates values against JSON Schemas stored in the database (tool
+ * parameters, structured output schemas) by converting them to Zod.
+ * Defaults declared in the schema are applied to the returned data.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export type JsonSchemaResult =
+  | { success: true; data: unknown }
+  | { success: false; issues: string[] };
+
+// Schemas come from config rows that are re-read per request; cache by content
+const compiled = new Map<string, z.ZodType>();
+const MAX_COMPILED = 200;
+
+/** Convert a JSON Schema to Zod; throws if the schema is unsupported */
+export function compileJsonSchema(schema: JsonSchema): z.ZodType {
+  const key = JSON.stringify(schema);
+  let zodSchema = compiled.get(key);
+
+  if (!zodSchema) {
+    zodSchema = z.fromJSONSchema(schema);
+    if (compiled.size >= MAX_COMPILED) {
+      const oldest = compiled.keys().next().value;
+      if (oldest !== undefined) compiled.delete(oldest);
+    }
+    compiled.set(key, zodSchema);
+  }
+
+  return zodSchema;
+}
+
+export function validateJsonSchema(schema: JsonSchema, value: unknown): JsonSchemaResult {
+  let zodSchema: z.ZodType;
+  try {
+    zodSchema = compileJsonSchema(schema);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unsupported schema";
+    return { success: false, issues: [`Invalid schema: ${message}`] };
+  }
+
+  return validateWithZod(zodSchema, value);
+}
+
+/** Validate with a Zod schema, reporting issues in the same form */
+export function validateWithZod(schema: z.ZodType, value: unknown): JsonSchemaResult {
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+}
@@ -0,0 +1,106 @@
+import { estimateTokens } from "../tokens";
+
+/**
+ * Knowledge Chunking
+ *
+ * Sources are reduced to plain text and split into overlapping chunks of
+ * roughly `maxTokens`. Splits prefer paragraph, then sentence, then word
+ * boundaries so each chunk reads as a self-contained excerpt.
+ */
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  /** Tokens repeated from the end of the previous chunk */
+  overlapTokens?: number;
+}
+
+const DEFAULT_MAX_TOKENS = 400;
+const DEFAULT_OVERLAP_TOKENS = 40;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  "#39": "'",
+  nbsp: " ",
+};
+
+/** Strip markup so embeddings see prose rather than tags */
+export function toPlainText(content: string, format: string): string {
+  let text = content;
+
+  if (format === "html" || format === "rich_text" || format === "react") {
+    text = text
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<\/(p|div|h[1-6]|li|tr|section|article)>|<br\s*\/?>/gi, "\n\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => HTML_ENTITIES[entity] ?? "");
+  } else if (format === "markdown") {
+    text = text
+      .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/^#{1,6}\s+/gm, "")
+      .replace(/(\*\*|__|`)/g, "");
+  }
+
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n\s*/g, "\n\n")
+    .trim();
+}
+
+/** Break text into pieces no larger than `maxTokens`, coarsest boundary first */
+function splitPieces(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  for (const separator of [/\n\n+/, /(?<=[.!?])\s+/, /\s+/]) {
+    const parts = text.split(separator).filter(Boolean);
+    if (parts.length > 1) return parts.flatMap((part) => splitPieces(part, maxTokens));
+  }
+
+  // A single unbroken run (e.g. a long URL or base64): hard split
+  const maxChars = maxTokens * 4;
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) pieces.push(text.slice(i, i + maxChars));
+  return pieces;
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overlapTokens = Math.min(options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS, maxTokens / 2);
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const piece of splitPieces(trimmed, maxTokens)) {
+    const pieceTokens = estimateTokens(piece);
+
+    if (tokens + pieceTokens > maxTokens && current.length > 0) {
+      chunks.push(current.join(" "));
+
+      // Carry the tail of this chunk into the next one
+      const carried: string[] = [];
+      let carriedTokens = 0;
+      for (const previous of [...current].reverse()) {
+        const previousTokens = estimateTokens(previous);
+        const total = carriedTokens + previousTokens;
+        if (total > overlapTokens || total + pieceTokens > maxTokens) break;
+        carried.unshift(previous);
+        carriedTokens += previousTokens;
+      }
+      current = carried;
+      tokens = carriedTokens;
+    }
+
+    current.push(piece);
+    tokens += pieceTokens;
+  }
+
+  if (current.length > 0) chunks.push(current.join(" "));
+  return chunks;
+}
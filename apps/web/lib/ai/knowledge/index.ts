@@ -0,0 +1,356 @@
+import { createHash } from "crypto";
+import type {
+  AiProvider,
+  KnowledgeCitation,
+  KnowledgeIndexResult,
+  KnowledgeSource,
+  KnowledgeSourceRef,
+} from "@matrx/ai-client";
+import {
+  createKnowledgeChunks,
+  deleteKnowledgeSource,
+  getKnowledgeSourceHead,
+  getKnowledgeSources,
+  matchKnowledgeChunks,
+  type SupabaseClient,
+} from "@matrx/supabase";
+import {
+  embed,
+  getProviderAdapter,
+  type EmbeddingRequest,
+  type EmbeddingResult,
+  type ProviderAdapter,
+} from "../providers";
+import { estimateTokens } from "../tokens";
+import { assertWithinQuota, recordUsage, resolveUsageScope, type UsageScope } from "../usage";
+import { chunkText } from "./chunking";
+import { KnowledgeSourceError, loadKnowledgeSource } from "./sources";
+
+/**
+ * Knowledge Base
+ *
+ * Indexes blog posts, dynamic pages and text uploads into a workspace's
+ * `knowledge_chunks`, and retrieves the closest chunks for a query.
+ * Agents with "vector" memory retrieve per turn and cite chunks as [n].
+ *
+ * Embeddings go through the provider adapter named by
+ * `AI_EMBEDDING_PROVIDER` (default "mock", the offline hash embedder) and
+ * `AI_EMBEDDING_MODEL` (default: the adapter's embedding model). Chunks
+ * remember their model, so changing either requires re-indexing.
+ * Embedding calls are checked against the organization's AI quota and
+ * recorded in the usage ledger (source "embedding"), like executions.
+ *
+ * Indexing writes through the caller's client, so RLS limits it to
+ * workspace owners/admins; any member can search.
+ */
+
+export const DEFAULT_TOP_K = 5;
+export const MAX_TOP_K = 20;
+
+const MAX_CHUNKS_PER_SOURCE = 500;
+const EMBED_BATCH_SIZE = 64;
+
+const KNOWLEDGE_INSTRUCTIONS =
+  "Use the knowledge base excerpts below when they are relevant to the user's message. " +
+  "Cite the excerpts you rely on inline as [n]. If they do not cover the question, say so " +
+  "rather than guessing.";
+
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+export class KnowledgePermissionError extends Error {
+  constructor() {
+    super("Only workspace owners and admins can manage the knowledge base");
+    this.name = "KnowledgePermissionError";
+  }
+}
+
+function rethrowWriteError(error: { code?: string }): never {
+  if (error.code === INSUFFICIENT_PRIVILEGE) throw new KnowledgePermissionError();
+  throw error;
+}
+
+export { KnowledgeSourceError } from "./sources";
+export { chunkText, toPlainText } from "./chunking";
+
+export interface Embedder {
+  adapter: ProviderAdapter;
+  model: string;
+}
+
+export function getEmbedder(): Embedder {
+  const provider = (process.env.AI_EMBEDDING_PROVIDER || "mock") as AiProvider;
+  const adapter = getProviderAdapter(provider);
+
+  // AI_PROVIDER_OVERRIDE may swap the adapter; its model name must follow
+  const model =
+    (adapter.provider === provider ? process.env.AI_EMBEDDING_MODEL : undefined) ||
+    adapter.embeddingModel;
+
+  if (!adapter.embed || !model) {
+    throw new Error(`AI provider "${adapter.provider}" does not support embeddings`);
+  }
+  return { adapter, model };
+}
+
+/**
+ * The usage scope embeddings for a workspace are billed to, after
+ * checking its quota. Pass a scope the caller already checked to skip
+ * the lookup.
+ */
+async function embeddingScope(
+  workspaceId: string,
+  checked?: UsageScope | null
+): Promise<UsageScope | null> {
+  if (checked !== undefined) return checked;
+  const scope = await resolveUsageScope(workspaceId);
+  if (scope) await assertWithinQuota(scope);
+  return scope;
+}
+
+/** Embed and record the call in the usage ledger */
+async function meteredEmbed(
+  embedder: Embedder,
+  request: Omit<EmbeddingRequest, "model">,
+  scope: UsageScope | null,
+  userId?: string | null
+): Promise<EmbeddingResult> {
+  const startedAt = Date.now();
+  const result = await embed(embedder.adapter, { ...request, model: embedder.model });
+
+  if (scope) {
+    await recordUsage(scope, {
+      source: "embedding",
+      userId,
+      provider: embedder.adapter.provider,
+      model: embedder.model,
+      usage: {
+        promptTokens: result.promptTokens,
+        completionTokens: 0,
+        totalTokens: result.promptTokens,
+      },
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+  return result;
+}
+
+/** pgvector's text form */
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+async function findSource(
+  client: SupabaseClient,
+  workspaceId: string,
+  source: KnowledgeSourceRef
+): Promise<KnowledgeSource | null> {
+  const sources = await listKnowledgeSources(client, workspaceId);
+  return sources.find((s) => s.type === source.type && s.id === source.id) ?? null;
+}
+
+/** Indexed sources of a workspace, most recently indexed first */
+export async function listKnowledgeSources(
+  client: SupabaseClient,
+  workspaceId: string
+): Promise<KnowledgeSource[]> {
+  const { data, error } = await getKnowledgeSources(client, workspaceId);
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({
+    workspaceId,
+    type: row.source_type,
+    id: row.source_id,
+    title: row.source_title,
+    url: row.source_url,
+    chunkCount: Number(row.chunk_count),
+    embeddingModel: row.embedding_model,
+    indexedAt: row.indexed_at,
+  }));
+}
+
+export interface IndexSourceOptions {
+  workspaceId: string;
+  source: KnowledgeSourceRef;
+  /** The caller; file sources must be their own uploads */
+  userId: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Chunk, embed and store a source, replacing its previous chunks. Sources
+ * whose text (and embedding model) are unchanged are not re-embedded.
+ * Returns null if the source does not exist or is not visible.
+ */
+export async function indexKnowledgeSource(
+  client: SupabaseClient,
+  options: IndexSourceOptions
+): Promise<KnowledgeIndexResult | null> {
+  const { workspaceId, source } = options;
+
+  const loaded = await loadKnowledgeSource(client, options.userId, source);
+  if (!loaded) return null;
+
+  const chunks = chunkText(loaded.text).slice(0, MAX_CHUNKS_PER_SOURCE);
+  if (chunks.length === 0) {
+    throw new KnowledgeSourceError(`${loaded.title}: no text to index`);
+  }
+
+  const embedder = getEmbedder();
+  const contentHash = createHash("sha256")
+    .update(`${embedder.model}\n${loaded.text}`)
+    .digest("hex");
+
+  const { data: head, error: headError } = await getKnowledgeSourceHead(
+    client,
+    workspaceId,
+    source.type,
+    source.id
+  );
+  if (headError) throw headError;
+
+  if (head?.content_hash === contentHash) {
+    const existing = await findSource(client, workspaceId, source);
+    if (existing) return { source: existing, reindexed: false };
+  }
+
+  const scope = await embeddingScope(workspaceId);
+
+  // Embed everything before touching the stored chunks, so a provider
+  // failure leaves the previous index in place
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+    const result = await meteredEmbed(
+      embedder,
+      {
+        input: chunks.slice(i, i + EMBED_BATCH_SIZE),
+        purpose: "document",
+        signal: options.signal,
+      },
+      scope,
+      options.userId
+    );
+    embeddings.push(...result.embeddings);
+  }
+
+  const { error: deleteError } = await deleteKnowledgeSource(
+    client,
+    workspaceId,
+    source.type,
+    source.id
+  );
+  if (deleteError) rethrowWriteError(deleteError);
+
+  const { error: insertError } = await createKnowledgeChunks(
+    client,
+    chunks.map((content, chunkIndex) => ({
+      workspace_id: workspaceId,
+      source_type: source.type,
+      source_id: source.id,
+      source_title: loaded.title,
+      source_url: loaded.url,
+      chunk_index: chunkIndex,
+      content,
+      token_count: estimateTokens(content),
+      content_hash: contentHash,
+      embedding_model: embedder.model,
+      embedding: toVectorLiteral(embeddings[chunkIndex] ?? []),
+    }))
+  );
+  if (insertError) rethrowWriteError(insertError);
+
+  const indexed = await findSource(client, workspaceId, source);
+  if (!indexed) throw new Error("Failed to read back the indexed source");
+  return { source: indexed, reindexed: true };
+}
+
+/** Remove a source's chunks; false if it was not indexed */
+export async function removeKnowledgeSource(
+  client: SupabaseClient,
+  workspaceId: string,
+  source: KnowledgeSourceRef
+): Promise<boolean> {
+  const existing = await findSource(client, workspaceId, source);
+  if (!existing) return false;
+
+  const { data, error } = await deleteKnowledgeSource(
+    client,
+    workspaceId,
+    source.type,
+    source.id
+  );
+  if (error) rethrowWriteError(error);
+  // Visible but not deletable: the caller is not a workspace admin
+  if (!data || data.length === 0) throw new KnowledgePermissionError();
+  return true;
+}
+
+export interface SearchKnowledgeOptions {
+  workspaceId: string;
+  query: string;
+  topK?: number;
+  /** Minimum cosine similarity, -1–1 */
+  minScore?: number;
+  /** The caller, for the usage ledger */
+  userId?: string | null;
+  /** Usage scope the caller already checked against its quota */
+  usageScope?: UsageScope | null;
+  signal?: AbortSignal;
+}
+
+/** The chunks closest to `query`, numbered [1]…[k] for citation */
+export async function searchKnowledge(
+  client: SupabaseClient,
+  options: SearchKnowledgeOptions
+): Promise<KnowledgeCitation[]> {
+  if (!options.query.trim()) return [];
+
+  const embedder = getEmbedder();
+  const scope = await embeddingScope(options.workspaceId, options.usageScope);
+  const { embeddings } = await meteredEmbed(
+    embedder,
+    { input: [options.query], purpose: "query", signal: options.signal },
+    scope,
+    options.userId
+  );
+
+  const { data, error } = await matchKnowledgeChunks(client, {
+    workspaceId: options.workspaceId,
+    embedding: toVectorLiteral(embeddings[0] ?? []),
+    embeddingModel: embedder.model,
+    matchCount: Math.min(MAX_TOP_K, Math.max(1, options.topK ?? DEFAULT_TOP_K)),
+    minScore: options.minScore,
+  });
+  if (error) throw error;
+
+  return (data ?? []).map((row, i) => ({
+    index: i + 1,
+    sourceType: row.source_type,
+    sourceId: row.source_id,
+    title: row.source_title,
+    url: row.source_url,
+    chunkIndex: row.chunk_index,
+    excerpt: row.content,
+    score: Number(row.score),
+  }));
+}
+
+/** System message presenting retrieved chunks to the model */
+export function formatKnowledgeContext(citations: KnowledgeCitation[]): string {
+  const excerpts = citations.map(
+    (citation) =>
+      `[${citation.index}] ${citation.title}${citation.url ? ` (${citation.url})` : ""}\n${citation.excerpt}`
+  );
+  return [KNOWLEDGE_INSTRUCTIONS, ...excerpts].join("\n\n");
+}
+
+/**
+ * The citations a reply refers to by [n]. If the model used none of the
+ * markers, every retrieved chunk is returned since all were in context.
+ */
+export function citedInReply(
+  reply: string,
+  citations: KnowledgeCitation[]
+): KnowledgeCitation[] {
+  const cited = citations.filter((citation) => reply.includes(`[${citation.index}]`));
+  return cited.length > 0 ? cited : citations;
+}
@@ -0,0 +1,101 @@
+import type { KnowledgeSourceRef } from "@matrx/ai-client";
+import type { SupabaseClient } from "@matrx/supabase";
+import { isTextFile, normalizeText } from "../attachments";
+import { toPlainText } from "./chunking";
+
+/**
+ * Knowledge Sources
+ *
+ * Loads the text of an indexable source through the caller's client:
+ * published blog posts and dynamic pages, or the caller's own text
+ * uploads (filtered by `uploaded_by`, like attachments and file tools).
+ */
+
+export class KnowledgeSourceError extends Error {
+  readonly code = "UNSUPPORTED_SOURCE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "KnowledgeSourceError";
+  }
+}
+
+export interface LoadedSource {
+  title: string;
+  url: string | null;
+  text: string;
+}
+
+/** Load a source's text; null if it does not exist or is not visible */
+export async function loadKnowledgeSource(
+  client: SupabaseClient,
+  userId: string,
+  source: KnowledgeSourceRef
+): Promise<LoadedSource | null> {
+  switch (source.type) {
+    case "blog_post": {
+      const { data, error } = await client
+        .from("blog_posts")
+        .select("title, slug, excerpt, content, content_format")
+        .eq("id", source.id)
+        .eq("status", "published")
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        title: data.title,
+        url: `/blog/${data.slug}`,
+        text: [data.title, data.excerpt, toPlainText(data.content, data.content_format)]
+          .filter(Boolean)
+          .join("\n\n"),
+      };
+    }
+
+    case "dynamic_page": {
+      const { data, error } = await client
+        .from("dynamic_pages")
+        .select("title, slug, content, content_type")
+        .eq("id", source.id)
+        .eq("status", "published")
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        title: data.title,
+        url: `/p/${data.slug}`,
+        text: [data.title, toPlainText(data.content, data.content_type)].join("\n\n"),
+      };
+    }
+
+    case "file": {
+      const { data: file, error } = await client
+        .from("file_metadata")
+        .select("bucket, storage_path, filename, mime_type")
+        .eq("id", source.id)
+        .eq("uploaded_by", userId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!file) return null;
+
+      if (!isTextFile(file.filename, file.mime_type)) {
+        throw new KnowledgeSourceError(
+          `${file.filename}: only text, markdown, CSV and JSON files can be indexed`
+        );
+      }
+
+      const { data: blob, error: downloadError } = await client.storage
+        .from(file.bucket)
+        .download(file.storage_path);
+      if (downloadError || !blob) return null;
+
+      const format = /\.(md|markdown)$/i.test(file.filename) ? "markdown" : "text";
+      return {
+        title: file.filename,
+        url: null,
+        text: toPlainText(normalizeText(file.filename, file.mime_type, await blob.text()), format),
+      };
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import type {
+  Agent,
+  AgentMemoryConfig,
+  Attachment,
+  KnowledgeCitation,
+} from "@matrx/ai-client";
+import type { Tables } from "@matrx/supabase";
+import { withAttachments, type ResolvedAttachment } from "./attachments";
+import { formatKnowledgeContext } from "./knowledge";
+import { complete, type ChatMessage, type ProviderAdapter } from "./providers";
+
+/**
+ * Agent Memory Strategies
+ *
+ * Decides which persisted messages fit in the model's context window.
+ *
+ * - `conversation`: the newest messages within `maxMessages`/`maxTokens`;
+ *   older messages stay in history but are not sent
+ * - `summary`: same window, but messages that fall out of it are folded
+ *   into a rolling summary stored on the conversation
+ * - `vector`: windowed like `conversation`, plus the workspace knowledge
+ *   base chunks closest to the latest user message (lib/ai/knowledge)
+ *
+ * With memory disabled, only the latest message is sent.
+ */
+
+type MessageRow = Tables<"agent_messages">;
+
+const SUMMARY_MAX_TOKENS = 512;
+
+const SUMMARY_INSTRUCTIONS =
+  "You maintain a running summary of a conversation between a user and an AI assistant. " +
+  "Merge the previous summary with the new messages into one concise summary. " +
+  "Keep facts, decisions, user preferences and open questions. Reply with the summary only.";
+
+export interface ContextWindow {
+  /** Messages to send, oldest first */
+  kept: MessageRow[];
+  /** Messages that no longer fit, oldest first */
+  overflow: MessageRow[];
+}
+
+/**
+ * Split active messages into the context window and the overflow.
+ * The newest message is always kept, and the window never starts with a
+ * tool result whose originating tool call was cut off.
+ */
+export function selectContextWindow(
+  messages: MessageRow[],
+  memory: AgentMemoryConfig
+): ContextWindow {
+  if (messages.length === 0) return { kept: [], overflow: [] };
+
+  const maxMessages = memory.enabled ? (memory.maxMessages ?? Infinity) : 1;
+  const maxTokens = memory.enabled ? (memory.maxTokens ?? Infinity) : Infinity;
+
+  let start = messages.length - 1;
+  let tokens = messages[start]?.token_count ?? 0;
+
+  while (start > 0) {
+    const previous = messages[start - 1];
+    if (!previous) break;
+    if (messages.length - (start - 1) > maxMessages) break;
+    if (tokens + previous.token_count > maxTokens) break;
+    tokens += previous.token_count;
+    start--;
+  }
+
+  while (start < messages.length - 1 && messages[start]?.role === "tool") {
+    start++;
+  }
+
+  return { kept: messages.slice(start), overflow: messages.slice(0, start) };
+}
+
+/** Attachment content available to the context, see lib/ai/attachments */
+export interface ContextAttachments {
+  resolved: ResolvedAttachment[];
+  /** Whether the adapter accepts images */
+  vision: boolean;
+}
+
+/** Convert persisted rows to provider-neutral chat messages */
+export function toChatMessages(
+  rows: MessageRow[],
+  attachments?: ContextAttachments
+): ChatMessage[] {
+  const toolNames = new Map<string, string>();
+
+  return rows.map((row) => {
+    const toolCalls = (row.tool_calls ?? []) as NonNullable<ChatMessage["toolCalls"]>;
+    for (const call of toolCalls) toolNames.set(call.id, call.toolName);
+
+    if (row.role === "tool") {
+      const [result] = (row.tool_results ?? []) as Array<{ toolCallId: string }>;
+      return {
+        role: "tool",
+        content: row.content,
+        toolCallId: result?.toolCallId,
+        toolName: result ? toolNames.get(result.toolCallId) : undefined,
+      };
+    }
+
+    const message: ChatMessage = {
+      role: row.role,
+      content: row.content,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+
+    const references = (row.attachments ?? []) as Attachment[];
+    return row.role === "user" && references.length > 0
+      ? withAttachments(
+          message,
+          references,
+          attachments?.resolved ?? [],
+          attachments?.vision ?? false
+        )
+      : message;
+  });
+}
+
+/**
+ * Build the message list sent to the provider: the agent's system prompt,
+ * the rolling summary (if any), retrieved knowledge (if any), then the
+ * windowed messages with their attachments.
+ */
+export function buildAgentContext(
+  agent: Agent,
+  summary: string | null,
+  kept: MessageRow[],
+  attachments?: ContextAttachments,
+  knowledge: KnowledgeCitation[] = []
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  if (agent.systemPrompt) {
+    messages.push({ role: "system", content: agent.systemPrompt });
+  }
+  if (summary && agent.memory.type === "summary") {
+    messages.push({
+      role: "system",
+      content: `Summary of the earlier conversation:\n${summary}`,
+    });
+  }
+  if (knowledge.length > 0) {
+    messages.push({ role: "system", content: formatKnowledgeContext(knowledge) });
+  }
+
+  return [...messages, ...toChatMessages(kept, attachments)];
+}
+
+/** Fold overflowed messages into the rolling summary */
+export async function summarizeMessages(
+  adapter: ProviderAdapter,
+  agent: Agent,
+  previousSummary: string | null,
+  overflow: MessageRow[]
+) {
+  const transcript = overflow
+    .map((row) => `${row.role}: ${row.content}`)
+    .join("\n");
+
+  const result = await complete(adapter, {
+    model: agent.model,
+    messages: [
+      { role: "system", content: SUMMARY_INSTRUCTIONS },
+      {
+        role: "user",
+        content: `Previous summary:\n${previousSummary ?? "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    settings: { temperature: 0, maxTokens: SUMMARY_MAX_TOKENS },
+  });
+
+  return { summary: result.content.trim(), usage: result.usage };
+}
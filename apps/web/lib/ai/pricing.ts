@@ -0,0 +1,69 @@
+import type { AiProvider, TokenUsage } from "@matrx/ai-client";
+
+/**
+ * Model Pricing
+ *
+ * List prices in USD per million tokens, used to estimate the cost of
+ * each execution in the usage ledger. Models are matched by prefix so
+ * dated snapshots (e.g. "gpt-4o-2024-08-06") share their family's price.
+ * Estimates only — the provider's invoice is the source of truth.
+ */
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  // Longer prefixes first so "gpt-4o-mini" wins over "gpt-4o"
+  ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, output: 10 }],
+  ["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+  ["gpt-4.1", { input: 2, output: 8 }],
+  ["o3-mini", { input: 1.1, output: 4.4 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4 }],
+  ["claude-haiku", { input: 1, output: 5 }],
+  ["claude-sonnet", { input: 3, output: 15 }],
+  ["claude-opus", { input: 15, output: 75 }],
+  ["gemini-2.0-flash", { input: 0.1, output: 0.4 }],
+  ["gemini-1.5-pro", { input: 1.25, output: 5 }],
+  ["mistral-small", { input: 0.2, output: 0.6 }],
+  ["mistral-large", { input: 2, output: 6 }],
+  ["command-r-plus", { input: 2.5, output: 10 }],
+  ["command-r", { input: 0.15, output: 0.6 }],
+  // Embedding models bill input tokens only
+  ["text-embedding-3-small", { input: 0.02, output: 0 }],
+  ["text-embedding-3-large", { input: 0.13, output: 0 }],
+  ["mistral-embed", { input: 0.1, output: 0 }],
+  ["embed-english-v3", { input: 0.1, output: 0 }],
+];
+
+/** Fallback for models missing from the table */
+const PROVIDER_PRICES: Record<AiProvider, ModelPrice> = {
+  openai: { input: 2.5, output: 10 },
+  anthropic: { input: 3, output: 15 },
+  google: { input: 1.25, output: 5 },
+  mistral: { input: 2, output: 6 },
+  cohere: { input: 2.5, output: 10 },
+  custom: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+function getModelPrice(provider: AiProvider, model: string): ModelPrice {
+  const match = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : PROVIDER_PRICES[provider];
+}
+
+/** Estimated cost in USD, rounded to the ledger's 6 decimal places */
+export function estimateCostUsd(
+  provider: AiProvider,
+  model: string,
+  usage: TokenUsage
+): number {
+  if (provider === "mock") return 0;
+
+  const price = getModelPrice(provider, model);
+  const cost =
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,235 @@
+import type { PromptTemplate, PromptTemplateVersion } from "@matrx/ai-client";
+import type { CreatePromptTemplateInput, UpdatePromptTemplateInput } from "@matrx/shared";
+import {
+  createAiIntegration,
+  createAiIntegrationVersion,
+  deleteAiIntegration,
+  getAiIntegrationById,
+  getAiIntegrationVersion,
+  getAiIntegrationVersions,
+  updateAiIntegration,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { applyVersion, toPromptTemplate } from "./prompts";
+
+/**
+ * Prompt Template Versioning
+ *
+ * The `ai_integrations` row holds the current template; each save writes
+ * the next `ai_integration_versions` row first and then advances the row.
+ * The unique (integration_id, version) constraint makes concurrent saves
+ * of the same version fail instead of silently overwriting each other.
+ * Rolling back saves an earlier snapshot as a new version, so history is
+ * append-only.
+ */
+
+type IntegrationRow = Tables<"ai_integrations">;
+
+interface Snapshot {
+  name: string;
+  description: string | null;
+  config: Record<string, unknown>;
+}
+
+/** Thrown when another save created the same version first */
+export class PromptVersionConflictError extends Error {
+  constructor(promptId: string) {
+    super(`Prompt ${promptId} was saved concurrently; reload and try again`);
+    this.name = "PromptVersionConflictError";
+  }
+}
+
+/** Thrown when row-level security rejects a write (not a workspace admin) */
+export class PromptPermissionError extends Error {
+  constructor() {
+    super("Only workspace owners and admins can manage prompt templates");
+    this.name = "PromptPermissionError";
+  }
+}
+
+const UNIQUE_VIOLATION = "23505";
+const INSUFFICIENT_PRIVILEGE = "42501";
+// An update filtered out by RLS matches no rows, so .single() fails
+const NO_ROWS = "PGRST116";
+
+/** Rethrow a write error, mapping RLS rejections to `PromptPermissionError` */
+export function rethrowWriteError(error: { code?: string }): never {
+  if (error.code === INSUFFICIENT_PRIVILEGE || error.code === NO_ROWS) {
+    throw new PromptPermissionError();
+  }
+  throw error;
+}
+
+function toConfig(
+  input: Omit<UpdatePromptTemplateInput, "name" | "description">,
+  current: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const config = { ...current };
+  for (const key of [
+    "systemPrompt",
+    "userPromptTemplate",
+    "variables",
+    "provider",
+    "model",
+    "cacheResponses",
+  ] as const) {
+    if (input[key] !== undefined) config[key] = input[key];
+  }
+  if (input.settings) {
+    config.settings = { ...(current.settings as Record<string, unknown>), ...input.settings };
+  }
+  return config;
+}
+
+async function loadHead(client: SupabaseClient, promptId: string) {
+  const { data, error } = await getAiIntegrationById(client, promptId, "prompt");
+  if (error) throw error;
+  return data && data.is_active ? data : null;
+}
+
+async function commitVersion(
+  client: SupabaseClient,
+  head: IntegrationRow,
+  snapshot: Snapshot,
+  userId: string,
+  restoredFrom: number | null = null
+): Promise<PromptTemplate> {
+  const version = head.version + 1;
+
+  const { error: versionError } = await createAiIntegrationVersion(client, {
+    integration_id: head.id,
+    version,
+    ...snapshot,
+    restored_from: restoredFrom,
+    created_by: userId,
+  });
+  if (versionError) {
+    if (versionError.code === UNIQUE_VIOLATION) throw new PromptVersionConflictError(head.id);
+    rethrowWriteError(versionError);
+  }
+
+  const { data, error } = await updateAiIntegration(client, head.id, { ...snapshot, version });
+  if (error) rethrowWriteError(error);
+  return toPromptTemplate(data);
+}
+
+export async function createPromptTemplate(
+  client: SupabaseClient,
+  input: CreatePromptTemplateInput,
+  userId: string
+): Promise<PromptTemplate> {
+  const snapshot: Snapshot = {
+    name: input.name,
+    description: input.description ?? null,
+    config: toConfig(input),
+  };
+
+  const { data, error } = await createAiIntegration(client, {
+    workspace_id: input.workspaceId,
+    name: snapshot.name,
+    description: snapshot.description ?? undefined,
+    type: "prompt",
+    config: snapshot.config,
+  });
+  if (error) rethrowWriteError(error);
+
+  const { error: versionError } = await createAiIntegrationVersion(client, {
+    integration_id: data.id,
+    version: data.version,
+    ...snapshot,
+    created_by: userId,
+  });
+  if (versionError) {
+    // Don't leave a template behind without its first version
+    await deleteAiIntegration(client, data.id);
+    rethrowWriteError(versionError);
+  }
+
+  return toPromptTemplate(data);
+}
+
+/** Save changes as the next version; null if the prompt does not exist */
+export async function updatePromptTemplate(
+  client: SupabaseClient,
+  promptId: string,
+  changes: UpdatePromptTemplateInput,
+  userId: string
+): Promise<PromptTemplate | null> {
+  const head = await loadHead(client, promptId);
+  if (!head) return null;
+
+  return commitVersion(
+    client,
+    head,
+    {
+      name: changes.name ?? head.name,
+      description: changes.description !== undefined ? changes.description : head.description,
+      config: toConfig(changes, head.config),
+    },
+    userId
+  );
+}
+
+/**
+ * Make an earlier version current again by saving it as a new version.
+ * Returns null if the prompt or the version does not exist.
+ */
+export async function rollbackPromptTemplate(
+  client: SupabaseClient,
+  promptId: string,
+  version: number,
+  userId: string
+): Promise<PromptTemplate | null> {
+  const head = await loadHead(client, promptId);
+  if (!head) return null;
+
+  const { data: saved, error } = await getAiIntegrationVersion(client, promptId, version);
+  if (error) throw error;
+  if (!saved) return null;
+
+  return commitVersion(
+    client,
+    head,
+    { name: saved.name, description: saved.description, config: saved.config },
+    userId,
+    saved.version
+  );
+}
+
+/**
+ * Deactivate a prompt. Its versions are kept so past executions stay
+ * traceable. Returns false if the prompt does not exist.
+ */
+export async function archivePromptTemplate(
+  client: SupabaseClient,
+  promptId: string
+): Promise<boolean> {
+  const head = await loadHead(client, promptId);
+  if (!head) return false;
+
+  const { error } = await updateAiIntegration(client, head.id, { is_active: false });
+  if (error) rethrowWriteError(error);
+  return true;
+}
+
+/** Every saved version, newest first; null if the prompt does not exist */
+export async function listPromptVersions(
+  client: SupabaseClient,
+  promptId: string
+): Promise<PromptTemplateVersion[] | null> {
+  const head = await loadHead(client, promptId);
+  if (!head) return null;
+
+  const { data, error } = await getAiIntegrationVersions(client, promptId);
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({
+    promptId: head.id,
+    version: row.version,
+    template: toPromptTemplate(applyVersion(head, row)),
+    restoredFrom: row.restored_from,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  }));
+}
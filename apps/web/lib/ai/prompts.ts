@@ -0,0 +1,205 @@
+import type {
+  AiProvider,
+  ModelSettings,
+  PromptTemplate,
+  PromptVariable,
+} from "@matrx/ai-client";
+import {
+  getAiIntegrationById,
+  getAiIntegrationVersion,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import type { ChatMessage } from "./providers";
+
+/**
+ * Prompt Templates
+ *
+ * Prompt templates are stored as `ai_integrations` rows of type "prompt";
+ * the template body lives in the row's `config` JSON. Every save also
+ * records an immutable `ai_integration_versions` row (./prompt-versions),
+ * so an execution can pin any saved version.
+ */
+
+export const DEFAULT_SETTINGS: ModelSettings = {
+  temperature: 0.7,
+  maxTokens: 1024,
+};
+
+/** Map an `ai_integrations` row to a `PromptTemplate` */
+export function toPromptTemplate(row: Tables<"ai_integrations">): PromptTemplate {
+  const config = row.config as Partial<PromptTemplate>;
+
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    description: row.description,
+    systemPrompt: config.systemPrompt ?? "",
+    userPromptTemplate: config.userPromptTemplate ?? "",
+    variables: config.variables ?? [],
+    provider: (config.provider ?? "custom") as AiProvider,
+    model: config.model ?? "",
+    settings: { ...DEFAULT_SETTINGS, ...config.settings },
+    cacheResponses: config.cacheResponses ?? true,
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Apply a saved version's snapshot on top of the current row */
+export function applyVersion(
+  row: Tables<"ai_integrations">,
+  version: Tables<"ai_integration_versions">
+): Tables<"ai_integrations"> {
+  return {
+    ...row,
+    name: version.name,
+    description: version.description,
+    config: version.config,
+    version: version.version,
+    updated_at: version.created_at,
+  };
+}
+
+/**
+ * Load an active prompt template, optionally as of a saved `version`.
+ * Pass `workspaceId` when using a service-role client to keep lookups
+ * inside the caller's workspace.
+ */
+export async function loadPromptTemplate(
+  client: SupabaseClient,
+  promptId: string,
+  workspaceId?: string,
+  version?: number
+): Promise<PromptTemplate | null> {
+  const { data, error } = await getAiIntegrationById(client, promptId, "prompt");
+  if (error) throw error;
+  if (!data || !data.is_active) return null;
+  if (workspaceId && data.workspace_id !== workspaceId) return null;
+  if (version === undefined || version === data.version) return toPromptTemplate(data);
+
+  const { data: saved, error: versionError } = await getAiIntegrationVersion(
+    client,
+    promptId,
+    version
+  );
+  if (versionError) throw versionError;
+  return saved ? toPromptTemplate(applyVersion(data, saved)) : null;
+}
+
+/** Thrown when execution variables do not match the template's declarations */
+export class PromptVariableError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid prompt variables: ${issues.join("; ")}`);
+    this.name = "PromptVariableError";
+  }
+}
+
+const TRUE_STRINGS = new Set(["true", "1", "yes"]);
+const FALSE_STRINGS = new Set(["false", "0", "no"]);
+
+function coerceVariable(
+  variable: PromptVariable,
+  value: unknown
+): { value: unknown } | { issue: string } {
+  const fail = (expected: string) => ({ issue: `"${variable.name}" must be ${expected}` });
+
+  switch (variable.type) {
+    case "string":
+      if (typeof value === "string") return { value };
+      if (typeof value === "number" || typeof value === "boolean") return { value: String(value) };
+      return fail("a string");
+
+    case "number": {
+      if (typeof value === "number" && Number.isFinite(value)) return { value };
+      const parsed = typeof value === "string" && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(parsed) ? { value: parsed } : fail("a number");
+    }
+
+    case "boolean": {
+      if (typeof value === "boolean") return { value };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_STRINGS.has(text)) return { value: true };
+      if (FALSE_STRINGS.has(text)) return { value: false };
+      return fail("a boolean");
+    }
+
+    case "json":
+      if (typeof value !== "string") return { value };
+      try {
+        return { value: JSON.parse(value) };
+      } catch {
+        return fail("valid JSON");
+      }
+  }
+}
+
+/**
+ * Check execution variables against the template's declarations: coerce
+ * each declared variable to its type, apply string defaults (coerced the
+ * same way) and report missing required ones. Undeclared variables pass
+ * through unchanged. Throws `PromptVariableError` listing every problem.
+ */
+export function resolvePromptVariables(
+  template: PromptTemplate,
+  variables: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = { ...variables };
+  const issues: string[] = [];
+
+  for (const variable of template.variables) {
+    const provided = variables[variable.name];
+    const value = provided ?? variable.defaultValue;
+
+    if (value === undefined || value === null) {
+      delete resolved[variable.name];
+      if (variable.required) issues.push(`"${variable.name}" is required`);
+      continue;
+    }
+
+    const result = coerceVariable(variable, value);
+    if ("issue" in result) {
+      issues.push(provided === undefined ? `${result.issue} (default value)` : result.issue);
+    } else {
+      resolved[variable.name] = result.value;
+    }
+  }
+
+  if (issues.length > 0) throw new PromptVariableError(issues);
+  return resolved;
+}
+
+/**
+ * Replace `{{name}}` placeholders. Missing variables fall back to the
+ * template's declared default, then to an empty string.
+ */
+export function renderTemplate(
+  text: string,
+  template: PromptTemplate,
+  variables: Record<string, unknown>
+): string {
+  return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, name: string) => {
+    const value =
+      variables[name] ??
+      template.variables.find((v) => v.name === name)?.defaultValue ??
+      "";
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+}
+
+/** Build the provider-neutral message list for a template execution */
+export function buildPromptMessages(
+  template: PromptTemplate,
+  variables: Record<string, unknown>
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const system = renderTemplate(template.systemPrompt, template, variables);
+  if (system) messages.push({ role: "system", content: system });
+  messages.push({
+    role: "user",
+    content: renderTemplate(template.userPromptTemplate, template, variables),
+  });
+  return messages;
+}
@@ -0,0 +1,227 @@
+import { parseFrame, parseToolArguments, postJson, readSse } from "./sse";
+import {
+  ProviderConfigError,
+  ProviderRequestError,
+  type ChatMessage,
+  type FinishReason,
+  type ProviderAdapter,
+  type ProviderRequest,
+  type ProviderStreamEvent,
+} from "./types";
+
+/**
+ * Anthropic Messages API Adapter
+ *
+ * - System prompts move to the top-level `system` field
+ * - Tool calls/results become `tool_use`/`tool_result` content blocks
+ * - Frequency/presence penalties are not supported and are dropped
+ * - Images become base64 `image` blocks ahead of the message text
+ * - There is no JSON mode; `responseFormat` relies on the prompt's schema
+ *   instructions and the caller's validation
+ */
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface WireMessage {
+  role: "user" | "assistant";
+  content: ContentBlock[];
+}
+
+interface StreamFrame {
+  type: string;
+  index?: number;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Anthropic requires strictly alternating user/assistant turns, so
+ * consecutive same-role messages (e.g. several tool results) are merged.
+ */
+function toWireMessages(messages: ChatMessage[]): WireMessage[] {
+  const wire: WireMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    let role: WireMessage["role"];
+    let blocks: ContentBlock[];
+
+    if (message.role === "tool") {
+      role = "user";
+      blocks = [
+        {
+          type: "tool_result",
+          tool_use_id: message.toolCallId ?? "",
+          content: message.content,
+        },
+      ];
+    } else if (message.role === "assistant") {
+      role = "assistant";
+      blocks = [
+        ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+        ...(message.toolCalls ?? []).map((call) => ({
+          type: "tool_use" as const,
+          id: call.id,
+          name: call.toolName,
+          input: call.arguments,
+        })),
+      ];
+    } else {
+      role = "user";
+      blocks = [
+        ...(message.images ?? []).map((image) => ({
+          type: "image" as const,
+          source: { type: "base64" as const, media_type: image.mimeType, data: image.data },
+        })),
+        { type: "text", text: message.content },
+      ];
+    }
+
+    const previous = wire[wire.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      wire.push({ role, content: blocks });
+    }
+  }
+
+  return wire;
+}
+
+function mapStopReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    default:
+      return "stop";
+  }
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  provider: "anthropic",
+  vision: true,
+
+  async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent, void, undefined> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) throw new ProviderConfigError("anthropic", "ANTHROPIC_API_KEY");
+
+    const { settings } = request;
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+
+    const response = await postJson(
+      "anthropic",
+      "https://api.anthropic.com/v1/messages",
+      { "x-api-key": apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      {
+        model: request.model,
+        messages: toWireMessages(request.messages),
+        ...(system ? { system } : {}),
+        stream: true,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+        ...(settings.stopSequences?.length
+          ? { stop_sequences: settings.stopSequences }
+          : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+              })),
+            }
+          : {}),
+      },
+      request.signal
+    );
+
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let finishReason: FinishReason = "stop";
+
+    for await (const message of readSse(response)) {
+      const frame = parseFrame<StreamFrame>("anthropic", message.data);
+
+      switch (frame.type) {
+        case "message_start":
+          promptTokens = frame.message?.usage?.input_tokens ?? 0;
+          completionTokens = frame.message?.usage?.output_tokens ?? 0;
+          break;
+
+        case "content_block_start":
+          if (frame.content_block?.type === "tool_use" && frame.index !== undefined) {
+            toolBlocks.set(frame.index, {
+              id: frame.content_block.id ?? `toolu_${frame.index}`,
+              name: frame.content_block.name ?? "",
+              json: "",
+            });
+          }
+          break;
+
+        case "content_block_delta":
+          if (frame.delta?.type === "text_delta" && frame.delta.text) {
+            yield { type: "delta", content: frame.delta.text };
+          } else if (frame.delta?.type === "input_json_delta" && frame.index !== undefined) {
+            const block = toolBlocks.get(frame.index);
+            if (block) block.json += frame.delta.partial_json ?? "";
+          }
+          break;
+
+        case "message_delta":
+          finishReason = mapStopReason(frame.delta?.stop_reason);
+          completionTokens = frame.usage?.output_tokens ?? completionTokens;
+          break;
+
+        case "error":
+          throw new ProviderRequestError(
+            "anthropic",
+            null,
+            frame.error?.message ?? "Stream error"
+          );
+      }
+    }
+
+    for (const block of toolBlocks.values()) {
+      yield {
+        type: "tool_call",
+        toolCall: {
+          id: block.id,
+          toolName: block.name,
+          arguments: parseToolArguments(block.json),
+        },
+      };
+    }
+
+    yield {
+      type: "done",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason,
+    };
+  },
+};
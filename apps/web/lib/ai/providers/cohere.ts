@@ -0,0 +1,231 @@
+import { parseFrame, parseToolArguments, postJson, readSse } from "./sse";
+import {
+  ProviderConfigError,
+  ProviderRequestError,
+  type ChatMessage,
+  type EmbeddingRequest,
+  type EmbeddingResult,
+  type FinishReason,
+  type ProviderAdapter,
+  type ProviderRequest,
+  type ProviderStreamEvent,
+} from "./types";
+
+/**
+ * Cohere Chat v2 Adapter
+ *
+ * Cohere names nucleus sampling `p` and streams typed events
+ * (`content-delta`, `tool-call-start`, `tool-call-delta`, `message-end`).
+ */
+
+interface StreamEvent {
+  type: string;
+  index?: number;
+  delta?: {
+    message?: {
+      content?: { text?: string };
+      tool_calls?: {
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      };
+    };
+    finish_reason?: string;
+    usage?: {
+      billed_units?: { input_tokens?: number; output_tokens?: number };
+      tokens?: { input_tokens?: number; output_tokens?: number };
+    };
+    error?: string;
+  };
+}
+
+function toWireMessage(message: ChatMessage) {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      ...(message.content ? { tool_plan: message.content } : {}),
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: {
+          name: call.toolName,
+          arguments: JSON.stringify(call.arguments),
+        },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+function mapFinishReason(reason: string | undefined): FinishReason {
+  switch (reason) {
+    case "MAX_TOKENS":
+      return "length";
+    case "TOOL_CALL":
+      return "tool_calls";
+    case "ERROR":
+      return "error";
+    default:
+      return "stop";
+  }
+}
+
+export const cohereAdapter: ProviderAdapter = {
+  provider: "cohere",
+  vision: false,
+  embeddingModel: "embed-english-v3.0",
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const apiKey = process.env.COHERE_API_KEY;
+    if (!apiKey) throw new ProviderConfigError("cohere", "COHERE_API_KEY");
+
+    const response = await postJson(
+      "cohere",
+      "https://api.cohere.com/v2/embed",
+      { Authorization: `Bearer ${apiKey}` },
+      {
+        model: request.model,
+        texts: request.input,
+        input_type: request.purpose === "query" ? "search_query" : "search_document",
+        embedding_types: ["float"],
+      },
+      request.signal
+    );
+
+    const body = (await response.json()) as {
+      embeddings: { float: number[][] };
+      meta?: { billed_units?: { input_tokens?: number } };
+    };
+    return {
+      embeddings: body.embeddings.float,
+      promptTokens: body.meta?.billed_units?.input_tokens ?? 0,
+    };
+  },
+
+  async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent, void, undefined> {
+    const apiKey = process.env.COHERE_API_KEY;
+    if (!apiKey) throw new ProviderConfigError("cohere", "COHERE_API_KEY");
+
+    const { settings } = request;
+
+    const response = await postJson(
+      "cohere",
+      "https://api.cohere.com/v2/chat",
+      { Authorization: `Bearer ${apiKey}` },
+      {
+        model: request.model,
+        messages: request.messages.map(toWireMessage),
+        stream: true,
+        temperature: settings.temperature,
+        max_tokens: settings.maxTokens,
+        ...(settings.topP !== undefined ? { p: settings.topP } : {}),
+        ...(settings.stopSequences?.length
+          ? { stop_sequences: settings.stopSequences }
+          : {}),
+        ...(settings.frequencyPenalty !== undefined
+          ? { frequency_penalty: settings.frequencyPenalty }
+          : {}),
+        ...(settings.presencePenalty !== undefined
+          ? { presence_penalty: settings.presencePenalty }
+          : {}),
+        ...(request.responseFormat
+          ? {
+              response_format: {
+                type: "json_object",
+                json_schema: request.responseFormat.schema,
+              },
+            }
+          : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: "function",
+                function: {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.parameters,
+                },
+              })),
+            }
+          : {}),
+      },
+      request.signal
+    );
+
+    const pendingCalls = new Map<number, { id: string; name: string; args: string }>();
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let finishReason: FinishReason = "stop";
+
+    for await (const message of readSse(response)) {
+      const event = parseFrame<StreamEvent>("cohere", message.data);
+      const index = event.index ?? 0;
+
+      switch (event.type) {
+        case "content-delta": {
+          const text = event.delta?.message?.content?.text;
+          if (text) yield { type: "delta", content: text };
+          break;
+        }
+
+        case "tool-call-start": {
+          const call = event.delta?.message?.tool_calls;
+          pendingCalls.set(index, {
+            id: call?.id ?? `call_${index}`,
+            name: call?.function?.name ?? "",
+            args: call?.function?.arguments ?? "",
+          });
+          break;
+        }
+
+        case "tool-call-delta": {
+          const pending = pendingCalls.get(index);
+          if (pending) {
+            pending.args += event.delta?.message?.tool_calls?.function?.arguments ?? "";
+          }
+          break;
+        }
+
+        case "message-end": {
+          if (event.delta?.error) {
+            throw new ProviderRequestError("cohere", null, event.delta.error);
+          }
+          finishReason = mapFinishReason(event.delta?.finish_reason);
+          const usage = event.delta?.usage?.tokens ?? event.delta?.usage?.billed_units;
+          promptTokens = usage?.input_tokens ?? 0;
+          completionTokens = usage?.output_tokens ?? 0;
+          break;
+        }
+      }
+    }
+
+    for (const call of pendingCalls.values()) {
+      yield {
+        type: "tool_call",
+        toolCall: {
+          id: call.id,
+          toolName: call.name,
+          arguments: parseToolArguments(call.args),
+        },
+      };
+    }
+
+    yield {
+      type: "done",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason,
+    };
+  },
+};
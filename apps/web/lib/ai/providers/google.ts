@@ -0,0 +1,242 @@
+import { parseFrame, postJson, readSse } from "./sse";
+import {
+  ProviderConfigError,
+  type ChatMessage,
+  type EmbeddingRequest,
+  type EmbeddingResult,
+  type FinishReason,
+  type ProviderAdapter,
+  type ProviderRequest,
+  type ProviderStreamEvent,
+} from "./types";
+
+/**
+ * Google Gemini (Generative Language API) Adapter
+ *
+ * - Assistant turns use the `model` role
+ * - System prompts move to `systemInstruction`
+ * - Gemini does not assign tool call ids, so ids are generated per stream
+ *   and mapped back to tool names when results are sent
+ */
+
+interface Part {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface Content {
+  role: "user" | "model";
+  parts: Part[];
+}
+
+interface StreamChunk {
+  candidates?: Array<{
+    content?: { parts?: Part[] };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+function toContents(messages: ChatMessage[]): Content[] {
+  const contents: Content[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    let content: Content;
+
+    if (message.role === "tool") {
+      let response: Record<string, unknown>;
+      try {
+        const parsed: unknown = JSON.parse(message.content);
+        response =
+          parsed && typeof parsed === "object" && !Array.isArray(parsed)
+            ? (parsed as Record<string, unknown>)
+            : { result: parsed };
+      } catch {
+        response = { result: message.content };
+      }
+      content = {
+        role: "user",
+        parts: [{ functionResponse: { name: message.toolName ?? "", response } }],
+      };
+    } else if (message.role === "assistant") {
+      content = {
+        role: "model",
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls ?? []).map((call) => ({
+            functionCall: { name: call.toolName, args: call.arguments },
+          })),
+        ],
+      };
+    } else {
+      content = {
+        role: "user",
+        parts: [
+          ...(message.images ?? []).map((image) => ({
+            inlineData: { mimeType: image.mimeType, data: image.data },
+          })),
+          { text: message.content },
+        ],
+      };
+    }
+
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === content.role) {
+      previous.parts.push(...content.parts);
+    } else {
+      contents.push(content);
+    }
+  }
+
+  return contents;
+}
+
+function mapFinishReason(reason: string | undefined): FinishReason {
+  switch (reason) {
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "OTHER":
+      return "error";
+    default:
+      return "stop";
+  }
+}
+
+export const googleAdapter: ProviderAdapter = {
+  provider: "google",
+  vision: true,
+  embeddingModel: "text-embedding-004",
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) throw new ProviderConfigError("google", "GOOGLE_AI_API_KEY");
+
+    const model = `models/${request.model}`;
+    const response = await postJson(
+      "google",
+      `https://generativelanguage.googleapis.com/v1beta/${model}:batchEmbedContents`,
+      { "x-goog-api-key": apiKey },
+      {
+        requests: request.input.map((text) => ({
+          model,
+          content: { parts: [{ text }] },
+          taskType: request.purpose === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+        })),
+      },
+      request.signal
+    );
+
+    // The embeddings API does not report token usage
+    const body = (await response.json()) as { embeddings: Array<{ values: number[] }> };
+    return { embeddings: body.embeddings.map((e) => e.values), promptTokens: 0 };
+  },
+
+  async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent, void, undefined> {
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) throw new ProviderConfigError("google", "GOOGLE_AI_API_KEY");
+
+    const { settings } = request;
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+
+    const response = await postJson(
+      "google",
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse`,
+      { "x-goog-api-key": apiKey },
+      {
+        contents: toContents(request.messages),
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        generationConfig: {
+          temperature: settings.temperature,
+          maxOutputTokens: settings.maxTokens,
+          ...(settings.topP !== undefined ? { topP: settings.topP } : {}),
+          ...(settings.stopSequences?.length
+            ? { stopSequences: settings.stopSequences }
+            : {}),
+          ...(settings.frequencyPenalty !== undefined
+            ? { frequencyPenalty: settings.frequencyPenalty }
+            : {}),
+          ...(settings.presencePenalty !== undefined
+            ? { presencePenalty: settings.presencePenalty }
+            : {}),
+          // responseSchema only takes an OpenAPI subset, so the schema is
+          // conveyed by the prompt and validated by the caller
+          ...(request.responseFormat ? { responseMimeType: "application/json" } : {}),
+        },
+        ...(request.tools?.length
+          ? {
+              tools: [
+                {
+                  functionDeclarations: request.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                  })),
+                },
+              ],
+            }
+          : {}),
+      },
+      request.signal
+    );
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let finishReason: FinishReason = "stop";
+    let callIndex = 0;
+    let sawToolCall = false;
+
+    for await (const message of readSse(response)) {
+      const chunk = parseFrame<StreamChunk>("google", message.data);
+      const candidate = chunk.candidates?.[0];
+
+      for (const part of candidate?.content?.parts ?? []) {
+        if (part.text) {
+          yield { type: "delta", content: part.text };
+        }
+        if (part.functionCall) {
+          sawToolCall = true;
+          yield {
+            type: "tool_call",
+            toolCall: {
+              id: `call_${callIndex++}`,
+              toolName: part.functionCall.name,
+              arguments: part.functionCall.args ?? {},
+            },
+          };
+        }
+      }
+
+      if (candidate?.finishReason) {
+        finishReason = mapFinishReason(candidate.finishReason);
+      }
+
+      if (chunk.usageMetadata) {
+        promptTokens = chunk.usageMetadata.promptTokenCount ?? promptTokens;
+        completionTokens = chunk.usageMetadata.candidatesTokenCount ?? completionTokens;
+      }
+    }
+
+    yield {
+      type: "done",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason: sawToolCall ? "tool_calls" : finishReason,
+    };
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Hash Embeddings
+ *
+ * Deterministic, offline embeddings for the mock provider: each word (and
+ * each pair of adjacent words) is hashed into one of `dimensions` buckets
+ * with a hashed sign, then the vector is L2-normalized. Texts that share
+ * vocabulary score a higher cosine similarity, which is enough to exercise
+ * retrieval without an embeddings API. Not a semantic model.
+ */
+
+export const HASH_EMBEDDING_DIMENSIONS = 256;
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function hashEmbedding(
+  text: string,
+  dimensions: number = HASH_EMBEDDING_DIMENSIONS
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    const index = hash % dimensions;
+    vector[index] = (vector[index] ?? 0) + (hash & 0x80000000 ? -weight : weight);
+  };
+
+  words.forEach((word, i) => {
+    add(word, 1);
+    const next = words[i + 1];
+    if (next) add(`${word} ${next}`, 0.5);
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
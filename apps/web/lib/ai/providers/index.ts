@@ -0,0 +1,101 @@
+import type { AiProvider, ToolCall } from "@matrx/ai-client";
+import { anthropicAdapter } from "./anthropic";
+import { cohereAdapter } from "./cohere";
+import { googleAdapter } from "./google";
+import { mockAdapter } from "./mock";
+import { customAdapter, mistralAdapter, openAiAdapter } from "./openai";
+import type {
+  EmbeddingRequest,
+  EmbeddingResult,
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderResult,
+} from "./types";
+
+/**
+ * Provider Adapter Registry
+ *
+ * Resolves the adapter for a template's provider. Set
+ * `AI_PROVIDER_OVERRIDE=mock` to route every request to the deterministic
+ * mock provider (local development, evals, CI).
+ */
+
+const adapters = new Map<AiProvider, ProviderAdapter>([
+  ["openai", openAiAdapter],
+  ["anthropic", anthropicAdapter],
+  ["google", googleAdapter],
+  ["mistral", mistralAdapter],
+  ["cohere", cohereAdapter],
+  ["custom", customAdapter],
+  ["mock", mockAdapter],
+]);
+
+/** Register (or replace) the adapter for a provider */
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  adapters.set(adapter.provider, adapter);
+}
+
+export function getProviderAdapter(provider: AiProvider): ProviderAdapter {
+  const override = process.env.AI_PROVIDER_OVERRIDE as AiProvider | undefined;
+  const adapter = adapters.get(override || provider);
+  if (!adapter) {
+    throw new Error(`No adapter registered for AI provider "${override || provider}"`);
+  }
+  return adapter;
+}
+
+/** Run a request to completion and collect the streamed events */
+export async function complete(
+  adapter: ProviderAdapter,
+  request: ProviderRequest
+): Promise<ProviderResult> {
+  let content = "";
+  const toolCalls: ToolCall[] = [];
+
+  for await (const event of adapter.stream(request)) {
+    if (event.type === "delta") {
+      content += event.content;
+    } else if (event.type === "tool_call") {
+      toolCalls.push(event.toolCall);
+    } else {
+      return { content, toolCalls, usage: event.usage, finishReason: event.finishReason };
+    }
+  }
+
+  throw new Error(`AI provider "${adapter.provider}" ended without a completion`);
+}
+
+/** Embed texts, failing clearly if the vendor has no embeddings API */
+export async function embed(
+  adapter: ProviderAdapter,
+  request: EmbeddingRequest
+): Promise<EmbeddingResult> {
+  if (!adapter.embed) {
+    throw new Error(`AI provider "${adapter.provider}" does not support embeddings`);
+  }
+
+  const result = await adapter.embed(request);
+  if (result.embeddings.length !== request.input.length) {
+    throw new Error(
+      `AI provider "${adapter.provider}" returned ${result.embeddings.length} embeddings for ${request.input.length} inputs`
+    );
+  }
+  return result;
+}
+
+export { HASH_EMBEDDING_DIMENSIONS, hashEmbedding } from "./hash-embedding";
+export {
+  ProviderConfigError,
+  ProviderRequestError,
+  type ChatMessage,
+  type EmbeddingRequest,
+  type EmbeddingResult,
+  type ImagePart,
+  type FinishReason,
+  type ProviderAdapter,
+  type ProviderRequest,
+  type ProviderResult,
+  type ProviderStreamEvent,
+  type ResponseFormat,
+  type ToolDefinition,
+} from "./types";
@@ -0,0 +1,168 @@
+import { estimateTokens } from "../tokens";
+import { HASH_EMBEDDING_DIMENSIONS, hashEmbedding } from "./hash-embedding";
+import { parseToolArguments } from "./sse";
+import type {
+  ChatMessage,
+  EmbeddingRequest,
+  FinishReason,
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderStreamEvent,
+} from "./types";
+
+/**
+ * Mock Provider Adapter
+ *
+ * Deterministic, offline provider for local development, evals and tests.
+ * The same request always produces the same stream:
+ *
+ * - Plain turns echo the last user message: `[mock:<model>] <message>`,
+ *   followed by `[images: <n>]` when it carries images
+ * - If tools are offered and the last user message contains
+ *   `@tool:<name> {json}`, the mock requests that tool call instead
+ * - After tool results, the mock summarizes them: `<name> -> <result>`
+ * - With a `responseFormat`, the mock replies with the JSON the last user
+ *   message contains after `@json`, or else a minimal value matching the
+ *   schema, so repair retries can be exercised offline
+ *
+ * `maxTokens` and `stopSequences` are honored so truncation paths can be
+ * exercised without a real model. Embeddings come from the hash embedder
+ * (./hash-embedding), so retrieval also works offline.
+ */
+
+const TOOL_DIRECTIVE = /@tool:([A-Za-z0-9_.-]+)(?:\s+(\{.*\}))?/s;
+const JSON_DIRECTIVE = /@json\s+(.*)$/s;
+
+/** The smallest value a JSON Schema describes, for mock JSON replies */
+function sampleFromSchema(schema: Record<string, unknown>): unknown {
+  if ("const" in schema) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  const options = (schema.anyOf ?? schema.oneOf) as Record<string, unknown>[] | undefined;
+  if (options?.[0]) return sampleFromSchema(options[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      const required = (schema.required ?? []) as string[];
+      return Object.fromEntries(
+        required
+          .filter((key) => properties[key])
+          .map((key) => [key, sampleFromSchema(properties[key] ?? {})])
+      );
+    }
+    case "array":
+      return [];
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return typeof schema.minimum === "number" ? schema.minimum : 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return {};
+  }
+}
+
+function lastUserMessage(messages: ChatMessage[]): ChatMessage | undefined {
+  return [...messages].reverse().find((m) => m.role === "user");
+}
+
+function trailingToolResults(messages: ChatMessage[]): ChatMessage[] {
+  const results: ChatMessage[] = [];
+  for (const message of [...messages].reverse()) {
+    if (message.role !== "tool") break;
+    results.unshift(message);
+  }
+  return results;
+}
+
+export const mockAdapter: ProviderAdapter = {
+  provider: "mock",
+  vision: true,
+  embeddingModel: `hash-${HASH_EMBEDDING_DIMENSIONS}`,
+
+  async embed(request: EmbeddingRequest) {
+    return {
+      embeddings: request.input.map((text) => hashEmbedding(text)),
+      promptTokens: estimateTokens(request.input.join("\n")),
+    };
+  },
+
+  async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent, void, undefined> {
+    const { messages, settings, tools } = request;
+    const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+
+    const toolResults = trailingToolResults(messages);
+    const lastUser = lastUserMessage(messages);
+    const userMessage = lastUser?.content ?? "";
+    const imageCount = lastUser?.images?.length ?? 0;
+    const directive = toolResults.length === 0 ? TOOL_DIRECTIVE.exec(userMessage) : null;
+
+    const toolName = directive?.[1];
+
+    if (directive && toolName && tools?.some((tool) => tool.name === toolName)) {
+      const toolCall = {
+        id: `mock_call_${messages.length}`,
+        toolName,
+        arguments: parseToolArguments(directive[2] ?? ""),
+      };
+      yield { type: "tool_call", toolCall };
+      const completionTokens = estimateTokens(JSON.stringify(toolCall.arguments));
+      yield {
+        type: "done",
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        finishReason: "tool_calls",
+      };
+      return;
+    }
+
+    const jsonDirective = request.responseFormat ? JSON_DIRECTIVE.exec(userMessage) : null;
+
+    let content =
+      toolResults.length > 0
+        ? toolResults.map((m) => `${m.toolName ?? "tool"} -> ${m.content}`).join("\n")
+        : request.responseFormat
+          ? (jsonDirective?.[1]?.trim() ??
+            JSON.stringify(sampleFromSchema(request.responseFormat.schema)))
+          : `[mock:${request.model}] ${userMessage}` +
+            (imageCount > 0 ? ` [images: ${imageCount}]` : "");
+    let finishReason: FinishReason = "stop";
+
+    for (const stop of settings.stopSequences ?? []) {
+      const index = stop ? content.indexOf(stop) : -1;
+      if (index !== -1) content = content.slice(0, index);
+    }
+
+    const maxChars = settings.maxTokens * 4;
+    if (content.length > maxChars) {
+      content = content.slice(0, maxChars);
+      finishReason = "length";
+    }
+
+    // Emit word-sized deltas (whitespace attached) to mimic real streaming
+    for (const piece of content.match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) return;
+      yield { type: "delta", content: piece };
+    }
+
+    const completionTokens = estimateTokens(content);
+    yield {
+      type: "done",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason,
+    };
+  },
+};
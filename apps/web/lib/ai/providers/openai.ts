@@ -0,0 +1,306 @@
+import type { AiProvider, TokenUsage } from "@matrx/ai-client";
+import { parseFrame, parseToolArguments, postJson, readSse } from "./sse";
+import {
+  ProviderConfigError,
+  type ChatMessage,
+  type EmbeddingRequest,
+  type EmbeddingResult,
+  type FinishReason,
+  type ProviderAdapter,
+  type ProviderRequest,
+  type ProviderStreamEvent,
+  type ResponseFormat,
+} from "./types";
+
+/**
+ * OpenAI-Compatible Chat Completions Adapter
+ *
+ * Serves OpenAI directly, plus any vendor exposing the same
+ * `/chat/completions` streaming API (Mistral, self-hosted gateways).
+ * Vendors with an `embeddingModel` also get `/embeddings`.
+ */
+
+interface OpenAiCompatibleOptions {
+  provider: AiProvider;
+  /** Env var holding the API base URL (falls back to `defaultBaseUrl`) */
+  baseUrlEnv?: string;
+  defaultBaseUrl?: string;
+  apiKeyEnv: string;
+  /** Whether the vendor supports `stream_options.include_usage` */
+  streamUsage: boolean;
+  /** Whether the vendor accepts frequency/presence penalties */
+  penalties: boolean;
+  /** Whether the vendor accepts `image_url` content parts */
+  vision: boolean;
+  /**
+   * Native JSON mode: "json_schema" enforces the schema, "json_object"
+   * only guarantees valid JSON, false sends no `response_format`
+   */
+  jsonMode: "json_schema" | "json_object" | false;
+  /** Default model for the `/embeddings` endpoint; omit if unsupported */
+  embeddingModel?: string;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+  usage?: { prompt_tokens: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+function toWireMessage(message: ChatMessage) {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: {
+          name: call.toolName,
+          arguments: JSON.stringify(call.arguments),
+        },
+      })),
+    };
+  }
+
+  if (message.role === "user" && message.images?.length) {
+    return {
+      role: "user",
+      content: [
+        ...(message.content ? [{ type: "text", text: message.content }] : []),
+        ...message.images.map((image) => ({
+          type: "image_url",
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+      ],
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+function toResponseFormat(format: ResponseFormat, mode: "json_schema" | "json_object") {
+  if (mode === "json_object") return { type: "json_object" };
+  // Non-strict: strict mode rejects schemas with optional properties
+  return {
+    type: "json_schema",
+    json_schema: { name: format.name, schema: format.schema, strict: false },
+  };
+}
+
+function mapFinishReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case "length":
+      return "length";
+    case "tool_calls":
+    case "function_call":
+      return "tool_calls";
+    default:
+      return "stop";
+  }
+}
+
+export function createOpenAiCompatibleAdapter(
+  options: OpenAiCompatibleOptions
+): ProviderAdapter {
+  const { provider } = options;
+
+  const credentials = () => {
+    const apiKey = process.env[options.apiKeyEnv];
+    const baseUrl =
+      (options.baseUrlEnv ? process.env[options.baseUrlEnv] : undefined) ??
+      options.defaultBaseUrl;
+
+    if (!apiKey) throw new ProviderConfigError(provider, options.apiKeyEnv);
+    if (!baseUrl) throw new ProviderConfigError(provider, options.baseUrlEnv ?? "base URL");
+    return { apiKey, baseUrl: baseUrl.replace(/\/$/, "") };
+  };
+
+  return {
+    provider,
+    vision: options.vision,
+    embeddingModel: options.embeddingModel,
+
+    ...(options.embeddingModel
+      ? {
+          async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+            const { apiKey, baseUrl } = credentials();
+            const response = await postJson(
+              provider,
+              `${baseUrl}/embeddings`,
+              { Authorization: `Bearer ${apiKey}` },
+              { model: request.model, input: request.input },
+              request.signal
+            );
+            const body = (await response.json()) as EmbeddingsResponse;
+            return {
+              embeddings: [...body.data]
+                .sort((a, b) => a.index - b.index)
+                .map((item) => item.embedding),
+              promptTokens: body.usage?.prompt_tokens ?? 0,
+            };
+          },
+        }
+      : {}),
+
+    async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent, void, undefined> {
+      const { apiKey, baseUrl } = credentials();
+      const { settings } = request;
+
+      const response = await postJson(
+        provider,
+        `${baseUrl}/chat/completions`,
+        { Authorization: `Bearer ${apiKey}` },
+        {
+          model: request.model,
+          messages: request.messages.map(toWireMessage),
+          stream: true,
+          ...(options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+          ...(settings.stopSequences?.length ? { stop: settings.stopSequences } : {}),
+          ...(options.penalties && settings.frequencyPenalty !== undefined
+            ? { frequency_penalty: settings.frequencyPenalty }
+            : {}),
+          ...(options.penalties && settings.presencePenalty !== undefined
+            ? { presence_penalty: settings.presencePenalty }
+            : {}),
+          ...(request.responseFormat && options.jsonMode
+            ? { response_format: toResponseFormat(request.responseFormat, options.jsonMode) }
+            : {}),
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({
+                  type: "function",
+                  function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                  },
+                })),
+              }
+            : {}),
+        },
+        request.signal
+      );
+
+      // Tool call arguments arrive as string fragments keyed by index
+      const pendingCalls = new Map<number, { id: string; name: string; args: string }>();
+      let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let finishReason: FinishReason = "stop";
+
+      for await (const message of readSse(response)) {
+        if (message.data === "[DONE]") break;
+
+        const chunk = parseFrame<ChatCompletionChunk>(provider, message.data);
+        const choice = chunk.choices?.[0];
+
+        if (choice?.delta?.content) {
+          yield { type: "delta", content: choice.delta.content };
+        }
+
+        for (const fragment of choice?.delta?.tool_calls ?? []) {
+          const existing = pendingCalls.get(fragment.index);
+          if (existing) {
+            existing.args += fragment.function?.arguments ?? "";
+          } else {
+            pendingCalls.set(fragment.index, {
+              id: fragment.id ?? `call_${fragment.index}`,
+              name: fragment.function?.name ?? "",
+              args: fragment.function?.arguments ?? "",
+            });
+          }
+        }
+
+        if (choice?.finish_reason) {
+          finishReason = mapFinishReason(choice.finish_reason);
+        }
+
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+      }
+
+      for (const call of pendingCalls.values()) {
+        yield {
+          type: "tool_call",
+          toolCall: {
+            id: call.id,
+            toolName: call.name,
+            arguments: parseToolArguments(call.args),
+          },
+        };
+      }
+
+      yield { type: "done", usage, finishReason };
+    },
+  };
+}
+
+export const openAiAdapter = createOpenAiCompatibleAdapter({
+  provider: "openai",
+  baseUrlEnv: "OPENAI_BASE_URL",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  apiKeyEnv: "OPENAI_API_KEY",
+  streamUsage: true,
+  penalties: true,
+  vision: true,
+  jsonMode: "json_schema",
+  embeddingModel: "text-embedding-3-small",
+});
+
+export const mistralAdapter = createOpenAiCompatibleAdapter({
+  provider: "mistral",
+  defaultBaseUrl: "https://api.mistral.ai/v1",
+  apiKeyEnv: "MISTRAL_API_KEY",
+  streamUsage: false,
+  penalties: true,
+  vision: true,
+  jsonMode: "json_object",
+  embeddingModel: "mistral-embed",
+});
+
+/**
+ * "custom" routes to the Matrx AI backend, which exposes an
+ * OpenAI-compatible chat completions endpoint.
+ */
+export const customAdapter = createOpenAiCompatibleAdapter({
+  provider: "custom",
+  baseUrlEnv: "MATRX_AI_BACKEND_URL",
+  apiKeyEnv: "MATRX_AI_API_KEY",
+  streamUsage: true,
+  penalties: true,
+  vision: false,
+  jsonMode: "json_object",
+});
@@ -0,0 +1,108 @@
+import type { AiProvider } from "@matrx/ai-client";
+import { ProviderRequestError } from "./types";
+
+/**
+ * Upstream SSE reader shared by the HTTP provider adapters.
+ */
+
+export interface SseMessage {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * POST a JSON body and fail with a `ProviderRequestError` on non-2xx,
+ * including the vendor's error text so misconfigurations are debuggable.
+ */
+export async function postJson(
+  provider: AiProvider,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new ProviderRequestError(
+      provider,
+      response.status,
+      text.slice(0, 500) || response.statusText
+    );
+  }
+
+  return response;
+}
+
+/** Read `event:`/`data:` frames from a streaming response body */
+export async function* readSse(
+  response: Response
+): AsyncGenerator<SseMessage, void, undefined> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (frame: string): SseMessage | null => {
+    let event: string | null = null;
+    const data: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const message = parse(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) yield message;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+
+    const tail = parse(buffer.trim());
+    if (tail) yield tail;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/** Parse a JSON frame, reporting malformed payloads as provider errors */
+export function parseFrame<T>(provider: AiProvider, data: string): T {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    throw new ProviderRequestError(provider, null, "Malformed stream frame");
+  }
+}
+
+/**
+ * Parse streamed tool call arguments. Malformed JSON yields `{}` so schema
+ * validation downstream reports the problem against the tool definition.
+ */
+export function parseToolArguments(json: string): Record<string, unknown> {
+  if (!json) return {};
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,127 @@
+import type {
+  AiProvider,
+  ModelSettings,
+  TokenUsage,
+  ToolCall,
+} from "@matrx/ai-client";
+
+/**
+ * Provider Adapter Types
+ *
+ * The normalized shapes every provider adapter accepts and emits.
+ * Adapters translate these to and from each vendor's wire format so the
+ * rest of the AI layer never deals with provider-specific payloads.
+ */
+
+/** A single message in a provider-neutral conversation */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  /** Tool calls requested by the assistant in this turn */
+  toolCalls?: ToolCall[];
+  /** For `tool` messages: the call this message answers */
+  toolCallId?: string;
+  /** For `tool` messages: the name of the tool that produced the result */
+  toolName?: string;
+  /** For `user` messages: images sent as content parts (vision adapters only) */
+  images?: ImagePart[];
+}
+
+/** An inline image for vision-capable models */
+export interface ImagePart {
+  mimeType: string;
+  /** Base64-encoded bytes */
+  data: string;
+}
+
+/** A tool the model may call, described by a JSON Schema */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Ask for a JSON reply. Adapters use the vendor's native JSON mode where
+ * there is one; the caller still validates, since not every vendor
+ * enforces the schema.
+ */
+export interface ResponseFormat {
+  type: "json";
+  /** Schema name, for vendors that require one */
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ProviderRequest {
+  model: string;
+  messages: ChatMessage[];
+  settings: ModelSettings;
+  tools?: ToolDefinition[];
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
+}
+
+export type FinishReason = "stop" | "length" | "tool_calls" | "error";
+
+export type ProviderStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "tool_call"; toolCall: ToolCall }
+  | { type: "done"; usage: TokenUsage; finishReason: FinishReason };
+
+/** A fully collected provider response */
+export interface ProviderResult {
+  content: string;
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+  finishReason: FinishReason;
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+  /** Some vendors embed stored documents and search queries differently */
+  purpose: "document" | "query";
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input, in order */
+  embeddings: number[][];
+  promptTokens: number;
+}
+
+export interface ProviderAdapter {
+  readonly provider: AiProvider;
+  /** Whether `images` on user messages are sent to the model */
+  readonly vision: boolean;
+  /** Default embedding model; unset when the vendor has no embeddings API */
+  readonly embeddingModel?: string;
+  /** Embed texts for retrieval. Optional: not every vendor offers embeddings. */
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResult>;
+  /** Stream a completion. Must end with exactly one `done` event. */
+  stream(request: ProviderRequest): AsyncGenerator<ProviderStreamEvent, void, undefined>;
+}
+
+/** Thrown when a provider's credentials are missing */
+export class ProviderConfigError extends Error {
+  constructor(
+    readonly provider: AiProvider,
+    missing: string
+  ) {
+    super(`AI provider "${provider}" is not configured (missing ${missing})`);
+    this.name = "ProviderConfigError";
+  }
+}
+
+/** Thrown when a provider rejects a request or returns a malformed stream */
+export class ProviderRequestError extends Error {
+  constructor(
+    readonly provider: AiProvider,
+    readonly status: number | null,
+    message: string
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = "ProviderRequestError";
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import type { PromptStreamDone, PromptStreamEvent } from "@matrx/ai-client";
+import { CACHE_TTL } from "@matrx/shared";
+import { executePrompt, type ExecutePromptOptions } from "./execute";
+import { resolvePromptVariables } from "./prompts";
+import { getProviderAdapter } from "./providers";
+import { EMPTY_USAGE } from "./tokens";
+
+/**
+ * Prompt Response Cache
+ *
+ * Temperature-0 executions are deterministic enough to reuse, so their
+ * replies are cached in memory for `CACHE_TTL.LONG`, keyed by template id
+ * and version, the coerced variables, provider, model, effective settings
+ * and structured output schema. Identical requests that arrive while one
+ * is running share its provider call instead of starting their own.
+ *
+ * Hits (and shared calls) are flagged `cached` with zero usage, which the
+ * usage ledger records as cache hits. Templates opt out with
+ * `cacheResponses: false`.
+ */
+
+const TTL_MS = CACHE_TTL.LONG * 1000;
+const MAX_ENTRIES = 500;
+
+interface CachedReply {
+  content: string;
+  response: PromptStreamDone["response"];
+}
+
+interface CacheEntry extends CachedReply {
+  expiresAt: number;
+}
+
+// Map iteration order doubles as recency: hits are re-inserted at the end
+const cache = new Map<string, CacheEntry>();
+/** Executions in progress; resolves to null if the leading request fails */
+const inflight = new Map<string, Promise<CachedReply | null>>();
+
+/** JSON with object keys sorted, so equal values always serialize the same */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** The cache key for an execution, or null if it must not be cached */
+export function responseCacheKey(options: ExecutePromptOptions): string | null {
+  const { template } = options;
+  const settings = { ...template.settings, ...options.overrides };
+  if (!template.cacheResponses || settings.temperature !== 0) return null;
+
+  const key = stableStringify({
+    promptId: template.id,
+    version: template.version,
+    variables: resolvePromptVariables(template, options.variables),
+    // The adapter actually used, which AI_PROVIDER_OVERRIDE may change
+    provider: getProviderAdapter(template.provider).provider,
+    model: template.model,
+    settings,
+    output: options.output,
+  });
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function cacheGet(key: string): CachedReply | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+
+  cache.delete(key);
+  if (entry.expiresAt <= Date.now()) return undefined;
+  cache.set(key, entry);
+  return entry;
+}
+
+function cacheSet(key: string, reply: CachedReply) {
+  cache.delete(key);
+  while (cache.size >= MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+  cache.set(key, { ...reply, expiresAt: Date.now() + TTL_MS });
+}
+
+function* replay(reply: CachedReply, startedAt: number): Generator<PromptStreamEvent> {
+  yield { type: "delta", content: reply.content };
+  yield {
+    type: "done",
+    response: {
+      ...reply.response,
+      id: crypto.randomUUID(),
+      usage: EMPTY_USAGE,
+      latencyMs: Date.now() - startedAt,
+      cached: true,
+    },
+  };
+}
+
+/**
+ * `executePrompt` with response caching and request deduplication.
+ * Uncacheable executions pass straight through. A cache miss streams
+ * live; concurrent identical requests wait for it and receive the whole
+ * reply at once.
+ */
+export async function* executePromptCached(
+  options: ExecutePromptOptions
+): AsyncGenerator<PromptStreamEvent, void, undefined> {
+  const key = responseCacheKey(options);
+  if (!key) {
+    yield* executePrompt(options);
+    return;
+  }
+
+  const startedAt = Date.now();
+  // No await before registering in `inflight`, or concurrent requests
+  // could all miss each other
+  const pending = inflight.get(key);
+  const shared = cacheGet(key) ?? (pending ? await pending : null);
+  if (shared) {
+    yield* replay(shared, startedAt);
+    return;
+  }
+
+  let settle: (reply: CachedReply | null) => void = () => {};
+  inflight.set(key, new Promise((resolve) => (settle = resolve)));
+
+  let reply: CachedReply | null = null;
+  try {
+    let content = "";
+    for await (const event of executePrompt(options)) {
+      if (event.type === "delta") {
+        content += event.content;
+      } else if (event.type === "done") {
+        reply = { content, response: event.response };
+        cacheSet(key, reply);
+        inflight.delete(key);
+        settle(reply);
+      }
+      yield event;
+    }
+  } finally {
+    // Failed or abandoned by its caller: waiting requests get null and
+    // run their own execution
+    if (!reply) {
+      inflight.delete(key);
+      settle(null);
+    }
+  }
+}
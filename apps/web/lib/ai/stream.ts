@@ -0,0 +1,96 @@
+import { encodeSseEvent } from "@matrx/ai-client";
+import type { PromptStreamEvent } from "@matrx/ai-client";
+
+/**
+ * Server-Sent Events response helpers for AI routes.
+ */
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Disable proxy buffering (nginx) so deltas reach the client immediately
+  "X-Accel-Buffering": "no",
+} as const;
+
+/**
+ * Wrap an async iterator of stream events into an SSE `Response`.
+ *
+ * If the iterator throws, a final `error` frame is emitted so clients
+ * always see a terminal event. When the client disconnects, the iterator
+ * is returned early, which lets upstream requests abort.
+ */
+export function createSseResponse(
+  events: AsyncIterable<PromptStreamEvent>
+): Response {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(encodeSseEvent(value)));
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Stream failed";
+        controller.enqueue(
+          encoder.encode(
+            encodeSseEvent({
+              type: "error",
+              error: { code: "STREAM_ERROR", message },
+            })
+          )
+        );
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/**
+ * Drain a stream into a single result.
+ *
+ * Used for non-streaming requests so both modes share one execution path.
+ * Throws if the stream ends with an `error` frame or without a `done` frame.
+ */
+export async function collectStream(
+  events: AsyncIterable<PromptStreamEvent>
+) {
+  let content = "";
+
+  for await (const event of events) {
+    if (event.type === "delta") {
+      content += event.content;
+    } else if (event.type === "done") {
+      return { ...event.response, content };
+    } else {
+      throw new StreamFailedError(event.error.code, event.error.message);
+    }
+  }
+
+  throw new StreamFailedError(
+    "STREAM_ERROR",
+    "Stream ended without a completion frame"
+  );
+}
+
+/** An `error` frame surfaced while collecting a stream */
+export class StreamFailedError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "StreamFailedError";
+  }
+}
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { PromptStreamDone, StructuredOutput } from "@matrx/ai-client";
+import { aiOutputSchemas } from "@matrx/shared";
+import {
+  compileJsonSchema,
+  validateJsonSchema,
+  validateWithZod,
+  type JsonSchema,
+  type JsonSchemaResult,
+} from "./json-schema";
+import type { ChatMessage, ResponseFormat } from "./providers";
+
+/**
+ * Structured Output
+ *
+ * Prompt executions can ask for a JSON reply, described by an inline JSON
+ * Schema or by the name of a registered Zod schema. The schema is sent to
+ * the provider (native JSON mode where the adapter has one) and spelled
+ * out in a system message; the reply is then parsed and validated, and on
+ * failure the model is shown the problems and asked again, up to
+ * `MAX_REPAIR_ATTEMPTS` times.
+ */
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const OUTPUT_INSTRUCTIONS =
+  "Respond with a single JSON value that conforms to the JSON Schema below. " +
+  "Reply with the JSON only: no prose and no code fences.";
+
+/** The request named an unknown schema or sent one that cannot be used */
+export class OutputSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutputSchemaError";
+  }
+}
+
+/** The model did not produce valid output within the repair budget */
+export class StructuredOutputError extends Error {
+  readonly code = "OUTPUT_PARSE_ERROR";
+
+  constructor(
+    readonly issues: string[],
+    /** The last reply received */
+    readonly content: string,
+    /** The failed execution, including the tokens spent on every attempt */
+    readonly response: PromptStreamDone["response"]
+  ) {
+    super(
+      `Model output did not match the schema after ${MAX_REPAIR_ATTEMPTS + 1} attempts`
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+interface RegisteredSchema {
+  schema: z.ZodType;
+  jsonSchema: JsonSchema;
+}
+
+const registry = new Map<string, RegisteredSchema>();
+
+/** Register (or replace) a Zod schema that requests can name in `output.schemaName` */
+export function registerOutputSchema(name: string, schema: z.ZodType): void {
+  registry.set(name, { schema, jsonSchema: z.toJSONSchema(schema) as JsonSchema });
+}
+
+for (const [name, schema] of Object.entries(aiOutputSchemas)) {
+  registerOutputSchema(name, schema);
+}
+
+export interface OutputFormat {
+  responseFormat: ResponseFormat;
+  validate(value: unknown): JsonSchemaResult;
+}
+
+export function resolveOutputFormat(output: StructuredOutput): OutputFormat {
+  if ("schemaName" in output) {
+    const registered = registry.get(output.schemaName);
+    if (!registered) {
+      throw new OutputSchemaError(`Unknown output schema "${output.schemaName}"`);
+    }
+    return {
+      responseFormat: { type: "json", name: output.schemaName, schema: registered.jsonSchema },
+      validate: (value) => validateWithZod(registered.schema, value),
+    };
+  }
+
+  try {
+    compileJsonSchema(output.jsonSchema);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unsupported schema";
+    throw new OutputSchemaError(`Invalid output schema: ${message}`);
+  }
+  return {
+    responseFormat: { type: "json", name: output.name ?? "output", schema: output.jsonSchema },
+    validate: (value) => validateJsonSchema(output.jsonSchema, value),
+  };
+}
+
+/** The system message describing the expected output */
+export function outputInstructions(format: OutputFormat): ChatMessage {
+  return {
+    role: "system",
+    content: `${OUTPUT_INSTRUCTIONS}\n\n${JSON.stringify(format.responseFormat.schema)}`,
+  };
+}
+
+/** The follow-up user message asking the model to fix its reply */
+export function repairMessage(issues: string[]): ChatMessage {
+  return {
+    role: "user",
+    content:
+      "Your reply did not match the required JSON Schema:\n" +
+      issues.map((issue) => `- ${issue}`).join("\n") +
+      "\n\nReply again with only the corrected JSON.",
+  };
+}
+
+/**
+ * Parse and validate a reply. Tolerates a surrounding code fence or prose,
+ * which models without a native JSON mode often add.
+ */
+export function parseStructuredOutput(format: OutputFormat, content: string): JsonSchemaResult {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(content);
+  const text = (fenced?.[1] ?? content).trim();
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+    try {
+      if (start === -1 || end < start) throw new Error();
+      value = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return { success: false, issues: ["Reply is not valid JSON"] };
+    }
+  }
+
+  return format.validate(value);
+}
@@ -0,0 +1,23 @@
+import type { TokenUsage } from "@matrx/ai-client";
+
+/**
+ * Token Estimation
+ *
+ * Rough token counts for budgeting when a provider does not report usage
+ * (and for the mock provider). Roughly 4 characters per token for English.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/** Sum token usage across several provider calls */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
@@ -0,0 +1,227 @@
+import { lookup as dnsLookup } from "node:dns";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { ToolExecutionError, type ToolHandler } from "./types";
+
+/**
+ * API Tools
+ *
+ * Call an HTTP endpoint configured on the tool:
+ *   config: { url, method?: "GET" | "POST" | ..., headers?: Record<string, string> }
+ *
+ * GET/DELETE send arguments as query parameters; other methods send them
+ * as a JSON body. Responses are read up to a size limit and truncated
+ * before being returned to the model.
+ *
+ * Only public http(s) hosts are reachable: URLs whose host is or resolves
+ * to a private, loopback or link-local address are refused, and redirects
+ * are not followed. Host names are checked in the connection's own DNS
+ * lookup, so the address checked is the address connected to.
+ */
+
+const API_TOOL_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_CHARS = 8_000;
+/** UTF-8 takes at most 4 bytes per character */
+const MAX_RESPONSE_BYTES = MAX_RESPONSE_CHARS * 4;
+
+/** Address ranges a tool or workflow node may never call */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  // IPv4-mapped, NAT64 and 6to4 addresses embed an IPv4 address
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+class BlockedAddressError extends Error {
+  constructor(host: string) {
+    super(`${host} is a private or internal address`);
+    this.name = "BlockedAddressError";
+  }
+}
+
+/** DNS lookup for outgoing requests that fails for internal addresses */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    const [first] = addresses;
+    if (!first || addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(new BlockedAddressError(hostname), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, first.address, first.family);
+  });
+};
+
+/**
+ * Refuse URLs that are not http(s) or whose host is an internal IP
+ * address; IP literals skip DNS, so `publicLookup` never sees them
+ */
+function assertPublicUrl(target: URL): void {
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    throw new ToolExecutionError(`Unsupported URL protocol "${target.protocol}"`);
+  }
+
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new ToolExecutionError(new BlockedAddressError(target.hostname).message);
+  }
+}
+
+interface HttpResult {
+  status: number;
+  statusText: string;
+  text: string;
+}
+
+/** Read at most `MAX_RESPONSE_BYTES` of the body, then close the connection */
+async function readLimitedBody(response: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+    size += chunk.length;
+    // Leaving the loop destroys the stream
+    if (size >= MAX_RESPONSE_BYTES) break;
+  }
+  return Buffer.concat(chunks)
+    .subarray(0, MAX_RESPONSE_BYTES)
+    .toString("utf8")
+    .slice(0, MAX_RESPONSE_CHARS);
+}
+
+function send(
+  target: URL,
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  signal: AbortSignal
+): Promise<HttpResult> {
+  const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const outgoing = request(
+      target,
+      { method, headers, lookup: publicLookup, signal },
+      (response) => {
+        readLimitedBody(response).then(
+          (text) =>
+            resolve({
+              status: response.statusCode ?? 0,
+              statusText: response.statusMessage ?? "",
+              text,
+            }),
+          reject
+        );
+      }
+    );
+    outgoing.on("error", reject);
+    outgoing.end(body);
+  });
+}
+
+export interface HttpApiConfig {
+  url?: string;
+  method?: string;
+  headers?: Record<string, string>;
+}
+
+export const runApiTool: ToolHandler = async (tool, args, context) => {
+  const config = tool.config as HttpApiConfig;
+  if (!config.url) throw new ToolExecutionError(`Tool "${tool.name}" has no URL configured`);
+  return callHttpApi(config, args, context.signal);
+};
+
+/** Shared by API tools and workflow `api_call` nodes */
+export async function callHttpApi(
+  config: HttpApiConfig,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const { url, method = "GET", headers = {} } = config;
+  if (!url) throw new ToolExecutionError("No URL configured");
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new ToolExecutionError(`Invalid URL "${url}"`);
+  }
+  assertPublicUrl(target);
+
+  const verb = method.toUpperCase();
+  const sendsQuery = verb === "GET" || verb === "DELETE";
+
+  if (sendsQuery) {
+    for (const [key, value] of Object.entries(args)) {
+      target.searchParams.set(key, typeof value === "string" ? value : JSON.stringify(value));
+    }
+  }
+
+  const body = sendsQuery ? undefined : JSON.stringify(args);
+  const signals = [AbortSignal.timeout(API_TOOL_TIMEOUT_MS)];
+  if (signal) signals.push(signal);
+
+  let response: HttpResult;
+  try {
+    response = await send(
+      target,
+      verb,
+      {
+        ...(body === undefined
+          ? {}
+          : {
+              "Content-Type": "application/json",
+              "Content-Length": String(Buffer.byteLength(body)),
+            }),
+        ...headers,
+      },
+      body,
+      AbortSignal.any(signals)
+    );
+  } catch (error) {
+    if (error instanceof BlockedAddressError) throw new ToolExecutionError(error.message);
+    const message = error instanceof Error ? error.message : "Request failed";
+    throw new ToolExecutionError(`${verb} ${target.origin}${target.pathname} failed: ${message}`);
+  }
+
+  const { status, statusText, text } = response;
+
+  if (status >= 300 && status < 400) {
+    throw new ToolExecutionError(`HTTP ${status}: redirects are not followed`);
+  }
+
+  if (status < 200 || status >= 300) {
+    throw new ToolExecutionError(`HTTP ${status}: ${text || statusText}`);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
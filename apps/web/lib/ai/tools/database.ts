@@ -0,0 +1,47 @@
+import type { SupabaseClient } from "@matrx/supabase";
+import { ToolExecutionError, type ToolHandler } from "./types";
+
+/**
+ * Database Tools
+ *
+ * Call a Supabase RPC configured on the tool (`config.rpc`). Only functions
+ * listed in `AI_TOOL_RPC_ALLOWLIST` (comma-separated) may be called, and
+ * calls run with the caller's RLS-scoped client — never the service role.
+ */
+
+function allowedRpcs(): Set<string> {
+  return new Set(
+    (process.env.AI_TOOL_RPC_ALLOWLIST ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+  );
+}
+
+type UntypedRpc = (
+  fn: string,
+  args: Record<string, unknown>
+) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+
+export const runDatabaseTool: ToolHandler = async (tool, args, context) => {
+  const rpc = typeof tool.config.rpc === "string" ? tool.config.rpc : tool.name;
+  return callAllowedRpc(context.client, rpc, args);
+};
+
+/** Shared by database tools and workflow `database` nodes */
+export async function callAllowedRpc(
+  client: SupabaseClient,
+  rpc: string,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  if (!allowedRpcs().has(rpc)) {
+    throw new ToolExecutionError(`RPC "${rpc}" is not allow-listed`);
+  }
+
+  // Allow-listed RPCs are configured at runtime, so they are not in the generated types
+  const callRpc = client.rpc.bind(client) as unknown as UntypedRpc;
+  const { data, error } = await callRpc(rpc, args);
+
+  if (error) throw new ToolExecutionError(`RPC "${rpc}" failed: ${error.message}`);
+  return data;
+}
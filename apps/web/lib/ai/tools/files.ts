@@ -0,0 +1,76 @@
+import { ToolExecutionError, type ToolHandler } from "./types";
+
+/**
+ * File Tools
+ *
+ * Give agents access to the caller's own uploads. Every query filters
+ * `file_metadata` by `uploaded_by`, so public or org-shared files that RLS
+ * would otherwise expose are out of reach. Without a caller there are no
+ * uploads to reach.
+ *
+ *   config: { operation: "list" | "read" }
+ *   list — args: { search?: string, limit?: number }
+ *   read — args: { fileId: string }  (text files only)
+ */
+
+const MAX_LIST = 50;
+const MAX_READ_CHARS = 20_000;
+
+const TEXT_MIME_TYPES = ["text/", "application/json", "application/xml"];
+
+export const runFileTool: ToolHandler = async (tool, args, context) => {
+  if (!context.userId) throw new ToolExecutionError("File tools need a signed-in user");
+
+  const operation = tool.config.operation === "read" ? "read" : "list";
+
+  if (operation === "list") {
+    const limit = Math.min(MAX_LIST, Math.max(1, Number(args.limit) || 20));
+    let query = context.client
+      .from("file_metadata")
+      .select("id, filename, mime_type, size_bytes, category, description, created_at")
+      .eq("uploaded_by", context.userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (typeof args.search === "string" && args.search) {
+      query = query.ilike("filename", `%${args.search}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new ToolExecutionError(`Failed to list files: ${error.message}`);
+    return data;
+  }
+
+  if (typeof args.fileId !== "string") {
+    throw new ToolExecutionError("fileId is required");
+  }
+
+  const { data: file, error } = await context.client
+    .from("file_metadata")
+    .select("id, bucket, storage_path, filename, mime_type")
+    .eq("id", args.fileId)
+    .eq("uploaded_by", context.userId)
+    .maybeSingle();
+
+  if (error) throw new ToolExecutionError(`Failed to load file: ${error.message}`);
+  if (!file) throw new ToolExecutionError("File not found");
+
+  if (!TEXT_MIME_TYPES.some((type) => file.mime_type.startsWith(type))) {
+    throw new ToolExecutionError(`Cannot read ${file.mime_type} files as text`);
+  }
+
+  const { data: blob, error: downloadError } = await context.client.storage
+    .from(file.bucket)
+    .download(file.storage_path);
+
+  if (downloadError || !blob) {
+    throw new ToolExecutionError(`Failed to download file: ${downloadError?.message ?? "empty"}`);
+  }
+
+  const text = await blob.text();
+  return {
+    filename: file.filename,
+    content: text.slice(0, MAX_READ_CHARS),
+    truncated: text.length > MAX_READ_CHARS,
+  };
+};
@@ -0,0 +1,54 @@
+import { ToolExecutionError, type ToolHandler } from "./types";
+
+/**
+ * Function & Custom Tools
+ *
+ * "function" tools run built-in server functions, looked up by
+ * `config.function` (or the tool name). "custom" tools run handlers the
+ * application registers at startup, looked up by `config.handler`.
+ */
+
+type ToolFunction = (
+  args: Record<string, unknown>,
+  context: Parameters<ToolHandler>[2]
+) => Promise<unknown> | unknown;
+
+const builtInFunctions = new Map<string, ToolFunction>([
+  [
+    "current_time",
+    (args) => {
+      const timeZone = typeof args.timeZone === "string" ? args.timeZone : "UTC";
+      const now = new Date();
+      try {
+        return {
+          iso: now.toISOString(),
+          local: now.toLocaleString("en-US", { timeZone }),
+          timeZone,
+        };
+      } catch {
+        throw new ToolExecutionError(`Unknown time zone "${timeZone}"`);
+      }
+    },
+  ],
+]);
+
+const customHandlers = new Map<string, ToolFunction>();
+
+/** Register an application-defined handler for "custom" tools */
+export function registerCustomToolHandler(name: string, handler: ToolFunction): void {
+  customHandlers.set(name, handler);
+}
+
+export const runFunctionTool: ToolHandler = async (tool, args, context) => {
+  const name = typeof tool.config.function === "string" ? tool.config.function : tool.name;
+  const fn = builtInFunctions.get(name);
+  if (!fn) throw new ToolExecutionError(`Unknown function "${name}"`);
+  return fn(args, context);
+};
+
+export const runCustomTool: ToolHandler = async (tool, args, context) => {
+  const name = typeof tool.config.handler === "string" ? tool.config.handler : tool.name;
+  const handler = customHandlers.get(name);
+  if (!handler) throw new ToolExecutionError(`No handler registered for "${name}"`);
+  return handler(args, context);
+};
@@ -0,0 +1,67 @@
+import type { AgentTool, ToolCall, ToolResult } from "@matrx/ai-client";
+import { validateJsonSchema } from "../json-schema";
+import type { ToolDefinition } from "../providers";
+import { runApiTool } from "./api";
+import { runDatabaseTool } from "./database";
+import { runFileTool } from "./files";
+import { runCustomTool, runFunctionTool } from "./functions";
+import type { ToolContext, ToolHandler } from "./types";
+
+/**
+ * Agent Tool Runtime
+ *
+ * Validates model-issued tool calls against each tool's JSON schema and
+ * dispatches them by `AgentTool.type`. Failures become `ToolResult.error`
+ * so the model can recover; they never abort the agent turn.
+ */
+
+const handlers: Record<AgentTool["type"], ToolHandler> = {
+  function: runFunctionTool,
+  api: runApiTool,
+  database: runDatabaseTool,
+  file: runFileTool,
+  custom: runCustomTool,
+};
+
+/** Describe an agent's tools to the provider */
+export function toToolDefinitions(tools: AgentTool[]): ToolDefinition[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.schema,
+  }));
+}
+
+export async function executeToolCall(
+  tools: AgentTool[],
+  call: ToolCall,
+  context: ToolContext
+): Promise<ToolResult> {
+  const tool = tools.find((t) => t.name === call.toolName);
+  if (!tool) {
+    return { toolCallId: call.id, result: null, error: `Unknown tool "${call.toolName}"` };
+  }
+
+  const validation = validateJsonSchema(tool.schema, call.arguments);
+  if (!validation.success) {
+    return {
+      toolCallId: call.id,
+      result: null,
+      error: `Invalid arguments: ${validation.issues.join("; ")}`,
+    };
+  }
+
+  try {
+    const args = (validation.data ?? {}) as Record<string, unknown>;
+    const result = await handlers[tool.type](tool, args, context);
+    return { toolCallId: call.id, result: result ?? null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Tool execution failed";
+    return { toolCallId: call.id, result: null, error: message };
+  }
+}
+
+export { callHttpApi, type HttpApiConfig } from "./api";
+export { callAllowedRpc } from "./database";
+export { registerCustomToolHandler } from "./functions";
+export { ToolExecutionError, type ToolContext, type ToolHandler } from "./types";
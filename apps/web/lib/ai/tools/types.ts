@@ -0,0 +1,36 @@
+import type { AgentTool } from "@matrx/ai-client";
+import type { SupabaseClient } from "@matrx/supabase";
+
+/**
+ * Agent Tool Runtime Types
+ */
+
+/** Per-request context passed to every tool handler */
+export interface ToolContext {
+  /** User-scoped (RLS) Supabase client */
+  client: SupabaseClient;
+  /**
+   * The authenticated caller; null in workflow runs no user started,
+   * which have no "file" tools
+   */
+  userId: string | null;
+  signal?: AbortSignal;
+}
+
+/** Executes a validated tool call and returns a JSON-serializable result */
+export type ToolHandler = (
+  tool: AgentTool,
+  args: Record<string, unknown>,
+  context: ToolContext
+) => Promise<unknown>;
+
+/**
+ * A tool failure reported back to the model as a `ToolResult.error`
+ * rather than failing the whole agent turn.
+ */
+export class ToolExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolExecutionError";
+  }
+}
@@ -0,0 +1,201 @@
+import type {
+  AiProvider,
+  PromptStreamDone,
+  PromptStreamEvent,
+  TokenUsage,
+} from "@matrx/ai-client";
+import { AI_USAGE_QUOTAS, type Entitlements, type SubscriptionPlan } from "@matrx/shared";
+import {
+  createAiUsageEvent,
+  getAiUsageTotals,
+  getOrganization,
+  getWorkspaceById,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { entitlementsFor, requireEntitlement } from "@/lib/entitlements";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { estimateCostUsd } from "./pricing";
+import { StructuredOutputError } from "./structured-output";
+
+/**
+ * AI Usage Metering
+ *
+ * Every provider execution is recorded in `ai_usage_events` with its
+ * tokens, latency and estimated cost, attributed to an organization (and
+ * workspace / integration / workflow execution when known). Before a new
+ * execution starts the organization must be entitled to AI, and its
+ * rolling totals are checked against its entitlement limits (the plan's
+ * `AI_USAGE_QUOTAS` unless overridden).
+ *
+ * Executions answered from the response cache (./response-cache) are
+ * recorded as cache hits with zero tokens, and do not count as requests.
+ *
+ * The ledger is written with the service role: callers may not have
+ * insert rights, and recording usage must never fail the request.
+ */
+
+export type UsageSource = Tables<"ai_usage_events">["source"];
+
+export interface UsageScope {
+  organizationId: string;
+  plan: SubscriptionPlan;
+  workspaceId: string;
+  entitlements: Entitlements;
+}
+
+export interface UsageEntry {
+  source: UsageSource;
+  provider: AiProvider;
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number;
+  integrationId?: string;
+  executionId?: string;
+  userId?: string | null;
+  /** Answered from the response cache, without a provider call */
+  cacheHit?: boolean;
+}
+
+export interface UsageTotals {
+  /** Provider calls; cache hits are counted in `cacheHits` instead */
+  requests: number;
+  totalTokens: number;
+  costUsd: number;
+  cacheHits: number;
+}
+
+/** Thrown when an organization has used up its plan's quota */
+export class QuotaExceededError extends Error {
+  readonly code = "QUOTA_EXCEEDED";
+
+  constructor(
+    readonly plan: SubscriptionPlan,
+    readonly limit: "requests" | "tokens",
+    readonly used: number,
+    readonly max: number
+  ) {
+    super(
+      `AI ${limit} quota exceeded for the ${plan} plan ` +
+        `(${used} of ${max} in the last ${AI_USAGE_QUOTAS.WINDOW_DAYS} days)`
+    );
+    this.name = "QuotaExceededError";
+  }
+}
+
+/** Organization and plan that usage in a workspace is billed to */
+export async function resolveUsageScope(workspaceId: string): Promise<UsageScope | null> {
+  const admin = createAdminClient();
+
+  const { data: workspace, error } = await getWorkspaceById(admin, workspaceId);
+  if (error) throw error;
+  if (!workspace) return null;
+
+  const { data: organization, error: orgError } = await getOrganization(
+    admin,
+    workspace.organization_id
+  );
+  if (orgError) throw orgError;
+
+  return {
+    organizationId: organization.id,
+    plan: organization.plan,
+    workspaceId: workspace.id,
+    entitlements: await entitlementsFor(organization),
+  };
+}
+
+/** Totals over the quota window, for an organization the client can read */
+export async function getUsageTotals(
+  client: SupabaseClient,
+  organizationId: string,
+  days: number = AI_USAGE_QUOTAS.WINDOW_DAYS
+): Promise<UsageTotals> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await getAiUsageTotals(client, organizationId, since);
+  if (error) throw error;
+
+  return {
+    requests: Number(data?.request_count ?? 0),
+    totalTokens: Number(data?.total_tokens ?? 0),
+    costUsd: Number(data?.cost_usd ?? 0),
+    cacheHits: Number(data?.cache_hit_count ?? 0),
+  };
+}
+
+/**
+ * Throws `EntitlementError` if the organization's plan does not include
+ * AI, and `QuotaExceededError` once its requests or tokens are used up.
+ */
+export async function assertWithinQuota(scope: UsageScope): Promise<void> {
+  await requireEntitlement(scope.entitlements, "aiIntegration");
+
+  const { aiRequests, aiTokens } = scope.entitlements.limits;
+  if (aiRequests === null && aiTokens === null) return;
+
+  const totals = await getUsageTotals(createAdminClient(), scope.organizationId);
+
+  if (aiRequests !== null && totals.requests >= aiRequests) {
+    throw new QuotaExceededError(scope.plan, "requests", totals.requests, aiRequests);
+  }
+  if (aiTokens !== null && totals.totalTokens >= aiTokens) {
+    throw new QuotaExceededError(scope.plan, "tokens", totals.totalTokens, aiTokens);
+  }
+}
+
+/** Append an execution to the ledger. Never throws. */
+export async function recordUsage(scope: UsageScope, entry: UsageEntry): Promise<void> {
+  try {
+    const { error } = await createAiUsageEvent(createAdminClient(), {
+      organization_id: scope.organizationId,
+      workspace_id: scope.workspaceId,
+      integration_id: entry.integrationId ?? null,
+      execution_id: entry.executionId ?? null,
+      user_id: entry.userId ?? null,
+      source: entry.source,
+      provider: entry.provider,
+      model: entry.model,
+      prompt_tokens: entry.usage.promptTokens,
+      completion_tokens: entry.usage.completionTokens,
+      total_tokens: entry.usage.totalTokens,
+      latency_ms: Math.round(entry.latencyMs),
+      cost_usd: estimateCostUsd(entry.provider, entry.model, entry.usage),
+      cache_hit: entry.cacheHit ?? false,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error("Failed to record AI usage:", error);
+  }
+}
+
+/**
+ * Pass prompt stream events through, recording usage when the `done` frame
+ * arrives. Structured output that never validated is recorded too, since
+ * the provider billed every attempt.
+ */
+export async function* meterPromptStream(
+  events: AsyncIterable<PromptStreamEvent>,
+  scope: UsageScope,
+  entry: Pick<UsageEntry, "source" | "executionId" | "userId">
+): AsyncGenerator<PromptStreamEvent, void, undefined> {
+  const record = (response: PromptStreamDone["response"]) =>
+    recordUsage(scope, {
+      ...entry,
+      integrationId: response.promptId,
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      latencyMs: response.latencyMs,
+      cacheHit: response.cached,
+    });
+
+  try {
+    for await (const event of events) {
+      if (event.type === "done") await record(event.response);
+      yield event;
+    }
+  } catch (error) {
+    if (error instanceof StructuredOutputError) await record(error.response);
+    throw error;
+  }
+}
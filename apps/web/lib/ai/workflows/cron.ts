@@ -0,0 +1,148 @@
+/**
+ * Cron Expressions
+ *
+ * Five-field cron syntax (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Each field accepts `*`, numbers, ranges (`1-5`), lists
+ * (`1,15`) and steps (`*\/15`, `0-30/10`). Day-of-week is 0–6 with 0 (or
+ * 7) meaning Sunday. As in classic cron, when both day fields are
+ * restricted a time matches if either of them does.
+ */
+
+export class CronExpressionError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = "CronExpressionError";
+  }
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const MINUTE_MS = 60_000;
+
+const cache = new Map<string, CronSchedule>();
+
+function parseField(
+  expression: string,
+  source: string,
+  field: (typeof FIELDS)[number]
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(expression, `bad step in ${field.name} field`);
+    }
+
+    let start: number = field.min;
+    let end: number = field.max;
+
+    if (range !== "*") {
+      const [from, to] = (range ?? "").split("-");
+      start = Number(from);
+      end = to === undefined ? (stepSource === undefined ? start : field.max) : Number(to);
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new CronExpressionError(expression, `bad value in ${field.name} field`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const cached = cache.get(expression);
+  if (cached) return cached;
+
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronExpressionError(expression, "expected 5 fields");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((field, index) =>
+    parseField(expression, parts[index] as string, field)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  const schedule: CronSchedule = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+
+  cache.set(expression, schedule);
+  return schedule;
+}
+
+/** Whether `date` (to the minute, UTC) matches the expression */
+export function cronMatches(expression: string, date: Date): boolean {
+  const schedule = parseCron(expression);
+
+  if (
+    !schedule.minutes.has(date.getUTCMinutes()) ||
+    !schedule.hours.has(date.getUTCHours()) ||
+    !schedule.months.has(date.getUTCMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The most recent minute at or before `at` matching the expression,
+ * searching back at most `lookbackMinutes`; null if none matches.
+ */
+export function previousCronTime(
+  expression: string,
+  at: Date,
+  lookbackMinutes: number
+): Date | null {
+  const start = Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS;
+
+  for (let offset = 0; offset <= lookbackMinutes; offset++) {
+    const candidate = new Date(start - offset * MINUTE_MS);
+    if (cronMatches(expression, candidate)) return candidate;
+  }
+
+  return null;
+}
@@ -0,0 +1,311 @@
+import type {
+  NodeExecution,
+  Workflow,
+  WorkflowExecution,
+  WorkflowReviewDecision,
+} from "@matrx/ai-client";
+import {
+  getNodeExecutions,
+  updateWorkflowExecution,
+  upsertNodeExecutions,
+  type InsertTables,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { evaluateExpression } from "./expression";
+import { incomingEdges, topologicalOrder } from "./graph";
+import { handlers } from "./nodes";
+
+/**
+ * Workflow Engine
+ *
+ * Runs a workflow graph in topological order and records a
+ * `workflow_node_executions` row per node:
+ *
+ * - A node runs when at least one incoming edge is active. An edge is
+ *   active when its source completed and its `condition` (if any) is
+ *   truthy; `output` in the condition refers to the source's output.
+ * - Nodes with no active incoming edge are "skipped".
+ * - A failing node fails the run and skips everything not yet run,
+ *   unless the node sets `config.continueOnError`, in which case only
+ *   its dependents are skipped.
+ *
+ * - A `human_review` node pauses the run: its record stays "pending" with
+ *   its input and start time, and the execution becomes
+ *   "waiting_for_review" until a reviewer decides (./review).
+ *
+ * Nodes that already have a terminal record are not re-run, so calling
+ * the engine again on a stored execution continues where it stopped.
+ *
+ * Node handlers read and call data with `runAs`, an RLS-scoped client;
+ * the service-role `client` only writes execution records and loads the
+ * run's own prompt and agent definitions.
+ */
+
+type NodeRow = Tables<"workflow_node_executions">;
+type ExecutionRow = Tables<"workflow_executions">;
+
+const TERMINAL = new Set<NodeRow["status"]>(["completed", "failed", "skipped"]);
+
+export interface RunWorkflowOptions {
+  /** Service-role client; the engine writes execution records */
+  client: SupabaseClient;
+  /**
+   * RLS-scoped client the nodes run with: the caller's, or an anonymous
+   * one for runs no user started (schedules, webhooks, events) and for
+   * runs resumed after a review
+   */
+  runAs: SupabaseClient;
+  workflow: Workflow;
+  execution: ExecutionRow;
+  signal?: AbortSignal;
+}
+
+export async function runWorkflowExecution(
+  options: RunWorkflowOptions
+): Promise<WorkflowExecution> {
+  const { client, workflow, execution } = options;
+  const now = () => new Date().toISOString();
+
+  const { data: existing, error: loadError } = await getNodeExecutions(client, execution.id);
+  if (loadError) throw loadError;
+
+  const states = new Map<string, NodeRow>((existing ?? []).map((row) => [row.node_id, row]));
+
+  const save = async (rows: InsertTables<"workflow_node_executions">[]) => {
+    const { data, error } = await upsertNodeExecutions(client, rows);
+    if (error) throw error;
+    for (const row of data ?? []) states.set(row.node_id, row);
+  };
+
+  const finish = async (update: Partial<ExecutionRow>) => {
+    const { data, error } = await updateWorkflowExecution(client, execution.id, {
+      ...update,
+      completed_at: now(),
+    });
+    if (error) throw error;
+    return toWorkflowExecution(data, [...states.values()]);
+  };
+
+  let order: string[];
+  try {
+    order = topologicalOrder(workflow);
+  } catch (error) {
+    return finish({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Invalid workflow definition",
+    });
+  }
+
+  const fresh = order.filter((id) => !states.has(id));
+  if (fresh.length > 0) {
+    await save(fresh.map((nodeId) => ({ execution_id: execution.id, node_id: nodeId })));
+  }
+
+  const { error: startError } = await updateWorkflowExecution(client, execution.id, {
+    status: "running",
+  });
+  if (startError) throw startError;
+
+  const nodesById = new Map(workflow.nodes.map((node) => [node.id, node]));
+  const outputs = (): Record<string, unknown> =>
+    Object.fromEntries(
+      [...states.values()]
+        .filter((row) => row.status === "completed")
+        .map((row) => [row.node_id, row.output])
+    );
+
+  let fatalError: string | null = null;
+  let awaitingReview = false;
+
+  for (const nodeId of order) {
+    const node = nodesById.get(nodeId);
+    const state = states.get(nodeId);
+    if (!node || (state && TERMINAL.has(state.status))) continue;
+
+    const skip = () =>
+      save([{ execution_id: execution.id, node_id: nodeId, status: "skipped", completed_at: now() }]);
+
+    if (fatalError || options.signal?.aborted) {
+      await skip();
+      continue;
+    }
+
+    const scope: Record<string, unknown> = { inputs: execution.inputs, nodes: outputs() };
+    const startedAt = now();
+
+    try {
+      // Resolve which incoming edges are active
+      const edges = incomingEdges(workflow, nodeId);
+      const activeSources: string[] = [];
+
+      for (const edge of edges) {
+        const source = states.get(edge.source);
+        if (source?.status !== "completed") continue;
+        if (
+          edge.condition &&
+          !evaluateExpression(edge.condition, { ...scope, output: source.output })
+        ) {
+          continue;
+        }
+        activeSources.push(edge.source);
+      }
+
+      if (edges.length > 0 && activeSources.length === 0) {
+        await skip();
+        continue;
+      }
+
+      const nodeOutputs = scope.nodes as Record<string, unknown>;
+      const input =
+        edges.length === 0
+          ? execution.inputs
+          : activeSources.length === 1
+            ? nodeOutputs[activeSources[0] as string]
+            : Object.fromEntries(activeSources.map((id) => [id, nodeOutputs[id]]));
+
+      if (node.type === "human_review") {
+        await save([
+          {
+            execution_id: execution.id,
+            node_id: nodeId,
+            status: "pending",
+            input,
+            started_at: startedAt,
+          },
+        ]);
+        awaitingReview = true;
+        break;
+      }
+
+      const handler = handlers[node.type];
+      if (!handler) throw new Error(`Unsupported node type "${node.type}"`);
+
+      await save([
+        {
+          execution_id: execution.id,
+          node_id: nodeId,
+          status: "running",
+          input,
+          started_at: startedAt,
+        },
+      ]);
+
+      const output = await handler(node, {
+        client: options.runAs,
+        definitions: client,
+        workspaceId: execution.workspace_id,
+        executionId: execution.id,
+        triggeredBy: execution.triggered_by,
+        scope: { ...scope, input },
+        signal: options.signal,
+      });
+
+      await save([
+        {
+          execution_id: execution.id,
+          node_id: nodeId,
+          status: "completed",
+          input,
+          output: output ?? null,
+          started_at: startedAt,
+          completed_at: now(),
+        },
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Node failed";
+
+      await save([
+        {
+          execution_id: execution.id,
+          node_id: nodeId,
+          status: "failed",
+          input: states.get(nodeId)?.input ?? null,
+          error: message,
+          started_at: startedAt,
+          completed_at: now(),
+        },
+      ]);
+
+      if (!node.config.continueOnError) {
+        fatalError = `Node "${node.label || node.id}" failed: ${message}`;
+      }
+    }
+  }
+
+  if (awaitingReview) {
+    const { data, error } = await updateWorkflowExecution(client, execution.id, {
+      status: "waiting_for_review",
+    });
+    if (error) throw error;
+    return toWorkflowExecution(data, [...states.values()]);
+  }
+
+  if (fatalError) {
+    return finish({ status: "failed", error: fatalError });
+  }
+
+  if (options.signal?.aborted) {
+    return finish({ status: "cancelled", error: "Execution aborted" });
+  }
+
+  return finish({ status: "completed", outputs: collectOutputs(workflow, states) });
+}
+
+/**
+ * Workflow outputs are the values of completed `output` nodes, keyed by
+ * `config.name` (falling back to the node id).
+ */
+function collectOutputs(workflow: Workflow, states: Map<string, NodeRow>) {
+  const outputs: Record<string, unknown> = {};
+
+  for (const node of workflow.nodes) {
+    const state = states.get(node.id);
+    if (node.type !== "output" || state?.status !== "completed") continue;
+    const name = typeof node.config.name === "string" ? node.config.name : node.id;
+    outputs[name] = state.output;
+  }
+
+  return outputs;
+}
+
+export function toNodeExecution(row: NodeRow): NodeExecution {
+  return {
+    nodeId: row.node_id,
+    status: row.status,
+    input: row.input ?? null,
+    output: row.output ?? null,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    error: row.error,
+    ...(row.review ? { review: toReviewDecision(row.review) } : {}),
+  };
+}
+
+function toReviewDecision(review: Record<string, unknown>): WorkflowReviewDecision {
+  return {
+    decision: review.decision === "reject" ? "reject" : "approve",
+    reviewerId: String(review.reviewer_id ?? ""),
+    reviewerEmail: typeof review.reviewer_email === "string" ? review.reviewer_email : null,
+    edited: review.edited === true,
+    comment: typeof review.comment === "string" ? review.comment : null,
+    decidedAt: String(review.decided_at ?? ""),
+  };
+}
+
+export function toWorkflowExecution(
+  row: ExecutionRow,
+  nodeRows: NodeRow[]
+): WorkflowExecution {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    status: row.status,
+    inputs: row.inputs,
+    outputs: row.outputs,
+    nodeExecutions: nodeRows.map(toNodeExecution),
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    error: row.error,
+  };
+}
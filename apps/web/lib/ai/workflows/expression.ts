@@ -0,0 +1,395 @@
+/**
+ * Workflow Expressions
+ *
+ * A small, side-effect-free expression language for edge conditions,
+ * condition/loop nodes and `{{ }}` templates in node config. Workflow
+ * definitions are user-authored, so expressions are parsed and evaluated
+ * here rather than with `eval`/`new Function`.
+ *
+ * Supported:
+ *   literals      1, 2.5, "text", 'text', true, false, null, [1, 2]
+ *   paths         output.score, nodes.classify.label, items[0], input["key"]
+ *   operators     ! - * / % + - < <= > >= == != && ||
+ *   functions     len(x), contains(haystack, needle), lower(s), upper(s),
+ *                 number(x), string(x), json(x)
+ *
+ * `==`/`!=` compare strictly (no type coercion). `&&`/`||` short-circuit
+ * and return booleans.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+type Scope = Record<string, unknown>;
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "ident"; value: string }
+  | { kind: "op"; value: string };
+
+type Node =
+  | { type: "literal"; value: unknown }
+  | { type: "ident"; name: string }
+  | { type: "array"; items: Node[] }
+  | { type: "member"; object: Node; property: Node }
+  | { type: "call"; name: string; args: Node[] }
+  | { type: "unary"; op: string; operand: Node }
+  | { type: "binary"; op: string; left: Node; right: Node };
+
+const OPERATORS = ["===", "!==", "==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "+", "-", "*", "/", "%", "(", ")", "[", "]", ".", ","];
+
+const BLOCKED_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  len: (value) =>
+    typeof value === "string" || Array.isArray(value)
+      ? value.length
+      : value && typeof value === "object"
+        ? Object.keys(value).length
+        : 0,
+  contains: (haystack, needle) =>
+    typeof haystack === "string"
+      ? typeof needle === "string" && haystack.includes(needle)
+      : Array.isArray(haystack)
+        ? haystack.some((item) => deepEqual(item, needle))
+        : false,
+  lower: (value) => String(value ?? "").toLowerCase(),
+  upper: (value) => String(value ?? "").toUpperCase(),
+  number: (value) => Number(value),
+  string: (value) => (typeof value === "string" ? value : JSON.stringify(value)),
+  json: (value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new ExpressionError("json() received invalid JSON");
+    }
+  },
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i] as string;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i));
+      const text = match?.[0] ?? char;
+      tokens.push({ kind: "number", value: Number(text) });
+      i += text.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) throw new ExpressionError("Unterminated string");
+      i++;
+      tokens.push({ kind: "string", value });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i));
+      const text = match?.[0] ?? char;
+      tokens.push({ kind: "ident", value: text });
+      i += text.length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (!op) throw new ExpressionError(`Unexpected character "${char}"`);
+    tokens.push({ kind: "op", value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseBinary(0);
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError("Unexpected trailing input");
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === "op" && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.isOp(value)) throw new ExpressionError(`Expected "${value}"`);
+    this.position++;
+  }
+
+  private static readonly PRECEDENCE: string[][] = [
+    ["||"],
+    ["&&"],
+    ["==", "!=", "===", "!=="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"],
+  ];
+
+  private parseBinary(level: number): Node {
+    if (level >= Parser.PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    const ops = Parser.PRECEDENCE[level] ?? [];
+
+    while (true) {
+      const token = this.peek();
+      if (token?.kind !== "op" || !ops.includes(token.value)) return left;
+      this.position++;
+      left = { type: "binary", op: token.value, left, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  private parseUnary(): Node {
+    if (this.isOp("!") || this.isOp("-")) {
+      const op = (this.peek() as Token).value as string;
+      this.position++;
+      return { type: "unary", op, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    while (true) {
+      if (this.isOp(".")) {
+        this.position++;
+        const token = this.peek();
+        if (token?.kind !== "ident") throw new ExpressionError("Expected property name");
+        this.position++;
+        node = { type: "member", object: node, property: { type: "literal", value: token.value } };
+      } else if (this.isOp("[")) {
+        this.position++;
+        const property = this.parseBinary(0);
+        this.expectOp("]");
+        node = { type: "member", object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek();
+    if (!token) throw new ExpressionError("Unexpected end of expression");
+    this.position++;
+
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+
+      case "ident":
+        if (token.value === "true") return { type: "literal", value: true };
+        if (token.value === "false") return { type: "literal", value: false };
+        if (token.value === "null") return { type: "literal", value: null };
+        if (this.isOp("(")) {
+          this.position++;
+          const args = this.parseList(")");
+          return { type: "call", name: token.value, args };
+        }
+        return { type: "ident", name: token.value };
+
+      case "op":
+        if (token.value === "(") {
+          const node = this.parseBinary(0);
+          this.expectOp(")");
+          return node;
+        }
+        if (token.value === "[") {
+          return { type: "array", items: this.parseList("]") };
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`);
+    }
+  }
+
+  private parseList(close: string): Node[] {
+    const items: Node[] = [];
+    if (this.isOp(close)) {
+      this.position++;
+      return items;
+    }
+    while (true) {
+      items.push(this.parseBinary(0));
+      if (this.isOp(",")) {
+        this.position++;
+        continue;
+      }
+      this.expectOp(close);
+      return items;
+    }
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function readProperty(object: unknown, property: unknown): unknown {
+  if (object === null || object === undefined) return undefined;
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) throw new ExpressionError(`Access to "${key}" is not allowed`);
+  if ((typeof object === "string" || Array.isArray(object)) && key === "length") {
+    return object.length;
+  }
+  if (typeof object !== "object") return undefined;
+  return Object.prototype.hasOwnProperty.call(object, key)
+    ? (object as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function evaluateNode(node: Node, scope: Scope): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "ident":
+      return readProperty(scope, node.name);
+
+    case "array":
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case "member":
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+    case "call": {
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name)
+        ? FUNCTIONS[node.name]
+        : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function "${node.name}"`);
+      return fn(...node.args.map((arg) => evaluateNode(arg, scope)));
+    }
+
+    case "unary": {
+      const value = evaluateNode(node.operand, scope);
+      return node.op === "!" ? !value : -Number(value);
+    }
+
+    case "binary": {
+      if (node.op === "&&") {
+        return Boolean(evaluateNode(node.left, scope)) && Boolean(evaluateNode(node.right, scope));
+      }
+      if (node.op === "||") {
+        return Boolean(evaluateNode(node.left, scope)) || Boolean(evaluateNode(node.right, scope));
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.op) {
+        case "==":
+        case "===":
+          return deepEqual(left, right);
+        case "!=":
+        case "!==":
+          return !deepEqual(left, right);
+        case "<":
+          return (left as number) < (right as number);
+        case "<=":
+          return (left as number) <= (right as number);
+        case ">":
+          return (left as number) > (right as number);
+        case ">=":
+          return (left as number) >= (right as number);
+        case "+":
+          return typeof left === "string" || typeof right === "string"
+            ? `${left ?? ""}${right ?? ""}`
+            : Number(left) + Number(right);
+        case "-":
+          return Number(left) - Number(right);
+        case "*":
+          return Number(left) * Number(right);
+        case "/":
+          return Number(left) / Number(right);
+        case "%":
+          return Number(left) % Number(right);
+      }
+      throw new ExpressionError(`Unknown operator "${node.op}"`);
+    }
+  }
+}
+
+// Definitions are re-read per execution; parse each distinct expression once
+const parsed = new Map<string, Node>();
+const MAX_PARSED = 500;
+
+export function evaluateExpression(source: string, scope: Scope): unknown {
+  let ast = parsed.get(source);
+  if (!ast) {
+    ast = new Parser(tokenize(source)).parse();
+    if (parsed.size >= MAX_PARSED) parsed.clear();
+    parsed.set(source, ast);
+  }
+  return evaluateNode(ast, scope);
+}
+
+const TEMPLATE = /\{\{\s*([\s\S]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*([\s\S]+?)\s*\}\}$/;
+
+/**
+ * Resolve `{{ expression }}` templates anywhere in a config value.
+ * A string that is exactly one template keeps the expression's type;
+ * templates embedded in text are stringified.
+ */
+export function resolveTemplates(value: unknown, scope: Scope): unknown {
+  if (typeof value === "string") {
+    const whole = WHOLE_TEMPLATE.exec(value);
+    if (whole?.[1]) return evaluateExpression(whole[1], scope);
+
+    return value.replace(TEMPLATE, (_match, expression: string) => {
+      const result = evaluateExpression(expression, scope);
+      if (result === null || result === undefined) return "";
+      return typeof result === "string" ? result : JSON.stringify(result);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, scope));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, scope)])
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,63 @@
+import type { Workflow, WorkflowEdge } from "@matrx/ai-client";
+
+/**
+ * Workflow Graph
+ *
+ * Workflows are directed acyclic graphs. Repetition is expressed with
+ * `loop` nodes (which run an inline body), never with back edges.
+ */
+
+export class WorkflowDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowDefinitionError";
+  }
+}
+
+/**
+ * Order node ids so every node comes after all of its sources (Kahn's
+ * algorithm). Ties keep definition order so runs are deterministic.
+ * Throws on unknown edge endpoints, duplicate ids or cycles.
+ */
+export function topologicalOrder(workflow: Workflow): string[] {
+  const ids = workflow.nodes.map((node) => node.id);
+  const known = new Set(ids);
+
+  if (known.size !== ids.length) {
+    throw new WorkflowDefinitionError("Workflow has duplicate node ids");
+  }
+
+  const inDegree = new Map(ids.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+
+  for (const edge of workflow.edges) {
+    if (!known.has(edge.source) || !known.has(edge.target)) {
+      throw new WorkflowDefinitionError(`Edge "${edge.id}" references an unknown node`);
+    }
+    outgoing.get(edge.source)?.push(edge.target);
+    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
+  }
+
+  const ready = ids.filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const id = ready.shift() as string;
+    order.push(id);
+    for (const target of outgoing.get(id) ?? []) {
+      const remaining = (inDegree.get(target) ?? 0) - 1;
+      inDegree.set(target, remaining);
+      if (remaining === 0) ready.push(target);
+    }
+  }
+
+  if (order.length !== ids.length) {
+    throw new WorkflowDefinitionError("Workflow graph contains a cycle");
+  }
+
+  return order;
+}
+
+export function incomingEdges(workflow: Workflow, nodeId: string): WorkflowEdge[] {
+  return workflow.edges.filter((edge) => edge.target === nodeId);
+}
@@ -0,0 +1,112 @@
+import type { Workflow } from "@matrx/ai-client";
+import {
+  createWorkflowExecution,
+  getAiIntegrationById,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+
+/**
+ * Workflows
+ *
+ * Workflows are stored as `ai_integrations` rows of type "workflow"; the
+ * graph lives in the row's `config` JSON. Runs are persisted in
+ * `workflow_executions` and executed by the engine (./engine).
+ */
+
+export interface LoadedWorkflow {
+  workflow: Workflow;
+  workspaceId: string;
+}
+
+/** Map an `ai_integrations` row to a `Workflow` */
+export function toWorkflow(row: Tables<"ai_integrations">): Workflow {
+  const config = row.config as Partial<Workflow>;
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    version: row.version,
+    nodes: config.nodes ?? [],
+    edges: config.edges ?? [],
+    variables: config.variables ?? [],
+    triggers: config.triggers ?? [],
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function loadWorkflow(
+  client: SupabaseClient,
+  workflowId: string
+): Promise<LoadedWorkflow | null> {
+  const { data, error } = await getAiIntegrationById(client, workflowId, "workflow");
+  if (error) throw error;
+  if (!data || !data.is_active) return null;
+  return { workflow: toWorkflow(data), workspaceId: data.workspace_id };
+}
+
+/** Apply defaults for declared input variables */
+export function resolveWorkflowInputs(
+  workflow: Workflow,
+  inputs: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+
+  for (const variable of workflow.variables) {
+    if (variable.scope === "input" && variable.defaultValue !== undefined) {
+      resolved[variable.name] = variable.defaultValue;
+    }
+  }
+
+  return { ...resolved, ...inputs };
+}
+
+/** Create a pending execution record for a workflow run */
+export async function createExecution(
+  client: SupabaseClient,
+  loaded: LoadedWorkflow,
+  options: {
+    inputs: Record<string, unknown>;
+    triggerType?: Tables<"workflow_executions">["trigger_type"];
+    triggeredBy?: string | null;
+  }
+) {
+  const { data, error } = await createWorkflowExecution(client, {
+    workflow_id: loaded.workflow.id,
+    workspace_id: loaded.workspaceId,
+    workflow_version: loaded.workflow.version,
+    status: "pending",
+    trigger_type: options.triggerType ?? "manual",
+    inputs: resolveWorkflowInputs(loaded.workflow, options.inputs),
+    triggered_by: options.triggeredBy ?? null,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export { runWorkflowExecution, toWorkflowExecution, toNodeExecution } from "./engine";
+export { evaluateExpression, resolveTemplates, ExpressionError } from "./expression";
+export { WorkflowDefinitionError } from "./graph";
+export {
+  findPendingReviews,
+  loadReview,
+  submitReview,
+  WorkflowReviewError,
+  type PendingReview,
+  type Reviewer,
+} from "./review";
+export {
+  emitWorkflowEvent,
+  getTriggers,
+  mapTriggerInputs,
+  runTriggeredWorkflows,
+  startDueSchedules,
+  WORKFLOW_EVENTS,
+  type TriggeredRun,
+  type WorkflowEventName,
+} from "./triggers";
+export { getWorkflowWebhookSecret } from "./webhook";
+export { CronExpressionError, cronMatches, parseCron, previousCronTime } from "./cron";
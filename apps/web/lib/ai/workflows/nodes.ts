@@ -0,0 +1,289 @@
+import type { WorkflowNode, WorkflowNodeType } from "@matrx/ai-client";
+import type { SupabaseClient } from "@matrx/supabase";
+import { loadAgent, runToolLoop } from "../agents";
+import { executePrompt } from "../execute";
+import { loadPromptTemplate } from "../prompts";
+import { getProviderAdapter, type ChatMessage } from "../providers";
+import { collectStream } from "../stream";
+import { assertWithinQuota, meterPromptStream, recordUsage, resolveUsageScope } from "../usage";
+import { callAllowedRpc, callHttpApi } from "../tools";
+import { evaluateExpression, resolveTemplates } from "./expression";
+
+/**
+ * Workflow Node Handlers
+ *
+ * One handler per `WorkflowNodeType`. String values in node config may use
+ * `{{ expression }}` templates; the expression scope is:
+ *
+ *   inputs     — the execution inputs (with variable defaults applied)
+ *   input      — this node's input (the output of its active source, or
+ *                `{ [sourceId]: output }` when several sources are active)
+ *   nodes      — `{ [nodeId]: output }` for every completed node
+ *   item/index — inside a loop body
+ */
+
+export interface NodeRunContext {
+  /** RLS-scoped client for everything the node reads or calls */
+  client: SupabaseClient;
+  /** Service-role client; only loads prompt and agent definitions of `workspaceId` */
+  definitions: SupabaseClient;
+  workspaceId: string;
+  executionId: string;
+  /** User who started the run, if any; scopes agent "file" tools */
+  triggeredBy: string | null;
+  scope: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export type NodeHandler = (
+  node: Pick<WorkflowNode, "id" | "type" | "config">,
+  context: NodeRunContext
+) => Promise<unknown>;
+
+const MAX_LOOP_ITERATIONS = 100;
+const MAX_DELAY_MS = 30_000;
+
+function configString(node: Parameters<NodeHandler>[0], key: string): string {
+  const value = node.config[key];
+  if (typeof value !== "string" || !value) {
+    throw new Error(`Node "${node.id}" is missing config.${key}`);
+  }
+  return value;
+}
+
+function resolveConfig(node: Parameters<NodeHandler>[0], key: string, context: NodeRunContext) {
+  return resolveTemplates(node.config[key], context.scope);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+const input: NodeHandler = async (node, context) => {
+  const inputs = asRecord(context.scope.inputs);
+  return typeof node.config.key === "string" ? inputs[node.config.key] : inputs;
+};
+
+const output: NodeHandler = async (node, context) =>
+  node.config.value === undefined ? context.scope.input : resolveConfig(node, "value", context);
+
+const condition: NodeHandler = async (node, context) =>
+  Boolean(evaluateExpression(configString(node, "expression"), context.scope));
+
+const transform: NodeHandler = async (node, context) =>
+  typeof node.config.expression === "string"
+    ? evaluateExpression(node.config.expression, context.scope)
+    : resolveConfig(node, "output", context);
+
+/** Usage scope for metering, checked against the organization's quota */
+async function meteredScope(context: NodeRunContext) {
+  const scope = await resolveUsageScope(context.workspaceId);
+  if (scope) await assertWithinQuota(scope);
+  return scope;
+}
+
+const prompt: NodeHandler = async (node, context) => {
+  const template = await loadPromptTemplate(
+    context.definitions,
+    configString(node, "promptId"),
+    context.workspaceId,
+    typeof node.config.version === "number" ? node.config.version : undefined
+  );
+  if (!template) throw new Error("Prompt not found");
+
+  const scope = await meteredScope(context);
+  const events = executePrompt({
+    template,
+    variables: asRecord(resolveConfig(node, "variables", context)),
+    overrides: asRecord(node.config.overrides),
+    signal: context.signal,
+  });
+
+  const result = await collectStream(
+    scope
+      ? meterPromptStream(events, scope, {
+          source: "workflow",
+          executionId: context.executionId,
+          userId: context.triggeredBy,
+        })
+      : events
+  );
+
+  return {
+    content: result.content,
+    usage: result.usage,
+    provider: result.provider,
+    model: result.model,
+    promptVersion: result.promptVersion,
+  };
+};
+
+const agent: NodeHandler = async (node, context) => {
+  const definition = await loadAgent(
+    context.definitions,
+    configString(node, "agentId"),
+    context.workspaceId
+  );
+  if (!definition) throw new Error("Agent not found");
+
+  const scope = await meteredScope(context);
+  const startedAt = Date.now();
+
+  const message = resolveConfig(node, "message", context);
+  const messages: ChatMessage[] = [];
+  if (definition.systemPrompt) {
+    messages.push({ role: "system", content: definition.systemPrompt });
+  }
+  messages.push({
+    role: "user",
+    content: typeof message === "string" ? message : JSON.stringify(message ?? context.scope.input),
+  });
+
+  const loop = await runToolLoop(getProviderAdapter(definition.provider), definition, messages, {
+    client: context.client,
+    userId: context.triggeredBy,
+    signal: context.signal,
+  });
+
+  if (scope) {
+    await recordUsage(scope, {
+      source: "workflow",
+      integrationId: definition.id,
+      executionId: context.executionId,
+      userId: context.triggeredBy,
+      provider: definition.provider,
+      model: definition.model,
+      usage: loop.usage,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+
+  return {
+    content: loop.result.content,
+    toolsUsed: loop.toolsUsed,
+    totalTokens: loop.usage.totalTokens,
+  };
+};
+
+const apiCall: NodeHandler = async (node, context) =>
+  callHttpApi(
+    {
+      url: resolveConfig(node, "url", context) as string | undefined,
+      method: node.config.method as string | undefined,
+      headers: asRecord(resolveConfig(node, "headers", context)) as Record<string, string>,
+    },
+    asRecord(resolveConfig(node, "body", context)),
+    context.signal
+  );
+
+const database: NodeHandler = async (node, context) =>
+  callAllowedRpc(
+    context.client,
+    configString(node, "rpc"),
+    asRecord(resolveConfig(node, "args", context))
+  );
+
+const delay: NodeHandler = async (node, context) => {
+  const ms = Math.min(MAX_DELAY_MS, Math.max(0, Number(node.config.ms) || 0));
+
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Execution aborted"));
+    };
+    const timer = setTimeout(() => {
+      context.signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    context.signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  return context.scope.input;
+};
+
+const notification: NodeHandler = async (node, context) => {
+  const message = resolveConfig(node, "message", context);
+  const url = resolveConfig(node, "url", context);
+
+  if (typeof url === "string" && url) {
+    await callHttpApi(
+      { url, method: "POST" },
+      { message, executionId: context.executionId },
+      context.signal
+    );
+    return { delivered: true, channel: "webhook" };
+  }
+
+  const text = typeof message === "string" ? message : JSON.stringify(message);
+  console.info(`[workflow ${context.executionId}] ${text}`);
+  return { delivered: true, channel: "log" };
+};
+
+/**
+ * Loops run an inline body node (`config.body: { type, config }`) either
+ * once per element of `config.items` or while `config.while` holds.
+ * Iterations are capped by `config.maxIterations` (at most 100).
+ */
+const loop: NodeHandler = async (node, context) => {
+  const body = asRecord(node.config.body);
+  const bodyType = body.type as WorkflowNodeType | undefined;
+  const bodyHandler = bodyType && !UNLOOPABLE.has(bodyType) ? handlers[bodyType] : undefined;
+  if (!bodyHandler) throw new Error(`Loop node "${node.id}" has an invalid body`);
+
+  const limit = Math.min(
+    MAX_LOOP_ITERATIONS,
+    Math.max(1, Number(node.config.maxIterations) || MAX_LOOP_ITERATIONS)
+  );
+
+  let items: unknown[] | null = null;
+  if (typeof node.config.items === "string") {
+    const value = evaluateExpression(node.config.items, context.scope);
+    if (!Array.isArray(value)) throw new Error("Loop items must evaluate to an array");
+    if (value.length > limit) {
+      throw new Error(`Loop has ${value.length} items but is limited to ${limit} iterations`);
+    }
+    items = value;
+  } else if (typeof node.config.while !== "string") {
+    throw new Error(`Loop node "${node.id}" needs config.items or config.while`);
+  }
+
+  const results: unknown[] = [];
+
+  for (let index = 0; index < (items?.length ?? limit); index++) {
+    const scope = { ...context.scope, item: items?.[index], index, results };
+
+    if (!items && !evaluateExpression(node.config.while as string, scope)) break;
+
+    results.push(
+      await bodyHandler(
+        {
+          id: `${node.id}[${index}]`,
+          type: bodyType as WorkflowNodeType,
+          config: asRecord(body.config),
+        },
+        { ...context, scope }
+      )
+    );
+  }
+
+  return results;
+};
+
+/** Node types that cannot be a loop body */
+const UNLOOPABLE = new Set<WorkflowNodeType>(["loop", "input", "output", "human_review"]);
+
+export const handlers: Partial<Record<WorkflowNodeType, NodeHandler>> = {
+  input,
+  output,
+  condition,
+  transform,
+  prompt,
+  agent,
+  api_call: apiCall,
+  database,
+  delay,
+  notification,
+  loop,
+};
@@ -0,0 +1,218 @@
+import type {
+  Workflow,
+  WorkflowExecution,
+  WorkflowNode,
+  WorkflowReviewRequest,
+} from "@matrx/ai-client";
+import {
+  claimWorkflowExecution,
+  createAuditLog,
+  getNodeExecutions,
+  getWorkflowExecutionById,
+  updateWorkflowExecution,
+  upsertNodeExecutions,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { isFlagEnabled } from "@/lib/flags";
+import { createAnonClient } from "@/lib/supabase/anon";
+import { runWorkflowExecution } from "./engine";
+import { loadWorkflow } from "./index";
+
+/**
+ * Human Review
+ *
+ * A run that reaches a `human_review` node pauses with the node record
+ * "pending" (see ./engine). A reviewer then approves it — passing the
+ * node's input through, or an edited value when the node allows edits
+ * (`config.allowEdit`, default true) — or rejects it, which fails the
+ * node. The decision is recorded on the node (`review`) and the run
+ * resumes from that node.
+ */
+
+type NodeRow = Tables<"workflow_node_executions">;
+
+export interface PendingReview {
+  node: WorkflowNode;
+  row: NodeRow;
+  instructions: string | null;
+  allowEdit: boolean;
+}
+
+export interface Reviewer {
+  id: string;
+  email: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/** Thrown when a review cannot be applied; `code` maps to an ApiError code */
+export class WorkflowReviewError extends Error {
+  constructor(
+    readonly code: "NOT_FOUND" | "CONFLICT" | "VALIDATION_ERROR",
+    message: string
+  ) {
+    super(message);
+    this.name = "WorkflowReviewError";
+  }
+}
+
+/** The `human_review` nodes of a run that are waiting for a decision */
+export function findPendingReviews(workflow: Workflow, rows: NodeRow[]): PendingReview[] {
+  const nodesById = new Map(workflow.nodes.map((node) => [node.id, node]));
+  const pending: PendingReview[] = [];
+
+  for (const row of rows) {
+    const node = nodesById.get(row.node_id);
+    if (node?.type !== "human_review" || row.status !== "pending" || !row.started_at) continue;
+
+    pending.push({
+      node,
+      row,
+      instructions: typeof node.config.instructions === "string" ? node.config.instructions : null,
+      allowEdit: node.config.allowEdit !== false,
+    });
+  }
+
+  return pending;
+}
+
+/** Load a paused execution together with its workflow and pending reviews */
+export async function loadReview(client: SupabaseClient, executionId: string) {
+  const { data: execution, error } = await getWorkflowExecutionById(client, executionId);
+  if (error) throw error;
+  if (!execution) return null;
+
+  const loaded = await loadWorkflow(client, execution.workflow_id);
+  if (!loaded) return null;
+
+  const { data: rows, error: rowsError } = await getNodeExecutions(client, execution.id);
+  if (rowsError) throw rowsError;
+
+  return {
+    execution,
+    workflow: loaded.workflow,
+    nodeRows: rows ?? [],
+    pending: findPendingReviews(loaded.workflow, rows ?? []),
+  };
+}
+
+/**
+ * Apply a reviewer's decision and resume the run.
+ *
+ * The execution is claimed with a conditional update first, so of two
+ * reviews submitted at once only one resumes the run; the other gets
+ * CONFLICT. The decision is stored on the node record (`review`), and
+ * also written to `audit_logs` when the audit log is on.
+ *
+ * `client` must be a service-role client: the engine writes execution
+ * records regardless of the reviewer's RLS. The resumed nodes never run
+ * with the reviewer's session, which would lend them the reviewer's
+ * privileges; they run with an anonymous client, like triggered runs,
+ * since the session of the user who started the run is not available.
+ */
+export async function submitReview(
+  client: SupabaseClient,
+  executionId: string,
+  review: WorkflowReviewRequest,
+  reviewer: Reviewer,
+  signal?: AbortSignal
+): Promise<WorkflowExecution> {
+  const state = await loadReview(client, executionId);
+  if (!state) throw new WorkflowReviewError("NOT_FOUND", "Workflow execution not found");
+
+  const { workflow } = state;
+  if (state.execution.status !== "waiting_for_review") {
+    throw new WorkflowReviewError("CONFLICT", "Execution is not waiting for review");
+  }
+
+  const pending = review.nodeId
+    ? state.pending.find((item) => item.node.id === review.nodeId)
+    : state.pending[0];
+  if (!pending) {
+    throw new WorkflowReviewError("CONFLICT", "No review is pending for this node");
+  }
+
+  const edited = review.decision === "approve" && review.output !== undefined;
+  if (edited && !pending.allowEdit) {
+    throw new WorkflowReviewError("VALIDATION_ERROR", "This review step does not allow edits");
+  }
+
+  const { data: execution, error: claimError } = await claimWorkflowExecution(
+    client,
+    executionId,
+    "waiting_for_review",
+    { status: "running" }
+  );
+  if (claimError) throw claimError;
+  if (!execution) {
+    throw new WorkflowReviewError("CONFLICT", "Execution is not waiting for review");
+  }
+
+  const comment = review.comment?.trim() || null;
+  const completedAt = new Date().toISOString();
+  const decision = {
+    decision: review.decision,
+    reviewer_id: reviewer.id,
+    reviewer_email: reviewer.email,
+    edited,
+    comment,
+    decided_at: completedAt,
+  };
+
+  const { error } = await upsertNodeExecutions(client, [
+    review.decision === "approve"
+      ? {
+          execution_id: execution.id,
+          node_id: pending.node.id,
+          status: "completed",
+          input: pending.row.input,
+          output: edited ? review.output : pending.row.input,
+          review: decision,
+          started_at: pending.row.started_at,
+          completed_at: completedAt,
+        }
+      : {
+          execution_id: execution.id,
+          node_id: pending.node.id,
+          status: "failed",
+          input: pending.row.input,
+          error: comment ? `Rejected by reviewer: ${comment}` : "Rejected by reviewer",
+          review: decision,
+          started_at: pending.row.started_at,
+          completed_at: completedAt,
+        },
+  ]);
+  if (error) {
+    // Release the claim so the review can be submitted again
+    await updateWorkflowExecution(client, execution.id, { status: "waiting_for_review" });
+    throw error;
+  }
+
+  if (await isFlagEnabled("auditLog")) {
+    await createAuditLog(client, {
+      actor_id: reviewer.id,
+      actor_email: reviewer.email,
+      action: `workflow.review.${review.decision}`,
+      resource: "workflow_executions",
+      resource_id: execution.id,
+      changes: {
+        workflow_id: workflow.id,
+        node_id: pending.node.id,
+        edited,
+        ...(edited ? { output: review.output } : {}),
+        comment,
+      },
+      ip_address: reviewer.ipAddress ?? null,
+      user_agent: reviewer.userAgent ?? null,
+    });
+  }
+
+  return runWorkflowExecution({
+    client,
+    runAs: createAnonClient(),
+    workflow,
+    execution,
+    signal,
+  });
+}
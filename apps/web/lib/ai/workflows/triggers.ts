@@ -0,0 +1,209 @@
+import type { WorkflowTrigger } from "@matrx/ai-client";
+import {
+  getWorkflowExecutions,
+  getWorkflowsByTrigger,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { isFlagEnabled } from "@/lib/flags";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createAnonClient } from "@/lib/supabase/anon";
+import { cronMatches, previousCronTime } from "./cron";
+import { runWorkflowExecution } from "./engine";
+import { resolveTemplates } from "./expression";
+import { createExecution, toWorkflow, type LoadedWorkflow } from "./index";
+
+/**
+ * Workflow Triggers
+ *
+ * Workflows declare triggers in `config.triggers`. Besides manual and API
+ * runs, three kinds start runs on their own:
+ *
+ *   schedule — `{ cron }`, evaluated by POST /api/ai/workflows/tick
+ *   webhook  — POST /api/webhooks/workflows/:id, signed with the
+ *              workflow's secret (see ./webhook)
+ *   event    — `{ event }`, one of WORKFLOW_EVENTS, emitted by the app.
+ *              Events are platform-wide (blog posts, error groups), so
+ *              only workflows in the workspaces listed in
+ *              WORKFLOW_EVENT_WORKSPACE_IDS receive them
+ *
+ * Any trigger may set `config.inputs`, a map of run inputs whose string
+ * values can use `{{ expression }}` templates. The scope is `payload` for
+ * webhooks, `event` for internal events and `scheduledAt` for schedules.
+ * Without `config.inputs` a webhook or event payload object becomes the
+ * run inputs as-is.
+ */
+
+type ExecutionRow = Tables<"workflow_executions">;
+
+export const WORKFLOW_EVENTS = ["blog.published", "error_group.created"] as const;
+
+export type WorkflowEventName = (typeof WORKFLOW_EVENTS)[number];
+
+export interface TriggeredRun {
+  loaded: LoadedWorkflow;
+  execution: ExecutionRow;
+}
+
+/** How far back the tick looks for a missed schedule slot */
+const SCHEDULE_LOOKBACK_MINUTES = 60;
+
+export function getTriggers(
+  workflow: LoadedWorkflow["workflow"],
+  type: WorkflowTrigger["type"]
+): WorkflowTrigger[] {
+  return workflow.triggers.filter((trigger) => trigger.type === type);
+}
+
+/** Build run inputs for a trigger from its `config.inputs` mapping */
+export function mapTriggerInputs(
+  trigger: WorkflowTrigger,
+  scope: Record<string, unknown>,
+  fallback: unknown = {}
+): Record<string, unknown> {
+  const mapping = trigger.config.inputs;
+  const value = mapping && typeof mapping === "object" ? resolveTemplates(mapping, scope) : fallback;
+
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+async function loadTriggeredWorkflows(
+  client: SupabaseClient,
+  type: WorkflowTrigger["type"],
+  workspaceIds?: string[]
+): Promise<LoadedWorkflow[]> {
+  const { data, error } = await getWorkflowsByTrigger(client, type, workspaceIds);
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({ workflow: toWorkflow(row), workspaceId: row.workspace_id }));
+}
+
+/**
+ * Run triggered executions one after another; a failed run does not stop
+ * the rest. No user started them, so the nodes run as `anon` under RLS.
+ */
+export async function runTriggeredWorkflows(client: SupabaseClient, runs: TriggeredRun[]) {
+  const runAs = createAnonClient();
+
+  for (const { loaded, execution } of runs) {
+    try {
+      await runWorkflowExecution({ client, runAs, workflow: loaded.workflow, execution });
+    } catch (error) {
+      console.error(`Workflow execution ${execution.id} failed:`, error);
+    }
+  }
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+/**
+ * Create executions for every schedule that is due at `now`.
+ *
+ * A schedule is due when its most recent slot (within the last hour) is
+ * later than the workflow's last scheduled run, so calling the tick more
+ * than once a minute never double-starts a run, and a missed tick is
+ * caught up once.
+ */
+export async function startDueSchedules(
+  client: SupabaseClient,
+  now: Date = new Date()
+): Promise<TriggeredRun[]> {
+  const runs: TriggeredRun[] = [];
+
+  for (const loaded of await loadTriggeredWorkflows(client, "schedule")) {
+    let due: Date | null = null;
+
+    for (const trigger of getTriggers(loaded.workflow, "schedule")) {
+      const cron = trigger.config.cron;
+      if (typeof cron !== "string") continue;
+
+      try {
+        const slot = previousCronTime(cron, now, SCHEDULE_LOOKBACK_MINUTES);
+        if (slot && (!due || slot > due)) due = slot;
+      } catch (error) {
+        console.error(`Workflow ${loaded.workflow.id} has an invalid schedule:`, error);
+      }
+    }
+
+    if (!due) continue;
+
+    const { data: last, error } = await getWorkflowExecutions(client, {
+      workflowId: loaded.workflow.id,
+      triggerType: "schedule",
+      perPage: 1,
+    });
+    if (error) throw error;
+
+    const lastRun = last?.[0];
+    if (lastRun && new Date(lastRun.started_at) >= due) continue;
+
+    const scheduledAt = due.toISOString();
+    const trigger = getTriggers(loaded.workflow, "schedule").find(
+      (item) => typeof item.config.cron === "string" && cronMatches(item.config.cron, due)
+    );
+
+    const execution = await createExecution(client, loaded, {
+      inputs: trigger ? mapTriggerInputs(trigger, { scheduledAt }) : {},
+      triggerType: "schedule",
+    });
+    runs.push({ loaded, execution });
+  }
+
+  return runs;
+}
+
+// ============================================================================
+// Internal Events
+// ============================================================================
+
+/** Platform-owned workspaces whose workflows may subscribe to events */
+function eventWorkspaceIds(): string[] {
+  return (process.env.WORKFLOW_EVENT_WORKSPACE_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Start every active workflow subscribed to `event` in a platform-owned
+ * workspace. Event payloads carry platform data, so workflows of other
+ * tenants never receive them.
+ *
+ * Never throws: callers emit events as a side effect (typically inside
+ * `after()`), and a broken workflow must not fail the originating request.
+ */
+export async function emitWorkflowEvent(
+  event: WorkflowEventName,
+  payload: Record<string, unknown>
+): Promise<void> {
+  if (!(await isFlagEnabled("aiIntegration"))) return;
+
+  const workspaceIds = eventWorkspaceIds();
+  if (workspaceIds.length === 0) return;
+
+  try {
+    const client = createAdminClient();
+    const runs: TriggeredRun[] = [];
+
+    for (const loaded of await loadTriggeredWorkflows(client, "event", workspaceIds)) {
+      const trigger = getTriggers(loaded.workflow, "event").find(
+        (item) => item.config.event === event
+      );
+      if (!trigger) continue;
+
+      const execution = await createExecution(client, loaded, {
+        inputs: mapTriggerInputs(trigger, { event: payload }, payload),
+        triggerType: "event",
+      });
+      runs.push({ loaded, execution });
+    }
+
+    await runTriggeredWorkflows(client, runs);
+  } catch (error) {
+    console.error(`Failed to start workflows for event "${event}":`, error);
+  }
+}
@@ -0,0 +1,12 @@
+import { hmacSha256Hex } from "@/lib/webhooks/signature";
+
+/**
+ * The signing secret for a workflow's webhook, derived from
+ * WORKFLOW_WEBHOOK_SECRET so each workflow gets its own without storing it.
+ * Rotating WORKFLOW_WEBHOOK_SECRET rotates every workflow's secret.
+ */
+export async function getWorkflowWebhookSecret(workflowId: string): Promise<string | null> {
+  const secret = process.env.WORKFLOW_WEBHOOK_SECRET;
+  if (!secret) return null;
+  return hmacSha256Hex(`workflow:${workflowId}`, secret);
+}
@@ -2,17 +2,42 @@
 
 import { redirect } from "next/navigation";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { loginSchema, registerSchema, emailSchema } from "@matrx/shared";
+import {
+  loginSchema,
+  registerSchema,
+  emailSchema,
+  isOAuthProvider,
+  OAUTH_PROVIDERS,
+} from "@matrx/shared";
+import { safeRedirectPath, withRedirect } from "@/lib/auth/redirect";
+import { authMethods } from "@/lib/features";
+
+/** The optional `redirect` field, if it is a same-origin path */
+function redirectField(formData: FormData): string | null {
+  return safeRedirectPath(formData.get("redirect"), "") || null;
+}
+
+/** The page a sign-in form was submitted from, for error messages */
+function formPage(formData: FormData): "/login" | "/register" {
+  return formData.get("mode") === "register" ? "/register" : "/login";
+}
+
+/** Where emailed links and OAuth providers return to */
+function callbackUrl(redirectTo: string | null): string {
+  return withRedirect(`${process.env.NEXT_PUBLIC_APP_URL}/api/auth/callback`, redirectTo);
+}
 
 /**
  * Sign in with email and password.
  *
  * Validates input against the shared loginSchema,
- * then authenticates via Supabase Auth.
+ * then authenticates via Supabase Auth. Returns to the form's
+ * `redirect` path afterwards, if given.
  */
 export async function signInWithEmail(formData: FormData) {
   const rawEmail = formData.get("email");
   const rawPassword = formData.get("password");
+  const redirectTo = redirectField(formData);
 
   const result = loginSchema.safeParse({
     email: rawEmail,
@@ -21,7 +46,7 @@ export async function signInWithEmail(formData: FormData) {
 
   if (!result.success) {
     const message = result.error.errors.map((e) => e.message).join(", ");
-    redirect(`/login?error=${encodeURIComponent(message)}`);
+    redirect(withRedirect(`/login?error=${encodeURIComponent(message)}`, redirectTo));
   }
 
   const { email, password } = result.data;
@@ -33,22 +58,25 @@ export async function signInWithEmail(formData: FormData) {
   });
 
   if (error) {
-    redirect(`/login?error=${encodeURIComponent(error.message)}`);
+    redirect(withRedirect(`/login?error=${encodeURIComponent(error.message)}`, redirectTo));
   }
 
-  redirect("/dashboard");
+  redirect(redirectTo ?? "/dashboard");
 }
 
 /**
  * Register a new account with email, password, and full name.
  *
  * Validates input against the shared registerSchema,
- * then creates a new user via Supabase Auth.
+ * then creates a new user via Supabase Auth. With a `redirect` path the
+ * confirmation link returns there (e.g. to an invitation), as does a
+ * sign-up that needs no confirmation.
  */
 export async function signUpWithEmail(formData: FormData) {
   const rawEmail = formData.get("email");
   const rawPassword = formData.get("password");
   const rawFullName = formData.get("fullName");
+  const redirectTo = redirectField(formData);
 
   const result = registerSchema.safeParse({
     email: rawEmail,
@@ -58,31 +86,111 @@ export async function signUpWithEmail(formData: FormData) {
 
   if (!result.success) {
     const message = result.error.errors.map((e) => e.message).join(", ");
-    redirect(`/register?error=${encodeURIComponent(message)}`);
+    redirect(withRedirect(`/register?error=${encodeURIComponent(message)}`, redirectTo));
   }
 
   const { email, password, fullName } = result.data;
   const supabase = await createServerSupabaseClient();
 
-  const { error } = await supabase.auth.signUp({
+  const { data, error } = await supabase.auth.signUp({
     email,
     password,
     options: {
       data: {
         full_name: fullName,
       },
+      emailRedirectTo: redirectTo ? callbackUrl(redirectTo) : undefined,
     },
   });
 
   if (error) {
-    redirect(`/register?error=${encodeURIComponent(error.message)}`);
+    redirect(withRedirect(`/register?error=${encodeURIComponent(error.message)}`, redirectTo));
+  }
+
+  // Projects without email confirmation sign the user in immediately
+  if (data.session && redirectTo) {
+    redirect(redirectTo);
+  }
+
+  redirect(
+    withRedirect(
+      `/login?success=${encodeURIComponent("Check your email to confirm your account.")}`,
+      redirectTo
+    )
+  );
+}
+
+/**
+ * Email a one-time sign-in link.
+ *
+ * Signs up addresses without an account, like OAuth does. The link
+ * returns through /api/auth/callback to the form's `redirect` path.
+ */
+export async function signInWithMagicLink(formData: FormData) {
+  const redirectTo = redirectField(formData);
+  const page = formPage(formData);
+
+  if (!authMethods.magicLink) {
+    redirect(withRedirect(`${page}?error=${encodeURIComponent("Sign-in links are disabled")}`, redirectTo));
+  }
+
+  const result = emailSchema.safeParse(formData.get("email"));
+
+  if (!result.success) {
+    const message = result.error.issues.map((issue) => issue.message).join(", ");
+    redirect(withRedirect(`${page}?error=${encodeURIComponent(message)}`, redirectTo));
+  }
+
+  const supabase = await createServerSupabaseClient();
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email: result.data,
+    options: { emailRedirectTo: callbackUrl(redirectTo) },
+  });
+
+  if (error) {
+    redirect(withRedirect(`${page}?error=${encodeURIComponent(error.message)}`, redirectTo));
   }
 
   redirect(
-    `/login?success=${encodeURIComponent("Check your email to confirm your account.")}`
+    withRedirect(
+      `${page}?success=${encodeURIComponent("Check your email for a sign-in link.")}`,
+      redirectTo
+    )
   );
 }
 
+/**
+ * Start signing in with an OAuth provider from `authMethods.oauth`.
+ *
+ * Redirects to the provider, which returns through /api/auth/callback.
+ * A provider account whose verified email matches an existing account
+ * signs in to that account (Supabase links the identities).
+ */
+export async function signInWithOAuth(formData: FormData) {
+  const provider = formData.get("provider");
+  const redirectTo = redirectField(formData);
+  const page = formPage(formData);
+
+  if (!isOAuthProvider(provider) || !authMethods.oauth.includes(provider)) {
+    redirect(withRedirect(`${page}?error=${encodeURIComponent("Unsupported sign-in provider")}`, redirectTo));
+  }
+
+  const supabase = await createServerSupabaseClient();
+
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: callbackUrl(redirectTo) },
+  });
+
+  if (error || !data.url) {
+    const message = error?.message ?? `Could not start ${OAUTH_PROVIDERS[provider].label} sign-in`;
+    redirect(withRedirect(`${page}?error=${encodeURIComponent(message)}`, redirectTo));
+  }
+
+  redirect(data.url);
+}
+
 /**
  * Sign out the current user and redirect to the login page.
  */
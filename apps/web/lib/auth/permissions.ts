@@ -0,0 +1,84 @@
+import {
+  can,
+  isOrganizationPermission,
+  permissionsFor,
+  type OrgMemberRole,
+  type Permission,
+  type ProfileRole,
+} from "@matrx/shared";
+import { getOrganizationMembership, getProfile, type SupabaseClient } from "@matrx/supabase";
+
+/**
+ * Server-side Permission Checks
+ *
+ * Loads the roles `can` from @matrx/shared needs: the caller's
+ * `profiles.role` and, for organization permissions, their membership
+ * role in that organization. Queries run with the given client, so pass
+ * the caller's own client (RLS lets members read their memberships).
+ */
+
+export interface PermissionContext {
+  role: ProfileRole | null;
+  organizationRole: OrgMemberRole | null;
+}
+
+/** A user's platform role, or null when they have no profile */
+export async function getProfileRole(
+  client: SupabaseClient,
+  userId: string
+): Promise<ProfileRole | null> {
+  const { data } = await getProfile(client, userId);
+  return (data?.role as ProfileRole | undefined) ?? null;
+}
+
+/** A user's platform role and their role in `organizationId`, if given */
+export async function getPermissionContext(
+  client: SupabaseClient,
+  userId: string,
+  organizationId?: string | null
+): Promise<PermissionContext> {
+  const [role, membership] = await Promise.all([
+    getProfileRole(client, userId),
+    organizationId
+      ? getOrganizationMembership(client, organizationId, userId).then(({ data }) => data)
+      : null,
+  ]);
+
+  return {
+    role,
+    organizationRole: (membership?.role as OrgMemberRole | undefined) ?? null,
+  };
+}
+
+/**
+ * Whether a user holds `permission`. Organization permissions are denied
+ * without an `organizationId`.
+ */
+export async function hasPermission(
+  client: SupabaseClient,
+  userId: string,
+  permission: Permission,
+  organizationId?: string | null
+): Promise<boolean> {
+  if (isOrganizationPermission(permission) && !organizationId) return false;
+
+  const context = await getPermissionContext(
+    client,
+    userId,
+    isOrganizationPermission(permission) ? organizationId : null
+  );
+  return can({ role: context.role }, permission, { role: context.organizationRole });
+}
+
+/** Every permission a user holds, plus the roles they came from */
+export async function listPermissions(
+  client: SupabaseClient,
+  userId: string,
+  organizationId?: string | null
+): Promise<PermissionContext & { permissions: Permission[] }> {
+  const context = await getPermissionContext(client, userId, organizationId);
+  return {
+    ...context,
+    permissions: permissionsFor({ role: context.role }, { role: context.organizationRole }),
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Post-Auth Redirects
+ *
+ * Sign-in and sign-up accept a `redirect` path to return to afterwards
+ * (set by the proxy and by pages such as /invite). Only same-origin
+ * paths are followed, so the parameter cannot be used as an open
+ * redirect.
+ */
+
+export const DEFAULT_AUTH_REDIRECT = "/dashboard";
+
+/** `value` if it is a same-origin path, otherwise `fallback` */
+export function safeRedirectPath(value: unknown, fallback = DEFAULT_AUTH_REDIRECT): string {
+  if (typeof value !== "string" || !value.startsWith("/")) return fallback;
+  // "//host" and "/\host" are protocol-relative URLs in browsers
+  if (value.startsWith("//") || value.startsWith("/\\")) return fallback;
+  return value;
+}
+
+/** `path` with the redirect carried along, when there is one */
+export function withRedirect(path: string, redirectTo: string | null): string {
+  if (!redirectTo) return path;
+  const separator = path.includes("?") ? "&" : "?";
+  return `${path}${separator}redirect=${encodeURIComponent(redirectTo)}`;
+}
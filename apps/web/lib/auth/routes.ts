@@ -0,0 +1,133 @@
+import type { FeatureFlags } from "@matrx/shared";
+
+/**
+ * Route Access Rules
+ *
+ * Who may reach each part of the app, in one table read by the proxy
+ * (proxy.ts). A rule covers its path and everything below it, and the
+ * most specific rule wins; paths no rule covers need a signed-in user.
+ *
+ * - `public`: anyone, signed in or not
+ * - `authenticated`: a valid Supabase session (or Bearer token on /api)
+ * - `admin`: the admin.access permission (see `can` in @matrx/shared)
+ *
+ * Signed-in routes also need the second factor verified when the user
+ * has one, and set up first for `admin` routes or when an organization
+ * requires it (lib/mfa.ts). `beforeMfa` routes are exempt: the MFA
+ * screens themselves.
+ *
+ * A rule's `feature` applies to everything below it as well, so
+ * /admin/blog needs both adminPortal and blog. Routes behind an off
+ * feature answer 404.
+ *
+ * The proxy is a first line only: pages, actions and API routes still
+ * check permissions and entitlements themselves.
+ */
+
+export type RouteAccess = "public" | "authenticated" | "admin";
+
+export interface RouteRule {
+  path: string;
+  access: RouteAccess;
+  /** Only `path` itself, not the paths below it */
+  exact?: boolean;
+  /** Only these methods; other requests fall through to the next rule */
+  methods?: readonly string[];
+  feature?: keyof FeatureFlags;
+  /** Reachable before the second factor is verified or set up */
+  beforeMfa?: boolean;
+}
+
+export const ROUTE_RULES: readonly RouteRule[] = [
+  // Marketing and content
+  { path: "/", exact: true, access: "public" },
+  { path: "/opengraph-image", access: "public" },
+  { path: "/blog", access: "public", feature: "blog" },
+  { path: "/p", access: "public", feature: "dynamicPages" },
+
+  // Sign-in flows (invitation pages serve signed-out invitees)
+  { path: "/login", access: "public" },
+  { path: "/register", access: "public" },
+  { path: "/forgot-password", access: "public" },
+  { path: "/invite", access: "public" },
+  { path: "/mfa", access: "authenticated", beforeMfa: true },
+
+  // Signed-in app
+  { path: "/billing", access: "authenticated", feature: "stripe" },
+
+  // Admin portal
+  { path: "/admin", access: "admin", feature: "adminPortal" },
+  { path: "/admin/audit", access: "admin", feature: "auditLog" },
+  { path: "/admin/blog", access: "admin", feature: "blog" },
+  { path: "/admin/errors", access: "admin", feature: "errorTracking" },
+  { path: "/admin/files", access: "admin", feature: "fileStorage" },
+  { path: "/admin/pages", access: "admin", feature: "dynamicPages" },
+  { path: "/admin/reviews", access: "admin", feature: "aiIntegration" },
+
+  // Public API
+  { path: "/api/health", access: "public" },
+  { path: "/api/version", exact: true, access: "public" },
+  { path: "/api/auth/callback", access: "public" },
+  { path: "/api/auth/mfa", access: "authenticated", beforeMfa: true },
+  { path: "/api/blog", methods: ["GET"], access: "public", feature: "blog" },
+  { path: "/api/blog", access: "authenticated", feature: "blog" },
+  // Error ingestion answers 202 even when error tracking is off
+  { path: "/api/errors", methods: ["POST"], access: "public" },
+  { path: "/api/errors", access: "admin", feature: "errorTracking" },
+
+  // Webhooks verify their own signatures, the workflow tick its secret
+  { path: "/api/webhooks", access: "public" },
+  { path: "/api/webhooks/github", access: "public", feature: "githubWebhook" },
+  { path: "/api/webhooks/stripe", access: "public", feature: "stripe" },
+  { path: "/api/webhooks/vercel", access: "public", feature: "vercelWebhook" },
+  { path: "/api/webhooks/workflows", access: "public", feature: "aiIntegration" },
+  { path: "/api/ai/workflows/tick", access: "public" },
+
+  // Signed-in API
+  { path: "/api/ai", access: "authenticated", feature: "aiIntegration" },
+  { path: "/api/audit", access: "admin", feature: "auditLog" },
+  { path: "/api/billing", access: "authenticated", feature: "stripe" },
+  { path: "/api/files", access: "authenticated", feature: "fileStorage" },
+  { path: "/api/versions", access: "authenticated", feature: "versionTracking" },
+];
+
+/** What a request needs: its access level and every feature above it */
+export interface RouteRequirements {
+  access: RouteAccess;
+  features: Array<keyof FeatureFlags>;
+  beforeMfa: boolean;
+}
+
+function covers(rule: RouteRule, pathname: string, method: string): boolean {
+  if (rule.methods && !rule.methods.includes(method)) return false;
+  if (pathname === rule.path) return true;
+  if (rule.exact) return false;
+  return pathname.startsWith(rule.path === "/" ? "/" : rule.path + "/");
+}
+
+/** Resolve the rules covering a request */
+export function resolveRoute(
+  pathname: string,
+  method: string,
+  rules: readonly RouteRule[] = ROUTE_RULES
+): RouteRequirements {
+  const matches = rules
+    .filter((rule) => covers(rule, pathname, method.toUpperCase()))
+    // Longest path first; for equal paths, the table's order
+    .sort((a, b) => b.path.length - a.path.length);
+
+  const [rule] = matches;
+  if (!rule) return { access: "authenticated", features: [], beforeMfa: false };
+
+  // The winning rule's feature plus those of rules above it; rules for
+  // the same path with other methods do not apply
+  const features = matches
+    .filter((match) => match === rule || match.path.length < rule.path.length)
+    .flatMap((match) => (match.feature ? [match.feature] : []));
+
+  return {
+    access: rule.access,
+    features: [...new Set(features)],
+    beforeMfa: rule.beforeMfa ?? false,
+  };
+}
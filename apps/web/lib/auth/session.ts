@@ -1,5 +1,9 @@
 import { redirect } from "next/navigation";
+import type { Permission } from "@matrx/shared";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { withRedirect } from "@/lib/auth/redirect";
+import { getMfaStep } from "@/lib/mfa";
 import type { User as SupabaseUser } from "@supabase/supabase-js";
 
 /**
@@ -48,20 +52,53 @@ export async function requireAuth(): Promise<SupabaseUser> {
 }
 
 /**
- * Require admin role to access a page or action.
+ * Require a permission to access a page or action.
  *
- * Redirects to /login if not authenticated or if the user
- * does not have an "admin" or "owner" role in their metadata.
- * Returns the authenticated admin user on success.
+ * Redirects to /login if not authenticated, and to /dashboard if the
+ * user lacks `permission` (see `can` in @matrx/shared). Organization
+ * permissions are checked against `organizationId`.
+ * Returns the authenticated user on success.
  */
-export async function requireAdmin(): Promise<SupabaseUser> {
+export async function requirePermission(
+  permission: Permission,
+  organizationId?: string | null
+): Promise<SupabaseUser> {
   const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
 
-  const role = user.user_metadata?.role as string | undefined;
+  if (!(await hasPermission(supabase, user.id, permission, organizationId))) {
+    redirect("/dashboard");
+  }
 
-  if (role !== "admin" && role !== "owner") {
-    redirect("/login");
+  return user;
+}
+
+/**
+ * Require a session that verified its second factor (assurance level
+ * aal2). Redirects to /mfa, or to /mfa/setup for users without a factor,
+ * and back to `redirectTo` afterwards.
+ */
+export async function requireMfa(redirectTo: string): Promise<SupabaseUser> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+
+  const step = await getMfaStep(supabase, user, { strict: true });
+  if (step) {
+    redirect(withRedirect(step === "verify" ? "/mfa" : "/mfa/setup", redirectTo));
   }
 
   return user;
 }
+
+/**
+ * Require access to the admin portal.
+ *
+ * Access comes from `profiles.role` (admin or super_admin), never from
+ * user metadata, which users can edit themselves. The session must have
+ * verified a second factor.
+ */
+export async function requireAdmin(): Promise<SupabaseUser> {
+  const user = await requirePermission("admin.access");
+  await requireMfa("/admin");
+  return user;
+}
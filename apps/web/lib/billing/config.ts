@@ -0,0 +1,55 @@
+import type { SubscriptionPlan } from "@matrx/shared";
+
+/**
+ * Billing Configuration
+ *
+ * Each paid plan is sold through one Stripe price, configured by env var
+ * so test and live mode can use different prices. The webhook maps a
+ * subscription's price back to its plan.
+ */
+
+export type PaidPlan = Exclude<SubscriptionPlan, "free">;
+
+export const PLAN_PRICE_ENV: Record<PaidPlan, string> = {
+  starter: "STRIPE_PRICE_STARTER",
+  pro: "STRIPE_PRICE_PRO",
+  enterprise: "STRIPE_PRICE_ENTERPRISE",
+};
+
+export const PAID_PLANS = Object.keys(PLAN_PRICE_ENV) as PaidPlan[];
+
+/** Subscription statuses that keep the plan's entitlements */
+const ENTITLED_STATUSES = new Set(["active", "trialing", "past_due"]);
+
+const PLAN_RANK: Record<SubscriptionPlan, number> = {
+  free: 0,
+  starter: 1,
+  pro: 2,
+  enterprise: 3,
+};
+
+export function getPlanPriceId(plan: PaidPlan): string | null {
+  return process.env[PLAN_PRICE_ENV[plan]] || null;
+}
+
+/** The plan a Stripe price is configured for, or null if it is unknown */
+export function planForPrice(priceId: string): PaidPlan | null {
+  return PAID_PLANS.find((plan) => getPlanPriceId(plan) === priceId) ?? null;
+}
+
+/**
+ * The plan an organization is on given its subscriptions: the highest
+ * plan among those in an entitled status, otherwise "free". Past-due
+ * subscriptions keep their plan while Stripe retries the payment.
+ */
+export function resolvePlan(
+  subscriptions: Array<{ plan: SubscriptionPlan; status: string }>
+): SubscriptionPlan {
+  return subscriptions
+    .filter((subscription) => ENTITLED_STATUSES.has(subscription.status))
+    .reduce<SubscriptionPlan>(
+      (best, subscription) =>
+        PLAN_RANK[subscription.plan] > PLAN_RANK[best] ? subscription.plan : best,
+      "free"
+    );
+}
@@ -0,0 +1,153 @@
+import { can } from "@matrx/shared";
+import {
+  getBillingCustomer,
+  getBillingSubscriptions,
+  getOrganizationMembership,
+  type SupabaseClient,
+} from "@matrx/supabase";
+import { getActiveOrganizationId } from "@/lib/organizations";
+import { getStripe } from "@/lib/stripe/server";
+import { getPlanPriceId, resolvePlan, type PaidPlan } from "./config";
+
+/**
+ * Checkout and Billing Portal Sessions
+ *
+ * Stripe-hosted pages for buying a plan and for managing an existing
+ * subscription (plan changes, payment methods, cancellation, invoices).
+ * Only organization owners and admins may open either. Checkout tags the
+ * session and the subscription with the organization id, which is how
+ * the webhook links the resulting customer back to it.
+ */
+
+/** Thrown when a session cannot be created; `code` maps to an ApiError code */
+export class BillingError extends Error {
+  constructor(
+    readonly code: "NOT_FOUND" | "FORBIDDEN" | "CONFLICT" | "CONFIG_ERROR",
+    message: string
+  ) {
+    super(message);
+    this.name = "BillingError";
+  }
+}
+
+export interface BillingUser {
+  id: string;
+  email?: string | null;
+}
+
+/**
+ * The organization whose billing the user manages: the given one, or
+ * else the user's active organization (see `getActiveOrganizationId`,
+ * which takes the `ACTIVE_ORGANIZATION_COOKIE` value). Either way the
+ * user must be its owner or admin.
+ */
+export async function resolveBillingOrganization(
+  client: SupabaseClient,
+  userId: string,
+  organizationId?: string,
+  activeOrganizationCookie?: string | null
+): Promise<string> {
+  const targetId =
+    organizationId ?? (await getActiveOrganizationId(client, userId, activeOrganizationCookie));
+  if (!targetId) throw new BillingError("NOT_FOUND", "You do not belong to an organization");
+
+  const { data: membership, error } = await getOrganizationMembership(client, targetId, userId);
+  if (error) throw error;
+  if (!membership) throw new BillingError("NOT_FOUND", "Organization not found");
+  if (!can(null, "billing.manage", membership)) {
+    throw new BillingError(
+      "FORBIDDEN",
+      "Only organization owners and admins can manage billing"
+    );
+  }
+  return targetId;
+}
+
+/** Where Stripe sends the user back to: the dashboard billing page */
+export function billingReturnUrl(origin: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || origin}/billing`;
+}
+
+function stripeClient() {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new BillingError("CONFIG_ERROR", "STRIPE_SECRET_KEY is not configured");
+  }
+  return getStripe();
+}
+
+/**
+ * Start a Checkout session for a paid plan. Organizations that already
+ * have a subscription change plans through the Billing Portal instead, so
+ * they never end up paying for two.
+ */
+export async function createCheckoutSession(
+  client: SupabaseClient,
+  params: {
+    organizationId: string;
+    plan: PaidPlan;
+    user: BillingUser;
+    returnUrl: string;
+  }
+): Promise<{ url: string }> {
+  const { organizationId, plan, user, returnUrl } = params;
+
+  const priceId = getPlanPriceId(plan);
+  if (!priceId) {
+    throw new BillingError("CONFIG_ERROR", `No Stripe price is configured for the ${plan} plan`);
+  }
+
+  const { data: subscriptions, error: subscriptionsError } = await getBillingSubscriptions(
+    client,
+    organizationId
+  );
+  if (subscriptionsError) throw subscriptionsError;
+  if (resolvePlan(subscriptions ?? []) !== "free") {
+    throw new BillingError(
+      "CONFLICT",
+      "Organization already has a subscription; change plans in the billing portal"
+    );
+  }
+
+  const { data: customer, error: customerError } = await getBillingCustomer(
+    client,
+    organizationId
+  );
+  if (customerError) throw customerError;
+
+  const metadata = { organization_id: organizationId };
+  const session = await stripeClient().checkout.sessions.create({
+    mode: "subscription",
+    line_items: [{ price: priceId, quantity: 1 }],
+    client_reference_id: organizationId,
+    metadata: { ...metadata, plan, user_id: user.id },
+    subscription_data: { metadata },
+    // Reuse the organization's customer so its invoices stay together
+    ...(customer
+      ? { customer: customer.stripe_customer_id }
+      : { customer_email: user.email ?? undefined }),
+    allow_promotion_codes: true,
+    success_url: `${returnUrl}?checkout=success`,
+    cancel_url: `${returnUrl}?checkout=canceled`,
+  });
+
+  if (!session.url) throw new Error("Stripe did not return a checkout URL");
+  return { url: session.url };
+}
+
+/** Open the Billing Portal for an organization that has bought a plan */
+export async function createPortalSession(
+  client: SupabaseClient,
+  params: { organizationId: string; returnUrl: string }
+): Promise<{ url: string }> {
+  const { data: customer, error } = await getBillingCustomer(client, params.organizationId);
+  if (error) throw error;
+  if (!customer) {
+    throw new BillingError("NOT_FOUND", "Organization has no billing account yet");
+  }
+
+  const session = await stripeClient().billingPortal.sessions.create({
+    customer: customer.stripe_customer_id,
+    return_url: params.returnUrl,
+  });
+  return { url: session.url };
+}
@@ -0,0 +1,248 @@
+import Stripe from "stripe";
+import {
+  createBillingEvent,
+  getBillingCustomerByStripeId,
+  getBillingEvent,
+  getBillingSubscriptionByStripeId,
+  getBillingSubscriptions,
+  updateOrganizationPlan,
+  upsertBillingCustomer,
+  upsertBillingInvoice,
+  upsertBillingSubscription,
+  type SupabaseClient,
+} from "@matrx/supabase";
+import { planForPrice, resolvePlan } from "./config";
+
+/**
+ * Stripe Webhook Processing
+ *
+ * Mirrors checkout, subscription and invoice events into the billing
+ * tables and keeps `organizations.plan` in sync with the organization's
+ * subscriptions. Runs with the service role.
+ *
+ * Events are linked to an organization through `client_reference_id` /
+ * `metadata.organization_id` (set at checkout) or the stored customer.
+ * Handled event ids are recorded, so redelivered events are acknowledged
+ * without being applied twice; an event that fails is not recorded and
+ * Stripe retries it.
+ *
+ * Signatures are verified with the static `Stripe.webhooks` helper, which
+ * needs only the webhook secret, so recorded fixtures can be replayed
+ * locally (scripts/stripe-replay.ts).
+ */
+
+export type StripeEventResult = "processed" | "duplicate" | "ignored";
+
+const HANDLED_EVENTS = new Set([
+  "checkout.session.completed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.paid",
+  "invoice.payment_succeeded",
+  "invoice.payment_failed",
+]);
+
+/** Thrown when an event cannot be attributed to an organization (yet) */
+export class BillingLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BillingLinkError";
+  }
+}
+
+/**
+ * Verify the `stripe-signature` header and parse the event. Throws
+ * `Stripe.errors.StripeSignatureVerificationError` on a bad signature.
+ */
+export function constructStripeEvent(
+  payload: string,
+  signature: string,
+  secret: string
+): Stripe.Event {
+  return Stripe.webhooks.constructEvent(payload, signature, secret);
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+function toTimestamp(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/** The organization a Stripe customer belongs to, preferring explicit metadata */
+async function resolveOrganization(
+  client: SupabaseClient,
+  stripeCustomerId: string | null,
+  metadataOrganizationId?: string | null
+): Promise<string> {
+  if (metadataOrganizationId) return metadataOrganizationId;
+
+  if (stripeCustomerId) {
+    const { data, error } = await getBillingCustomerByStripeId(client, stripeCustomerId);
+    if (error) throw error;
+    if (data) return data.organization_id;
+  }
+
+  throw new BillingLinkError(
+    `No organization is linked to Stripe customer ${stripeCustomerId ?? "(none)"}`
+  );
+}
+
+async function syncOrganizationPlan(client: SupabaseClient, organizationId: string) {
+  const { data, error } = await getBillingSubscriptions(client, organizationId);
+  if (error) throw error;
+
+  const { error: updateError } = await updateOrganizationPlan(
+    client,
+    organizationId,
+    resolvePlan(data ?? [])
+  );
+  if (updateError) throw updateError;
+}
+
+async function handleCheckoutCompleted(
+  client: SupabaseClient,
+  session: Stripe.Checkout.Session
+) {
+  const customerId = idOf(session.customer);
+  const organizationId = session.client_reference_id ?? session.metadata?.organization_id;
+  if (session.mode !== "subscription" || !customerId || !organizationId) return;
+
+  const { error } = await upsertBillingCustomer(client, {
+    organization_id: organizationId,
+    stripe_customer_id: customerId,
+    email: session.customer_details?.email ?? null,
+  });
+  if (error) throw error;
+}
+
+async function handleSubscription(
+  client: SupabaseClient,
+  subscription: Stripe.Subscription,
+  eventCreated: number
+) {
+  const customerId = idOf(subscription.customer);
+  if (!customerId) throw new BillingLinkError(`Subscription ${subscription.id} has no customer`);
+
+  const organizationId = await resolveOrganization(
+    client,
+    customerId,
+    subscription.metadata?.organization_id
+  );
+  const eventAt = new Date(eventCreated * 1000).toISOString();
+
+  const { data: existing, error: existingError } = await getBillingSubscriptionByStripeId(
+    client,
+    subscription.id
+  );
+  if (existingError) throw existingError;
+  // Stripe does not guarantee delivery order; keep the newest state
+  if (existing && new Date(existing.last_event_at) > new Date(eventAt)) return;
+
+  const item = subscription.items.data[0];
+  const priceId = item?.price.id ?? null;
+  const plan = priceId ? planForPrice(priceId) : null;
+  if (!plan) {
+    throw new Error(`Stripe price ${priceId ?? "(none)"} is not configured for any plan`);
+  }
+
+  // Keep the customer link for invoices, which carry no organization metadata
+  const { error: customerError } = await upsertBillingCustomer(client, {
+    organization_id: organizationId,
+    stripe_customer_id: customerId,
+  });
+  if (customerError) throw customerError;
+
+  const { error } = await upsertBillingSubscription(client, {
+    organization_id: organizationId,
+    stripe_subscription_id: subscription.id,
+    stripe_customer_id: customerId,
+    stripe_price_id: priceId,
+    plan,
+    status: subscription.status,
+    current_period_start: toTimestamp(item?.current_period_start),
+    current_period_end: toTimestamp(item?.current_period_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    canceled_at: toTimestamp(subscription.canceled_at),
+    trial_end: toTimestamp(subscription.trial_end),
+    last_event_at: eventAt,
+  });
+  if (error) throw error;
+
+  await syncOrganizationPlan(client, organizationId);
+}
+
+async function handleInvoice(
+  client: SupabaseClient,
+  invoice: Stripe.Invoice,
+  event: Stripe.Event
+) {
+  if (!invoice.id) return;
+
+  const details = invoice.parent?.subscription_details;
+  const organizationId = await resolveOrganization(
+    client,
+    idOf(invoice.customer),
+    details?.metadata?.organization_id
+  );
+
+  const { error } = await upsertBillingInvoice(client, {
+    organization_id: organizationId,
+    stripe_invoice_id: invoice.id,
+    stripe_subscription_id: idOf(details?.subscription),
+    status: invoice.status ?? "open",
+    amount_due: invoice.amount_due,
+    amount_paid: invoice.amount_paid,
+    currency: invoice.currency,
+    hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+    invoice_pdf: invoice.invoice_pdf ?? null,
+    period_start: toTimestamp(invoice.period_start),
+    period_end: toTimestamp(invoice.period_end),
+    paid_at: toTimestamp(invoice.status_transitions.paid_at),
+    payment_failed_at:
+      event.type === "invoice.payment_failed" ? toTimestamp(event.created) : null,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Apply one verified event. Returns "duplicate" for events already
+ * handled and "ignored" for event types this integration does not use.
+ */
+export async function processStripeEvent(
+  client: SupabaseClient,
+  event: Stripe.Event
+): Promise<StripeEventResult> {
+  if (!HANDLED_EVENTS.has(event.type)) return "ignored";
+
+  const { data: processed, error } = await getBillingEvent(client, event.id);
+  if (error) throw error;
+  if (processed) return "duplicate";
+
+  switch (event.type) {
+    case "checkout.session.completed":
+      await handleCheckoutCompleted(client, event.data.object);
+      break;
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      await handleSubscription(client, event.data.object, event.created);
+      break;
+    case "invoice.paid":
+    case "invoice.payment_succeeded":
+    case "invoice.payment_failed":
+      await handleInvoice(client, event.data.object, event);
+      break;
+  }
+
+  const { error: recordError } = await createBillingEvent(client, {
+    stripe_event_id: event.id,
+    type: event.type,
+  });
+  if (recordError) throw recordError;
+
+  return "processed";
+}
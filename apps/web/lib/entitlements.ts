@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import {
+  resolveEntitlements,
+  type ApiResponse,
+  type Entitlements,
+  type FeatureFlags,
+  type FlagContext,
+  type SubscriptionPlan,
+} from "@matrx/shared";
+import { getOrganization, type Tables } from "@matrx/supabase";
+import { getRuntimeFeatures } from "@/lib/flags";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * Entitlement Guards
+ *
+ * Server-side checks for API routes, in place of reading `features.x`
+ * directly. Both start from the runtime flags (./flags), so a flag
+ * changed on /admin/settings applies without a redeploy.
+ *
+ * - `guardFeature` for deployment-wide features (blog, webhooks, …):
+ *   answers 404 when the feature is off
+ * - `requireEntitlement` for organization-scoped features: also applies
+ *   the organization's plan and overrides (see `resolveEntitlements` in
+ *   @matrx/shared) and throws `EntitlementError`, which routes answer 403
+ */
+
+/** Thrown when an organization's plan does not include a feature */
+export class EntitlementError extends Error {
+  readonly code = "NOT_ENTITLED";
+
+  constructor(
+    readonly feature: keyof FeatureFlags,
+    readonly plan: SubscriptionPlan
+  ) {
+    super(`The ${plan} plan does not include ${feature}`);
+    this.name = "EntitlementError";
+  }
+}
+
+/** Entitlements for an organization row already loaded by the caller */
+export async function entitlementsFor(
+  organization: Pick<Tables<"organizations">, "id" | "plan" | "settings">
+): Promise<Entitlements> {
+  const flags = await getRuntimeFeatures({ organizationId: organization.id });
+  return resolveEntitlements(organization, flags);
+}
+
+/** Load an organization and resolve its entitlements */
+export async function getEntitlements(organizationId: string): Promise<Entitlements> {
+  const { data: organization, error } = await getOrganization(
+    createAdminClient(),
+    organizationId
+  );
+  if (error) throw error;
+  return entitlementsFor(organization);
+}
+
+/**
+ * Throws `EntitlementError` unless the organization may use `feature`.
+ * Accepts resolved entitlements to avoid loading the organization again.
+ */
+export async function requireEntitlement(
+  organization: string | Entitlements,
+  feature: keyof FeatureFlags
+): Promise<Entitlements> {
+  const entitlements =
+    typeof organization === "string" ? await getEntitlements(organization) : organization;
+  if (!entitlements.features[feature]) {
+    throw new EntitlementError(feature, entitlements.plan);
+  }
+  return entitlements;
+}
+
+/**
+ * A 404 response when a deployment-wide feature is off, otherwise null:
+ *
+ * ```ts
+ * const disabled = await guardFeature("blog");
+ * if (disabled) return disabled;
+ * ```
+ *
+ * Without a context, flags in a partial rollout count as off.
+ */
+export async function guardFeature(
+  feature: keyof FeatureFlags,
+  context?: FlagContext
+): Promise<NextResponse | null> {
+  const flags = await getRuntimeFeatures(context);
+  if (flags[feature]) return null;
+
+  const response: ApiResponse<null> = {
+    data: null,
+    error: { code: "FEATURE_DISABLED", message: `The ${feature} feature is not enabled` },
+  };
+  return NextResponse.json(response, { status: 404 });
+}
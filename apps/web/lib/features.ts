@@ -1,4 +1,4 @@
-import { resolveFeatures } from "@matrx/shared";
+import { resolveAuthMethods, resolveFeatures } from "@matrx/shared";
 
 /**
  * Resolved feature flags for the web app.
@@ -10,3 +10,9 @@ import { resolveFeatures } from "@matrx/shared";
  * ```
  */
 export const features = resolveFeatures(process.env);
+
+/**
+ * Sign-in methods offered besides email and password (magic link, OAuth
+ * providers), from `NEXT_PUBLIC_AUTH_*` env vars.
+ */
+export const authMethods = resolveAuthMethods(process.env);
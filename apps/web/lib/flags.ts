@@ -0,0 +1,180 @@
+import {
+  CACHE_TTL,
+  DEFAULT_FEATURES,
+  evaluateFlagRule,
+  type FeatureFlagRule,
+  type FeatureFlags,
+  type FlagContext,
+  type UpdateFeatureFlagInput,
+} from "@matrx/shared";
+import {
+  createAuditLog,
+  deleteFeatureFlag,
+  getFeatureFlag,
+  getFeatureFlags,
+  upsertFeatureFlag,
+  type Tables,
+} from "@matrx/supabase";
+import { features } from "@/lib/features";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * Runtime Feature Flags
+ *
+ * Flags stored in `feature_flags` (managed on /admin/settings) override
+ * the env-based `features` without a redeploy, and can roll out to a
+ * percentage of users or target roles and organizations (see
+ * `evaluateFlagRule` in @matrx/shared).
+ *
+ * Rules are read with the service role and cached per server instance
+ * for `CACHE_TTL.SHORT`; edits made here clear the cache immediately,
+ * other instances pick them up when it expires. If the table cannot be
+ * read, the last rules loaded keep applying, and before any have loaded
+ * every flag falls back to `resolveFeatures(process.env)`.
+ */
+
+const TTL_MS = CACHE_TTL.SHORT * 1000;
+
+type FlagRow = Tables<"feature_flags">;
+
+/** Who changed a flag, for the audit log */
+export interface FlagActor {
+  id: string;
+  email: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+let cache: { rules: Map<string, FeatureFlagRule> | null; expiresAt: number } | null = null;
+let loading: Promise<Map<string, FeatureFlagRule> | null> | null = null;
+
+export function toFlagRule(row: FlagRow): FeatureFlagRule {
+  return {
+    key: row.key,
+    enabled: row.enabled,
+    rolloutPercentage: row.rollout_percentage,
+    targetRoles: row.target_roles,
+    targetOrganizationIds: row.target_organization_ids,
+  };
+}
+
+async function fetchRules(): Promise<Map<string, FeatureFlagRule> | null> {
+  try {
+    const { data, error } = await getFeatureFlags(createAdminClient());
+    if (error) throw error;
+    return new Map((data ?? []).map((row) => [row.key, toFlagRule(row)]));
+  } catch (error) {
+    console.warn(
+      "[flags] Could not load feature flags, using",
+      cache?.rules ? "the last loaded rules" : "env defaults",
+      error instanceof Error ? error.message : error
+    );
+    return cache?.rules ?? null;
+  }
+}
+
+/** Current rules by key, or null when none could be loaded */
+async function loadRules(): Promise<Map<string, FeatureFlagRule> | null> {
+  if (cache && cache.expiresAt > Date.now()) return cache.rules;
+
+  // One read per expiry, however many requests arrive meanwhile
+  loading ??= fetchRules().then((rules) => {
+    cache = { rules, expiresAt: Date.now() + TTL_MS };
+    loading = null;
+    return rules;
+  });
+  return loading;
+}
+
+/** Drop cached rules so the next evaluation reads the table */
+export function invalidateFeatureFlags(): void {
+  cache = null;
+}
+
+/** Every `FeatureFlags` key, evaluated for a user / organization */
+export async function getRuntimeFeatures(context: FlagContext = {}): Promise<FeatureFlags> {
+  const rules = await loadRules();
+  if (!rules) return features;
+
+  const resolved = { ...features };
+  for (const key of Object.keys(DEFAULT_FEATURES) as Array<keyof FeatureFlags>) {
+    const rule = rules.get(key);
+    if (rule) resolved[key] = evaluateFlagRule(rule, context);
+  }
+  return resolved;
+}
+
+/** A single flag, built-in or custom; custom flags without a row are off */
+export async function isFlagEnabled(key: string, context: FlagContext = {}): Promise<boolean> {
+  const rule = (await loadRules())?.get(key);
+  if (rule) return evaluateFlagRule(rule, context);
+  return key in features ? features[key as keyof FeatureFlags] : false;
+}
+
+async function audit(
+  action: string,
+  key: string,
+  changes: Record<string, unknown>,
+  actor: FlagActor
+): Promise<void> {
+  // Switching the audit log itself is always recorded, even when turning it off
+  if (key !== "auditLog" && !(await isFlagEnabled("auditLog"))) return;
+
+  const { error } = await createAuditLog(createAdminClient(), {
+    actor_id: actor.id,
+    actor_email: actor.email,
+    action,
+    resource: "feature_flags",
+    resource_id: key,
+    changes,
+    ip_address: actor.ipAddress ?? null,
+    user_agent: actor.userAgent ?? null,
+  });
+  if (error) throw error;
+}
+
+/** Create or update a flag and record the change */
+export async function saveFeatureFlag(
+  input: UpdateFeatureFlagInput,
+  actor: FlagActor
+): Promise<FlagRow> {
+  const admin = createAdminClient();
+
+  const { data: before, error: beforeError } = await getFeatureFlag(admin, input.key);
+  if (beforeError) throw beforeError;
+
+  const { data: after, error } = await upsertFeatureFlag(admin, {
+    key: input.key,
+    description: input.description ?? before?.description ?? null,
+    enabled: input.enabled,
+    rollout_percentage: input.rolloutPercentage,
+    target_roles: input.targetRoles,
+    target_organization_ids: input.targetOrganizationIds,
+    updated_by: actor.id,
+  });
+  if (error) throw error;
+
+  invalidateFeatureFlags();
+  await audit(
+    before ? "feature_flag.update" : "feature_flag.create",
+    input.key,
+    { before: before ? toFlagRule(before) : null, after: toFlagRule(after) },
+    actor
+  );
+  return after;
+}
+
+/** Delete a flag's row, returning it to its env value (or off, if custom) */
+export async function resetFeatureFlag(key: string, actor: FlagActor): Promise<void> {
+  const admin = createAdminClient();
+
+  const { data: before, error: beforeError } = await getFeatureFlag(admin, key);
+  if (beforeError) throw beforeError;
+  if (!before) return;
+
+  const { error } = await deleteFeatureFlag(admin, key);
+  if (error) throw error;
+
+  invalidateFeatureFlags();
+  await audit("feature_flag.delete", key, { before: toFlagRule(before) }, actor);
+}
@@ -0,0 +1,411 @@
+import { createHash, randomBytes } from "crypto";
+import type { User } from "@supabase/supabase-js";
+import { APP_NAME, INVITATIONS, type InviteMemberInput } from "@matrx/shared";
+import {
+  addOrganizationMember,
+  countOpenInvitations,
+  countOrganizationMembers,
+  createInvitation,
+  getInvitationById,
+  getInvitationByTokenHash,
+  getOrganization,
+  getOrganizationMembership,
+  getPendingInvitations,
+  getProfile,
+  updateInvitation,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+import { getEntitlements } from "@/lib/entitlements";
+import { sendMail } from "@/lib/mail";
+import {
+  canAssignRole,
+  listMembers,
+  requireOrganizationRole,
+  setActiveOrganization,
+} from "@/lib/organizations";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * Organization Invitations
+ *
+ * Owners and admins invite people by email; admins may invite members
+ * and viewers, only owners may invite admins. Each invitation carries a
+ * random token that is emailed as a link to /invite/<token> and stored
+ * only as a SHA-256 hash, so the table cannot be used to accept
+ * invitations. Resending issues a new token and expiry, invalidating the
+ * previous link.
+ *
+ * Accepting requires signing in (or registering) with the invited
+ * address. Pending invitations count towards the plan's member limit.
+ */
+
+type InvitationRow = Tables<"organization_invitations">;
+
+/** Thrown when an invitation action is not allowed; `code` maps to an ApiError code */
+export class InvitationError extends Error {
+  constructor(
+    readonly code: "NOT_FOUND" | "FORBIDDEN" | "CONFLICT" | "EXPIRED" | "MEMBER_LIMIT_REACHED",
+    message: string
+  ) {
+    super(message);
+    this.name = "InvitationError";
+  }
+}
+
+/** An invitation as shown to the organization's admins */
+export type Invitation = Omit<InvitationRow, "token_hash"> & { expired: boolean };
+
+/** What the accept page shows for a token */
+export interface InvitationPreview {
+  invitation: Invitation;
+  organizationName: string;
+  inviterName: string | null;
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function newToken(): { token: string; tokenHash: string; expiresAt: string } {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + INVITATIONS.EXPIRY_DAYS * 86_400_000);
+  return { token, tokenHash: hashInvitationToken(token), expiresAt: expiresAt.toISOString() };
+}
+
+function isExpired(invitation: Pick<InvitationRow, "expires_at">): boolean {
+  return new Date(invitation.expires_at).getTime() <= Date.now();
+}
+
+function toInvitation({ token_hash: _tokenHash, ...invitation }: InvitationRow): Invitation {
+  return { ...invitation, expired: isExpired(invitation) };
+}
+
+/** Link to the accept page */
+export function invitationUrl(origin: string, token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || origin}/invite/${token}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function sendInvitationEmail(
+  client: SupabaseClient,
+  invitation: InvitationRow,
+  token: string,
+  origin: string
+): Promise<void> {
+  const [{ data: organization, error }, { data: inviter }] = await Promise.all([
+    getOrganization(client, invitation.organization_id),
+    invitation.invited_by
+      ? getProfile(client, invitation.invited_by)
+      : Promise.resolve({ data: null }),
+  ]);
+  if (error) throw error;
+
+  const url = invitationUrl(origin, token);
+  const role = `${invitation.role === "admin" ? "an" : "a"} ${invitation.role}`;
+  const subject = inviter?.display_name
+    ? `${inviter.display_name} invited you to join ${organization.name} on ${APP_NAME}`
+    : `You're invited to join ${organization.name} on ${APP_NAME}`;
+  const intro = inviter?.display_name
+    ? `${inviter.display_name} invited you to join ${organization.name} as ${role}.`
+    : `You have been invited to join ${organization.name} as ${role}.`;
+  const expiry = `This invitation expires in ${INVITATIONS.EXPIRY_DAYS} days.`;
+
+  await sendMail({
+    to: invitation.email,
+    subject,
+    text: `${intro}\n\nAccept the invitation:\n${url}\n\n${expiry}`,
+    html: [
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(url)}">Accept the invitation</a></p>`,
+      `<p>${escapeHtml(expiry)}</p>`,
+    ].join("\n"),
+  });
+}
+
+/** Owner or admin role, and allowed to deal in invitations for `role` */
+async function requireInviter(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  role: InvitationRow["role"]
+): Promise<void> {
+  const actorRole = await requireOrganizationRole(client, organizationId, userId);
+  if (!canAssignRole(actorRole, role)) {
+    throw new InvitationError(
+      "FORBIDDEN",
+      role === "admin"
+        ? "Only the owner can invite admins"
+        : "Only owners and admins can manage invitations"
+    );
+  }
+}
+
+/** Members plus open invitations must stay within the plan's member limit */
+async function assertMemberCapacity(
+  client: SupabaseClient,
+  organizationId: string
+): Promise<void> {
+  const { limits } = await getEntitlements(organizationId);
+  if (limits.members === null) return;
+
+  const [members, invitations] = await Promise.all([
+    countOrganizationMembers(client, organizationId),
+    countOpenInvitations(client, organizationId),
+  ]);
+  if (members.error) throw members.error;
+  if (invitations.error) throw invitations.error;
+
+  if ((members.count ?? 0) + (invitations.count ?? 0) >= limits.members) {
+    throw new InvitationError(
+      "MEMBER_LIMIT_REACHED",
+      `Your plan allows ${limits.members} members, including pending invitations`
+    );
+  }
+}
+
+/** Pending invitations of an organization; owners and admins only */
+export async function listInvitations(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<Invitation[]> {
+  await requireInviter(client, organizationId, userId, "member");
+
+  const { data, error } = await getPendingInvitations(client, organizationId);
+  if (error) throw error;
+  return (data ?? []).map(toInvitation);
+}
+
+/**
+ * Invite an address to the organization and email the link. An expired
+ * invitation for the same address is renewed instead.
+ */
+export async function inviteMember(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  input: InviteMemberInput,
+  origin: string
+): Promise<Invitation> {
+  await requireInviter(client, organizationId, userId, input.role);
+
+  const members = await listMembers(client, organizationId, userId);
+  if (members.some((member) => member.email?.toLowerCase() === input.email)) {
+    throw new InvitationError("CONFLICT", `${input.email} is already a member`);
+  }
+
+  const { data: pending, error: pendingError } = await getPendingInvitations(
+    client,
+    organizationId
+  );
+  if (pendingError) throw pendingError;
+  const existing = pending?.find((invitation) => invitation.email === input.email);
+
+  if (existing && !isExpired(existing)) {
+    throw new InvitationError(
+      "CONFLICT",
+      `${input.email} has already been invited; resend the invitation instead`
+    );
+  }
+  await assertMemberCapacity(client, organizationId);
+
+  const { token, tokenHash, expiresAt } = newToken();
+  const { data: invitation, error } = existing
+    ? await updateInvitation(client, existing.id, {
+        role: input.role,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        invited_by: userId,
+        send_count: existing.send_count + 1,
+        last_sent_at: new Date().toISOString(),
+      })
+    : await createInvitation(client, {
+        organization_id: organizationId,
+        email: input.email,
+        role: input.role,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        invited_by: userId,
+      });
+  if (error) {
+    if (error.code === "23505") {
+      throw new InvitationError("CONFLICT", `${input.email} has already been invited`);
+    }
+    throw error;
+  }
+
+  await sendInvitationEmail(client, invitation, token, origin);
+  return toInvitation(invitation);
+}
+
+/** Load a pending invitation of the organization, or throw NOT_FOUND */
+async function getPendingInvitation(
+  client: SupabaseClient,
+  organizationId: string,
+  invitationId: string
+): Promise<InvitationRow> {
+  const { data: invitation, error } = await getInvitationById(client, invitationId);
+  if (error) throw error;
+  if (
+    !invitation ||
+    invitation.organization_id !== organizationId ||
+    invitation.status !== "pending"
+  ) {
+    throw new InvitationError("NOT_FOUND", "Invitation not found");
+  }
+  return invitation;
+}
+
+/** Email a pending invitation again with a new link and expiry */
+export async function resendInvitation(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  invitationId: string,
+  origin: string
+): Promise<Invitation> {
+  const current = await getPendingInvitation(client, organizationId, invitationId);
+  await requireInviter(client, organizationId, userId, current.role);
+
+  const waitMs =
+    new Date(current.last_sent_at).getTime() +
+    INVITATIONS.RESEND_COOLDOWN_SECONDS * 1000 -
+    Date.now();
+  if (waitMs > 0) {
+    throw new InvitationError(
+      "CONFLICT",
+      `The invitation was just sent; try again in ${Math.ceil(waitMs / 1000)} seconds`
+    );
+  }
+
+  const { token, tokenHash, expiresAt } = newToken();
+  const { data: invitation, error } = await updateInvitation(client, current.id, {
+    token_hash: tokenHash,
+    expires_at: expiresAt,
+    send_count: current.send_count + 1,
+    last_sent_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+
+  await sendInvitationEmail(client, invitation, token, origin);
+  return toInvitation(invitation);
+}
+
+/** Withdraw a pending invitation; its link stops working */
+export async function revokeInvitation(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  invitationId: string
+): Promise<void> {
+  const current = await getPendingInvitation(client, organizationId, invitationId);
+  await requireInviter(client, organizationId, userId, current.role);
+
+  const { error } = await updateInvitation(client, current.id, {
+    status: "revoked",
+    revoked_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+}
+
+/**
+ * Look up an invitation by the token from its link. Invitees are not
+ * members yet, so this reads with the service role. Null for unknown
+ * tokens, including those replaced by a resend.
+ */
+export async function getInvitationPreview(token: string): Promise<InvitationPreview | null> {
+  const admin = createAdminClient();
+
+  const { data: invitation, error } = await getInvitationByTokenHash(
+    admin,
+    hashInvitationToken(token)
+  );
+  if (error) throw error;
+  if (!invitation) return null;
+
+  const [{ data: organization, error: orgError }, { data: inviter }] = await Promise.all([
+    getOrganization(admin, invitation.organization_id),
+    invitation.invited_by
+      ? getProfile(admin, invitation.invited_by)
+      : Promise.resolve({ data: null }),
+  ]);
+  if (orgError) throw orgError;
+
+  return {
+    invitation: toInvitation(invitation),
+    organizationName: organization.name,
+    inviterName: inviter?.display_name ?? null,
+  };
+}
+
+/**
+ * Accept an invitation as the signed-in user, who must own the invited
+ * address, and make the organization their active one. Returns the
+ * organization id.
+ */
+export async function acceptInvitation(
+  client: SupabaseClient,
+  user: User,
+  token: string
+): Promise<string> {
+  const admin = createAdminClient();
+
+  const { data: invitation, error } = await getInvitationByTokenHash(
+    admin,
+    hashInvitationToken(token)
+  );
+  if (error) throw error;
+  if (!invitation || invitation.status === "revoked") {
+    throw new InvitationError("NOT_FOUND", "This invitation is no longer valid");
+  }
+  if (invitation.status === "accepted") {
+    throw new InvitationError("CONFLICT", "This invitation has already been used");
+  }
+  if (isExpired(invitation)) {
+    throw new InvitationError("EXPIRED", "This invitation has expired; ask for a new one");
+  }
+  if (user.email?.toLowerCase() !== invitation.email) {
+    throw new InvitationError(
+      "FORBIDDEN",
+      `This invitation was sent to ${invitation.email}; sign in with that address to accept it`
+    );
+  }
+  if (!user.email_confirmed_at) {
+    throw new InvitationError("FORBIDDEN", "Confirm your email address before accepting");
+  }
+
+  const { data: membership, error: membershipError } = await getOrganizationMembership(
+    admin,
+    invitation.organization_id,
+    user.id
+  );
+  if (membershipError) throw membershipError;
+
+  if (!membership) {
+    const { error: insertError } = await addOrganizationMember(admin, {
+      organization_id: invitation.organization_id,
+      user_id: user.id,
+      role: invitation.role,
+      invited_by: invitation.invited_by,
+    });
+    if (insertError) throw insertError;
+  }
+
+  const { error: updateError } = await updateInvitation(admin, invitation.id, {
+    status: "accepted",
+    accepted_by: user.id,
+    accepted_at: new Date().toISOString(),
+  });
+  if (updateError) throw updateError;
+
+  await setActiveOrganization(client, user.id, invitation.organization_id);
+  return invitation.organization_id;
+}
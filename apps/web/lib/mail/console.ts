@@ -0,0 +1,19 @@
+import type { MailTransport } from "./types";
+
+/** Development stand-in: prints each message to the server log */
+export const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message) {
+    console.info(
+      [
+        "[mail] ----------------------------------------------------------",
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+        "------------------------------------------------------------------",
+      ].join("\n")
+    );
+  },
+};
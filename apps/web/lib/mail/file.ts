@@ -0,0 +1,54 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { MailMessage, MailTransport } from "./types";
+
+/**
+ * Development stand-in: writes each message as an .eml file, which most
+ * mail clients open, to `MAIL_OUTBOX_DIR` (default `.mail-outbox` in the
+ * app's working directory).
+ */
+
+function toEml(message: MailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+  if (message.replyTo) headers.push(`Reply-To: ${message.replyTo}`);
+
+  if (!message.html) {
+    return [...headers, "Content-Type: text/plain; charset=utf-8", "", message.text].join("\r\n");
+  }
+
+  const boundary = `matrx-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    message.html,
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+export const fileTransport: MailTransport = {
+  name: "file",
+  async send(message) {
+    const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || ".mail-outbox");
+    await mkdir(dir, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = path.join(dir, `${stamp}-${randomUUID().slice(0, 8)}.eml`);
+    await writeFile(file, toEml(message), "utf8");
+    console.info(`[mail] Wrote "${message.subject}" for ${message.to} to ${file}`);
+  },
+};
@@ -0,0 +1,48 @@
+import { APP_NAME } from "@matrx/shared";
+import { consoleTransport } from "./console";
+import { fileTransport } from "./file";
+import { resendTransport } from "./resend";
+import type { MailMessage, MailTransport } from "./types";
+
+/**
+ * Mail
+ *
+ * Outgoing email goes through `sendMail`, which hands the message to the
+ * transport named by `MAIL_TRANSPORT`:
+ *
+ * - `console` (default) — prints messages to the server log
+ * - `file` — writes .eml files to `MAIL_OUTBOX_DIR`
+ * - `resend` — delivers through Resend (`RESEND_API_KEY`)
+ *
+ * Other providers plug in with `registerMailTransport`. The sender is
+ * `MAIL_FROM`.
+ */
+
+export type { MailMessage, MailTransport } from "./types";
+
+const transports = new Map<string, MailTransport>(
+  [consoleTransport, fileTransport, resendTransport].map((transport) => [
+    transport.name,
+    transport,
+  ])
+);
+
+/** Register (or replace) a transport, selectable with `MAIL_TRANSPORT` */
+export function registerMailTransport(transport: MailTransport): void {
+  transports.set(transport.name, transport);
+}
+
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || "console";
+  const transport = transports.get(name);
+  if (!transport) {
+    throw new Error(`No mail transport registered for "${name}"`);
+  }
+  return transport;
+}
+
+/** Send a message from `MAIL_FROM` */
+export async function sendMail(message: Omit<MailMessage, "from">): Promise<void> {
+  const from = process.env.MAIL_FROM || `${APP_NAME} <noreply@localhost>`;
+  await getMailTransport().send({ ...message, from });
+}
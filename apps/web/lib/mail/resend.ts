@@ -0,0 +1,31 @@
+import type { MailTransport } from "./types";
+
+/** Delivery through the Resend HTTP API (`RESEND_API_KEY`) */
+export const resendTransport: MailTransport = {
+  name: "resend",
+  async send(message) {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) throw new Error("RESEND_API_KEY is not configured");
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        reply_to: message.replyTo,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`Resend rejected the message (${response.status}): ${body.slice(0, 200)}`);
+    }
+  },
+};
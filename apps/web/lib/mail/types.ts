@@ -0,0 +1,21 @@
+/**
+ * Mail Transport Types
+ *
+ * A transport delivers a fully built message. Templates, the sender
+ * address and transport selection live in ./index.
+ */
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+}
+
+export interface MailTransport {
+  /** Name used to select the transport with `MAIL_TRANSPORT` */
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,266 @@
+import { createHash, randomInt } from "crypto";
+import type { User } from "@supabase/supabase-js";
+import {
+  APP_NAME,
+  MFA,
+  formatRecoveryCode,
+  normalizeRecoveryCode,
+  organizationRequiresMfa,
+  type MfaStatus,
+} from "@matrx/shared";
+import {
+  countUnusedRecoveryCodes,
+  createRecoveryCodes,
+  deleteRecoveryCodes,
+  markRecoveryCodeUsed,
+  type SupabaseClient,
+} from "@matrx/supabase";
+import { listOrganizations } from "@/lib/organizations";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * Multi-factor Authentication
+ *
+ * TOTP factors are managed by Supabase Auth: enrolling returns a QR code
+ * for the authenticator app, and verifying a code raises the session to
+ * assurance level aal2. The proxy sends signed-in users with a factor to
+ * /mfa until they verify it, and users without one to /mfa/setup when
+ * the admin portal or one of their organizations requires it.
+ *
+ * Recovery codes are issued when a factor is verified and stored only as
+ * SHA-256 hashes. Redeeming one removes the user's factors, which signs
+ * out all of their sessions; they sign in again and set up a new device.
+ *
+ * Functions taking `accessToken` also serve Bearer-authenticated API
+ * requests, whose clients hold no session.
+ */
+
+/** Thrown when an MFA action is not allowed; `code` maps to an ApiError code */
+export class MfaError extends Error {
+  constructor(
+    readonly code: "MFA_REQUIRED" | "INVALID_CODE" | "CONFLICT",
+    message: string
+  ) {
+    super(message);
+    this.name = "MfaError";
+  }
+}
+
+/** What a signed-in user must do before continuing */
+export type MfaStep = "verify" | "enroll";
+
+/** What a form issuing recovery codes shows after a submission */
+export interface RecoveryCodesState {
+  error: string | null;
+  /** Shown once, right after they are issued */
+  recoveryCodes: string[] | null;
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+function newRecoveryCode(): string {
+  const alphabet = MFA.RECOVERY_CODE_ALPHABET;
+  let code = "";
+  for (let i = 0; i < MFA.RECOVERY_CODE_LENGTH; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+}
+
+/** The user's verified TOTP factor, if any */
+export function verifiedTotpFactor(user: User) {
+  return (
+    user.factors?.find(
+      (factor) => factor.factor_type === "totp" && factor.status === "verified"
+    ) ?? null
+  );
+}
+
+/** Whether the session has verified a second factor */
+export async function isMfaVerified(
+  client: SupabaseClient,
+  accessToken?: string | null
+): Promise<boolean> {
+  const { data } = await client.auth.mfa.getAuthenticatorAssuranceLevel(
+    accessToken ?? undefined
+  );
+  return data?.currentLevel === "aal2";
+}
+
+/** Names of the user's organizations that require MFA of their members */
+export async function organizationsRequiringMfa(
+  client: SupabaseClient,
+  userId: string
+): Promise<string[]> {
+  const organizations = await listOrganizations(client, userId);
+  return organizations
+    .filter(({ organization }) => organizationRequiresMfa(organization.settings))
+    .map(({ organization }) => organization.name);
+}
+
+/**
+ * The MFA step the user must complete first, or null. `strict` requires
+ * a factor even when no organization does (the admin portal).
+ */
+export async function getMfaStep(
+  client: SupabaseClient,
+  user: User,
+  options: { accessToken?: string | null; strict?: boolean } = {}
+): Promise<MfaStep | null> {
+  if (await isMfaVerified(client, options.accessToken)) return null;
+  if (verifiedTotpFactor(user)) return "verify";
+
+  if (options.strict) return "enroll";
+  const requiredBy = await organizationsRequiringMfa(client, user.id);
+  return requiredBy.length > 0 ? "enroll" : null;
+}
+
+export async function getMfaStatus(
+  client: SupabaseClient,
+  user: User,
+  accessToken?: string | null
+): Promise<MfaStatus> {
+  const enrolled = !!verifiedTotpFactor(user);
+
+  const [verified, requiredBy, remaining] = await Promise.all([
+    isMfaVerified(client, accessToken),
+    organizationsRequiringMfa(client, user.id),
+    enrolled ? countUnusedRecoveryCodes(client, user.id) : null,
+  ]);
+  if (remaining?.error) throw remaining.error;
+
+  return {
+    enrolled,
+    verified,
+    requiredBy,
+    recoveryCodesRemaining: remaining ? (remaining.count ?? 0) : null,
+  };
+}
+
+/**
+ * Start setting up an authenticator app. Unfinished setups are discarded,
+ * so each call returns a new secret. Not for users who already have one.
+ */
+export async function startTotpEnrollment(client: SupabaseClient, user: User) {
+  if (verifiedTotpFactor(user)) {
+    throw new MfaError("CONFLICT", "Two-factor authentication is already set up");
+  }
+
+  for (const factor of user.factors ?? []) {
+    if (factor.factor_type === "totp" && factor.status === "unverified") {
+      const { error } = await client.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+    }
+  }
+
+  const { data, error } = await client.auth.mfa.enroll({
+    factorType: "totp",
+    issuer: APP_NAME,
+    friendlyName: "Authenticator app",
+  });
+  if (error) throw error;
+
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+}
+
+/** Check a code from the authenticator app; the session becomes aal2 */
+export async function verifyTotpCode(
+  client: SupabaseClient,
+  factorId: string,
+  code: string
+): Promise<void> {
+  const { error } = await client.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) {
+    throw new MfaError("INVALID_CODE", "That code is not valid. Check your authenticator app.");
+  }
+}
+
+/**
+ * Issue a new set of recovery codes, replacing any previous ones. Needs a
+ * session that verified its factor. Returns the codes, formatted for
+ * display; they cannot be shown again.
+ */
+export async function issueRecoveryCodes(
+  client: SupabaseClient,
+  user: User,
+  accessToken?: string | null
+): Promise<string[]> {
+  if (!verifiedTotpFactor(user) || !(await isMfaVerified(client, accessToken))) {
+    throw new MfaError("MFA_REQUIRED", "Verify your two-factor authentication first");
+  }
+
+  const codes = Array.from({ length: MFA.RECOVERY_CODE_COUNT }, newRecoveryCode);
+  const admin = createAdminClient();
+
+  const { error: deleteError } = await deleteRecoveryCodes(admin, user.id);
+  if (deleteError) throw deleteError;
+  const { error } = await createRecoveryCodes(admin, user.id, codes.map(hashRecoveryCode));
+  if (error) throw error;
+
+  return codes.map(formatRecoveryCode);
+}
+
+/**
+ * Use a recovery code in place of the authenticator app. Removes the
+ * user's factors and remaining codes; Supabase then signs out all of
+ * their sessions.
+ */
+export async function redeemRecoveryCode(user: User, code: string): Promise<void> {
+  const admin = createAdminClient();
+
+  const { data: used, error } = await markRecoveryCodeUsed(
+    admin,
+    user.id,
+    hashRecoveryCode(code)
+  );
+  if (error) throw error;
+  if (!used) {
+    throw new MfaError("INVALID_CODE", "That recovery code is not valid or was already used");
+  }
+
+  const { data, error: listError } = await admin.auth.admin.mfa.listFactors({
+    userId: user.id,
+  });
+  if (listError) throw listError;
+
+  for (const factor of data.factors) {
+    if (factor.factor_type !== "totp") continue;
+    const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId: user.id,
+    });
+    if (deleteError) throw deleteError;
+  }
+
+  const { error: deleteError } = await deleteRecoveryCodes(admin, user.id);
+  if (deleteError) throw deleteError;
+}
+
+/**
+ * Turn two-factor authentication off from a session that verified it.
+ * Not allowed while one of the user's organizations requires it.
+ */
+export async function disableMfa(client: SupabaseClient, user: User): Promise<void> {
+  const factor = verifiedTotpFactor(user);
+  if (!factor) return;
+
+  if (!(await isMfaVerified(client))) {
+    throw new MfaError("MFA_REQUIRED", "Verify your two-factor authentication first");
+  }
+
+  const requiredBy = await organizationsRequiringMfa(client, user.id);
+  if (requiredBy.length > 0) {
+    throw new MfaError(
+      "CONFLICT",
+      `${requiredBy.join(", ")} ${requiredBy.length === 1 ? "requires" : "require"} two-factor authentication`
+    );
+  }
+
+  const { error } = await client.auth.mfa.unenroll({ factorId: factor.id });
+  if (error) throw error;
+
+  const { error: deleteError } = await deleteRecoveryCodes(createAdminClient(), user.id);
+  if (deleteError) throw deleteError;
+}
@@ -0,0 +1,408 @@
+import {
+  MFA,
+  can,
+  organizationRequiresMfa,
+  type CreateOrganizationInput,
+  type OrgMemberRole,
+} from "@matrx/shared";
+import {
+  createOrganization as insertOrganization,
+  getOrganization,
+  getOrganizationMembers,
+  getOrganizationMembership,
+  getProfilesByUserIds,
+  getUserOrganizations,
+  getUserPreferences,
+  removeOrganizationMember,
+  transferOrganizationOwnership,
+  updateOrganizationMemberRole,
+  updateOrganizationSettings,
+  updateUserPreferences,
+  type SupabaseClient,
+  type Tables,
+} from "@matrx/supabase";
+
+/**
+ * Organizations and Teams
+ *
+ * Creating organizations, choosing the active one and managing members.
+ * Runs with the caller's client, so RLS and the owner-protection trigger
+ * (017_organization_management.sql) back up the role checks made here:
+ *
+ * - Owners manage everyone else, and alone can appoint admins,
+ *   transfer ownership and require MFA of members
+ * - Admins manage members and viewers
+ * - Members and viewers can only leave
+ * - The owner cannot leave or be removed; they transfer ownership first
+ *
+ * The active organization is kept in the `ACTIVE_ORGANIZATION_COOKIE`
+ * cookie for the web app and in `user_preferences.metadata` for other
+ * clients and new sessions.
+ */
+
+export const ACTIVE_ORGANIZATION_COOKIE = "matrx-active-org";
+
+export const ACTIVE_ORGANIZATION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: 60 * 60 * 24 * 365,
+} as const;
+
+const ROLE_RANK: Record<OrgMemberRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+  viewer: 0,
+};
+
+type AssignableRole = Exclude<OrgMemberRole, "owner">;
+
+/** Thrown when an action is not allowed; `code` maps to an ApiError code */
+export class OrganizationError extends Error {
+  constructor(
+    readonly code: "NOT_FOUND" | "FORBIDDEN" | "CONFLICT",
+    message: string
+  ) {
+    super(message);
+    this.name = "OrganizationError";
+  }
+}
+
+export interface OrganizationSummary {
+  organization: Tables<"organizations">;
+  role: OrgMemberRole;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  role: OrgMemberRole;
+  joinedAt: string;
+  displayName: string | null;
+  email: string | null;
+  avatarUrl: string | null;
+}
+
+/** Whether `actor` may change or remove a member who has role `target` */
+export function canManageMember(actor: OrgMemberRole, target: OrgMemberRole): boolean {
+  return can(null, "members.manage", { role: actor }) && ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+/** Whether `actor` may give a member the role `role` */
+export function canAssignRole(actor: OrgMemberRole, role: AssignableRole): boolean {
+  return role === "admin" ? actor === "owner" : can(null, "members.invite", { role: actor });
+}
+
+/** The user's organizations, owned ones first, then by name */
+export async function listOrganizations(
+  client: SupabaseClient,
+  userId: string
+): Promise<OrganizationSummary[]> {
+  const { data, error } = await getUserOrganizations(client, userId);
+  if (error) throw error;
+
+  return (data ?? [])
+    .filter((row) => row.organization)
+    .map((row) => ({
+      organization: row.organization as Tables<"organizations">,
+      role: row.role,
+    }))
+    .sort(
+      (a, b) =>
+        ROLE_RANK[b.role] - ROLE_RANK[a.role] ||
+        a.organization.name.localeCompare(b.organization.name)
+    );
+}
+
+/** The user's role in an organization; NOT_FOUND if not a member */
+export async function requireOrganizationRole(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<OrgMemberRole> {
+  const { data: membership, error } = await getOrganizationMembership(
+    client,
+    organizationId,
+    userId
+  );
+  if (error) throw error;
+  if (!membership) throw new OrganizationError("NOT_FOUND", "Organization not found");
+  return membership.role;
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50) || "org";
+}
+
+/**
+ * Create an organization owned by the user and make it their active one.
+ * Without a slug, one is derived from the name and suffixed if taken.
+ */
+export async function createOrganization(
+  client: SupabaseClient,
+  userId: string,
+  input: CreateOrganizationInput
+): Promise<Tables<"organizations">> {
+  const base = input.slug ?? slugify(input.name);
+
+  // The id is generated here: the new row is not readable until the
+  // owner membership trigger has run, so it cannot be returned by the insert
+  const id = crypto.randomUUID();
+
+  // RLS hides other users' organizations, so a taken slug only shows up
+  // as a unique violation on insert
+  for (let attempt = 0; ; attempt++) {
+    const slug = attempt === 0 ? base : `${base}-${crypto.randomUUID().slice(0, 6)}`;
+    const { error } = await insertOrganization(client, {
+      id,
+      name: input.name,
+      slug,
+      description: input.description ?? null,
+      owner_id: userId,
+    });
+    if (!error) break;
+    if (error.code !== "23505") throw error;
+    if (input.slug || attempt >= 2) {
+      throw new OrganizationError("CONFLICT", `The slug "${slug}" is already taken`);
+    }
+  }
+
+  const { data: organization, error } = await getOrganization(client, id);
+  if (error) throw error;
+
+  await setActiveOrganization(client, userId, id);
+  return organization;
+}
+
+/**
+ * The organization the user is working in: the cookie's value if they
+ * are still a member, else their saved preference, else their first
+ * organization. Null when they belong to none.
+ */
+export async function getActiveOrganizationId(
+  client: SupabaseClient,
+  userId: string,
+  cookieValue?: string | null
+): Promise<string | null> {
+  const organizations = await listOrganizations(client, userId);
+  const ids = new Set(organizations.map((entry) => entry.organization.id));
+
+  if (cookieValue && ids.has(cookieValue)) return cookieValue;
+
+  const { data: preferences } = await getUserPreferences(client, userId);
+  const saved = preferences?.metadata?.active_organization_id;
+  if (typeof saved === "string" && ids.has(saved)) return saved;
+
+  return organizations[0]?.organization.id ?? null;
+}
+
+/**
+ * Save the user's active organization in their preferences. Callers on
+ * the web also set `ACTIVE_ORGANIZATION_COOKIE`.
+ */
+export async function setActiveOrganization(
+  client: SupabaseClient,
+  userId: string,
+  organizationId: string
+): Promise<void> {
+  await requireOrganizationRole(client, organizationId, userId);
+
+  const { data: preferences, error } = await getUserPreferences(client, userId);
+  if (error) throw error;
+
+  const { error: updateError } = await updateUserPreferences(client, userId, {
+    metadata: { ...preferences.metadata, active_organization_id: organizationId },
+  });
+  if (updateError) throw updateError;
+}
+
+/** Members of an organization the user belongs to, highest role first */
+export async function listMembers(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationMember[]> {
+  await requireOrganizationRole(client, organizationId, userId);
+
+  const { data: members, error } = await getOrganizationMembers(client, organizationId);
+  if (error) throw error;
+  if (!members || members.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await getProfilesByUserIds(
+    client,
+    members.map((member) => member.user_id)
+  );
+  if (profilesError) throw profilesError;
+  const profilesByUser = new Map((profiles ?? []).map((profile) => [profile.user_id, profile]));
+
+  return members
+    .map((member) => {
+      const profile = profilesByUser.get(member.user_id);
+      return {
+        userId: member.user_id,
+        role: member.role,
+        joinedAt: member.joined_at,
+        displayName: profile?.display_name ?? null,
+        email: profile?.email ?? null,
+        avatarUrl: profile?.avatar_url ?? null,
+      };
+    })
+    .sort((a, b) => ROLE_RANK[b.role] - ROLE_RANK[a.role]);
+}
+
+/** Promote or demote a member */
+export async function changeMemberRole(
+  client: SupabaseClient,
+  organizationId: string,
+  actorId: string,
+  targetUserId: string,
+  role: AssignableRole
+): Promise<void> {
+  if (targetUserId === actorId) {
+    throw new OrganizationError("FORBIDDEN", "You cannot change your own role");
+  }
+
+  const actorRole = await requireOrganizationRole(client, organizationId, actorId);
+  const { data: target, error } = await getOrganizationMembership(
+    client,
+    organizationId,
+    targetUserId
+  );
+  if (error) throw error;
+  if (!target) throw new OrganizationError("NOT_FOUND", "Member not found");
+
+  if (!canManageMember(actorRole, target.role) || !canAssignRole(actorRole, role)) {
+    throw new OrganizationError(
+      "FORBIDDEN",
+      `You cannot give this ${target.role} the ${role} role`
+    );
+  }
+  if (target.role === role) return;
+
+  const { error: updateError } = await updateOrganizationMemberRole(
+    client,
+    organizationId,
+    targetUserId,
+    role
+  );
+  if (updateError) throw updateError;
+}
+
+/** Remove another member from the organization */
+export async function removeMember(
+  client: SupabaseClient,
+  organizationId: string,
+  actorId: string,
+  targetUserId: string
+): Promise<void> {
+  if (targetUserId === actorId) {
+    await leaveOrganization(client, organizationId, actorId);
+    return;
+  }
+
+  const actorRole = await requireOrganizationRole(client, organizationId, actorId);
+  const { data: target, error } = await getOrganizationMembership(
+    client,
+    organizationId,
+    targetUserId
+  );
+  if (error) throw error;
+  if (!target) throw new OrganizationError("NOT_FOUND", "Member not found");
+
+  if (!canManageMember(actorRole, target.role)) {
+    throw new OrganizationError("FORBIDDEN", `You cannot remove this ${target.role}`);
+  }
+
+  const { error: deleteError } = await removeOrganizationMember(
+    client,
+    organizationId,
+    targetUserId
+  );
+  if (deleteError) throw deleteError;
+}
+
+/** Leave an organization; the owner must transfer ownership first */
+export async function leaveOrganization(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<void> {
+  const role = await requireOrganizationRole(client, organizationId, userId);
+  if (role === "owner") {
+    throw new OrganizationError(
+      "CONFLICT",
+      "The owner cannot leave; transfer ownership to another member first"
+    );
+  }
+
+  const { error } = await removeOrganizationMember(client, organizationId, userId);
+  if (error) throw error;
+}
+
+/** Hand the organization to another member; the previous owner becomes an admin */
+export async function transferOwnership(
+  client: SupabaseClient,
+  organizationId: string,
+  actorId: string,
+  newOwnerId: string
+): Promise<void> {
+  const actorRole = await requireOrganizationRole(client, organizationId, actorId);
+  if (actorRole !== "owner") {
+    throw new OrganizationError("FORBIDDEN", "Only the owner can transfer ownership");
+  }
+  if (newOwnerId === actorId) {
+    throw new OrganizationError("CONFLICT", "You already own this organization");
+  }
+
+  const { data: target, error } = await getOrganizationMembership(
+    client,
+    organizationId,
+    newOwnerId
+  );
+  if (error) throw error;
+  if (!target) throw new OrganizationError("NOT_FOUND", "Member not found");
+
+  const { error: transferError } = await transferOrganizationOwnership(
+    client,
+    organizationId,
+    newOwnerId
+  );
+  if (transferError) throw transferError;
+}
+
+/**
+ * Require (or stop requiring) MFA of the organization's members; the
+ * owner only. The database accepts the change only from a session that
+ * verified its own second factor (021_mfa_recovery_codes.sql).
+ */
+export async function setMfaRequirement(
+  client: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  required: boolean
+): Promise<void> {
+  const role = await requireOrganizationRole(client, organizationId, userId);
+  if (!can(null, "organization.security", { role })) {
+    throw new OrganizationError("FORBIDDEN", "Only the owner can change security settings");
+  }
+
+  const { data: organization, error } = await getOrganization(client, organizationId);
+  if (error) throw error;
+  if (organizationRequiresMfa(organization.settings) === required) return;
+
+  const { error: updateError } = await updateOrganizationSettings(client, organizationId, {
+    ...organization.settings,
+    [MFA.ORGANIZATION_SETTING]: required,
+  });
+  if (updateError?.code === "42501") {
+    throw new OrganizationError("FORBIDDEN", updateError.message);
+  }
+  if (updateError) throw updateError;
+}
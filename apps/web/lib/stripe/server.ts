@@ -3,8 +3,19 @@ import Stripe from "stripe";
 /**
  * Server-side Stripe client.
  *
- * Only used in API routes — never exposed to the client.
+ * Only used in API routes and server actions — never exposed to the
+ * client. Created on first use, so modules that import it load even
+ * when Stripe is not configured.
  */
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  typescript: true,
-});
+let client: Stripe | null = null;
+
+export function getStripe(): Stripe {
+  if (!client) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error("STRIPE_SECRET_KEY is not configured");
+    }
+    client = new Stripe(secretKey, { typescript: true });
+  }
+  return client;
+}
@@ -0,0 +1,27 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@matrx/supabase";
+
+/**
+ * Anonymous Supabase client for server-side work that acts for no user.
+ *
+ * Uses the anon key without a session, so every request runs as the
+ * `anon` role under RLS. Use for background jobs, such as workflow runs
+ * started by a schedule, webhook or event, that must not bypass RLS.
+ */
+export function createAnonClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY for anonymous client"
+    );
+  }
+
+  return createClient<Database>(url, key, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
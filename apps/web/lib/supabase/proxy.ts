@@ -0,0 +1,54 @@
+import { createServerClient } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+import type { Database } from "@matrx/supabase";
+
+/** @supabase/ssr session cookies: `sb-<project ref>-auth-token`, maybe chunked */
+const SESSION_COOKIE = /^sb-.+-auth-token(\.\d+)?$/;
+
+/**
+ * Supabase client for the proxy (proxy.ts).
+ *
+ * Reads the session from the request cookies and, when Supabase
+ * refreshes or clears it, writes the new cookies to both the request
+ * (for Server Components rendering this request) and the response (for
+ * the browser). Always return `response()`, or pass whatever response
+ * is returned instead through `withSessionCookies`, or the refreshed
+ * session is lost.
+ */
+export function createProxySupabaseClient(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            response.cookies.set(name, value, options)
+          );
+        },
+      },
+    }
+  );
+
+  return {
+    supabase,
+    response: () => response,
+    /** Copy refreshed or cleared session cookies onto another response */
+    withSessionCookies: <T extends NextResponse>(other: T): T => {
+      response.cookies.getAll().forEach((cookie) => other.cookies.set(cookie));
+      return other;
+    },
+  };
+}
+
+/** Whether the request carries a Supabase session, valid or not */
+export function hasSessionCookie(request: NextRequest): boolean {
+  return request.cookies.getAll().some((cookie) => SESSION_COOKIE.test(cookie.name));
+}
@@ -0,0 +1,45 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Webhook Signatures
+ *
+ * HMAC-SHA256 signatures in the GitHub format: `sha256=<hex digest>` of the
+ * raw request body.
+ */
+
+export async function hmacSha256Hex(payload: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  const signed = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signed))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function verifyHmacSignature(
+  payload: string,
+  signature: string | null,
+  secret: string
+): Promise<boolean> {
+  if (!signature) return false;
+
+  const expectedSignature = `sha256=${await hmacSha256Hex(payload, secret)}`;
+  return safeEqual(expectedSignature, signature);
+}
+
+/** Compare a secret with a provided value in constant time */
+export function safeEqual(expected: string, provided: string): boolean {
+  const a = new TextEncoder().encode(expected);
+  const b = new TextEncoder().encode(provided);
+
+  if (a.byteLength !== b.byteLength) return false;
+
+  return timingSafeEqual(a, b);
+}
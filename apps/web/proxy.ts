@@ -1,4 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
+import { can, type ApiResponse, type FeatureFlags } from "@matrx/shared";
+import { bearerToken } from "@/lib/auth/api";
+import { getProfileRole } from "@/lib/auth/permissions";
+import { DEFAULT_AUTH_REDIRECT, withRedirect } from "@/lib/auth/redirect";
+import { resolveRoute } from "@/lib/auth/routes";
+import { getRuntimeFeatures } from "@/lib/flags";
+import { getMfaStep } from "@/lib/mfa";
+import { ACTIVE_ORGANIZATION_COOKIE } from "@/lib/organizations";
+import { createProxySupabaseClient, hasSessionCookie } from "@/lib/supabase/proxy";
 
 /**
  * Proxy (replaces middleware.ts in Next.js 16)
@@ -6,30 +15,111 @@ import { NextRequest, NextResponse } from "next/server";
  * Runs on Node.js runtime (Edge not supported).
  * Use for auth checks, route guards, and redirects only.
  * Keep thin — prefer Server Components and API routes for logic.
+ *
+ * Every request refreshes the Supabase session, then is checked against
+ * the access rules in lib/auth/routes.ts. Pages redirect (to /login,
+ * keeping the requested path in `redirect`); API routes answer with an
+ * `ApiResponse` error instead. Signed-in users then complete MFA where
+ * required: pages redirect to /mfa (or /mfa/setup), API routes answer
+ * 403 MFA_REQUIRED.
  */
-export default function proxy(request: NextRequest) {
-  const { pathname } = request.nextUrl;
+export default async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname === "/api" || pathname.startsWith("/api/");
+  const route = resolveRoute(pathname, request.method);
+
+  const { supabase, response, withSessionCookies } = createProxySupabaseClient(request);
+
+  // Validates the token with Supabase Auth, refreshing it when expired;
+  // API clients may send a Bearer token instead of the cookie
+  const token = isApi && route.access !== "public" ? bearerToken(request) : null;
+  const {
+    data: { user },
+  } = token ? await supabase.auth.getUser(token) : await supabase.auth.getUser();
+
+  if (!user && route.access !== "public") {
+    const stale = !!token || hasSessionCookie(request);
+
+    if (isApi) {
+      return withSessionCookies(
+        apiError(401, "UNAUTHORIZED", stale ? "Session expired" : "Authentication required")
+      );
+    }
+
+    const loginPath = stale
+      ? `/login?error=${encodeURIComponent("Your session has expired. Sign in again.")}`
+      : "/login";
+    return withSessionCookies(
+      NextResponse.redirect(new URL(withRedirect(loginPath, pathname + search), request.url))
+    );
+  }
 
-  // Public routes that don't require authentication
-  const publicPaths = ["/", "/login", "/register", "/api/health", "/api/webhooks"];
-  const isPublic = publicPaths.some(
-    (path) => pathname === path || pathname.startsWith(path + "/")
-  );
+  const needsRole = route.access === "admin" || route.features.length > 0;
+  const role = user && needsRole ? await getProfileRole(supabase, user.id) : null;
 
-  if (isPublic) {
-    return NextResponse.next();
+  if (route.access === "admin" && !can({ role }, "admin.access")) {
+    if (isApi) {
+      return withSessionCookies(apiError(403, "FORBIDDEN", "Admin access required"));
+    }
+    return withSessionCookies(
+      NextResponse.redirect(new URL(DEFAULT_AUTH_REDIRECT, request.url))
+    );
   }
 
-  // Check for auth token in cookies
-  const token = request.cookies.get("sb-access-token")?.value;
+  if (route.features.length > 0) {
+    // The active organization cookie is unverified, but only decides
+    // organization-targeted flags here; routes check entitlements again
+    const flags = await getRuntimeFeatures({
+      userId: user?.id,
+      role,
+      organizationId: user ? request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value : null,
+    });
+    const disabled = route.features.find((feature) => !flags[feature]);
 
-  if (!token) {
-    const loginUrl = new URL("/login", request.url);
-    loginUrl.searchParams.set("redirect", pathname);
-    return NextResponse.redirect(loginUrl);
+    if (disabled) {
+      return withSessionCookies(
+        isApi
+          ? featureDisabled(disabled)
+          : NextResponse.rewrite(new URL("/404", request.url), { status: 404 })
+      );
+    }
   }
 
-  return NextResponse.next();
+  if (user && route.access !== "public" && !route.beforeMfa) {
+    const step = await getMfaStep(supabase, user, {
+      accessToken: token,
+      strict: route.access === "admin",
+    });
+
+    if (step) {
+      if (isApi) {
+        return withSessionCookies(
+          apiError(
+            403,
+            "MFA_REQUIRED",
+            step === "verify"
+              ? "Verify your two-factor authentication code"
+              : "Set up two-factor authentication"
+          )
+        );
+      }
+      const mfaPath = step === "verify" ? "/mfa" : "/mfa/setup";
+      return withSessionCookies(
+        NextResponse.redirect(new URL(withRedirect(mfaPath, pathname + search), request.url))
+      );
+    }
+  }
+
+  return response();
+}
+
+function apiError(status: number, code: string, message: string) {
+  const body: ApiResponse<null> = { data: null, error: { code, message } };
+  return NextResponse.json(body, { status });
+}
+
+function featureDisabled(feature: keyof FeatureFlags) {
+  return apiError(404, "FEATURE_DISABLED", `The ${feature} feature is not enabled`);
 }
 
 export const config = {
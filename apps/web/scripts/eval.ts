@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+/**
+ * Prompt Eval Script
+ *
+ * Runs one or more eval suite files (a prompt template definition plus
+ * its test cases, see scripts/evals/*.suite.json) and prints a scored
+ * report. Uses the offline mock provider by default, so it needs no API
+ * keys or database and can gate prompt changes in CI.
+ *
+ * Usage:
+ *   pnpm eval                                   # Every suite in scripts/evals
+ *   pnpm eval scripts/evals/foo.suite.json      # Specific suites
+ *   pnpm eval --provider=openai --model=gpt-4o  # Against a real provider
+ *   pnpm eval --json                            # Machine-readable output
+ *
+ * Exits with code 1 if any case fails.
+ *
+ * Optional (only with --provider other than mock):
+ *   - The provider's API key, e.g. OPENAI_API_KEY
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import type { AiProvider, PromptTemplate } from "@matrx/ai-client";
+import { aiProviderSchema, evalSuiteSchema } from "@matrx/shared";
+import { runEvalSuite, type EvalSuiteResult } from "../lib/ai/evals/runner";
+import { DEFAULT_SETTINGS } from "../lib/ai/prompts";
+
+dotenv.config({ path: path.join(process.cwd(), ".env.local") });
+
+const SUITES_DIR = path.join(process.cwd(), "scripts", "evals");
+
+const args = process.argv.slice(2);
+const flag = (name: string) =>
+  args.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+const asJson = args.includes("--json");
+const providerArg = flag("provider") ?? "mock";
+const modelArg = flag("model");
+
+function findSuites(): string[] {
+  const files = args.filter((arg) => !arg.startsWith("--"));
+  if (files.length > 0) return files.map((file) => path.resolve(file));
+
+  if (!fs.existsSync(SUITES_DIR)) return [];
+  return fs
+    .readdirSync(SUITES_DIR)
+    .filter((file) => file.endsWith(".suite.json"))
+    .sort()
+    .map((file) => path.join(SUITES_DIR, file));
+}
+
+function loadSuite(file: string, provider: AiProvider) {
+  const parsed = evalSuiteSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid suite ${path.basename(file)}:\n   ${issues.join("\n   ")}`);
+  }
+
+  const { name, template, cases } = parsed.data;
+  const now = new Date().toISOString();
+  const promptTemplate: PromptTemplate = {
+    id: `suite:${name}`,
+    workspaceId: "",
+    name: template.name,
+    description: template.description ?? null,
+    systemPrompt: template.systemPrompt,
+    userPromptTemplate: template.userPromptTemplate,
+    variables: template.variables,
+    provider,
+    model: modelArg ?? template.model,
+    settings: { ...DEFAULT_SETTINGS, ...template.settings },
+    cacheResponses: template.cacheResponses,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return { name, template: promptTemplate, cases };
+}
+
+function printReport(name: string, template: PromptTemplate, suite: EvalSuiteResult) {
+  console.log(`\n📋 ${name} (${template.provider}:${template.model})`);
+
+  for (const result of suite.results) {
+    console.log(`   ${result.passed ? "✅" : "❌"} ${result.name}`);
+    if (result.error) {
+      console.log(`      error: ${result.error}`);
+    }
+    for (const assertion of result.assertions.filter((a) => !a.passed)) {
+      console.log(`      ${assertion.type}: ${assertion.message}`);
+    }
+  }
+
+  console.log(
+    `   ${suite.passed}/${suite.results.length} passed, score ${(suite.score * 100).toFixed(1)}%`
+  );
+}
+
+async function main() {
+  const provider = aiProviderSchema.safeParse(providerArg);
+  if (!provider.success) {
+    console.error(`❌ Unknown provider "${providerArg}"`);
+    process.exit(1);
+  }
+
+  const files = findSuites();
+  if (files.length === 0) {
+    console.error("❌ No eval suites found");
+    console.error("   Pass suite files or add *.suite.json files to scripts/evals");
+    process.exit(1);
+  }
+
+  const report: Array<{ suite: string } & EvalSuiteResult> = [];
+  let failed = 0;
+
+  for (const file of files) {
+    const { name, template, cases } = loadSuite(file, provider.data);
+    const suite = await runEvalSuite(template, cases);
+    failed += suite.failed;
+    report.push({ suite: name, ...suite });
+
+    if (!asJson) printReport(name, template, suite);
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(failed === 0 ? "\n✅ All eval cases passed" : `\n❌ ${failed} eval case(s) failed`);
+  }
+
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
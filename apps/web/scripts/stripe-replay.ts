@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+/**
+ * Stripe Webhook Replay Script
+ *
+ * Signs recorded Stripe event payloads (scripts/stripe-fixtures/*.json)
+ * with STRIPE_WEBHOOK_SECRET and posts them to the webhook route, so the
+ * subscription lifecycle can be exercised against a local app without
+ * Stripe. Fixtures run in file name order: checkout, subscription created,
+ * invoice paid, invoice failed, subscription past due, subscription
+ * deleted. Placeholders are filled in before signing:
+ *   - {{organizationId}}  the --org value
+ *   - {{price:<plan>}}    the configured price id, e.g. STRIPE_PRICE_PRO
+ *
+ * Usage:
+ *   pnpm stripe:replay --org=<organization-id>                # All fixtures
+ *   pnpm stripe:replay --org=<id> scripts/stripe-fixtures/02-*.json
+ *   pnpm stripe:replay --org=<id> --repeat                    # Send each twice
+ *
+ * --repeat checks idempotency: the second delivery must be a "duplicate".
+ *
+ * Environment variables required:
+ *   - STRIPE_WEBHOOK_SECRET
+ *   - STRIPE_PRICE_STARTER / STRIPE_PRICE_PRO / STRIPE_PRICE_ENTERPRISE
+ *     (those referenced by the fixtures)
+ *
+ * Optional:
+ *   - NEXT_PUBLIC_APP_URL (default: "http://localhost:3000")
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import Stripe from "stripe";
+import { getPlanPriceId, PAID_PLANS, type PaidPlan } from "../lib/billing/config";
+
+dotenv.config({ path: path.join(process.cwd(), ".env.local") });
+
+const FIXTURES_DIR = path.join(process.cwd(), "scripts", "stripe-fixtures");
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+
+const args = process.argv.slice(2);
+const flag = (name: string) =>
+  args.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+const organizationId = flag("org");
+const repeat = args.includes("--repeat");
+
+function findFixtures(): string[] {
+  const files = args.filter((arg) => !arg.startsWith("--"));
+  if (files.length > 0) return files.map((file) => path.resolve(file));
+
+  return fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => path.join(FIXTURES_DIR, file));
+}
+
+function render(template: string, orgId: string): string {
+  return template
+    .replaceAll("{{organizationId}}", orgId)
+    .replace(/\{\{price:(\w+)\}\}/g, (_, plan: string) => {
+      if (!PAID_PLANS.includes(plan as PaidPlan)) throw new Error(`Unknown plan "${plan}"`);
+      const priceId = getPlanPriceId(plan as PaidPlan);
+      if (!priceId) throw new Error(`No price configured for the ${plan} plan`);
+      return priceId;
+    });
+}
+
+async function send(payload: string, secret: string) {
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const response = await fetch(`${APP_URL}/api/webhooks/stripe`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+    body: payload,
+  });
+  const body = (await response.json().catch(() => null)) as {
+    data: { result: string } | null;
+    error: { code: string; message: string } | null;
+  } | null;
+  return { status: response.status, result: body?.data?.result, error: body?.error };
+}
+
+async function main() {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret || !organizationId) {
+    console.error("❌ Usage: pnpm stripe:replay --org=<organization-id> [fixtures...]");
+    if (!secret) console.error("   Missing required environment variable: STRIPE_WEBHOOK_SECRET");
+    process.exit(1);
+  }
+
+  let failed = 0;
+
+  for (const file of findFixtures()) {
+    const payload = render(fs.readFileSync(file, "utf8"), organizationId);
+    const { type } = JSON.parse(payload) as { type: string };
+
+    for (let delivery = 0; delivery < (repeat ? 2 : 1); delivery++) {
+      const { status, result, error } = await send(payload, secret);
+      const ok =
+        status === 200 && (delivery === 0 ? result !== "duplicate" : result === "duplicate");
+      if (!ok) failed++;
+
+      console.log(
+        `${ok ? "✅" : "❌"} ${path.basename(file)} (${type}) → ${status} ${result ?? ""}`.trimEnd()
+      );
+      if (error) console.log(`   ${error.code}: ${error.message}`);
+    }
+  }
+
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+/**
+ * Workflow Webhook Script
+ *
+ * Prints the webhook URL and signing secret for a workflow with a
+ * `webhook` trigger, plus an example signed request.
+ *
+ * Usage:
+ *   pnpm workflow:webhook <workflow-id>
+ *
+ * Environment variables required:
+ *   - WORKFLOW_WEBHOOK_SECRET
+ *
+ * Optional:
+ *   - NEXT_PUBLIC_APP_URL (default: "http://localhost:3000")
+ */
+
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { getWorkflowWebhookSecret } from "../lib/ai/workflows/webhook";
+
+dotenv.config({ path: path.join(process.cwd(), ".env.local") });
+
+const workflowId = process.argv[2];
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+
+async function main() {
+  if (!workflowId) {
+    console.error("❌ Usage: pnpm workflow:webhook <workflow-id>");
+    process.exit(1);
+  }
+
+  const secret = await getWorkflowWebhookSecret(workflowId);
+  if (!secret) {
+    console.error("❌ Missing required environment variable:");
+    console.error("   - WORKFLOW_WEBHOOK_SECRET");
+    process.exit(1);
+  }
+
+  const url = `${APP_URL}/api/webhooks/workflows/${workflowId}`;
+
+  console.log(`URL:    ${url}`);
+  console.log(`Secret: ${secret}\n`);
+  console.log("Example:");
+  console.log(`  BODY='{"hello":"world"}'`);
+  console.log(
+    `  SIG=$(printf '%s' "$BODY" | openssl dgst -sha256 -hmac '${secret}' | sed 's/^.* //')`
+  );
+  console.log(
+    `  curl -X POST -H "Content-Type: application/json" -H "X-Matrx-Signature-256: sha256=$SIG" -d "$BODY" ${url}`
+  );
+}
+
+main();
@@ -2,12 +2,36 @@ import type { ApiResponse } from "@matrx/shared";
 import type {
   PromptExecutionRequest,
   PromptExecutionResponse,
+  PromptStreamEvent,
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateVersion,
 } from "./types/prompts";
-import type { AgentChatRequest, AgentChatResponse } from "./types/agents";
+import type {
+  AgentChatRequest,
+  AgentChatResponse,
+  AgentConversation,
+} from "./types/agents";
 import type {
   WorkflowExecutionRequest,
   WorkflowExecution,
+  WorkflowReviewRequest,
 } from "./types/workflows";
+import type {
+  EvalDataset,
+  EvalDatasetInput,
+  EvalRun,
+  EvalRunRequest,
+} from "./types/evals";
+import type {
+  KnowledgeCitation,
+  KnowledgeIndexRequest,
+  KnowledgeIndexResult,
+  KnowledgeSearchRequest,
+  KnowledgeSource,
+  KnowledgeSourceRef,
+} from "./types/knowledge";
+import { createSseParser } from "./sse";
 
 /**
  * Matrx AI Client
@@ -31,12 +55,194 @@ export class MatrxAiClient {
   }
 
   /** Execute a prompt template with variables */
-  async executePrompt(
+  async executePrompt<TParsed = unknown>(
     request: PromptExecutionRequest
-  ): Promise<ApiResponse<PromptExecutionResponse>> {
+  ): Promise<ApiResponse<PromptExecutionResponse<TParsed>>> {
     return this.post("/api/ai/chat", request);
   }
 
+  /**
+   * Execute a prompt template and stream the response as it is generated.
+   *
+   * Yields `delta` events with partial content, then a single `done` event
+   * carrying token usage and latency (or an `error` event). Abort the
+   * `signal` to cancel — the underlying request is torn down and the
+   * iterator throws an `AbortError`.
+   *
+   * Uses streaming `fetch` where response bodies are readable (browsers,
+   * Node) and falls back to progressive `XMLHttpRequest` on React Native.
+   */
+  async *streamPrompt(
+    request: PromptExecutionRequest,
+    options?: { signal?: AbortSignal }
+  ): AsyncGenerator<PromptStreamEvent, void, undefined> {
+    const token = await this.config.getToken();
+    const url = `${this.config.baseUrl}/api/ai/chat`;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+    const body = JSON.stringify({ ...request, stream: true });
+
+    const chunks = supportsStreamingFetch()
+      ? fetchTextStream(url, headers, body, options?.signal)
+      : xhrTextStream(url, headers, body, options?.signal);
+
+    const parser = createSseParser();
+
+    try {
+      for await (const chunk of chunks) {
+        for (const event of parser.push(chunk)) {
+          yield event;
+        }
+      }
+    } catch (error) {
+      if (error instanceof StreamHttpError) {
+        yield { type: "error", error: error.toApiError() };
+        return;
+      }
+      throw error;
+    }
+
+    for (const event of parser.end()) {
+      yield event;
+    }
+  }
+
+  /** List the active prompt templates in a workspace */
+  async listPrompts(
+    workspaceId: string
+  ): Promise<ApiResponse<PromptTemplate[]>> {
+    return this.get(
+      `/api/ai/prompts?workspaceId=${encodeURIComponent(workspaceId)}`
+    );
+  }
+
+  /** Get a prompt template, optionally as of a saved version */
+  async getPrompt(
+    promptId: string,
+    version?: number
+  ): Promise<ApiResponse<PromptTemplate>> {
+    const query = version !== undefined ? `?version=${version}` : "";
+    return this.get(`/api/ai/prompts/${promptId}${query}`);
+  }
+
+  /** Create a prompt template (version 1) */
+  async createPrompt(
+    input: PromptTemplateInput & { workspaceId: string }
+  ): Promise<ApiResponse<PromptTemplate>> {
+    return this.post("/api/ai/prompts", input);
+  }
+
+  /** Save changes to a prompt template as a new version */
+  async updatePrompt(
+    promptId: string,
+    input: Partial<PromptTemplateInput>
+  ): Promise<ApiResponse<PromptTemplate>> {
+    return this.send("PATCH", `/api/ai/prompts/${promptId}`, input);
+  }
+
+  /** Deactivate a prompt template; its versions are kept */
+  async deletePrompt(
+    promptId: string
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.send("DELETE", `/api/ai/prompts/${promptId}`);
+  }
+
+  /** List every saved version of a prompt template, newest first */
+  async getPromptVersions(
+    promptId: string
+  ): Promise<ApiResponse<PromptTemplateVersion[]>> {
+    return this.get(`/api/ai/prompts/${promptId}/versions`);
+  }
+
+  /** Restore an earlier version; the restore is saved as a new version */
+  async rollbackPrompt(
+    promptId: string,
+    version: number
+  ): Promise<ApiResponse<PromptTemplate>> {
+    return this.post(`/api/ai/prompts/${promptId}/rollback`, { version });
+  }
+
+  /** List the evaluation datasets of a prompt template */
+  async listEvalDatasets(
+    promptId: string
+  ): Promise<ApiResponse<EvalDataset[]>> {
+    return this.get(`/api/ai/evals?promptId=${encodeURIComponent(promptId)}`);
+  }
+
+  /** Get an evaluation dataset with its test cases */
+  async getEvalDataset(datasetId: string): Promise<ApiResponse<EvalDataset>> {
+    return this.get(`/api/ai/evals/${datasetId}`);
+  }
+
+  /** Create an evaluation dataset for a prompt template */
+  async createEvalDataset(
+    input: EvalDatasetInput
+  ): Promise<ApiResponse<EvalDataset>> {
+    return this.post("/api/ai/evals", input);
+  }
+
+  /** Rename a dataset or replace its test cases */
+  async updateEvalDataset(
+    datasetId: string,
+    input: Partial<Omit<EvalDatasetInput, "promptId">>
+  ): Promise<ApiResponse<EvalDataset>> {
+    return this.send("PATCH", `/api/ai/evals/${datasetId}`, input);
+  }
+
+  /** Delete an evaluation dataset and its runs */
+  async deleteEvalDataset(
+    datasetId: string
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.send("DELETE", `/api/ai/evals/${datasetId}`);
+  }
+
+  /** Run a dataset against a template version and save the scored results */
+  async runEvalDataset(
+    datasetId: string,
+    request: EvalRunRequest = {}
+  ): Promise<ApiResponse<EvalRun>> {
+    return this.post(`/api/ai/evals/${datasetId}/runs`, request);
+  }
+
+  /** Recent runs of a dataset, newest first */
+  async getEvalRuns(datasetId: string): Promise<ApiResponse<EvalRun[]>> {
+    return this.get(`/api/ai/evals/${datasetId}/runs`);
+  }
+
+  /** List the sources indexed in a workspace's knowledge base */
+  async listKnowledgeSources(
+    workspaceId: string
+  ): Promise<ApiResponse<KnowledgeSource[]>> {
+    return this.get(
+      `/api/ai/knowledge?workspaceId=${encodeURIComponent(workspaceId)}`
+    );
+  }
+
+  /** Index (or re-index) a blog post, dynamic page or file */
+  async indexKnowledgeSource(
+    request: KnowledgeIndexRequest
+  ): Promise<ApiResponse<KnowledgeIndexResult>> {
+    return this.post("/api/ai/knowledge", request);
+  }
+
+  /** Remove a source's chunks from a workspace's knowledge base */
+  async removeKnowledgeSource(
+    workspaceId: string,
+    source: KnowledgeSourceRef
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.send("DELETE", "/api/ai/knowledge", { workspaceId, source });
+  }
+
+  /** Retrieve the chunks closest to a query */
+  async searchKnowledge(
+    request: KnowledgeSearchRequest
+  ): Promise<ApiResponse<KnowledgeCitation[]>> {
+    return this.post("/api/ai/knowledge/search", request);
+  }
+
   /** Send a message to an AI agent */
   async chatWithAgent(
     request: AgentChatRequest
@@ -44,6 +250,15 @@ export class MatrxAiClient {
     return this.post("/api/ai/agents", request);
   }
 
+  /** Load a persisted agent conversation with its message history */
+  async getAgentConversation(
+    conversationId: string
+  ): Promise<ApiResponse<AgentConversation>> {
+    return this.get(
+      `/api/ai/agents?conversationId=${encodeURIComponent(conversationId)}`
+    );
+  }
+
   /** Execute a workflow */
   async executeWorkflow(
     request: WorkflowExecutionRequest
@@ -58,6 +273,14 @@ export class MatrxAiClient {
     return this.get(`/api/ai/workflows/${executionId}`);
   }
 
+  /** Approve or reject a workflow execution paused for human review */
+  async reviewWorkflowExecution(
+    executionId: string,
+    request: WorkflowReviewRequest
+  ): Promise<ApiResponse<WorkflowExecution>> {
+    return this.post(`/api/ai/workflows/${executionId}/review`, request);
+  }
+
   private async get<T>(path: string): Promise<ApiResponse<T>> {
     const token = await this.config.getToken();
     const response = await fetch(`${this.config.baseUrl}${path}`, {
@@ -73,16 +296,184 @@ export class MatrxAiClient {
   private async post<T>(
     path: string,
     body: unknown
+  ): Promise<ApiResponse<T>> {
+    return this.send("POST", path, body);
+  }
+
+  private async send<T>(
+    method: "POST" | "PATCH" | "DELETE",
+    path: string,
+    body?: unknown
   ): Promise<ApiResponse<T>> {
     const token = await this.config.getToken();
     const response = await fetch(`${this.config.baseUrl}${path}`, {
-      method: "POST",
+      method,
       headers: {
         "Content-Type": "application/json",
         ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
-      body: JSON.stringify(body),
+      body: body === undefined ? undefined : JSON.stringify(body),
     });
     return response.json() as Promise<ApiResponse<T>>;
   }
 }
+
+// ============================================================================
+// Streaming transports
+// ============================================================================
+
+/** Non-2xx response received while opening a stream */
+class StreamHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(`Stream request failed with status ${status}`);
+    this.name = "StreamHttpError";
+  }
+
+  /** Recover the API error envelope from the body when the server sent one */
+  toApiError() {
+    try {
+      const parsed = JSON.parse(this.body) as ApiResponse<unknown>;
+      if (parsed.error) return parsed.error;
+    } catch {
+      // Body was not JSON — fall through to a generic error
+    }
+    return { code: "STREAM_ERROR", message: this.message };
+  }
+}
+
+function createAbortError(): Error {
+  const error = new Error("The operation was aborted.");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * React Native ships a `fetch` polyfill whose responses never expose a
+ * readable `body`, so streaming must go through XHR there.
+ */
+function supportsStreamingFetch(): boolean {
+  return (
+    typeof fetch === "function" &&
+    typeof TextDecoder !== "undefined" &&
+    typeof Response !== "undefined" &&
+    "body" in Response.prototype
+  );
+}
+
+async function* fetchTextStream(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  signal?: AbortSignal
+): AsyncGenerator<string, void, undefined> {
+  const response = await fetch(url, { method: "POST", headers, body, signal });
+
+  if (!response.ok) {
+    throw new StreamHttpError(response.status, await response.text());
+  }
+
+  if (!response.body) {
+    yield await response.text();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    const tail = decoder.decode();
+    if (tail) yield tail;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function xhrTextStream(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  signal?: AbortSignal
+): AsyncGenerator<string, void, undefined> {
+  const xhr = new XMLHttpRequest();
+  const pending: string[] = [];
+  let seen = 0;
+  let finished = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const collect = () => {
+    if (xhr.status >= 400) return;
+    const text = xhr.responseText;
+    if (text.length > seen) {
+      pending.push(text.slice(seen));
+      seen = text.length;
+      notify();
+    }
+  };
+
+  const onAbort = () => xhr.abort();
+
+  xhr.open("POST", url);
+  for (const [name, value] of Object.entries(headers)) {
+    xhr.setRequestHeader(name, value);
+  }
+
+  xhr.onprogress = collect;
+  xhr.onload = () => {
+    if (xhr.status >= 400) {
+      failure = new StreamHttpError(xhr.status, xhr.responseText);
+    } else {
+      collect();
+    }
+    finished = true;
+    notify();
+  };
+  xhr.onerror = () => {
+    failure = new Error("Network request failed");
+    notify();
+  };
+  xhr.onabort = () => {
+    failure = createAbortError();
+    notify();
+  };
+
+  if (signal?.aborted) {
+    return (async function* () {
+      throw createAbortError();
+    })();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+  xhr.send(body);
+
+  return (async function* () {
+    try {
+      while (true) {
+        if (pending.length > 0) {
+          yield pending.shift()!;
+          continue;
+        }
+        if (failure) throw failure;
+        if (finished) return;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      if (!finished) xhr.abort();
+    }
+  })();
+}
@@ -7,6 +7,7 @@
 
 export { MatrxAiClient } from "./client";
 export type { AiClientConfig } from "./client";
+export { encodeSseEvent, createSseParser } from "./sse";
 
 // Re-export all types
 export * from "./types";
@@ -0,0 +1,78 @@
+import type { PromptStreamEvent } from "./types/prompts";
+
+/**
+ * Server-Sent Events helpers
+ *
+ * Wire format shared by the `/api/ai/chat` stream and `MatrxAiClient.streamPrompt()`:
+ *
+ * ```
+ * event: delta
+ * data: {"type":"delta","content":"Hel"}
+ *
+ * event: done
+ * data: {"type":"done","response":{...}}
+ * ```
+ *
+ * Kept dependency-free so it runs in Node, browsers, and React Native.
+ */
+
+/** Serialize a stream event into a single SSE frame */
+export function encodeSseEvent(event: PromptStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Incremental SSE parser.
+ *
+ * Feed it raw text chunks as they arrive; it returns every event completed
+ * by that chunk and buffers any trailing partial frame. Comment lines
+ * (`: keep-alive`) and frames with unparseable data are skipped.
+ */
+export function createSseParser() {
+  let buffer = "";
+
+  function parseFrame(frame: string): PromptStreamEvent | null {
+    const dataLines: string[] = [];
+
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+
+    if (dataLines.length === 0) return null;
+
+    try {
+      return JSON.parse(dataLines.join("\n")) as PromptStreamEvent;
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    push(chunk: string): PromptStreamEvent[] {
+      buffer += chunk.replace(/\r\n?/g, "\n");
+
+      const events: PromptStreamEvent[] = [];
+      let boundary = buffer.indexOf("\n\n");
+
+      while (boundary !== -1) {
+        const event = parseFrame(buffer.slice(0, boundary));
+        if (event) events.push(event);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+
+      return events;
+    },
+
+    /** Flush a final frame that was not followed by a blank line */
+    end(): PromptStreamEvent[] {
+      const rest = buffer.trim();
+      buffer = "";
+      if (!rest) return [];
+      const event = parseFrame(rest);
+      return event ? [event] : [];
+    },
+  };
+}
@@ -5,10 +5,12 @@
  * Agents combine prompts with tools and can maintain conversation state.
  */
 
-import type { AiProvider, ModelSettings } from "./prompts";
+import type { KnowledgeCitation } from "./knowledge";
+import type { AiProvider, ModelSettings, TokenUsage } from "./prompts";
 
 export interface Agent {
   id: string;
+  workspaceId: string;
   name: string;
   description: string | null;
   systemPrompt: string;
@@ -16,6 +18,8 @@ export interface Agent {
   model: string;
   settings: ModelSettings;
   tools: AgentTool[];
+  /** Maximum model → tool → model round trips per user message */
+  maxToolSteps?: number;
   memory: AgentMemoryConfig;
   createdAt: string;
   updatedAt: string;
@@ -35,6 +39,10 @@ export interface AgentMemoryConfig {
   type: "conversation" | "summary" | "vector";
   maxMessages?: number;
   maxTokens?: number;
+  /** "vector" memory: knowledge base chunks retrieved per turn */
+  topK?: number;
+  /** "vector" memory: minimum cosine similarity for a chunk to be used */
+  minScore?: number;
 }
 
 export interface AgentConversation {
@@ -52,6 +60,9 @@ export interface AgentMessage {
   content: string;
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  attachments?: Attachment[];
+  /** Knowledge base chunks the reply was grounded in ("vector" memory) */
+  citations?: KnowledgeCitation[];
   timestamp: string;
 }
 
@@ -74,9 +85,15 @@ export interface AgentChatRequest {
   attachments?: Attachment[];
 }
 
+/**
+ * A file uploaded through `/api/files`, referenced by its `file_metadata`
+ * id. The server re-reads the file's type and name from its metadata;
+ * `url`, `mimeType` and `name` are for display only.
+ */
 export interface Attachment {
+  fileId: string;
   type: "image" | "file" | "audio";
-  url: string;
+  url?: string;
   mimeType: string;
   name: string;
 }
@@ -85,4 +102,7 @@ export interface AgentChatResponse {
   conversationId: string;
   message: AgentMessage;
   toolsUsed: string[];
+  /** Tokens used by this turn, including any summarization */
+  usage: TokenUsage;
+  latencyMs: number;
 }
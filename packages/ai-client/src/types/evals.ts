@@ -0,0 +1,88 @@
+/**
+ * Prompt Evaluation Types
+ *
+ * Datasets of test cases for a prompt template, and scored runs of a
+ * dataset against one template version.
+ */
+
+import type { AiProvider, TokenUsage } from "./prompts";
+
+export type EvalAssertion =
+  | { type: "contains"; value: string; caseSensitive?: boolean }
+  | { type: "regex"; pattern: string; flags?: string }
+  /** The output (or the first JSON value embedded in it) matches the schema */
+  | { type: "json_schema"; schema: Record<string, unknown> }
+  /** Completion tokens must not exceed `value` */
+  | { type: "max_tokens"; value: number };
+
+export type EvalAssertionType = EvalAssertion["type"];
+
+export interface EvalCase {
+  id: string;
+  name: string;
+  variables: Record<string, unknown>;
+  assertions: EvalAssertion[];
+}
+
+export interface EvalDataset {
+  id: string;
+  promptId: string;
+  name: string;
+  description: string | null;
+  cases: EvalCase[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EvalDatasetInput {
+  promptId: string;
+  name: string;
+  description?: string | null;
+  cases: Array<Omit<EvalCase, "id">>;
+}
+
+export interface EvalAssertionResult {
+  type: EvalAssertionType;
+  passed: boolean;
+  message: string;
+}
+
+export interface EvalCaseResult {
+  caseId: string | null;
+  name: string;
+  output: string;
+  passed: boolean;
+  /** Fraction of assertions that passed, 0–1 */
+  score: number;
+  assertions: EvalAssertionResult[];
+  usage: TokenUsage | null;
+  latencyMs: number;
+  error: string | null;
+}
+
+export type EvalRunStatus = "running" | "completed" | "failed";
+
+export interface EvalRun {
+  id: string;
+  datasetId: string;
+  promptId: string;
+  promptVersion: number;
+  provider: AiProvider;
+  model: string;
+  status: EvalRunStatus;
+  passed: number;
+  failed: number;
+  /** Mean case score, 0–1 */
+  score: number;
+  results: EvalCaseResult[];
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface EvalRunRequest {
+  /** Template version to evaluate; defaults to the current version */
+  version?: number;
+  /** Run against another provider/model, e.g. "mock" in CI */
+  provider?: AiProvider;
+  model?: string;
+}
@@ -1,11 +1,18 @@
 export type {
   PromptTemplate,
+  PromptTemplateVersion,
+  PromptTemplateInput,
   PromptVariable,
   ModelSettings,
   AiProvider,
   PromptExecutionRequest,
   PromptExecutionResponse,
+  StructuredOutput,
   TokenUsage,
+  PromptStreamEvent,
+  PromptStreamDelta,
+  PromptStreamDone,
+  PromptStreamError,
 } from "./prompts";
 
 export type {
@@ -33,4 +40,29 @@ export type {
   WorkflowExecution,
   WorkflowExecutionStatus,
   NodeExecution,
+  WorkflowReviewRequest,
+  WorkflowReviewDecision,
 } from "./workflows";
+
+export type {
+  EvalAssertion,
+  EvalAssertionType,
+  EvalCase,
+  EvalDataset,
+  EvalDatasetInput,
+  EvalAssertionResult,
+  EvalCaseResult,
+  EvalRunStatus,
+  EvalRun,
+  EvalRunRequest,
+} from "./evals";
+
+export type {
+  KnowledgeSourceType,
+  KnowledgeSourceRef,
+  KnowledgeSource,
+  KnowledgeIndexRequest,
+  KnowledgeIndexResult,
+  KnowledgeSearchRequest,
+  KnowledgeCitation,
+} from "./knowledge";
@@ -0,0 +1,54 @@
+/**
+ * Knowledge Base Types
+ *
+ * Blog posts, dynamic pages and uploaded files can be indexed into a
+ * workspace's knowledge base. Agents with "vector" memory retrieve the
+ * closest chunks for each turn and cite them in `citations`.
+ */
+
+export type KnowledgeSourceType = "blog_post" | "dynamic_page" | "file";
+
+export interface KnowledgeSourceRef {
+  type: KnowledgeSourceType;
+  id: string;
+}
+
+/** An indexed source and its chunk count */
+export interface KnowledgeSource extends KnowledgeSourceRef {
+  workspaceId: string;
+  title: string;
+  url: string | null;
+  chunkCount: number;
+  embeddingModel: string;
+  indexedAt: string;
+}
+
+export interface KnowledgeIndexRequest {
+  workspaceId: string;
+  source: KnowledgeSourceRef;
+}
+
+export interface KnowledgeIndexResult {
+  source: KnowledgeSource;
+  /** False when the content was unchanged since the last index */
+  reindexed: boolean;
+}
+
+export interface KnowledgeSearchRequest {
+  workspaceId: string;
+  query: string;
+  topK?: number;
+}
+
+/** A retrieved chunk; `index` is the [n] marker used in replies */
+export interface KnowledgeCitation {
+  index: number;
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string;
+  url: string | null;
+  chunkIndex: number;
+  excerpt: string;
+  /** Cosine similarity, -1–1 */
+  score: number;
+}
@@ -5,8 +5,11 @@
  * These map to the structures in the Matrx AI integration dashboard.
  */
 
+import type { ApiError } from "@matrx/shared";
+
 export interface PromptTemplate {
   id: string;
+  workspaceId: string;
   name: string;
   description: string | null;
   systemPrompt: string;
@@ -15,10 +18,41 @@ export interface PromptTemplate {
   provider: AiProvider;
   model: string;
   settings: ModelSettings;
+  /**
+   * Whether temperature-0 executions may be answered from the response
+   * cache. Disable for prompts that depend on time or external state.
+   */
+  cacheResponses: boolean;
+  /** Current saved version; every save creates a new immutable version */
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/** An immutable snapshot of a prompt template as of one save */
+export interface PromptTemplateVersion {
+  promptId: string;
+  version: number;
+  template: PromptTemplate;
+  /** Set when this version was created by rolling back to an earlier one */
+  restoredFrom: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** Fields accepted when creating or saving a prompt template */
+export interface PromptTemplateInput {
+  name: string;
+  description?: string | null;
+  systemPrompt?: string;
+  userPromptTemplate: string;
+  variables?: PromptVariable[];
+  provider: AiProvider;
+  model: string;
+  settings?: Partial<ModelSettings>;
+  cacheResponses?: boolean;
+}
+
 export interface PromptVariable {
   name: string;
   type: "string" | "number" | "boolean" | "json";
@@ -42,18 +76,45 @@ export type AiProvider =
   | "google"
   | "mistral"
   | "cohere"
-  | "custom";
+  | "custom"
+  /** Deterministic offline provider for local development and tests */
+  | "mock";
+
+/**
+ * Request a JSON reply validated against an inline JSON Schema or a
+ * registered schema (see `aiOutputSchemas` in @matrx/shared)
+ */
+export type StructuredOutput =
+  | { jsonSchema: Record<string, unknown>; name?: string }
+  | { schemaName: string };
 
 export interface PromptExecutionRequest {
   promptId: string;
+  /** Run a specific saved version instead of the current one */
+  version?: number;
   variables: Record<string, unknown>;
   overrides?: Partial<ModelSettings>;
+  /** Ask for structured output; the validated value is returned as `parsed` */
+  output?: StructuredOutput;
+  /** Respond with a server-sent-events stream instead of a single JSON body */
+  stream?: boolean;
 }
 
-export interface PromptExecutionResponse {
+export interface PromptExecutionResponse<TParsed = unknown> {
   id: string;
   promptId: string;
+  /** Template version that was executed */
+  promptVersion: number;
   content: string;
+  /** With `output`: the reply parsed and validated against the schema */
+  parsed?: TParsed;
+  /** With `output`: how many repair retries it took to get valid output */
+  repairAttempts?: number;
+  /**
+   * Served from the response cache or shared with an identical concurrent
+   * request; `usage` is then zero since no tokens were spent
+   */
+  cached?: boolean;
   usage: TokenUsage;
   latencyMs: number;
   provider: AiProvider;
@@ -65,3 +126,29 @@ export interface TokenUsage {
   completionTokens: number;
   totalTokens: number;
 }
+
+/**
+ * Server-sent event frames emitted by a streaming prompt execution.
+ *
+ * A stream is zero or more `delta` frames followed by exactly one
+ * `done` or `error` frame.
+ */
+export type PromptStreamEvent =
+  | PromptStreamDelta
+  | PromptStreamDone
+  | PromptStreamError;
+
+export interface PromptStreamDelta {
+  type: "delta";
+  content: string;
+}
+
+export interface PromptStreamDone {
+  type: "done";
+  response: Omit<PromptExecutionResponse, "content">;
+}
+
+export interface PromptStreamError {
+  type: "error";
+  error: ApiError;
+}
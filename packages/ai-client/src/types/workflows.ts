@@ -102,4 +102,29 @@ export interface NodeExecution {
   startedAt: string | null;
   completedAt: string | null;
   error: string | null;
+  /** Set on `human_review` nodes once a reviewer has decided */
+  review?: WorkflowReviewDecision | null;
+}
+
+/** The recorded outcome of a `human_review` node */
+export interface WorkflowReviewDecision {
+  decision: "approve" | "reject";
+  reviewerId: string;
+  reviewerEmail: string | null;
+  /** Whether the reviewer replaced the node's output */
+  edited: boolean;
+  comment: string | null;
+  decidedAt: string;
+}
+
+/**
+ * A reviewer's decision on a paused `human_review` node. Approving passes
+ * the node's input through unless `output` supplies an edited value;
+ * rejecting fails the node (and the run, unless the node continues on error).
+ */
+export interface WorkflowReviewRequest {
+  nodeId?: string;
+  decision: "approve" | "reject";
+  output?: unknown;
+  comment?: string;
 }
@@ -4,6 +4,8 @@
  * Shared between web and mobile.
  */
 
+import type { SubscriptionPlan } from "../types";
+
 export const APP_NAME = "Matrx";
 
 export const APP_DESCRIPTION =
@@ -59,3 +61,24 @@ export const ERROR_TRACKING = {
   CLIENT_RATE_LIMIT_WINDOW_MS: 60_000,
   EVENT_RETENTION_DAYS: 90,
 } as const;
+
+/**
+ * AI usage quotas per organization plan, over a rolling window.
+ * `null` means unlimited.
+ */
+export const AI_USAGE_QUOTAS = {
+  WINDOW_DAYS: 30,
+  PLANS: {
+    free: { requests: 500, tokens: 250_000 },
+    starter: { requests: 5_000, tokens: 5_000_000 },
+    pro: { requests: 50_000, tokens: 50_000_000 },
+    enterprise: { requests: null, tokens: null },
+  } satisfies Record<SubscriptionPlan, { requests: number | null; tokens: number | null }>,
+} as const;
+
+/** Organization invitation links */
+export const INVITATIONS = {
+  EXPIRY_DAYS: 7,
+  /** Minimum time between resends of the same invitation */
+  RESEND_COOLDOWN_SECONDS: 60,
+} as const;
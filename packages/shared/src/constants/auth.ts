@@ -0,0 +1,71 @@
+/**
+ * Sign-in Methods
+ *
+ * Which ways of signing in the web and mobile apps offer besides email
+ * and password, read from the environment like feature flags:
+ *
+ * - `AUTH_MAGIC_LINK`: "false" to hide the emailed sign-in link
+ * - `AUTH_OAUTH_PROVIDERS`: comma-separated providers, e.g. "github,google"
+ *
+ * Both take the NEXT_PUBLIC_ or EXPO_PUBLIC_ prefix. Each OAuth provider
+ * must also be enabled in the Supabase project, with the web callback
+ * (`/api/auth/callback`) and the mobile deep link (`matrx://auth/callback`)
+ * in its allowed redirect URLs.
+ */
+
+export const OAUTH_PROVIDERS = {
+  github: { label: "GitHub" },
+  google: { label: "Google" },
+} as const;
+
+export type OAuthProvider = keyof typeof OAUTH_PROVIDERS;
+
+export interface AuthMethods {
+  magicLink: boolean;
+  oauth: OAuthProvider[];
+}
+
+export const AUTH_METHOD_ENV_KEYS = {
+  magicLink: "AUTH_MAGIC_LINK",
+  oauth: "AUTH_OAUTH_PROVIDERS",
+} as const;
+
+export function isOAuthProvider(value: unknown): value is OAuthProvider {
+  return typeof value === "string" && Object.hasOwn(OAUTH_PROVIDERS, value);
+}
+
+function readEnv(env: Record<string, string | undefined>, key: string): string | undefined {
+  return env[`NEXT_PUBLIC_${key}`] ?? env[`EXPO_PUBLIC_${key}`] ?? env[key];
+}
+
+/**
+ * Resolve the enabled sign-in methods from environment variables.
+ * Unknown provider names are ignored.
+ */
+export function resolveAuthMethods(env: Record<string, string | undefined>): AuthMethods {
+  const magicLink = readEnv(env, AUTH_METHOD_ENV_KEYS.magicLink);
+  const providers = (readEnv(env, AUTH_METHOD_ENV_KEYS.oauth) ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(isOAuthProvider);
+
+  return {
+    magicLink: magicLink === undefined ? true : magicLink === "true" || magicLink === "1",
+    oauth: [...new Set(providers)],
+  };
+}
+
+/**
+ * Supabase reports a failed user insert generically; after a sign-in it
+ * means the database refused a second account for an existing email
+ * (migration 020_account_linking)
+ */
+const DUPLICATE_ACCOUNT_ERROR = "Database error saving new user";
+
+/** A readable message for an error returned to an auth callback */
+export function describeAuthError(message: string): string {
+  if (message.includes(DUPLICATE_ACCOUNT_ERROR)) {
+    return "An account with this email already exists. Sign in to it, then connect this provider from your account settings.";
+  }
+  return message;
+}
@@ -0,0 +1,147 @@
+/**
+ * Entitlements
+ *
+ * What an organization may use: the deployment's feature flags, narrowed
+ * by the organization's plan and adjusted by per-organization overrides.
+ *
+ * How it works:
+ * - Flags that are off in the environment stay off for everyone; a plan
+ *   or override cannot enable a feature the deployment is not set up for
+ * - `PLAN_FEATURES` lists the plan-gated features each plan includes;
+ *   every other flag follows the environment
+ * - `PLAN_LIMITS` caps usage per plan (`null` means unlimited)
+ * - `organizations.settings.entitlements` can grant or revoke plan-gated
+ *   features and replace limits for one organization, e.g. for a trial
+ *   or an enterprise contract:
+ *   `{ "features": { "realtime": true }, "limits": { "members": 25 } }`
+ *
+ * Usage:
+ * ```ts
+ * const entitlements = resolveEntitlements(organization, features);
+ * if (entitlements.features.realtime) { ... }
+ * ```
+ */
+
+import type { SubscriptionPlan } from "../types";
+import { AI_USAGE_QUOTAS } from "./app";
+import type { FeatureFlags } from "./features";
+
+/** Features a plan can include or leave out */
+export type PlanFeature = "aiIntegration" | "fileStorage" | "realtime";
+
+export interface EntitlementLimits {
+  /** AI executions per `AI_USAGE_QUOTAS.WINDOW_DAYS` */
+  aiRequests: number | null;
+  /** AI tokens per `AI_USAGE_QUOTAS.WINDOW_DAYS` */
+  aiTokens: number | null;
+  /** Organization members */
+  members: number | null;
+}
+
+export interface Entitlements {
+  plan: SubscriptionPlan;
+  features: FeatureFlags;
+  limits: EntitlementLimits;
+}
+
+export interface EntitlementOverrides {
+  features?: Partial<Record<PlanFeature, boolean>>;
+  limits?: Partial<EntitlementLimits>;
+}
+
+export const PLAN_FEATURES: Record<SubscriptionPlan, Record<PlanFeature, boolean>> = {
+  free: { aiIntegration: true, fileStorage: true, realtime: false },
+  starter: { aiIntegration: true, fileStorage: true, realtime: true },
+  pro: { aiIntegration: true, fileStorage: true, realtime: true },
+  enterprise: { aiIntegration: true, fileStorage: true, realtime: true },
+};
+
+export const PLAN_LIMITS: Record<SubscriptionPlan, EntitlementLimits> = {
+  free: {
+    aiRequests: AI_USAGE_QUOTAS.PLANS.free.requests,
+    aiTokens: AI_USAGE_QUOTAS.PLANS.free.tokens,
+    members: 3,
+  },
+  starter: {
+    aiRequests: AI_USAGE_QUOTAS.PLANS.starter.requests,
+    aiTokens: AI_USAGE_QUOTAS.PLANS.starter.tokens,
+    members: 10,
+  },
+  pro: {
+    aiRequests: AI_USAGE_QUOTAS.PLANS.pro.requests,
+    aiTokens: AI_USAGE_QUOTAS.PLANS.pro.tokens,
+    members: 50,
+  },
+  enterprise: {
+    aiRequests: AI_USAGE_QUOTAS.PLANS.enterprise.requests,
+    aiTokens: AI_USAGE_QUOTAS.PLANS.enterprise.tokens,
+    members: null,
+  },
+};
+
+const PLAN_FEATURE_KEYS = Object.keys(PLAN_FEATURES.free) as PlanFeature[];
+const LIMIT_KEYS = Object.keys(PLAN_LIMITS.free) as Array<keyof EntitlementLimits>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the overrides stored under `settings.entitlements`. Only the
+ * service role may write them (see 015_billing.sql). Settings are
+ * free-form JSON, so unknown keys and values of the wrong type are
+ * ignored rather than trusted.
+ */
+export function parseEntitlementOverrides(
+  settings: Record<string, unknown> | null | undefined
+): EntitlementOverrides {
+  const raw = settings?.entitlements;
+  if (!isRecord(raw)) return {};
+
+  const overrides: EntitlementOverrides = {};
+
+  if (isRecord(raw.features)) {
+    const features: Partial<Record<PlanFeature, boolean>> = {};
+    for (const key of PLAN_FEATURE_KEYS) {
+      const value = raw.features[key];
+      if (typeof value === "boolean") features[key] = value;
+    }
+    overrides.features = features;
+  }
+
+  if (isRecord(raw.limits)) {
+    const limits: Partial<EntitlementLimits> = {};
+    for (const key of LIMIT_KEYS) {
+      const value = raw.limits[key];
+      if (value === null || (typeof value === "number" && value >= 0)) {
+        limits[key] = value;
+      }
+    }
+    overrides.limits = limits;
+  }
+
+  return overrides;
+}
+
+/**
+ * Resolve an organization's entitlements from its plan and settings and
+ * the deployment's feature flags (`resolveFeatures(process.env)`).
+ */
+export function resolveEntitlements(
+  org: { plan: SubscriptionPlan; settings?: Record<string, unknown> | null },
+  flags: FeatureFlags
+): Entitlements {
+  const overrides = parseEntitlementOverrides(org.settings);
+  const features: FeatureFlags = { ...flags };
+
+  for (const key of PLAN_FEATURE_KEYS) {
+    const included = overrides.features?.[key] ?? PLAN_FEATURES[org.plan][key];
+    features[key] = flags[key] && included;
+  }
+
+  return {
+    plan: org.plan,
+    features,
+    limits: { ...PLAN_LIMITS[org.plan], ...overrides.limits },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Runtime Flag Rules
+ *
+ * Evaluation of database-stored feature flags (the `feature_flags`
+ * table), shared so web and mobile bucket users identically.
+ *
+ * A rule is evaluated in order:
+ * 1. Off when `enabled` is false
+ * 2. When targets are set, on only for a matching role or organization
+ * 3. On for `rolloutPercentage`% of users, bucketed by a stable hash of
+ *    the flag key and user id, so a user keeps their bucket as the
+ *    percentage grows and different flags roll out to different users
+ *
+ * Partial rollouts need a user id; anonymous requests are outside them.
+ */
+
+export interface FeatureFlagRule {
+  key: string;
+  enabled: boolean;
+  /** 0–100 */
+  rolloutPercentage: number;
+  targetRoles: string[];
+  targetOrganizationIds: string[];
+}
+
+/** Who a flag is being evaluated for */
+export interface FlagContext {
+  userId?: string | null;
+  /** Profile role (super_admin, admin, member, viewer) */
+  role?: string | null;
+  organizationId?: string | null;
+}
+
+/** FNV-1a, 32-bit: small, fast and identical on every platform */
+function hash32(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The user's rollout bucket for a flag, 0–99 */
+export function rolloutBucket(key: string, userId: string): number {
+  return hash32(`${key}:${userId}`) % 100;
+}
+
+export function evaluateFlagRule(rule: FeatureFlagRule, context: FlagContext = {}): boolean {
+  if (!rule.enabled) return false;
+
+  const targeted = rule.targetRoles.length > 0 || rule.targetOrganizationIds.length > 0;
+  if (targeted) {
+    const roleMatch = !!context.role && rule.targetRoles.includes(context.role);
+    const orgMatch =
+      !!context.organizationId && rule.targetOrganizationIds.includes(context.organizationId);
+    if (!roleMatch && !orgMatch) return false;
+  }
+
+  if (rule.rolloutPercentage >= 100) return true;
+  if (rule.rolloutPercentage <= 0 || !context.userId) return false;
+  return rolloutBucket(rule.key, context.userId) < rule.rolloutPercentage;
+}
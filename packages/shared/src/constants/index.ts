@@ -6,6 +6,8 @@ export {
   UPLOAD_LIMITS,
   STORAGE_BUCKETS,
   ERROR_TRACKING,
+  AI_USAGE_QUOTAS,
+  INVITATIONS,
 } from "./app";
 
 export {
@@ -15,3 +17,54 @@ export {
   checkFeatureDependencies,
 } from "./features";
 export type { FeatureFlags } from "./features";
+
+export {
+  PLAN_FEATURES,
+  PLAN_LIMITS,
+  parseEntitlementOverrides,
+  resolveEntitlements,
+} from "./entitlements";
+export type {
+  PlanFeature,
+  EntitlementLimits,
+  Entitlements,
+  EntitlementOverrides,
+} from "./entitlements";
+
+export { rolloutBucket, evaluateFlagRule } from "./flag-rules";
+export type { FeatureFlagRule, FlagContext } from "./flag-rules";
+
+export {
+  PLATFORM_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
+  PROFILE_ROLE_PERMISSIONS,
+  ORG_ROLE_PERMISSIONS,
+  isOrganizationPermission,
+  can,
+  permissionsFor,
+} from "./permissions";
+export type {
+  PlatformPermission,
+  OrganizationPermission,
+  Permission,
+  PermissionSubject,
+  PermissionOrganization,
+  UserPermissions,
+} from "./permissions";
+
+export {
+  OAUTH_PROVIDERS,
+  AUTH_METHOD_ENV_KEYS,
+  isOAuthProvider,
+  resolveAuthMethods,
+  describeAuthError,
+} from "./auth";
+export type { OAuthProvider, AuthMethods } from "./auth";
+
+export {
+  MFA,
+  organizationRequiresMfa,
+  normalizeRecoveryCode,
+  formatRecoveryCode,
+} from "./mfa";
+export type { MfaStatus } from "./mfa";
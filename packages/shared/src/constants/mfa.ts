@@ -0,0 +1,53 @@
+/**
+ * Multi-factor Authentication
+ *
+ * TOTP factors are Supabase MFA factors; a session that verified one is
+ * at assurance level `aal2`. Recovery codes are this app's own: one-time
+ * codes, stored hashed (migration 021_mfa_recovery_codes), that turn
+ * two-factor authentication off when the authenticator is lost.
+ *
+ * A signed-in user must verify their factor when they have one, and set
+ * one up before reaching the admin portal or an organization whose
+ * `settings.require_mfa` is true.
+ */
+
+export const MFA = {
+  /** Codes issued per set; a new set replaces the previous one */
+  RECOVERY_CODE_COUNT: 10,
+  RECOVERY_CODE_LENGTH: 10,
+  /** Unambiguous characters: no 0, 1, I or O */
+  RECOVERY_CODE_ALPHABET: "23456789ABCDEFGHJKLMNPQRSTUVWXYZ",
+  /** Key in `organizations.settings` */
+  ORGANIZATION_SETTING: "require_mfa",
+} as const;
+
+/** The caller's MFA state, as returned by GET /api/auth/mfa */
+export interface MfaStatus {
+  /** A verified TOTP factor exists */
+  enrolled: boolean;
+  /** The session verified it (assurance level aal2) */
+  verified: boolean;
+  /** Names of the organizations that require MFA of their members */
+  requiredBy: string[];
+  /** Unused recovery codes; null when MFA is not set up */
+  recoveryCodesRemaining: number | null;
+}
+
+/** Whether an organization's settings require MFA of its members */
+export function organizationRequiresMfa(
+  settings: Record<string, unknown> | null | undefined
+): boolean {
+  return settings?.[MFA.ORGANIZATION_SETTING] === true;
+}
+
+/** A recovery code as stored and compared: uppercase, without separators */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+/** A recovery code as shown to the user, e.g. "ABCDE-23456" */
+export function formatRecoveryCode(code: string): string {
+  const normalized = normalizeRecoveryCode(code);
+  const half = Math.ceil(normalized.length / 2);
+  return `${normalized.slice(0, half)}-${normalized.slice(half)}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Permissions
+ *
+ * One permission model for web, API routes and mobile. Code asks whether
+ * a user `can` do something by name instead of comparing role strings.
+ *
+ * Two role sources grant permissions:
+ * - `profiles.role` (super_admin, admin, member, viewer) grants platform
+ *   permissions: the admin portal, content and operations
+ * - `organization_members.role` (owner, admin, member, viewer) grants
+ *   organization permissions, only within that organization
+ *
+ * Platform roles do not grant organization permissions, and organization
+ * roles never grant platform ones. `user_metadata.role` is not used: users
+ * can edit their own metadata.
+ *
+ * Usage:
+ * ```ts
+ * can({ role: profile.role }, "errors.resolve");
+ * can({ role: profile.role }, "members.invite", { role: membership.role });
+ * ```
+ */
+
+import type { OrgMemberRole, ProfileRole } from "../types";
+
+export const PLATFORM_PERMISSIONS = [
+  "admin.access",
+  "users.manage",
+  "blog.publish",
+  "pages.manage",
+  "files.manage",
+  "errors.view",
+  "errors.resolve",
+  "audit.view",
+  "versions.manage",
+  "workflows.review",
+  "settings.manage",
+] as const;
+
+export const ORGANIZATION_PERMISSIONS = [
+  "organization.view",
+  "organization.update",
+  "organization.transfer",
+  "organization.security",
+  "members.view",
+  "members.invite",
+  "members.manage",
+  "billing.manage",
+  "ai.use",
+  "ai.manage",
+] as const;
+
+export type PlatformPermission = (typeof PLATFORM_PERMISSIONS)[number];
+export type OrganizationPermission = (typeof ORGANIZATION_PERMISSIONS)[number];
+export type Permission = PlatformPermission | OrganizationPermission;
+
+const STAFF_PERMISSIONS: readonly PlatformPermission[] = [
+  "admin.access",
+  "blog.publish",
+  "pages.manage",
+  "files.manage",
+  "errors.view",
+  "errors.resolve",
+  "audit.view",
+  "versions.manage",
+  "workflows.review",
+];
+
+/** Platform permissions of each `profiles.role` */
+export const PROFILE_ROLE_PERMISSIONS: Record<ProfileRole, readonly PlatformPermission[]> = {
+  super_admin: PLATFORM_PERMISSIONS,
+  admin: STAFF_PERMISSIONS,
+  member: [],
+  viewer: [],
+};
+
+/** Organization permissions of each `organization_members.role` */
+export const ORG_ROLE_PERMISSIONS: Record<OrgMemberRole, readonly OrganizationPermission[]> = {
+  owner: ORGANIZATION_PERMISSIONS,
+  admin: [
+    "organization.view",
+    "organization.update",
+    "members.view",
+    "members.invite",
+    "members.manage",
+    "billing.manage",
+    "ai.use",
+    "ai.manage",
+  ],
+  member: ["organization.view", "members.view", "ai.use"],
+  viewer: ["organization.view", "members.view"],
+};
+
+/** Who is asking: their `profiles.role` */
+export interface PermissionSubject {
+  role?: ProfileRole | null;
+}
+
+/** Their membership in the organization the action concerns */
+export interface PermissionOrganization {
+  role?: OrgMemberRole | null;
+}
+
+export function isOrganizationPermission(
+  permission: Permission
+): permission is OrganizationPermission {
+  return (ORGANIZATION_PERMISSIONS as readonly string[]).includes(permission);
+}
+
+/**
+ * Whether the user holds `permission`. Organization permissions need the
+ * user's membership in the organization; without it they are denied.
+ */
+export function can(
+  user: PermissionSubject | null | undefined,
+  permission: Permission,
+  org?: PermissionOrganization | null
+): boolean {
+  if (isOrganizationPermission(permission)) {
+    const role = org?.role;
+    return !!role && ORG_ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  const role = user?.role;
+  return !!role && PROFILE_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/** The caller's roles and permissions, as returned by GET /api/permissions */
+export interface UserPermissions {
+  role: ProfileRole | null;
+  organizationId: string | null;
+  organizationRole: OrgMemberRole | null;
+  permissions: Permission[];
+}
+
+/** Every permission the user holds, e.g. for clients deciding what to show */
+export function permissionsFor(
+  user: PermissionSubject | null | undefined,
+  org?: PermissionOrganization | null
+): Permission[] {
+  return [
+    ...(user?.role ? PROFILE_ROLE_PERMISSIONS[user.role] : []),
+    ...(org?.role ? ORG_ROLE_PERMISSIONS[org.role] : []),
+  ];
+}
@@ -0,0 +1,266 @@
+import { z } from "zod";
+
+/**
+ * AI Validation Schemas
+ *
+ * Shared validation for prompt templates and their execution requests.
+ */
+
+// ============================================================================
+// Prompt Templates
+// ============================================================================
+
+export const aiProviderSchema = z.enum([
+  "openai",
+  "anthropic",
+  "google",
+  "mistral",
+  "cohere",
+  "custom",
+  "mock",
+]);
+
+export const promptVariableSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Variable name is required")
+    .max(64, "Variable name must be at most 64 characters")
+    .regex(/^[\w.-]+$/, "Variable names may only contain letters, numbers, _, . and -"),
+  type: z.enum(["string", "number", "boolean", "json"]),
+  description: z.string().max(500).default(""),
+  required: z.boolean().default(false),
+  defaultValue: z.string().optional(),
+});
+
+export const modelSettingsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().max(200_000).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  frequencyPenalty: z.number().min(-2).max(2).optional(),
+  presencePenalty: z.number().min(-2).max(2).optional(),
+  stopSequences: z.array(z.string().min(1)).max(8).optional(),
+});
+
+const promptTemplateFields = {
+  name: z
+    .string()
+    .min(2, "Name must be at least 2 characters")
+    .max(100, "Name must be at most 100 characters"),
+  description: z
+    .string()
+    .max(500, "Description must be at most 500 characters")
+    .nullable()
+    .optional(),
+  systemPrompt: z.string().max(50_000),
+  userPromptTemplate: z
+    .string()
+    .min(1, "User prompt template is required")
+    .max(50_000),
+  variables: z
+    .array(promptVariableSchema)
+    .max(50)
+    .refine(
+      (variables) => new Set(variables.map((v) => v.name)).size === variables.length,
+      "Variable names must be unique"
+    ),
+  provider: aiProviderSchema,
+  model: z.string().min(1, "Model is required").max(200),
+  settings: modelSettingsSchema,
+  cacheResponses: z.boolean(),
+};
+
+export const createPromptTemplateSchema = z.object({
+  workspaceId: z.string().uuid("Invalid workspace ID"),
+  ...promptTemplateFields,
+  systemPrompt: promptTemplateFields.systemPrompt.default(""),
+  variables: promptTemplateFields.variables.default([]),
+  settings: promptTemplateFields.settings.default({}),
+  cacheResponses: promptTemplateFields.cacheResponses.default(true),
+});
+
+export const updatePromptTemplateSchema = z.object(promptTemplateFields).partial();
+
+export const rollbackPromptTemplateSchema = z.object({
+  version: z.number().int().positive("Version must be a positive integer"),
+});
+
+// ============================================================================
+// Evaluations
+// ============================================================================
+
+export const evalAssertionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("contains"),
+    value: z.string().min(1),
+    caseSensitive: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("regex"),
+    pattern: z.string().min(1),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, "Only the i, m, s and u flags are supported")
+      .optional(),
+  }),
+  z.object({
+    type: z.literal("json_schema"),
+    schema: z.record(z.string(), z.unknown()),
+  }),
+  z.object({
+    type: z.literal("max_tokens"),
+    value: z.number().int().positive(),
+  }),
+]);
+
+export const evalCaseSchema = z.object({
+  name: z.string().min(1, "Case name is required").max(200),
+  variables: z.record(z.string(), z.unknown()).default({}),
+  assertions: z.array(evalAssertionSchema).min(1, "Add at least one assertion").max(20),
+});
+
+const evalCasesSchema = z.array(evalCaseSchema).min(1, "Add at least one case").max(200);
+
+export const createEvalDatasetSchema = z.object({
+  promptId: z.string().uuid("Invalid prompt ID"),
+  name: promptTemplateFields.name,
+  description: promptTemplateFields.description,
+  cases: evalCasesSchema,
+});
+
+export const updateEvalDatasetSchema = z
+  .object({
+    name: promptTemplateFields.name,
+    description: promptTemplateFields.description,
+    cases: evalCasesSchema,
+  })
+  .partial();
+
+export const runEvalSchema = z.object({
+  version: z.number().int().positive().optional(),
+  provider: aiProviderSchema.optional(),
+  model: z.string().min(1).max(200).optional(),
+});
+
+/** An offline suite file: a template definition plus its cases (scripts/eval.ts) */
+export const evalSuiteSchema = z.object({
+  name: z.string().min(1),
+  template: createPromptTemplateSchema.omit({ workspaceId: true }),
+  cases: evalCasesSchema,
+});
+
+// ============================================================================
+// Structured Output
+// ============================================================================
+
+/**
+ * Output schemas prompts can request by name (`output.schemaName`).
+ * Clients can type `parsed` as `AiOutput<"classification">` etc.; the
+ * server may register further schemas (lib/ai/structured-output).
+ */
+export const aiOutputSchemas = {
+  classification: z.object({
+    label: z.string(),
+    confidence: z.number().min(0).max(1),
+  }),
+  sentiment: z.object({
+    sentiment: z.enum(["positive", "neutral", "negative"]),
+    score: z.number().min(-1).max(1),
+  }),
+  summary: z.object({
+    summary: z.string(),
+    keyPoints: z.array(z.string()),
+  }),
+} as const;
+
+export type AiOutputSchemaName = keyof typeof aiOutputSchemas;
+export type AiOutput<N extends AiOutputSchemaName> = z.infer<(typeof aiOutputSchemas)[N]>;
+
+/** Either an inline JSON Schema or the name of a registered schema */
+export const structuredOutputSchema = z.union([
+  z
+    .object({
+      jsonSchema: z.record(z.string(), z.unknown()),
+      name: z
+        .string()
+        .regex(/^[A-Za-z0-9_-]{1,64}$/, "Schema names may only contain letters, numbers, _ and -")
+        .optional(),
+    })
+    .strict(),
+  z.object({ schemaName: z.string().min(1).max(64) }).strict(),
+]);
+
+/** POST /api/ai/chat */
+export const promptExecutionRequestSchema = z.object({
+  promptId: z.string().uuid("Invalid prompt ID"),
+  version: z.number().int().positive().optional(),
+  variables: z.record(z.string(), z.unknown()).default({}),
+  overrides: modelSettingsSchema.optional(),
+  output: structuredOutputSchema.optional(),
+  stream: z.boolean().optional(),
+});
+
+export const attachmentSchema = z.object({
+  fileId: z.string().uuid("Invalid file ID"),
+  type: z.enum(["image", "file", "audio"]).optional(),
+  url: z.string().optional(),
+  mimeType: z.string().optional(),
+  name: z.string().optional(),
+});
+
+/** POST /api/ai/agents */
+export const agentChatRequestSchema = z.object({
+  agentId: z.string().uuid("Invalid agent ID"),
+  conversationId: z.string().uuid("Invalid conversation ID").optional(),
+  message: z.string().min(1, "Message is required").max(32_000),
+  attachments: z.array(attachmentSchema).max(10, "At most 10 attachments").optional(),
+});
+
+/** POST /api/ai/workflows */
+export const workflowExecutionRequestSchema = z.object({
+  workflowId: z.string().uuid("Invalid workflow ID"),
+  inputs: z.record(z.string(), z.unknown()).default({}),
+  async: z.boolean().optional(),
+});
+
+/** POST /api/ai/workflows/:id/review */
+export const workflowReviewRequestSchema = z.object({
+  nodeId: z.string().min(1).optional(),
+  decision: z.enum(["approve", "reject"], 'decision must be "approve" or "reject"'),
+  output: z.unknown().optional(),
+  comment: z.string().max(2000).optional(),
+});
+
+export const knowledgeSourceRefSchema = z.object({
+  type: z.enum(["blog_post", "dynamic_page", "file"]),
+  id: z.string().uuid("Invalid source ID"),
+});
+
+export const indexKnowledgeSourceSchema = z.object({
+  workspaceId: z.string().uuid("Invalid workspace ID"),
+  source: knowledgeSourceRefSchema,
+});
+
+export const searchKnowledgeSchema = z.object({
+  workspaceId: z.string().uuid("Invalid workspace ID"),
+  query: z.string().min(1, "Query is required").max(2000),
+  topK: z.number().int().min(1).max(20).optional(),
+});
+
+export type PromptVariableInput = z.infer<typeof promptVariableSchema>;
+export type CreatePromptTemplateInput = z.infer<typeof createPromptTemplateSchema>;
+export type UpdatePromptTemplateInput = z.infer<typeof updatePromptTemplateSchema>;
+export type RollbackPromptTemplateInput = z.infer<typeof rollbackPromptTemplateSchema>;
+export type EvalAssertionInput = z.infer<typeof evalAssertionSchema>;
+export type EvalCaseInput = z.infer<typeof evalCaseSchema>;
+export type CreateEvalDatasetInput = z.infer<typeof createEvalDatasetSchema>;
+export type UpdateEvalDatasetInput = z.infer<typeof updateEvalDatasetSchema>;
+export type RunEvalInput = z.infer<typeof runEvalSchema>;
+export type EvalSuiteInput = z.infer<typeof evalSuiteSchema>;
+export type StructuredOutputInput = z.infer<typeof structuredOutputSchema>;
+export type PromptExecutionRequestInput = z.infer<typeof promptExecutionRequestSchema>;
+export type AgentChatRequestInput = z.infer<typeof agentChatRequestSchema>;
+export type WorkflowExecutionRequestInput = z.infer<typeof workflowExecutionRequestSchema>;
+export type WorkflowReviewRequestInput = z.infer<typeof workflowReviewRequestSchema>;
+export type KnowledgeSourceRefInput = z.infer<typeof knowledgeSourceRefSchema>;
+export type IndexKnowledgeSourceInput = z.infer<typeof indexKnowledgeSourceSchema>;
+export type SearchKnowledgeInput = z.infer<typeof searchKnowledgeSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { MFA, normalizeRecoveryCode } from "../constants/mfa";
 
 /**
  * Authentication Validation Schemas
@@ -42,6 +43,29 @@ export const updateProfileSchema = z.object({
   avatarUrl: z.string().url("Invalid URL").optional(),
 });
 
+/** The current code of an authenticator app */
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+/** A recovery code, with or without its dash */
+export const recoveryCodeSchema = z
+  .string()
+  .transform(normalizeRecoveryCode)
+  .refine((code) => code.length === MFA.RECOVERY_CODE_LENGTH, "Invalid recovery code");
+
+export const verifyMfaSchema = z.object({
+  factorId: z.string().uuid("Invalid factor"),
+  code: totpCodeSchema,
+});
+
+export const redeemRecoveryCodeSchema = z.object({
+  code: recoveryCodeSchema,
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type VerifyMfaInput = z.infer<typeof verifyMfaSchema>;
+export type RedeemRecoveryCodeInput = z.infer<typeof redeemRecoveryCodeSchema>;
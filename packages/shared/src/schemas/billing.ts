@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+/**
+ * Billing Validation Schemas
+ *
+ * Request bodies for the Stripe Checkout and Billing Portal routes.
+ * `organizationId` defaults to the caller's billing organization.
+ */
+
+/** Paid plans that can be bought through Checkout */
+export const paidPlanSchema = z.enum(["starter", "pro", "enterprise"]);
+
+export const createCheckoutSessionSchema = z.object({
+  organizationId: z.string().uuid("Invalid ID format").optional(),
+  plan: paidPlanSchema,
+});
+
+export const createPortalSessionSchema = z.object({
+  organizationId: z.string().uuid("Invalid ID format").optional(),
+});
+
+export type CreateCheckoutSessionInput = z.infer<typeof createCheckoutSessionSchema>;
+export type CreatePortalSessionInput = z.infer<typeof createPortalSessionSchema>;
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+/**
+ * Feature Flag Validation Schemas
+ *
+ * Admin edits to runtime feature flags (the `feature_flags` table).
+ */
+
+export const featureFlagKeySchema = z
+  .string()
+  .min(1, "Key is required")
+  .max(100, "Key must be at most 100 characters")
+  .regex(
+    /^[a-zA-Z][a-zA-Z0-9_.-]*$/,
+    "Key must start with a letter and contain only letters, digits, _, . and -"
+  );
+
+export const updateFeatureFlagSchema = z.object({
+  key: featureFlagKeySchema,
+  description: z.string().max(500).optional(),
+  enabled: z.boolean(),
+  rolloutPercentage: z.coerce.number().int().min(0).max(100).default(100),
+  targetRoles: z
+    .array(z.enum(["super_admin", "admin", "member", "viewer"]))
+    .default([]),
+  targetOrganizationIds: z.array(z.string().uuid("Invalid organization ID")).default([]),
+});
+
+export type UpdateFeatureFlagInput = z.infer<typeof updateFeatureFlagSchema>;
@@ -4,8 +4,18 @@ export {
   loginSchema,
   registerSchema,
   updateProfileSchema,
+  totpCodeSchema,
+  recoveryCodeSchema,
+  verifyMfaSchema,
+  redeemRecoveryCodeSchema,
+} from "./auth";
+export type {
+  LoginInput,
+  RegisterInput,
+  UpdateProfileInput,
+  VerifyMfaInput,
+  RedeemRecoveryCodeInput,
 } from "./auth";
-export type { LoginInput, RegisterInput, UpdateProfileInput } from "./auth";
 
 export {
   uuidSchema,
@@ -49,3 +59,81 @@ export type {
   ErrorGroupFilterInput,
   UpdateErrorGroupInput,
 } from "./errors";
+
+export {
+  aiProviderSchema,
+  promptVariableSchema,
+  modelSettingsSchema,
+  createPromptTemplateSchema,
+  updatePromptTemplateSchema,
+  rollbackPromptTemplateSchema,
+  evalAssertionSchema,
+  evalCaseSchema,
+  createEvalDatasetSchema,
+  updateEvalDatasetSchema,
+  runEvalSchema,
+  evalSuiteSchema,
+  aiOutputSchemas,
+  structuredOutputSchema,
+  promptExecutionRequestSchema,
+  attachmentSchema,
+  agentChatRequestSchema,
+  workflowExecutionRequestSchema,
+  workflowReviewRequestSchema,
+  knowledgeSourceRefSchema,
+  indexKnowledgeSourceSchema,
+  searchKnowledgeSchema,
+} from "./ai";
+export type {
+  PromptVariableInput,
+  CreatePromptTemplateInput,
+  UpdatePromptTemplateInput,
+  RollbackPromptTemplateInput,
+  EvalAssertionInput,
+  EvalCaseInput,
+  CreateEvalDatasetInput,
+  UpdateEvalDatasetInput,
+  RunEvalInput,
+  EvalSuiteInput,
+  AiOutputSchemaName,
+  AiOutput,
+  StructuredOutputInput,
+  PromptExecutionRequestInput,
+  AgentChatRequestInput,
+  WorkflowExecutionRequestInput,
+  WorkflowReviewRequestInput,
+  KnowledgeSourceRefInput,
+  IndexKnowledgeSourceInput,
+  SearchKnowledgeInput,
+} from "./ai";
+
+export {
+  paidPlanSchema,
+  createCheckoutSessionSchema,
+  createPortalSessionSchema,
+} from "./billing";
+export type {
+  CreateCheckoutSessionInput,
+  CreatePortalSessionInput,
+} from "./billing";
+
+export { featureFlagKeySchema, updateFeatureFlagSchema } from "./flags";
+export type { UpdateFeatureFlagInput } from "./flags";
+
+export {
+  assignableRoleSchema,
+  createOrganizationSchema,
+  switchOrganizationSchema,
+  updateMemberRoleSchema,
+  transferOwnershipSchema,
+  inviteMemberSchema,
+  acceptInvitationSchema,
+} from "./organizations";
+export type {
+  CreateOrganizationInput,
+  SwitchOrganizationInput,
+  UpdateMemberRoleInput,
+  TransferOwnershipInput,
+  InviteMemberInput,
+  AcceptInvitationInput,
+} from "./organizations";
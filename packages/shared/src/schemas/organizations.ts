@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+/**
+ * Organization Validation Schemas
+ *
+ * Organization creation, switching, team management and invitations.
+ */
+
+/** Roles that can be assigned; ownership moves only by transfer */
+export const assignableRoleSchema = z.enum(["admin", "member", "viewer"]);
+
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Name must be at least 2 characters")
+    .max(100, "Name must be at most 100 characters"),
+  slug: z
+    .string()
+    .min(2, "Slug must be at least 2 characters")
+    .max(60, "Slug must be at most 60 characters")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may contain lowercase letters, digits and dashes")
+    .optional(),
+  description: z
+    .string()
+    .max(500, "Description must be at most 500 characters")
+    .optional(),
+});
+
+export const switchOrganizationSchema = z.object({
+  organizationId: z.string().uuid("Invalid ID format"),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: assignableRoleSchema,
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.string().uuid("Invalid ID format"),
+});
+
+export const inviteMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  role: assignableRoleSchema.default("member"),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(32, "Invalid invitation token").max(128, "Invalid invitation token"),
+});
+
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+export type SwitchOrganizationInput = z.infer<typeof switchOrganizationSchema>;
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
+export type TransferOwnershipInput = z.infer<typeof transferOwnershipSchema>;
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
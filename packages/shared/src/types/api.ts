@@ -39,12 +39,37 @@ export interface PaginationParams {
 export const API_ROUTES = {
   // Auth
   AUTH_CALLBACK: "/api/auth/callback",
+  MFA_STATUS: "/api/auth/mfa",
+  MFA_RECOVERY_CODES: "/api/auth/mfa/recovery-codes",
+  MFA_RECOVER: "/api/auth/mfa/recover",
 
   // AI Integration
   AI_CHAT: "/api/ai/chat",
   AI_WORKFLOWS: "/api/ai/workflows",
   AI_AGENTS: "/api/ai/agents",
 
+  // Organizations
+  ORGANIZATIONS: "/api/organizations",
+  ORGANIZATION_ACTIVE: "/api/organizations/active",
+  ORGANIZATION_MEMBERS: "/api/organizations/:id/members",
+  ORGANIZATION_MEMBER: "/api/organizations/:id/members/:userId",
+  ORGANIZATION_TRANSFER: "/api/organizations/:id/transfer",
+  ORGANIZATION_LEAVE: "/api/organizations/:id/leave",
+  ORGANIZATION_INVITATIONS: "/api/organizations/:id/invitations",
+  ORGANIZATION_INVITATION: "/api/organizations/:id/invitations/:invitationId",
+  ORGANIZATION_INVITATION_RESEND: "/api/organizations/:id/invitations/:invitationId/resend",
+  INVITATION_ACCEPT: "/api/invitations/accept",
+
+  // Billing
+  BILLING_CHECKOUT: "/api/billing/checkout",
+  BILLING_PORTAL: "/api/billing/portal",
+
+  // Entitlements
+  ENTITLEMENTS: "/api/entitlements",
+
+  // Permissions
+  PERMISSIONS: "/api/permissions",
+
   // Webhooks
   STRIPE_WEBHOOK: "/api/webhooks/stripe",
 
@@ -4,19 +4,22 @@
  * Shared auth-related type definitions used across web and mobile.
  */
 
+import type { OrgMemberRole, ProfileRole } from "./database";
+
 export interface User {
   id: string;
   email: string;
   fullName: string | null;
   avatarUrl: string | null;
-  role: UserRole;
+  /** Platform role from `profiles.role` */
+  role: ProfileRole;
   organizationId: string | null;
+  /** Role in `organizationId`, from `organization_members.role` */
+  organizationRole: OrgMemberRole | null;
   createdAt: string;
   updatedAt: string;
 }
 
-export type UserRole = "owner" | "admin" | "member" | "viewer";
-
 export interface Session {
   accessToken: string;
   refreshToken: string;
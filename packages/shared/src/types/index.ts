@@ -9,7 +9,6 @@ export { API_ROUTES } from "./api";
 
 export type {
   User,
-  UserRole,
   Session,
   AuthState,
   LoginCredentials,
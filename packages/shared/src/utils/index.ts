@@ -5,5 +5,6 @@ export {
   getInitials,
   formatNumber,
   formatFileSize,
+  formatCurrency,
 } from "./format";
 export { errorReporter } from "./error-reporter";
@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Migration: 007_agent_conversations
+-- Description: Persisted agent conversations and messages
+-- ============================================================================
+
+-- ============================================================================
+-- AGENT CONVERSATIONS
+-- ============================================================================
+create table public.agent_conversations (
+  id uuid primary key default uuid_generate_v4(),
+  agent_id uuid not null references public.ai_integrations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text,
+  -- Rolling summary of messages that have left the context window ("summary" memory)
+  summary text,
+  metadata jsonb not null default '{}'::jsonb,
+  message_count int not null default 0,
+  total_tokens int not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.agent_conversations is 'Agent chat sessions, shared across web and mobile';
+
+create trigger agent_conversations_updated_at
+  before update on public.agent_conversations
+  for each row execute function public.update_updated_at();
+
+alter table public.agent_conversations enable row level security;
+
+create policy "Users can view own conversations"
+  on public.agent_conversations for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can manage own conversations"
+  on public.agent_conversations for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create index idx_agent_conversations_user on public.agent_conversations(user_id, updated_at desc);
+create index idx_agent_conversations_agent on public.agent_conversations(agent_id);
+
+-- ============================================================================
+-- AGENT MESSAGES
+-- ============================================================================
+create table public.agent_messages (
+  id uuid primary key default uuid_generate_v4(),
+  conversation_id uuid not null references public.agent_conversations(id) on delete cascade,
+  role text not null check (role in ('system', 'user', 'assistant', 'tool')),
+  content text not null default '',
+  tool_calls jsonb,
+  tool_results jsonb,
+  token_count int not null default 0,
+  -- Folded into the conversation summary; kept for history, excluded from context
+  is_summarized boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.agent_messages is 'Messages within an agent conversation';
+
+alter table public.agent_messages enable row level security;
+
+create policy "Users can view own conversation messages"
+  on public.agent_messages for select
+  to authenticated
+  using (
+    conversation_id in (
+      select id from public.agent_conversations
+      where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can manage own conversation messages"
+  on public.agent_messages for all
+  to authenticated
+  using (
+    conversation_id in (
+      select id from public.agent_conversations
+      where user_id = auth.uid()
+    )
+  )
+  with check (
+    conversation_id in (
+      select id from public.agent_conversations
+      where user_id = auth.uid()
+    )
+  );
+
+create index idx_agent_messages_conversation on public.agent_messages(conversation_id, created_at);
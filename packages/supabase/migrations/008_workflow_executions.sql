@@ -0,0 +1,86 @@
+-- ============================================================================
+-- Migration: 008_workflow_executions
+-- Description: Persisted workflow runs and per-node execution records
+-- ============================================================================
+
+-- ============================================================================
+-- WORKFLOW EXECUTIONS
+-- ============================================================================
+create table public.workflow_executions (
+  id uuid primary key default uuid_generate_v4(),
+  workflow_id uuid not null references public.ai_integrations(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  -- Definition version the run started with
+  workflow_version int not null default 1,
+  status text not null default 'pending' check (status in ('pending', 'running', 'completed', 'failed', 'cancelled', 'waiting_for_review')),
+  trigger_type text not null default 'manual' check (trigger_type in ('manual', 'schedule', 'webhook', 'event', 'api')),
+  inputs jsonb not null default '{}'::jsonb,
+  outputs jsonb,
+  error text,
+  triggered_by uuid references auth.users(id) on delete set null,
+  started_at timestamptz not null default now(),
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.workflow_executions is 'Workflow runs with their inputs, outputs and status';
+
+create trigger workflow_executions_updated_at
+  before update on public.workflow_executions
+  for each row execute function public.update_updated_at();
+
+alter table public.workflow_executions enable row level security;
+
+-- Runs are written by the engine with the service role; members can read
+create policy "Workspace members can view workflow executions"
+  on public.workflow_executions for select
+  to authenticated
+  using (
+    workspace_id in (
+      select w.id from public.workspaces w
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid()
+    )
+  );
+
+create index idx_workflow_executions_workflow on public.workflow_executions(workflow_id, started_at desc);
+create index idx_workflow_executions_status on public.workflow_executions(status);
+
+-- ============================================================================
+-- WORKFLOW NODE EXECUTIONS
+-- ============================================================================
+create table public.workflow_node_executions (
+  id uuid primary key default uuid_generate_v4(),
+  execution_id uuid not null references public.workflow_executions(id) on delete cascade,
+  node_id text not null,
+  status text not null default 'pending' check (status in ('pending', 'running', 'completed', 'failed', 'skipped')),
+  input jsonb,
+  output jsonb,
+  error text,
+  -- Reviewer's decision on a human_review node:
+  -- { decision, reviewer_id, reviewer_email, edited, comment, decided_at }
+  review jsonb,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (execution_id, node_id)
+);
+
+comment on table public.workflow_node_executions is 'Per-node state for a workflow run';
+
+alter table public.workflow_node_executions enable row level security;
+
+create policy "Workspace members can view node executions"
+  on public.workflow_node_executions for select
+  to authenticated
+  using (
+    execution_id in (
+      select e.id from public.workflow_executions e
+      join public.workspaces w on e.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid()
+    )
+  );
+
+create index idx_workflow_node_executions_execution on public.workflow_node_executions(execution_id);
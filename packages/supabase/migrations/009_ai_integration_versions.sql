@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration: 009_ai_integration_versions
+-- Description: Immutable saved versions of AI integrations (prompts, agents,
+--              workflows). The ai_integrations row holds the current version.
+-- ============================================================================
+
+create table public.ai_integration_versions (
+  id uuid primary key default uuid_generate_v4(),
+  integration_id uuid not null references public.ai_integrations(id) on delete cascade,
+  version int not null,
+  name text not null,
+  description text,
+  config jsonb not null default '{}'::jsonb,
+  -- Set when this version was created by rolling back to an earlier one
+  restored_from int,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (integration_id, version)
+);
+
+comment on table public.ai_integration_versions is 'Immutable snapshots of ai_integrations, one per save';
+
+-- Versions are never edited, not even with the service role
+create or replace function public.prevent_version_update()
+returns trigger as $$
+begin
+  raise exception 'ai_integration_versions rows are immutable';
+end;
+$$ language plpgsql;
+
+create trigger ai_integration_versions_immutable
+  before update on public.ai_integration_versions
+  for each row execute function public.prevent_version_update();
+
+alter table public.ai_integration_versions enable row level security;
+
+create policy "Workspace members can view integration versions"
+  on public.ai_integration_versions for select
+  to authenticated
+  using (
+    integration_id in (
+      select i.id from public.ai_integrations i
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid()
+    )
+  );
+
+create policy "Workspace admins can create integration versions"
+  on public.ai_integration_versions for insert
+  to authenticated
+  with check (
+    integration_id in (
+      select i.id from public.ai_integrations i
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  );
+
+create index idx_ai_integration_versions_integration on public.ai_integration_versions(integration_id, version desc);
+
+-- Existing integrations start their history at their current version
+insert into public.ai_integration_versions (integration_id, version, name, description, config)
+select id, version, name, description, config from public.ai_integrations;
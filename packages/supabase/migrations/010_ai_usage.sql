@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Migration: 010_ai_usage
+-- Description: Usage ledger for AI executions, used for metering, per-plan
+--              quotas and dashboard stats
+-- ============================================================================
+
+create table public.ai_usage_events (
+  id uuid primary key default uuid_generate_v4(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  workspace_id uuid references public.workspaces(id) on delete set null,
+  integration_id uuid references public.ai_integrations(id) on delete set null,
+  -- Set for calls made by a workflow node
+  execution_id uuid references public.workflow_executions(id) on delete set null,
+  user_id uuid references auth.users(id) on delete set null,
+  source text not null check (source in ('chat', 'agent', 'workflow')),
+  provider text not null,
+  model text not null,
+  prompt_tokens int not null default 0,
+  completion_tokens int not null default 0,
+  total_tokens int not null default 0,
+  latency_ms int not null default 0,
+  -- Estimate from the price table in apps/web/lib/ai/pricing.ts
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.ai_usage_events is 'One row per AI provider execution, for metering and quotas';
+
+alter table public.ai_usage_events enable row level security;
+
+-- Rows are written with the service role; members can read their org's usage
+create policy "Org members can view AI usage"
+  on public.ai_usage_events for select
+  to authenticated
+  using (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid()
+    )
+  );
+
+create index idx_ai_usage_events_org on public.ai_usage_events(organization_id, created_at desc);
+create index idx_ai_usage_events_integration on public.ai_usage_events(integration_id, created_at desc);
+
+-- Totals for an organization since a point in time (quota checks, dashboard)
+create or replace function public.get_ai_usage_totals(
+  p_organization_id uuid,
+  p_since timestamptz
+)
+returns table (request_count bigint, total_tokens bigint, cost_usd numeric) as $$
+  select
+    count(*),
+    coalesce(sum(e.total_tokens), 0)::bigint,
+    coalesce(sum(e.cost_usd), 0)
+  from public.ai_usage_events e
+  where e.organization_id = p_organization_id
+    and e.created_at >= p_since;
+$$ language sql stable security invoker;
@@ -0,0 +1,166 @@
+-- ============================================================================
+-- Migration: 011_prompt_evals
+-- Description: Evaluation datasets for prompt templates and scored runs
+-- ============================================================================
+
+-- ============================================================================
+-- DATASETS & CASES
+-- ============================================================================
+create table public.prompt_eval_datasets (
+  id uuid primary key default uuid_generate_v4(),
+  integration_id uuid not null references public.ai_integrations(id) on delete cascade,
+  name text not null,
+  description text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.prompt_eval_datasets is 'Named sets of test cases for a prompt template';
+
+create trigger prompt_eval_datasets_updated_at
+  before update on public.prompt_eval_datasets
+  for each row execute function public.update_updated_at();
+
+create table public.prompt_eval_cases (
+  id uuid primary key default uuid_generate_v4(),
+  dataset_id uuid not null references public.prompt_eval_datasets(id) on delete cascade,
+  position int not null default 0,
+  name text not null,
+  variables jsonb not null default '{}'::jsonb,
+  -- [{ type: "contains" | "regex" | "json_schema" | "max_tokens", ... }]
+  assertions jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.prompt_eval_cases is 'Template variables plus expected assertions';
+
+-- ============================================================================
+-- RUNS & RESULTS
+-- ============================================================================
+create table public.prompt_eval_runs (
+  id uuid primary key default uuid_generate_v4(),
+  dataset_id uuid not null references public.prompt_eval_datasets(id) on delete cascade,
+  integration_id uuid not null references public.ai_integrations(id) on delete cascade,
+  prompt_version int not null,
+  provider text not null,
+  model text not null,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  passed int not null default 0,
+  failed int not null default 0,
+  score numeric(5, 4) not null default 0,
+  triggered_by uuid references auth.users(id) on delete set null,
+  started_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+comment on table public.prompt_eval_runs is 'One evaluation of a dataset against a template version';
+
+create table public.prompt_eval_results (
+  id uuid primary key default uuid_generate_v4(),
+  run_id uuid not null references public.prompt_eval_runs(id) on delete cascade,
+  -- Cases may be replaced after the run; the name is kept for the report
+  case_id uuid references public.prompt_eval_cases(id) on delete set null,
+  case_name text not null,
+  output text not null default '',
+  passed boolean not null,
+  score numeric(5, 4) not null,
+  assertions jsonb not null default '[]'::jsonb,
+  usage jsonb,
+  latency_ms int not null default 0,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.prompt_eval_results is 'Scored output of one case in an evaluation run';
+
+-- ============================================================================
+-- RLS: members can read, workspace owners/admins manage and run evals
+-- ============================================================================
+alter table public.prompt_eval_datasets enable row level security;
+alter table public.prompt_eval_cases enable row level security;
+alter table public.prompt_eval_runs enable row level security;
+alter table public.prompt_eval_results enable row level security;
+
+create policy "Workspace members can view eval datasets"
+  on public.prompt_eval_datasets for select
+  to authenticated
+  using (
+    integration_id in (
+      select i.id from public.ai_integrations i
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid()
+    )
+  );
+
+create policy "Workspace admins can manage eval datasets"
+  on public.prompt_eval_datasets for all
+  to authenticated
+  using (
+    integration_id in (
+      select i.id from public.ai_integrations i
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  )
+  with check (
+    integration_id in (
+      select i.id from public.ai_integrations i
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  );
+
+-- Cases and runs follow their dataset's visibility
+create policy "Dataset viewers can view eval cases"
+  on public.prompt_eval_cases for select
+  to authenticated
+  using (dataset_id in (select id from public.prompt_eval_datasets));
+
+create policy "Dataset admins can manage eval cases"
+  on public.prompt_eval_cases for all
+  to authenticated
+  using (
+    dataset_id in (
+      select d.id from public.prompt_eval_datasets d
+      join public.ai_integrations i on d.integration_id = i.id
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  )
+  with check (
+    dataset_id in (
+      select d.id from public.prompt_eval_datasets d
+      join public.ai_integrations i on d.integration_id = i.id
+      join public.workspaces w on i.workspace_id = w.id
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  );
+
+create policy "Dataset viewers can view eval runs"
+  on public.prompt_eval_runs for select
+  to authenticated
+  using (dataset_id in (select id from public.prompt_eval_datasets));
+
+create policy "Dataset viewers can view eval results"
+  on public.prompt_eval_results for select
+  to authenticated
+  using (run_id in (select id from public.prompt_eval_runs));
+
+-- Runs and results are written by the server with the service role
+
+create index idx_prompt_eval_datasets_integration on public.prompt_eval_datasets(integration_id);
+create index idx_prompt_eval_cases_dataset on public.prompt_eval_cases(dataset_id, position);
+create index idx_prompt_eval_runs_dataset on public.prompt_eval_runs(dataset_id, started_at desc);
+create index idx_prompt_eval_results_run on public.prompt_eval_results(run_id);
+
+-- Eval runs call providers too, so they are metered like other executions
+alter table public.ai_usage_events drop constraint ai_usage_events_source_check;
+alter table public.ai_usage_events
+  add constraint ai_usage_events_source_check
+  check (source in ('chat', 'agent', 'workflow', 'eval'));
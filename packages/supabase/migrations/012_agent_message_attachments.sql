@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Migration: 012_agent_message_attachments
+-- Description: Files attached to agent chat messages
+-- ============================================================================
+
+-- [{ fileId, type, mimeType, name }] — files uploaded through /api/files.
+-- Content is re-read from storage (and cached) when the message is sent
+-- to a model, so only references are stored here.
+alter table public.agent_messages add column attachments jsonb;
@@ -0,0 +1,143 @@
+-- ============================================================================
+-- Migration: 013_knowledge_base
+-- Description: Workspace knowledge base — chunked blog posts, dynamic pages
+--              and files with embeddings, retrieved by "vector" agent memory
+-- ============================================================================
+
+create extension if not exists vector;
+
+-- ============================================================================
+-- CHUNKS
+-- ============================================================================
+create table public.knowledge_chunks (
+  id uuid primary key default uuid_generate_v4(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  source_type text not null check (source_type in ('blog_post', 'dynamic_page', 'file')),
+  -- blog_posts.id, dynamic_pages.id or file_metadata.id (no FK: one column, three tables)
+  source_id uuid not null,
+  source_title text not null,
+  source_url text,
+  chunk_index int not null,
+  content text not null,
+  token_count int not null default 0,
+  -- Hash of the source text and embedding model; unchanged sources are not re-embedded
+  content_hash text not null,
+  -- Dimensions depend on the model, so the column is unsized and queries
+  -- always filter by embedding_model
+  embedding_model text not null,
+  embedding vector not null,
+  created_at timestamptz not null default now(),
+  unique(workspace_id, source_type, source_id, chunk_index)
+);
+
+comment on table public.knowledge_chunks is 'Embedded chunks of indexed content, scoped to a workspace';
+
+-- ============================================================================
+-- RLS: members can read, workspace owners/admins index and remove sources
+-- ============================================================================
+alter table public.knowledge_chunks enable row level security;
+
+create policy "Workspace members can view knowledge chunks"
+  on public.knowledge_chunks for select
+  to authenticated
+  using (
+    workspace_id in (
+      select w.id from public.workspaces w
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid()
+    )
+  );
+
+create policy "Workspace admins can manage knowledge chunks"
+  on public.knowledge_chunks for all
+  to authenticated
+  using (
+    workspace_id in (
+      select w.id from public.workspaces w
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  )
+  with check (
+    workspace_id in (
+      select w.id from public.workspaces w
+      join public.organization_members om on w.organization_id = om.organization_id
+      where om.user_id = auth.uid() and om.role in ('owner', 'admin')
+    )
+  );
+
+create index idx_knowledge_chunks_workspace on public.knowledge_chunks(workspace_id, embedding_model);
+create index idx_knowledge_chunks_source on public.knowledge_chunks(source_type, source_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Top-k chunks by cosine similarity within a workspace
+create or replace function public.match_knowledge_chunks(
+  p_workspace_id uuid,
+  p_embedding vector,
+  p_embedding_model text,
+  p_match_count int default 5,
+  p_min_score float default -1
+)
+returns table (
+  id uuid,
+  source_type text,
+  source_id uuid,
+  source_title text,
+  source_url text,
+  chunk_index int,
+  content text,
+  score float
+) as $$
+  select
+    c.id,
+    c.source_type,
+    c.source_id,
+    c.source_title,
+    c.source_url,
+    c.chunk_index,
+    c.content,
+    1 - (c.embedding <=> p_embedding) as score
+  from public.knowledge_chunks c
+  where c.workspace_id = p_workspace_id
+    and c.embedding_model = p_embedding_model
+    and 1 - (c.embedding <=> p_embedding) >= p_min_score
+  order by c.embedding <=> p_embedding
+  limit p_match_count;
+$$ language sql stable security invoker;
+
+-- One row per indexed source
+create or replace function public.get_knowledge_sources(p_workspace_id uuid)
+returns table (
+  source_type text,
+  source_id uuid,
+  source_title text,
+  source_url text,
+  chunk_count bigint,
+  embedding_model text,
+  indexed_at timestamptz
+) as $$
+  select
+    c.source_type,
+    c.source_id,
+    min(c.source_title),
+    min(c.source_url),
+    count(*),
+    min(c.embedding_model),
+    max(c.created_at)
+  from public.knowledge_chunks c
+  where c.workspace_id = p_workspace_id
+  group by c.source_type, c.source_id
+  order by max(c.created_at) desc;
+$$ language sql stable security invoker;
+
+-- Replies of "vector" agents cite the chunks they were grounded in
+alter table public.agent_messages add column citations jsonb;
+
+-- Embedding calls are metered against the same quotas as executions
+alter table public.ai_usage_events drop constraint ai_usage_events_source_check;
+alter table public.ai_usage_events
+  add constraint ai_usage_events_source_check
+  check (source in ('chat', 'agent', 'workflow', 'eval', 'embedding'));
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration: 014_ai_response_cache
+-- Description: Meter prompt executions answered from the response cache
+--              separately from provider calls
+-- ============================================================================
+
+-- Cache hits are recorded with zero tokens and cost (no provider call)
+alter table public.ai_usage_events
+  add column cache_hit boolean not null default false;
+
+-- The return type changes, so the function is recreated
+drop function public.get_ai_usage_totals(uuid, timestamptz);
+
+-- Provider call totals for an organization since a point in time (quota
+-- checks, dashboard), plus the number of cache hits in the same period
+create function public.get_ai_usage_totals(
+  p_organization_id uuid,
+  p_since timestamptz
+)
+returns table (
+  request_count bigint,
+  total_tokens bigint,
+  cost_usd numeric,
+  cache_hit_count bigint
+) as $$
+  select
+    count(*) filter (where not e.cache_hit),
+    coalesce(sum(e.total_tokens), 0)::bigint,
+    coalesce(sum(e.cost_usd), 0),
+    count(*) filter (where e.cache_hit)
+  from public.ai_usage_events e
+  where e.organization_id = p_organization_id
+    and e.created_at >= p_since;
+$$ language sql stable security invoker;
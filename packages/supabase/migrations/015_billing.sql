@@ -0,0 +1,182 @@
+-- ============================================================================
+-- Migration: 015_billing
+-- Description: Stripe customers, subscriptions and invoices per organization,
+--              plus the processed webhook event log
+-- ============================================================================
+
+-- ============================================================================
+-- CUSTOMERS
+-- ============================================================================
+create table public.billing_customers (
+  id uuid primary key default uuid_generate_v4(),
+  organization_id uuid not null unique references public.organizations(id) on delete cascade,
+  stripe_customer_id text not null unique,
+  email text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.billing_customers is 'The Stripe customer billed for an organization';
+
+create trigger billing_customers_updated_at
+  before update on public.billing_customers
+  for each row execute function public.update_updated_at();
+
+-- ============================================================================
+-- SUBSCRIPTIONS
+-- ============================================================================
+create table public.billing_subscriptions (
+  id uuid primary key default uuid_generate_v4(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  stripe_subscription_id text not null unique,
+  stripe_customer_id text not null,
+  stripe_price_id text,
+  -- Plan the price maps to (apps/web/lib/billing/config.ts)
+  plan text not null check (plan in ('free', 'starter', 'pro', 'enterprise')),
+  status text not null check (status in (
+    'incomplete', 'incomplete_expired', 'trialing', 'active',
+    'past_due', 'canceled', 'unpaid', 'paused'
+  )),
+  current_period_start timestamptz,
+  current_period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  canceled_at timestamptz,
+  trial_end timestamptz,
+  -- Creation time of the Stripe event last applied; older events that
+  -- arrive late are ignored
+  last_event_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.billing_subscriptions is 'Stripe subscriptions, mirrored from webhooks';
+
+create trigger billing_subscriptions_updated_at
+  before update on public.billing_subscriptions
+  for each row execute function public.update_updated_at();
+
+create index idx_billing_subscriptions_org on public.billing_subscriptions(organization_id, created_at desc);
+
+-- ============================================================================
+-- INVOICES
+-- ============================================================================
+create table public.billing_invoices (
+  id uuid primary key default uuid_generate_v4(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  stripe_invoice_id text not null unique,
+  stripe_subscription_id text,
+  status text not null check (status in ('draft', 'open', 'paid', 'uncollectible', 'void')),
+  -- Amounts in the currency's smallest unit
+  amount_due int not null default 0,
+  amount_paid int not null default 0,
+  currency text not null,
+  hosted_invoice_url text,
+  invoice_pdf text,
+  period_start timestamptz,
+  period_end timestamptz,
+  paid_at timestamptz,
+  -- Set when the latest payment attempt failed
+  payment_failed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.billing_invoices is 'Stripe invoices, mirrored from webhooks';
+
+create trigger billing_invoices_updated_at
+  before update on public.billing_invoices
+  for each row execute function public.update_updated_at();
+
+create index idx_billing_invoices_org on public.billing_invoices(organization_id, created_at desc);
+
+-- ============================================================================
+-- PROCESSED EVENTS
+-- ============================================================================
+-- Stripe delivers events at least once; an event id recorded here has been
+-- fully handled and is acknowledged without being applied again
+create table public.billing_events (
+  stripe_event_id text primary key,
+  type text not null,
+  processed_at timestamptz not null default now()
+);
+
+comment on table public.billing_events is 'Stripe webhook events that have been handled';
+
+-- ============================================================================
+-- RLS: written only by the webhook (service role); org owners/admins can
+-- read their organization's billing records
+-- ============================================================================
+alter table public.billing_customers enable row level security;
+alter table public.billing_subscriptions enable row level security;
+alter table public.billing_invoices enable row level security;
+alter table public.billing_events enable row level security;
+
+create policy "Org admins can view billing customers"
+  on public.billing_customers for select
+  to authenticated
+  using (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid() and role in ('owner', 'admin')
+    )
+  );
+
+create policy "Org admins can view subscriptions"
+  on public.billing_subscriptions for select
+  to authenticated
+  using (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid() and role in ('owner', 'admin')
+    )
+  );
+
+create policy "Org admins can view invoices"
+  on public.billing_invoices for select
+  to authenticated
+  using (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid() and role in ('owner', 'admin')
+    )
+  );
+
+-- ============================================================================
+-- PLAN PROTECTION
+-- ============================================================================
+-- Owners may create and update their organization, but the plan follows
+-- the Stripe subscription and the entitlement overrides in
+-- settings.entitlements are granted by the platform; only the service role
+-- may change either
+create or replace function public.protect_organization_plan()
+returns trigger as $$
+declare
+  old_plan text := 'free';
+  old_entitlements jsonb;
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    old_plan := old.plan;
+    old_entitlements := old.settings -> 'entitlements';
+  end if;
+
+  if new.plan is distinct from old_plan then
+    raise exception 'organizations.plan is managed by billing'
+      using errcode = '42501';
+  end if;
+
+  if new.settings -> 'entitlements' is distinct from old_entitlements then
+    raise exception 'organizations.settings.entitlements is managed by the platform'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger organizations_protect_plan
+  before insert or update on public.organizations
+  for each row execute function public.protect_organization_plan();
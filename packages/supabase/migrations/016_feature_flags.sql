@@ -0,0 +1,51 @@
+-- ============================================================================
+-- Migration: 016_feature_flags
+-- Description: Runtime feature flags with percentage rollouts and
+--              role / organization targeting, managed from /admin/settings
+-- ============================================================================
+
+-- ============================================================================
+-- FEATURE FLAGS
+-- ============================================================================
+create table public.feature_flags (
+  id uuid primary key default uuid_generate_v4(),
+  -- A FeatureFlags key (overrides its env var) or a custom flag
+  key text not null unique check (key ~ '^[a-zA-Z][a-zA-Z0-9_.-]*$'),
+  description text,
+  enabled boolean not null default false,
+  -- Share of users (bucketed by user id) the flag is on for
+  rollout_percentage integer not null default 100
+    check (rollout_percentage between 0 and 100),
+  -- When either list is non-empty the flag is on only for matching
+  -- profile roles or organizations
+  target_roles text[] not null default '{}',
+  target_organization_ids uuid[] not null default '{}',
+  updated_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.feature_flags is 'Runtime feature flags; env vars apply when a flag has no row or the table cannot be read';
+
+create trigger feature_flags_updated_at
+  before update on public.feature_flags
+  for each row execute function public.update_updated_at();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Flags are evaluated on the server with the service role. Admins may
+-- read them. Changes go through the /admin/settings actions, which
+-- require settings.manage and write the audit log with the service role,
+-- so there is no write policy.
+alter table public.feature_flags enable row level security;
+
+create policy "Admins can view feature flags"
+  on public.feature_flags for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.profiles
+      where user_id = auth.uid() and role in ('super_admin', 'admin')
+    )
+  );
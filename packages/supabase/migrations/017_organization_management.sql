@@ -0,0 +1,120 @@
+-- ============================================================================
+-- Migration: 017_organization_management
+-- Description: Leaving organizations, owner protection and ownership
+--              transfer for the organization / team management UI
+-- ============================================================================
+
+-- ============================================================================
+-- LEAVING
+-- ============================================================================
+-- Any member except the owner may remove their own membership
+create policy "Members can leave organizations"
+  on public.organization_members for delete
+  to authenticated
+  using (user_id = auth.uid() and role <> 'owner');
+
+-- ============================================================================
+-- OWNER PROTECTION
+-- ============================================================================
+-- The owner membership mirrors organizations.owner_id. Clients may not
+-- grant, change or remove it directly; ownership moves only through
+-- transfer_organization_ownership. Admin memberships are the owner's to
+-- grant, change or remove, though an admin may still leave.
+create or replace function public.protect_organization_owner()
+returns trigger as $$
+declare
+  target_organization_id uuid := coalesce(new.organization_id, old.organization_id);
+  is_owner boolean;
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return coalesce(new, old);
+  end if;
+
+  select exists (
+    select 1 from public.organizations
+    where id = target_organization_id and owner_id = auth.uid()
+  ) into is_owner;
+
+  if tg_op = 'DELETE' then
+    if old.role = 'owner' then
+      raise exception 'The organization owner cannot be removed'
+        using errcode = '42501';
+    end if;
+    if old.role = 'admin' and old.user_id <> auth.uid() and not is_owner then
+      raise exception 'Only the owner can remove admins'
+        using errcode = '42501';
+    end if;
+    return old;
+  end if;
+
+  if new.role = 'owner' or (tg_op = 'UPDATE' and old.role = 'owner') then
+    raise exception 'Ownership can only be transferred'
+      using errcode = '42501';
+  end if;
+
+  if not is_owner and (
+    (tg_op = 'INSERT' and new.role = 'admin')
+    or (tg_op = 'UPDATE' and new.role is distinct from old.role
+      and 'admin' in (new.role, old.role))
+  ) then
+    raise exception 'Only the owner can grant or change the admin role'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger organization_members_protect_owner
+  before insert or update or delete on public.organization_members
+  for each row execute function public.protect_organization_owner();
+
+-- ============================================================================
+-- OWNERSHIP TRANSFER
+-- ============================================================================
+-- Called by the current owner. The new owner must already be a member;
+-- the previous owner stays on as an admin.
+create or replace function public.transfer_organization_ownership(
+  p_organization_id uuid,
+  p_new_owner_id uuid
+)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if not exists (
+    select 1 from public.organizations
+    where id = p_organization_id and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the organization owner can transfer ownership'
+      using errcode = '42501';
+  end if;
+
+  if p_new_owner_id = auth.uid() then
+    return;
+  end if;
+
+  if not exists (
+    select 1 from public.organization_members
+    where organization_id = p_organization_id and user_id = p_new_owner_id
+  ) then
+    raise exception 'The new owner must be a member of the organization'
+      using errcode = 'P0002';
+  end if;
+
+  update public.organizations
+    set owner_id = p_new_owner_id
+    where id = p_organization_id;
+
+  update public.organization_members
+    set role = 'admin'
+    where organization_id = p_organization_id and user_id = auth.uid();
+
+  update public.organization_members
+    set role = 'owner'
+    where organization_id = p_organization_id and user_id = p_new_owner_id;
+end;
+$$;
+
+revoke execute on function public.transfer_organization_ownership(uuid, uuid) from public, anon;
+grant execute on function public.transfer_organization_ownership(uuid, uuid) to authenticated;
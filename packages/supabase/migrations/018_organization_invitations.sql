@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Migration: 018_organization_invitations
+-- Description: Email invitations to join an organization. Only a SHA-256
+--              hash of each invitation token is stored.
+-- ============================================================================
+
+-- ============================================================================
+-- INVITATIONS
+-- ============================================================================
+create table public.organization_invitations (
+  id uuid primary key default uuid_generate_v4(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  -- Stored lowercase; the invitation can only be accepted by this address
+  email text not null check (email = lower(email)),
+  role text not null default 'member'
+    check (role in ('admin', 'member', 'viewer')),
+  -- Hex SHA-256 of the token sent in the email link
+  token_hash text not null unique,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'revoked')),
+  expires_at timestamptz not null,
+  invited_by uuid references auth.users(id) on delete set null,
+  accepted_by uuid references auth.users(id) on delete set null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  send_count integer not null default 1,
+  last_sent_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.organization_invitations is 'Pending and past invitations to join an organization; pending rows past expires_at are expired';
+
+-- One open invitation per address and organization
+create unique index idx_organization_invitations_pending
+  on public.organization_invitations(organization_id, email)
+  where status = 'pending';
+create index idx_organization_invitations_org
+  on public.organization_invitations(organization_id, created_at desc);
+
+create trigger organization_invitations_updated_at
+  before update on public.organization_invitations
+  for each row execute function public.update_updated_at();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Owners and admins manage their organization's invitations, but only the
+-- owner may invite admins or touch an admin invitation. Invitees never
+-- read the table directly: the accept flow looks invitations up by token
+-- hash with the service role.
+alter table public.organization_invitations enable row level security;
+
+create policy "Admins can view invitations"
+  on public.organization_invitations for select
+  to authenticated
+  using (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid() and role in ('owner', 'admin')
+    )
+  );
+
+create policy "Admins can create invitations"
+  on public.organization_invitations for insert
+  to authenticated
+  with check (
+    invited_by = auth.uid()
+    and organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid()
+        and (role = 'owner' or (role = 'admin' and organization_invitations.role <> 'admin'))
+    )
+  );
+
+create policy "Admins can update invitations"
+  on public.organization_invitations for update
+  to authenticated
+  using (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid()
+        and (role = 'owner' or (role = 'admin' and organization_invitations.role <> 'admin'))
+    )
+  )
+  with check (
+    organization_id in (
+      select organization_id from public.organization_members
+      where user_id = auth.uid()
+        and (role = 'owner' or (role = 'admin' and organization_invitations.role <> 'admin'))
+    )
+  );
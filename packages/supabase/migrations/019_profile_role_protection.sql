@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Migration: 019_profile_role_protection
+-- Description: profiles.role is now the only source of platform
+--              permissions (see packages/shared/src/constants/permissions.ts),
+--              so users may no longer change it on their own profile
+-- ============================================================================
+
+-- Admin access used to be read from auth user_metadata.role, which users
+-- can edit themselves, and is not migrated. Grant it explicitly:
+--   update public.profiles set role = 'admin' where email = 'you@example.com';
+
+-- ============================================================================
+-- ROLE PROTECTION
+-- ============================================================================
+-- "Users can update own profile" allows every column; only super admins
+-- may change a role, and never their own (so one always remains).
+create or replace function public.protect_profile_role()
+returns trigger as $$
+begin
+  if current_user not in ('authenticated', 'anon') or new.role = old.role then
+    return new;
+  end if;
+
+  if new.user_id = auth.uid() or not exists (
+    select 1 from public.profiles
+    where user_id = auth.uid() and role = 'super_admin'
+  ) then
+    raise exception 'Only a super admin can change another user''s role'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger profiles_protect_role
+  before update on public.profiles
+  for each row execute function public.protect_profile_role();
+
+-- Lets super admins change the roles of other users
+create policy "Super admins can update profiles"
+  on public.profiles for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.profiles
+      where user_id = auth.uid() and role = 'super_admin'
+    )
+  );
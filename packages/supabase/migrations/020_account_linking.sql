@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Migration: 020_account_linking
+-- Description: One account per email address across sign-in methods
+-- ============================================================================
+
+-- Supabase links an OAuth or magic-link identity to the existing user
+-- with the same email when both addresses are verified. Otherwise it
+-- creates a second user, which would get a second profile. Refuse that
+-- instead: the owner signs in to the existing account and connects the
+-- provider from the account page (manual identity linking). Profiles keep
+-- the address as given, so both sides are compared in lower case.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if new.email is not null and exists (
+    select 1 from public.profiles where lower(email) = lower(new.email)
+  ) then
+    raise exception 'An account with this email already exists'
+      using errcode = 'unique_violation';
+  end if;
+
+  -- OAuth providers supply a name and avatar in the user metadata
+  insert into public.profiles (user_id, display_name, email, avatar_url)
+  values (
+    new.id,
+    coalesce(
+      new.raw_user_meta_data ->> 'full_name',
+      new.raw_user_meta_data ->> 'name',
+      split_part(new.email, '@', 1)
+    ),
+    new.email,
+    new.raw_user_meta_data ->> 'avatar_url'
+  );
+  return new;
+end;
+$$;
+
+create index idx_profiles_email_lower on public.profiles(lower(email));
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration: 021_mfa_recovery_codes
+-- Description: One-time recovery codes for TOTP multi-factor authentication,
+--              stored as SHA-256 hashes, and protection of the
+--              organizations.settings.require_mfa switch
+-- ============================================================================
+
+-- TOTP factors themselves live in Supabase Auth (auth.mfa_factors); enable
+-- TOTP under Authentication > Multi-Factor in the project settings.
+
+-- ============================================================================
+-- RECOVERY CODES
+-- ============================================================================
+create table public.mfa_recovery_codes (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Hex SHA-256 of the normalized code (uppercase, no dash)
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+comment on table public.mfa_recovery_codes is 'Hashed one-time codes that reset MFA when the authenticator is lost';
+
+create index idx_mfa_recovery_codes_unused
+  on public.mfa_recovery_codes(user_id)
+  where used_at is null;
+
+-- Users may see how many codes they have left. Codes are issued and
+-- redeemed only by the server with the service role.
+alter table public.mfa_recovery_codes enable row level security;
+
+create policy "Users can view own recovery codes"
+  on public.mfa_recovery_codes for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ============================================================================
+-- ORGANIZATION MFA REQUIREMENT
+-- ============================================================================
+-- organizations.settings.require_mfa = true makes members set up MFA. Only
+-- a session that verified its own factor may change it, so an owner
+-- signed in with a password alone cannot turn the requirement off.
+create or replace function public.protect_organization_mfa_setting()
+returns trigger as $$
+begin
+  if current_user not in ('authenticated', 'anon')
+    or coalesce(new.settings -> 'require_mfa', 'false'::jsonb)
+      = coalesce(old.settings -> 'require_mfa', 'false'::jsonb) then
+    return new;
+  end if;
+
+  if coalesce(auth.jwt() ->> 'aal', '') <> 'aal2' then
+    raise exception 'Verify your two-factor authentication before changing this setting'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger organizations_protect_mfa_setting
+  before update on public.organizations
+  for each row execute function public.protect_organization_mfa_setting();
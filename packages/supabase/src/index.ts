@@ -20,11 +20,21 @@ export {
   // Profiles
   getProfile,
   getAllProfiles,
+  getProfilesByUserIds,
   updateProfile,
   // Organizations
   getOrganization,
   getOrganizationBySlug,
   getUserOrganizations,
+  getOrganizationMembership,
+  createOrganization,
+  updateOrganizationSettings,
+  getOrganizationMembers,
+  updateOrganizationMemberRole,
+  removeOrganizationMember,
+  transferOrganizationOwnership,
+  countOrganizationMembers,
+  addOrganizationMember,
   // User Preferences
   getUserPreferences,
   updateUserPreferences,
@@ -44,8 +54,86 @@ export {
   getCurrentVersion,
   // Workspaces & AI
   getWorkspaces,
+  getWorkspaceById,
   getAiIntegrations,
+  getAiIntegrationById,
   createAiIntegration,
+  updateAiIntegration,
+  deleteAiIntegration,
+  // AI Integration Versions
+  getAiIntegrationVersions,
+  getAiIntegrationVersion,
+  createAiIntegrationVersion,
+  // Agent Conversations
+  getAgentConversations,
+  getAgentConversationById,
+  createAgentConversation,
+  updateAgentConversation,
+  deleteAgentConversation,
+  getAgentMessages,
+  createAgentMessages,
+  markAgentMessagesSummarized,
+  // Workflow Executions
+  getWorkflowsByTrigger,
+  getWorkflowExecutions,
+  getWorkflowExecutionById,
+  createWorkflowExecution,
+  updateWorkflowExecution,
+  claimWorkflowExecution,
+  getNodeExecutions,
+  upsertNodeExecutions,
+  // Prompt Evaluations
+  getEvalDatasets,
+  getEvalDatasetById,
+  createEvalDataset,
+  updateEvalDataset,
+  deleteEvalDataset,
+  getEvalCases,
+  createEvalCases,
+  deleteEvalCases,
+  getEvalRuns,
+  createEvalRun,
+  updateEvalRun,
+  getEvalResults,
+  createEvalResults,
+  // AI Usage
+  createAiUsageEvent,
+  getAiUsageTotals,
+  // Knowledge Base
+  getKnowledgeSourceHead,
+  getKnowledgeSources,
+  createKnowledgeChunks,
+  deleteKnowledgeSource,
+  matchKnowledgeChunks,
+  // Billing
+  getBillingCustomer,
+  getBillingCustomerByStripeId,
+  upsertBillingCustomer,
+  getBillingSubscriptions,
+  getBillingSubscriptionByStripeId,
+  upsertBillingSubscription,
+  getBillingInvoices,
+  upsertBillingInvoice,
+  getBillingEvent,
+  createBillingEvent,
+  updateOrganizationPlan,
+  // Feature Flags
+  getFeatureFlags,
+  getFeatureFlag,
+  upsertFeatureFlag,
+  deleteFeatureFlag,
+  // Organization Invitations
+  getPendingInvitations,
+  countOpenInvitations,
+  getInvitationById,
+  getInvitationByTokenHash,
+  createInvitation,
+  updateInvitation,
+  // MFA Recovery Codes
+  countUnusedRecoveryCodes,
+  createRecoveryCodes,
+  deleteRecoveryCodes,
+  markRecoveryCodeUsed,
   // Error Tracking
   getErrorGroups,
   getErrorGroupById,
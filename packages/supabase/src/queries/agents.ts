@@ -0,0 +1,126 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables } from "../types";
+
+/**
+ * Agent Conversation Query Functions
+ *
+ * Type-safe queries for agent_conversations and agent_messages.
+ */
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+export async function getAgentConversations(
+  client: SupabaseClient,
+  userId: string,
+  agentId?: string
+) {
+  let query = client
+    .from("agent_conversations")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (agentId) {
+    query = query.eq("agent_id", agentId);
+  }
+
+  return query;
+}
+
+export async function getAgentConversationById(
+  client: SupabaseClient,
+  id: string
+) {
+  return client
+    .from("agent_conversations")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+}
+
+export async function createAgentConversation(
+  client: SupabaseClient,
+  data: {
+    agent_id: string;
+    user_id: string;
+    title?: string | null;
+    metadata?: Record<string, unknown>;
+  }
+) {
+  return client
+    .from("agent_conversations")
+    .insert(data)
+    .select()
+    .single();
+}
+
+export async function updateAgentConversation(
+  client: SupabaseClient,
+  id: string,
+  data: {
+    title?: string | null;
+    summary?: string | null;
+    metadata?: Record<string, unknown>;
+    message_count?: number;
+    total_tokens?: number;
+  }
+) {
+  return client
+    .from("agent_conversations")
+    .update(data)
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+export async function deleteAgentConversation(
+  client: SupabaseClient,
+  id: string
+) {
+  return client.from("agent_conversations").delete().eq("id", id);
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Fetch messages in chronological order. Pass `activeOnly` to skip
+ * messages already folded into the conversation summary.
+ */
+export async function getAgentMessages(
+  client: SupabaseClient,
+  conversationId: string,
+  options?: { activeOnly?: boolean }
+) {
+  let query = client
+    .from("agent_messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  if (options?.activeOnly) {
+    query = query.eq("is_summarized", false);
+  }
+
+  return query;
+}
+
+export async function createAgentMessages(
+  client: SupabaseClient,
+  messages: InsertTables<"agent_messages">[]
+) {
+  return client.from("agent_messages").insert(messages).select();
+}
+
+export async function markAgentMessagesSummarized(
+  client: SupabaseClient,
+  messageIds: string[]
+) {
+  return client
+    .from("agent_messages")
+    .update({ is_summarized: true })
+    .in("id", messageIds);
+}
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables, Tables } from "../types";
+
+/**
+ * Billing Query Functions
+ *
+ * Type-safe queries for the Stripe mirror tables. Rows are written by the
+ * Stripe webhook with the service role and keyed by Stripe ids, so
+ * replayed events upsert rather than duplicate.
+ */
+
+type Plan = Tables<"organizations">["plan"];
+
+export async function getBillingCustomer(client: SupabaseClient, organizationId: string) {
+  return client
+    .from("billing_customers")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+}
+
+export async function getBillingCustomerByStripeId(
+  client: SupabaseClient,
+  stripeCustomerId: string
+) {
+  return client
+    .from("billing_customers")
+    .select("*")
+    .eq("stripe_customer_id", stripeCustomerId)
+    .maybeSingle();
+}
+
+export async function upsertBillingCustomer(
+  client: SupabaseClient,
+  data: InsertTables<"billing_customers">
+) {
+  return client
+    .from("billing_customers")
+    .upsert(data, { onConflict: "organization_id" })
+    .select()
+    .single();
+}
+
+/** An organization's subscriptions, newest first */
+export async function getBillingSubscriptions(client: SupabaseClient, organizationId: string) {
+  return client
+    .from("billing_subscriptions")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false });
+}
+
+export async function getBillingSubscriptionByStripeId(
+  client: SupabaseClient,
+  stripeSubscriptionId: string
+) {
+  return client
+    .from("billing_subscriptions")
+    .select("*")
+    .eq("stripe_subscription_id", stripeSubscriptionId)
+    .maybeSingle();
+}
+
+export async function upsertBillingSubscription(
+  client: SupabaseClient,
+  data: InsertTables<"billing_subscriptions">
+) {
+  return client
+    .from("billing_subscriptions")
+    .upsert(data, { onConflict: "stripe_subscription_id" })
+    .select()
+    .single();
+}
+
+export async function getBillingInvoices(
+  client: SupabaseClient,
+  organizationId: string,
+  limit = 12
+) {
+  return client
+    .from("billing_invoices")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+}
+
+export async function upsertBillingInvoice(
+  client: SupabaseClient,
+  data: InsertTables<"billing_invoices">
+) {
+  return client.from("billing_invoices").upsert(data, { onConflict: "stripe_invoice_id" });
+}
+
+export async function getBillingEvent(client: SupabaseClient, stripeEventId: string) {
+  return client
+    .from("billing_events")
+    .select("stripe_event_id")
+    .eq("stripe_event_id", stripeEventId)
+    .maybeSingle();
+}
+
+/** Mark an event handled; recording it twice is a no-op */
+export async function createBillingEvent(
+  client: SupabaseClient,
+  data: InsertTables<"billing_events">
+) {
+  return client
+    .from("billing_events")
+    .upsert(data, { onConflict: "stripe_event_id", ignoreDuplicates: true });
+}
+
+/** Set an organization's plan. Only the service role may change it. */
+export async function updateOrganizationPlan(
+  client: SupabaseClient,
+  organizationId: string,
+  plan: Plan
+) {
+  return client.from("organizations").update({ plan }).eq("id", organizationId);
+}
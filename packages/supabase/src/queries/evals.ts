@@ -0,0 +1,116 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables, UpdateTables } from "../types";
+
+/**
+ * Prompt Evaluation Query Functions
+ *
+ * Type-safe queries for prompt_eval_datasets, prompt_eval_cases,
+ * prompt_eval_runs and prompt_eval_results.
+ */
+
+// ============================================================================
+// Datasets & Cases
+// ============================================================================
+
+export async function getEvalDatasets(client: SupabaseClient, integrationId: string) {
+  return client
+    .from("prompt_eval_datasets")
+    .select("*")
+    .eq("integration_id", integrationId)
+    .order("created_at", { ascending: false });
+}
+
+export async function getEvalDatasetById(client: SupabaseClient, datasetId: string) {
+  return client.from("prompt_eval_datasets").select("*").eq("id", datasetId).maybeSingle();
+}
+
+export async function createEvalDataset(
+  client: SupabaseClient,
+  data: InsertTables<"prompt_eval_datasets">
+) {
+  return client.from("prompt_eval_datasets").insert(data).select().single();
+}
+
+export async function updateEvalDataset(
+  client: SupabaseClient,
+  datasetId: string,
+  data: UpdateTables<"prompt_eval_datasets">
+) {
+  return client
+    .from("prompt_eval_datasets")
+    .update(data)
+    .eq("id", datasetId)
+    .select()
+    .single();
+}
+
+/** Returns the deleted row's id; empty when RLS filtered the delete out */
+export async function deleteEvalDataset(client: SupabaseClient, datasetId: string) {
+  return client.from("prompt_eval_datasets").delete().eq("id", datasetId).select("id");
+}
+
+export async function getEvalCases(client: SupabaseClient, datasetId: string) {
+  return client
+    .from("prompt_eval_cases")
+    .select("*")
+    .eq("dataset_id", datasetId)
+    .order("position", { ascending: true });
+}
+
+export async function createEvalCases(
+  client: SupabaseClient,
+  cases: InsertTables<"prompt_eval_cases">[]
+) {
+  return client.from("prompt_eval_cases").insert(cases).select();
+}
+
+export async function deleteEvalCases(client: SupabaseClient, datasetId: string) {
+  return client.from("prompt_eval_cases").delete().eq("dataset_id", datasetId);
+}
+
+// ============================================================================
+// Runs & Results
+// ============================================================================
+
+export async function getEvalRuns(
+  client: SupabaseClient,
+  datasetId: string,
+  limit = 20
+) {
+  return client
+    .from("prompt_eval_runs")
+    .select("*")
+    .eq("dataset_id", datasetId)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+}
+
+export async function createEvalRun(
+  client: SupabaseClient,
+  data: InsertTables<"prompt_eval_runs">
+) {
+  return client.from("prompt_eval_runs").insert(data).select().single();
+}
+
+export async function updateEvalRun(
+  client: SupabaseClient,
+  runId: string,
+  data: UpdateTables<"prompt_eval_runs">
+) {
+  return client.from("prompt_eval_runs").update(data).eq("id", runId).select().single();
+}
+
+export async function getEvalResults(client: SupabaseClient, runIds: string[]) {
+  return client
+    .from("prompt_eval_results")
+    .select("*")
+    .in("run_id", runIds)
+    .order("created_at", { ascending: true });
+}
+
+export async function createEvalResults(
+  client: SupabaseClient,
+  results: InsertTables<"prompt_eval_results">[]
+) {
+  return client.from("prompt_eval_results").insert(results).select();
+}
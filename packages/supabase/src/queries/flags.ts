@@ -0,0 +1,31 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables } from "../types";
+
+/**
+ * Feature Flag Query Functions
+ *
+ * Type-safe queries for the runtime feature_flags table, one row per key.
+ */
+
+export async function getFeatureFlags(client: SupabaseClient) {
+  return client.from("feature_flags").select("*").order("key", { ascending: true });
+}
+
+export async function getFeatureFlag(client: SupabaseClient, key: string) {
+  return client.from("feature_flags").select("*").eq("key", key).maybeSingle();
+}
+
+export async function upsertFeatureFlag(
+  client: SupabaseClient,
+  data: InsertTables<"feature_flags">
+) {
+  return client
+    .from("feature_flags")
+    .upsert(data, { onConflict: "key" })
+    .select()
+    .single();
+}
+
+export async function deleteFeatureFlag(client: SupabaseClient, key: string) {
+  return client.from("feature_flags").delete().eq("key", key);
+}
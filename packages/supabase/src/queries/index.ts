@@ -1,4 +1,5 @@
 import type { SupabaseClient } from "../client";
+import type { InsertTables, Tables, UpdateTables } from "../types";
 
 /**
  * Shared Query Functions
@@ -27,6 +28,10 @@ export async function getAllProfiles(client: SupabaseClient) {
     .order("created_at", { ascending: false });
 }
 
+export async function getProfilesByUserIds(client: SupabaseClient, userIds: string[]) {
+  return client.from("profiles").select("*").in("user_id", userIds);
+}
+
 export async function updateProfile(
   client: SupabaseClient,
   userId: string,
@@ -67,6 +72,103 @@ export async function getUserOrganizations(client: SupabaseClient, userId: strin
     .eq("user_id", userId);
 }
 
+/** The caller's membership row in an organization, or null if not a member */
+export async function getOrganizationMembership(
+  client: SupabaseClient,
+  orgId: string,
+  userId: string
+) {
+  return client
+    .from("organization_members")
+    .select("*")
+    .eq("organization_id", orgId)
+    .eq("user_id", userId)
+    .maybeSingle();
+}
+
+/** Create an organization; the owner membership is added by a trigger */
+export async function createOrganization(
+  client: SupabaseClient,
+  data: InsertTables<"organizations">
+) {
+  return client.from("organizations").insert(data);
+}
+
+/** Replace an organization's settings; owners only (RLS) */
+export async function updateOrganizationSettings(
+  client: SupabaseClient,
+  orgId: string,
+  settings: Record<string, unknown>
+) {
+  return client
+    .from("organizations")
+    .update({ settings })
+    .eq("id", orgId)
+    .select()
+    .single();
+}
+
+export async function getOrganizationMembers(client: SupabaseClient, orgId: string) {
+  return client
+    .from("organization_members")
+    .select("*")
+    .eq("organization_id", orgId)
+    .order("joined_at", { ascending: true });
+}
+
+export async function updateOrganizationMemberRole(
+  client: SupabaseClient,
+  orgId: string,
+  userId: string,
+  role: Tables<"organization_members">["role"]
+) {
+  return client
+    .from("organization_members")
+    .update({ role })
+    .eq("organization_id", orgId)
+    .eq("user_id", userId)
+    .select()
+    .single();
+}
+
+export async function removeOrganizationMember(
+  client: SupabaseClient,
+  orgId: string,
+  userId: string
+) {
+  return client
+    .from("organization_members")
+    .delete()
+    .eq("organization_id", orgId)
+    .eq("user_id", userId);
+}
+
+export async function countOrganizationMembers(client: SupabaseClient, orgId: string) {
+  return client
+    .from("organization_members")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", orgId);
+}
+
+export async function addOrganizationMember(
+  client: SupabaseClient,
+  data: InsertTables<"organization_members">
+) {
+  return client.from("organization_members").insert(data).select().single();
+}
+
+/** Make another member the owner; must be called by the current owner */
+export async function transferOrganizationOwnership(
+  client: SupabaseClient,
+  orgId: string,
+  newOwnerId: string
+) {
+  return client.rpc("transfer_organization_ownership", {
+    p_organization_id: orgId,
+    p_new_owner_id: newOwnerId,
+  });
+}
+
 // ============================================================================
 // User Preferences
 // ============================================================================
@@ -218,16 +320,33 @@ export async function getWorkspaces(client: SupabaseClient, orgId: string) {
     .order("created_at", { ascending: false });
 }
 
+export async function getWorkspaceById(client: SupabaseClient, workspaceId: string) {
+  return client.from("workspaces").select("*").eq("id", workspaceId).maybeSingle();
+}
+
 export async function getAiIntegrations(
   client: SupabaseClient,
-  workspaceId: string
+  workspaceId: string,
+  type?: "prompt" | "agent" | "workflow"
 ) {
-  return client
+  let query = client
     .from("ai_integrations")
     .select("*")
     .eq("workspace_id", workspaceId)
     .eq("is_active", true)
     .order("created_at", { ascending: false });
+  if (type) query = query.eq("type", type);
+  return query;
+}
+
+export async function getAiIntegrationById(
+  client: SupabaseClient,
+  id: string,
+  type?: "prompt" | "agent" | "workflow"
+) {
+  let query = client.from("ai_integrations").select("*").eq("id", id);
+  if (type) query = query.eq("type", type);
+  return query.maybeSingle();
 }
 
 export async function createAiIntegration(
@@ -247,6 +366,154 @@ export async function createAiIntegration(
     .single();
 }
 
+export async function updateAiIntegration(
+  client: SupabaseClient,
+  id: string,
+  data: UpdateTables<"ai_integrations">
+) {
+  return client
+    .from("ai_integrations")
+    .update(data)
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+export async function deleteAiIntegration(client: SupabaseClient, id: string) {
+  return client.from("ai_integrations").delete().eq("id", id);
+}
+
+// ============================================================================
+// AI Integration Versions (re-exported from integrations.ts)
+// ============================================================================
+
+export {
+  getAiIntegrationVersions,
+  getAiIntegrationVersion,
+  createAiIntegrationVersion,
+} from "./integrations";
+
+// ============================================================================
+// Agent Conversations (re-exported from agents.ts)
+// ============================================================================
+
+export {
+  getAgentConversations,
+  getAgentConversationById,
+  createAgentConversation,
+  updateAgentConversation,
+  deleteAgentConversation,
+  getAgentMessages,
+  createAgentMessages,
+  markAgentMessagesSummarized,
+} from "./agents";
+
+// ============================================================================
+// Workflow Executions (re-exported from workflows.ts)
+// ============================================================================
+
+export {
+  getWorkflowsByTrigger,
+  getWorkflowExecutions,
+  getWorkflowExecutionById,
+  createWorkflowExecution,
+  updateWorkflowExecution,
+  claimWorkflowExecution,
+  getNodeExecutions,
+  upsertNodeExecutions,
+} from "./workflows";
+
+// ============================================================================
+// Prompt Evaluations (re-exported from evals.ts)
+// ============================================================================
+
+export {
+  getEvalDatasets,
+  getEvalDatasetById,
+  createEvalDataset,
+  updateEvalDataset,
+  deleteEvalDataset,
+  getEvalCases,
+  createEvalCases,
+  deleteEvalCases,
+  getEvalRuns,
+  createEvalRun,
+  updateEvalRun,
+  getEvalResults,
+  createEvalResults,
+} from "./evals";
+
+// ============================================================================
+// AI Usage (re-exported from usage.ts)
+// ============================================================================
+
+export { createAiUsageEvent, getAiUsageTotals } from "./usage";
+
+// ============================================================================
+// Knowledge Base (re-exported from knowledge.ts)
+// ============================================================================
+
+export {
+  getKnowledgeSourceHead,
+  getKnowledgeSources,
+  createKnowledgeChunks,
+  deleteKnowledgeSource,
+  matchKnowledgeChunks,
+} from "./knowledge";
+
+// ============================================================================
+// Billing (re-exported from billing.ts)
+// ============================================================================
+
+export {
+  getBillingCustomer,
+  getBillingCustomerByStripeId,
+  upsertBillingCustomer,
+  getBillingSubscriptions,
+  getBillingSubscriptionByStripeId,
+  upsertBillingSubscription,
+  getBillingInvoices,
+  upsertBillingInvoice,
+  getBillingEvent,
+  createBillingEvent,
+  updateOrganizationPlan,
+} from "./billing";
+
+// ============================================================================
+// Feature Flags (re-exported from flags.ts)
+// ============================================================================
+
+export {
+  getFeatureFlags,
+  getFeatureFlag,
+  upsertFeatureFlag,
+  deleteFeatureFlag,
+} from "./flags";
+
+// ============================================================================
+// Organization Invitations (re-exported from invitations.ts)
+// ============================================================================
+
+export {
+  getPendingInvitations,
+  countOpenInvitations,
+  getInvitationById,
+  getInvitationByTokenHash,
+  createInvitation,
+  updateInvitation,
+} from "./invitations";
+
+// ============================================================================
+// MFA Recovery Codes (re-exported from mfa.ts)
+// ============================================================================
+
+export {
+  countUnusedRecoveryCodes,
+  createRecoveryCodes,
+  deleteRecoveryCodes,
+  markRecoveryCodeUsed,
+} from "./mfa";
+
 // ============================================================================
 // Error Tracking & Audit (re-exported from errors.ts)
 // ============================================================================
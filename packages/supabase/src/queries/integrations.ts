@@ -0,0 +1,44 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables } from "../types";
+
+/**
+ * AI Integration Version Query Functions
+ *
+ * Type-safe queries for ai_integration_versions. Versions are immutable:
+ * there is deliberately no update or delete query.
+ */
+
+export async function getAiIntegrationVersions(
+  client: SupabaseClient,
+  integrationId: string
+) {
+  return client
+    .from("ai_integration_versions")
+    .select("*")
+    .eq("integration_id", integrationId)
+    .order("version", { ascending: false });
+}
+
+export async function getAiIntegrationVersion(
+  client: SupabaseClient,
+  integrationId: string,
+  version: number
+) {
+  return client
+    .from("ai_integration_versions")
+    .select("*")
+    .eq("integration_id", integrationId)
+    .eq("version", version)
+    .maybeSingle();
+}
+
+export async function createAiIntegrationVersion(
+  client: SupabaseClient,
+  data: InsertTables<"ai_integration_versions">
+) {
+  return client
+    .from("ai_integration_versions")
+    .insert(data)
+    .select()
+    .single();
+}
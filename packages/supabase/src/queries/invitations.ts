@@ -0,0 +1,61 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables, UpdateTables } from "../types";
+
+/**
+ * Organization Invitation Query Functions
+ *
+ * Type-safe queries for organization_invitations. Tokens are never
+ * stored; invitations are looked up by the token's hash.
+ */
+
+/** Open invitations of an organization, newest first (expired ones included) */
+export async function getPendingInvitations(client: SupabaseClient, orgId: string) {
+  return client
+    .from("organization_invitations")
+    .select("*")
+    .eq("organization_id", orgId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+}
+
+/** Number of pending invitations that have not expired */
+export async function countOpenInvitations(client: SupabaseClient, orgId: string) {
+  return client
+    .from("organization_invitations")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", orgId)
+    .eq("status", "pending")
+    .gt("expires_at", new Date().toISOString());
+}
+
+export async function getInvitationById(client: SupabaseClient, id: string) {
+  return client.from("organization_invitations").select("*").eq("id", id).maybeSingle();
+}
+
+export async function getInvitationByTokenHash(client: SupabaseClient, tokenHash: string) {
+  return client
+    .from("organization_invitations")
+    .select("*")
+    .eq("token_hash", tokenHash)
+    .maybeSingle();
+}
+
+export async function createInvitation(
+  client: SupabaseClient,
+  data: InsertTables<"organization_invitations">
+) {
+  return client.from("organization_invitations").insert(data).select().single();
+}
+
+export async function updateInvitation(
+  client: SupabaseClient,
+  id: string,
+  data: UpdateTables<"organization_invitations">
+) {
+  return client
+    .from("organization_invitations")
+    .update(data)
+    .eq("id", id)
+    .select()
+    .single();
+}
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables, Tables } from "../types";
+
+/**
+ * Knowledge Base Query Functions
+ *
+ * Type-safe queries for knowledge_chunks. A source's chunks are replaced
+ * as a set when it is re-indexed.
+ */
+
+type SourceType = Tables<"knowledge_chunks">["source_type"];
+
+/** The first chunk of a source, for change detection before re-indexing */
+export async function getKnowledgeSourceHead(
+  client: SupabaseClient,
+  workspaceId: string,
+  sourceType: SourceType,
+  sourceId: string
+) {
+  return client
+    .from("knowledge_chunks")
+    .select("content_hash, embedding_model")
+    .eq("workspace_id", workspaceId)
+    .eq("source_type", sourceType)
+    .eq("source_id", sourceId)
+    .eq("chunk_index", 0)
+    .maybeSingle();
+}
+
+export async function getKnowledgeSources(client: SupabaseClient, workspaceId: string) {
+  return client.rpc("get_knowledge_sources", { p_workspace_id: workspaceId });
+}
+
+export async function createKnowledgeChunks(
+  client: SupabaseClient,
+  chunks: InsertTables<"knowledge_chunks">[]
+) {
+  return client.from("knowledge_chunks").insert(chunks);
+}
+
+export async function deleteKnowledgeSource(
+  client: SupabaseClient,
+  workspaceId: string,
+  sourceType: SourceType,
+  sourceId: string
+) {
+  return client
+    .from("knowledge_chunks")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("source_type", sourceType)
+    .eq("source_id", sourceId)
+    .select("id");
+}
+
+/** Top-k chunks by cosine similarity; `embedding` is pgvector text form */
+export async function matchKnowledgeChunks(
+  client: SupabaseClient,
+  params: {
+    workspaceId: string;
+    embedding: string;
+    embeddingModel: string;
+    matchCount: number;
+    minScore?: number;
+  }
+) {
+  return client.rpc("match_knowledge_chunks", {
+    p_workspace_id: params.workspaceId,
+    p_embedding: params.embedding,
+    p_embedding_model: params.embeddingModel,
+    p_match_count: params.matchCount,
+    ...(params.minScore !== undefined ? { p_min_score: params.minScore } : {}),
+  });
+}
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "../client";
+
+/**
+ * MFA Recovery Code Query Functions
+ *
+ * Type-safe queries for mfa_recovery_codes. Codes are never stored; they
+ * are looked up by their hash. Writes need the service role.
+ */
+
+/** Number of recovery codes the user has not used yet */
+export async function countUnusedRecoveryCodes(client: SupabaseClient, userId: string) {
+  return client
+    .from("mfa_recovery_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("used_at", null);
+}
+
+export async function createRecoveryCodes(
+  client: SupabaseClient,
+  userId: string,
+  codeHashes: string[]
+) {
+  return client
+    .from("mfa_recovery_codes")
+    .insert(codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash })));
+}
+
+export async function deleteRecoveryCodes(client: SupabaseClient, userId: string) {
+  return client.from("mfa_recovery_codes").delete().eq("user_id", userId);
+}
+
+/**
+ * Mark an unused code as used. Returns the row only if this call used it,
+ * so a code cannot be redeemed twice.
+ */
+export async function markRecoveryCodeUsed(
+  client: SupabaseClient,
+  userId: string,
+  codeHash: string
+) {
+  return client
+    .from("mfa_recovery_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("code_hash", codeHash)
+    .is("used_at", null)
+    .select("id")
+    .maybeSingle();
+}
@@ -0,0 +1,29 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables } from "../types";
+
+/**
+ * AI Usage Query Functions
+ *
+ * Type-safe queries for the ai_usage_events ledger. Rows are append-only.
+ */
+
+export async function createAiUsageEvent(
+  client: SupabaseClient,
+  data: InsertTables<"ai_usage_events">
+) {
+  return client.from("ai_usage_events").insert(data);
+}
+
+/** Provider calls, tokens, estimated cost and cache hits for an organization since `since` */
+export async function getAiUsageTotals(
+  client: SupabaseClient,
+  organizationId: string,
+  since: string
+) {
+  return client
+    .rpc("get_ai_usage_totals", {
+      p_organization_id: organizationId,
+      p_since: since,
+    })
+    .single();
+}
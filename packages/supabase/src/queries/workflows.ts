@@ -0,0 +1,150 @@
+import type { SupabaseClient } from "../client";
+import type { InsertTables, Tables, UpdateTables } from "../types";
+
+/**
+ * Workflow Execution Query Functions
+ *
+ * Type-safe queries for workflow_executions and workflow_node_executions.
+ */
+
+// ============================================================================
+// Workflows
+// ============================================================================
+
+/** Active workflows declaring at least one trigger of the given type */
+export async function getWorkflowsByTrigger(
+  client: SupabaseClient,
+  triggerType: Tables<"workflow_executions">["trigger_type"],
+  workspaceIds?: string[]
+) {
+  let query = client
+    .from("ai_integrations")
+    .select("*")
+    .eq("type", "workflow")
+    .eq("is_active", true)
+    .contains("config", { triggers: [{ type: triggerType }] });
+
+  if (workspaceIds) {
+    query = query.in("workspace_id", workspaceIds);
+  }
+
+  return query;
+}
+
+// ============================================================================
+// Executions
+// ============================================================================
+
+export async function getWorkflowExecutions(
+  client: SupabaseClient,
+  filters?: {
+    workflowId?: string;
+    status?: Tables<"workflow_executions">["status"];
+    triggerType?: Tables<"workflow_executions">["trigger_type"];
+    page?: number;
+    perPage?: number;
+  }
+) {
+  const page = filters?.page ?? 1;
+  const perPage = filters?.perPage ?? 20;
+  const from = (page - 1) * perPage;
+  const to = from + perPage - 1;
+
+  let query = client
+    .from("workflow_executions")
+    .select("*", { count: "exact" })
+    .order("started_at", { ascending: false })
+    .range(from, to);
+
+  if (filters?.workflowId) {
+    query = query.eq("workflow_id", filters.workflowId);
+  }
+  if (filters?.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters?.triggerType) {
+    query = query.eq("trigger_type", filters.triggerType);
+  }
+
+  return query;
+}
+
+export async function getWorkflowExecutionById(
+  client: SupabaseClient,
+  id: string
+) {
+  return client
+    .from("workflow_executions")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+}
+
+export async function createWorkflowExecution(
+  client: SupabaseClient,
+  data: InsertTables<"workflow_executions">
+) {
+  return client
+    .from("workflow_executions")
+    .insert(data)
+    .select()
+    .single();
+}
+
+export async function updateWorkflowExecution(
+  client: SupabaseClient,
+  id: string,
+  data: UpdateTables<"workflow_executions">
+) {
+  return client
+    .from("workflow_executions")
+    .update(data)
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Move an execution out of `status` only if it is still in it. Resolves
+ * to null when another request changed the status first.
+ */
+export async function claimWorkflowExecution(
+  client: SupabaseClient,
+  id: string,
+  status: Tables<"workflow_executions">["status"],
+  data: UpdateTables<"workflow_executions">
+) {
+  return client
+    .from("workflow_executions")
+    .update(data)
+    .eq("id", id)
+    .eq("status", status)
+    .select()
+    .maybeSingle();
+}
+
+// ============================================================================
+// Node Executions
+// ============================================================================
+
+export async function getNodeExecutions(
+  client: SupabaseClient,
+  executionId: string
+) {
+  return client
+    .from("workflow_node_executions")
+    .select("*")
+    .eq("execution_id", executionId)
+    .order("created_at", { ascending: true });
+}
+
+/** Insert or replace node records (one per node per execution) */
+export async function upsertNodeExecutions(
+  client: SupabaseClient,
+  data: InsertTables<"workflow_node_executions">[]
+) {
+  return client
+    .from("workflow_node_executions")
+    .upsert(data, { onConflict: "execution_id,node_id" })
+    .select();
+}
@@ -796,6 +796,828 @@ export type Database = {
         };
         Relationships: [];
       };
+      agent_conversations: {
+        Row: {
+          id: string;
+          agent_id: string;
+          user_id: string;
+          title: string | null;
+          summary: string | null;
+          metadata: Record<string, unknown>;
+          message_count: number;
+          total_tokens: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          agent_id: string;
+          user_id: string;
+          title?: string | null;
+          summary?: string | null;
+          metadata?: Record<string, unknown>;
+          message_count?: number;
+          total_tokens?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          agent_id?: string;
+          user_id?: string;
+          title?: string | null;
+          summary?: string | null;
+          metadata?: Record<string, unknown>;
+          message_count?: number;
+          total_tokens?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "agent_conversations_agent_id_fkey";
+            columns: ["agent_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_integrations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      agent_messages: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          role: "system" | "user" | "assistant" | "tool";
+          content: string;
+          tool_calls: unknown[] | null;
+          tool_results: unknown[] | null;
+          attachments: unknown[] | null;
+          citations: unknown[] | null;
+          token_count: number;
+          is_summarized: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          conversation_id: string;
+          role: "system" | "user" | "assistant" | "tool";
+          content?: string;
+          tool_calls?: unknown[] | null;
+          tool_results?: unknown[] | null;
+          attachments?: unknown[] | null;
+          citations?: unknown[] | null;
+          token_count?: number;
+          is_summarized?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          conversation_id?: string;
+          role?: "system" | "user" | "assistant" | "tool";
+          content?: string;
+          tool_calls?: unknown[] | null;
+          tool_results?: unknown[] | null;
+          attachments?: unknown[] | null;
+          citations?: unknown[] | null;
+          token_count?: number;
+          is_summarized?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "agent_messages_conversation_id_fkey";
+            columns: ["conversation_id"];
+            isOneToOne: false;
+            referencedRelation: "agent_conversations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      workflow_executions: {
+        Row: {
+          id: string;
+          workflow_id: string;
+          workspace_id: string;
+          workflow_version: number;
+          status: "pending" | "running" | "completed" | "failed" | "cancelled" | "waiting_for_review";
+          trigger_type: "manual" | "schedule" | "webhook" | "event" | "api";
+          inputs: Record<string, unknown>;
+          outputs: Record<string, unknown> | null;
+          error: string | null;
+          triggered_by: string | null;
+          started_at: string;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          workflow_id: string;
+          workspace_id: string;
+          workflow_version?: number;
+          status?: "pending" | "running" | "completed" | "failed" | "cancelled" | "waiting_for_review";
+          trigger_type?: "manual" | "schedule" | "webhook" | "event" | "api";
+          inputs?: Record<string, unknown>;
+          outputs?: Record<string, unknown> | null;
+          error?: string | null;
+          triggered_by?: string | null;
+          started_at?: string;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          workflow_id?: string;
+          workspace_id?: string;
+          workflow_version?: number;
+          status?: "pending" | "running" | "completed" | "failed" | "cancelled" | "waiting_for_review";
+          trigger_type?: "manual" | "schedule" | "webhook" | "event" | "api";
+          inputs?: Record<string, unknown>;
+          outputs?: Record<string, unknown> | null;
+          error?: string | null;
+          triggered_by?: string | null;
+          started_at?: string;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "workflow_executions_workflow_id_fkey";
+            columns: ["workflow_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_integrations";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "workflow_executions_workspace_id_fkey";
+            columns: ["workspace_id"];
+            isOneToOne: false;
+            referencedRelation: "workspaces";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      workflow_node_executions: {
+        Row: {
+          id: string;
+          execution_id: string;
+          node_id: string;
+          status: "pending" | "running" | "completed" | "failed" | "skipped";
+          input: unknown;
+          output: unknown;
+          error: string | null;
+          review: Record<string, unknown> | null;
+          started_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          execution_id: string;
+          node_id: string;
+          status?: "pending" | "running" | "completed" | "failed" | "skipped";
+          input?: unknown;
+          output?: unknown;
+          error?: string | null;
+          review?: Record<string, unknown> | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          execution_id?: string;
+          node_id?: string;
+          status?: "pending" | "running" | "completed" | "failed" | "skipped";
+          input?: unknown;
+          output?: unknown;
+          error?: string | null;
+          review?: Record<string, unknown> | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "workflow_node_executions_execution_id_fkey";
+            columns: ["execution_id"];
+            isOneToOne: false;
+            referencedRelation: "workflow_executions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ai_integration_versions: {
+        Row: {
+          id: string;
+          integration_id: string;
+          version: number;
+          name: string;
+          description: string | null;
+          config: Record<string, unknown>;
+          restored_from: number | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          integration_id: string;
+          version: number;
+          name: string;
+          description?: string | null;
+          config?: Record<string, unknown>;
+          restored_from?: number | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: "ai_integration_versions_integration_id_fkey";
+            columns: ["integration_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_integrations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ai_usage_events: {
+        Row: {
+          id: string;
+          organization_id: string;
+          workspace_id: string | null;
+          integration_id: string | null;
+          execution_id: string | null;
+          user_id: string | null;
+          source: "chat" | "agent" | "workflow" | "eval" | "embedding";
+          provider: string;
+          model: string;
+          prompt_tokens: number;
+          completion_tokens: number;
+          total_tokens: number;
+          latency_ms: number;
+          cost_usd: number;
+          cache_hit: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          workspace_id?: string | null;
+          integration_id?: string | null;
+          execution_id?: string | null;
+          user_id?: string | null;
+          source: "chat" | "agent" | "workflow" | "eval" | "embedding";
+          provider: string;
+          model: string;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
+          latency_ms?: number;
+          cost_usd?: number;
+          cache_hit?: boolean;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_events_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      prompt_eval_datasets: {
+        Row: {
+          id: string;
+          integration_id: string;
+          name: string;
+          description: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          integration_id: string;
+          name: string;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "prompt_eval_datasets_integration_id_fkey";
+            columns: ["integration_id"];
+            isOneToOne: false;
+            referencedRelation: "ai_integrations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      prompt_eval_cases: {
+        Row: {
+          id: string;
+          dataset_id: string;
+          position: number;
+          name: string;
+          variables: Record<string, unknown>;
+          assertions: Record<string, unknown>[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          dataset_id: string;
+          position?: number;
+          name: string;
+          variables?: Record<string, unknown>;
+          assertions?: Record<string, unknown>[];
+          created_at?: string;
+        };
+        Update: {
+          position?: number;
+          name?: string;
+          variables?: Record<string, unknown>;
+          assertions?: Record<string, unknown>[];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "prompt_eval_cases_dataset_id_fkey";
+            columns: ["dataset_id"];
+            isOneToOne: false;
+            referencedRelation: "prompt_eval_datasets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      prompt_eval_runs: {
+        Row: {
+          id: string;
+          dataset_id: string;
+          integration_id: string;
+          prompt_version: number;
+          provider: string;
+          model: string;
+          status: "running" | "completed" | "failed";
+          passed: number;
+          failed: number;
+          score: number;
+          triggered_by: string | null;
+          started_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          dataset_id: string;
+          integration_id: string;
+          prompt_version: number;
+          provider: string;
+          model: string;
+          status?: "running" | "completed" | "failed";
+          passed?: number;
+          failed?: number;
+          score?: number;
+          triggered_by?: string | null;
+          started_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          status?: "running" | "completed" | "failed";
+          passed?: number;
+          failed?: number;
+          score?: number;
+          completed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "prompt_eval_runs_dataset_id_fkey";
+            columns: ["dataset_id"];
+            isOneToOne: false;
+            referencedRelation: "prompt_eval_datasets";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      prompt_eval_results: {
+        Row: {
+          id: string;
+          run_id: string;
+          case_id: string | null;
+          case_name: string;
+          output: string;
+          passed: boolean;
+          score: number;
+          assertions: Record<string, unknown>[];
+          usage: Record<string, unknown> | null;
+          latency_ms: number;
+          error: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          run_id: string;
+          case_id?: string | null;
+          case_name: string;
+          output?: string;
+          passed: boolean;
+          score: number;
+          assertions?: Record<string, unknown>[];
+          usage?: Record<string, unknown> | null;
+          latency_ms?: number;
+          error?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: "prompt_eval_results_run_id_fkey";
+            columns: ["run_id"];
+            isOneToOne: false;
+            referencedRelation: "prompt_eval_runs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      knowledge_chunks: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          source_type: "blog_post" | "dynamic_page" | "file";
+          source_id: string;
+          source_title: string;
+          source_url: string | null;
+          chunk_index: number;
+          content: string;
+          token_count: number;
+          content_hash: string;
+          embedding_model: string;
+          /** pgvector text form, e.g. "[0.1,0.2]" */
+          embedding: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          workspace_id: string;
+          source_type: "blog_post" | "dynamic_page" | "file";
+          source_id: string;
+          source_title: string;
+          source_url?: string | null;
+          chunk_index: number;
+          content: string;
+          token_count?: number;
+          content_hash: string;
+          embedding_model: string;
+          embedding: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          workspace_id?: string;
+          source_type?: "blog_post" | "dynamic_page" | "file";
+          source_id?: string;
+          source_title?: string;
+          source_url?: string | null;
+          chunk_index?: number;
+          content?: string;
+          token_count?: number;
+          content_hash?: string;
+          embedding_model?: string;
+          embedding?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      billing_customers: {
+        Row: {
+          id: string;
+          organization_id: string;
+          stripe_customer_id: string;
+          email: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          stripe_customer_id: string;
+          email?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          stripe_customer_id?: string;
+          email?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "billing_customers_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: true;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      billing_subscriptions: {
+        Row: {
+          id: string;
+          organization_id: string;
+          stripe_subscription_id: string;
+          stripe_customer_id: string;
+          stripe_price_id: string | null;
+          plan: "free" | "starter" | "pro" | "enterprise";
+          status:
+            | "incomplete"
+            | "incomplete_expired"
+            | "trialing"
+            | "active"
+            | "past_due"
+            | "canceled"
+            | "unpaid"
+            | "paused";
+          current_period_start: string | null;
+          current_period_end: string | null;
+          cancel_at_period_end: boolean;
+          canceled_at: string | null;
+          trial_end: string | null;
+          last_event_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          stripe_subscription_id: string;
+          stripe_customer_id: string;
+          stripe_price_id?: string | null;
+          plan: "free" | "starter" | "pro" | "enterprise";
+          status:
+            | "incomplete"
+            | "incomplete_expired"
+            | "trialing"
+            | "active"
+            | "past_due"
+            | "canceled"
+            | "unpaid"
+            | "paused";
+          current_period_start?: string | null;
+          current_period_end?: string | null;
+          cancel_at_period_end?: boolean;
+          canceled_at?: string | null;
+          trial_end?: string | null;
+          last_event_at: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          stripe_subscription_id?: string;
+          stripe_customer_id?: string;
+          stripe_price_id?: string | null;
+          plan?: "free" | "starter" | "pro" | "enterprise";
+          status?:
+            | "incomplete"
+            | "incomplete_expired"
+            | "trialing"
+            | "active"
+            | "past_due"
+            | "canceled"
+            | "unpaid"
+            | "paused";
+          current_period_start?: string | null;
+          current_period_end?: string | null;
+          cancel_at_period_end?: boolean;
+          canceled_at?: string | null;
+          trial_end?: string | null;
+          last_event_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "billing_subscriptions_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      billing_invoices: {
+        Row: {
+          id: string;
+          organization_id: string;
+          stripe_invoice_id: string;
+          stripe_subscription_id: string | null;
+          status: "draft" | "open" | "paid" | "uncollectible" | "void";
+          amount_due: number;
+          amount_paid: number;
+          currency: string;
+          hosted_invoice_url: string | null;
+          invoice_pdf: string | null;
+          period_start: string | null;
+          period_end: string | null;
+          paid_at: string | null;
+          payment_failed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          stripe_invoice_id: string;
+          stripe_subscription_id?: string | null;
+          status: "draft" | "open" | "paid" | "uncollectible" | "void";
+          amount_due?: number;
+          amount_paid?: number;
+          currency: string;
+          hosted_invoice_url?: string | null;
+          invoice_pdf?: string | null;
+          period_start?: string | null;
+          period_end?: string | null;
+          paid_at?: string | null;
+          payment_failed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          stripe_invoice_id?: string;
+          stripe_subscription_id?: string | null;
+          status?: "draft" | "open" | "paid" | "uncollectible" | "void";
+          amount_due?: number;
+          amount_paid?: number;
+          currency?: string;
+          hosted_invoice_url?: string | null;
+          invoice_pdf?: string | null;
+          period_start?: string | null;
+          period_end?: string | null;
+          paid_at?: string | null;
+          payment_failed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "billing_invoices_organization_id_fkey";
+            columns: ["organization_id"];
+            isOneToOne: false;
+            referencedRelation: "organizations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      billing_events: {
+        Row: {
+          stripe_event_id: string;
+          type: string;
+          processed_at: string;
+        };
+        Insert: {
+          stripe_event_id: string;
+          type: string;
+          processed_at?: string;
+        };
+        Update: {
+          stripe_event_id?: string;
+          type?: string;
+          processed_at?: string;
+        };
+        Relationships: [];
+      };
+      feature_flags: {
+        Row: {
+          id: string;
+          key: string;
+          description: string | null;
+          enabled: boolean;
+          rollout_percentage: number;
+          target_roles: string[];
+          target_organization_ids: string[];
+          updated_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          key: string;
+          description?: string | null;
+          enabled?: boolean;
+          rollout_percentage?: number;
+          target_roles?: string[];
+          target_organization_ids?: string[];
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          key?: string;
+          description?: string | null;
+          enabled?: boolean;
+          rollout_percentage?: number;
+          target_roles?: string[];
+          target_organization_ids?: string[];
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      organization_invitations: {
+        Row: {
+          id: string;
+          organization_id: string;
+          email: string;
+          role: "admin" | "member" | "viewer";
+          token_hash: string;
+          status: "pending" | "accepted" | "revoked";
+          expires_at: string;
+          invited_by: string | null;
+          accepted_by: string | null;
+          accepted_at: string | null;
+          revoked_at: string | null;
+          send_count: number;
+          last_sent_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          email: string;
+          role?: "admin" | "member" | "viewer";
+          token_hash: string;
+          status?: "pending" | "accepted" | "revoked";
+          expires_at: string;
+          invited_by?: string | null;
+          accepted_by?: string | null;
+          accepted_at?: string | null;
+          revoked_at?: string | null;
+          send_count?: number;
+          last_sent_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          email?: string;
+          role?: "admin" | "member" | "viewer";
+          token_hash?: string;
+          status?: "pending" | "accepted" | "revoked";
+          expires_at?: string;
+          invited_by?: string | null;
+          accepted_by?: string | null;
+          accepted_at?: string | null;
+          revoked_at?: string | null;
+          send_count?: number;
+          last_sent_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      mfa_recovery_codes: {
+        Row: {
+          id: string;
+          user_id: string;
+          code_hash: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          code_hash: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          code_hash?: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: Record<string, never>;
     Functions: {
@@ -823,6 +1645,58 @@ export type Database = {
         };
         Returns: number;
       };
+      get_ai_usage_totals: {
+        Args: {
+          p_organization_id: string;
+          p_since: string;
+        };
+        Returns: {
+          request_count: number;
+          total_tokens: number;
+          cost_usd: number;
+          cache_hit_count: number;
+        }[];
+      };
+      match_knowledge_chunks: {
+        Args: {
+          p_workspace_id: string;
+          p_embedding: string;
+          p_embedding_model: string;
+          p_match_count?: number;
+          p_min_score?: number;
+        };
+        Returns: {
+          id: string;
+          source_type: "blog_post" | "dynamic_page" | "file";
+          source_id: string;
+          source_title: string;
+          source_url: string | null;
+          chunk_index: number;
+          content: string;
+          score: number;
+        }[];
+      };
+      get_knowledge_sources: {
+        Args: {
+          p_workspace_id: string;
+        };
+        Returns: {
+          source_type: "blog_post" | "dynamic_page" | "file";
+          source_id: string;
+          source_title: string;
+          source_url: string | null;
+          chunk_count: number;
+          embedding_model: string;
+          indexed_at: string;
+        }[];
+      };
+      transfer_organization_ownership: {
+        Args: {
+          p_organization_id: string;
+          p_new_owner_id: string;
+        };
+        Returns: undefined;
+      };
     };
     Enums: {
       profile_role: "super_admin" | "admin" | "member" | "viewer";